@@ -0,0 +1,163 @@
+/**
+ * Admin roster rules
+ * Validation and superadmin-only mutation checks for the /admins API
+ */
+
+const ADMIN_ROLES = ['admin', 'superadmin']
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Check whether a user record is on the admin roster
+ * @param {{ role: string }} user
+ * @returns {boolean}
+ */
+function isAdminRole(user) {
+  return ADMIN_ROLES.includes(user?.role)
+}
+
+/**
+ * Derive a display name from an email address ("john.smith@..." -> "John Smith")
+ * @param {string} email
+ * @returns {string}
+ */
+function nameFromEmail(email) {
+  return email
+    .split('@')[0]
+    .replace(/[._-]+/g, ' ')
+    .replace(/\b\w/g, l => l.toUpperCase())
+}
+
+/**
+ * Validate a UserLocation payload
+ * @param {Object} location
+ * @returns {string | null} error message
+ */
+function validateLocation(location) {
+  if (!location || typeof location !== 'object') return 'location is required'
+  for (const field of ['majcom', 'installation', 'wing']) {
+    if (typeof location[field] !== 'string' || !location[field].trim()) {
+      return `location.${field} is required`
+    }
+  }
+  for (const field of ['group', 'squadron']) {
+    if (location[field] !== undefined && typeof location[field] !== 'string') {
+      return `location.${field} must be a string`
+    }
+  }
+  return null
+}
+
+/**
+ * Validate the optional display fields and temporary password of an admin request
+ * @param {{ name?: unknown, title?: unknown, password?: unknown }} input
+ * @returns {string | null} error message
+ */
+function validateAdminFields(input) {
+  for (const field of ['name', 'title']) {
+    if (input[field] !== undefined && input[field] !== null && typeof input[field] !== 'string') {
+      return `${field} must be a string`
+    }
+  }
+  if (input.password !== undefined && (typeof input.password !== 'string' || input.password.length < 8)) {
+    return 'password must be at least 8 characters'
+  }
+  return null
+}
+
+/**
+ * Validate the body of a create-admin request
+ * @param {{ email?: string, role?: string, location?: Object, name?: string, title?: string, password?: string }} input
+ * @returns {string | null} error message
+ */
+function validateAdminInput(input) {
+  if (typeof input?.email !== 'string' || !EMAIL_PATTERN.test(input.email)) return 'A valid email address is required'
+  if (!ADMIN_ROLES.includes(input.role)) return 'role must be "admin" or "superadmin"'
+  return validateAdminFields(input) || validateLocation(input.location)
+}
+
+/**
+ * Validate the body of an update-admin request; every field is optional
+ * @param {{ role?: string, location?: Object, name?: string, title?: string, password?: string }} input
+ * @returns {string | null} error message
+ */
+function validateAdminUpdate(input) {
+  if (!input || typeof input !== 'object') return 'Request body must be a JSON object'
+  if (input.location !== undefined) {
+    const error = validateLocation(input.location)
+    if (error) return error
+  }
+  return validateAdminFields(input)
+}
+
+/**
+ * Decide whether `actor` may apply a roster change to `target`
+ * @param {Object} actor - signed-in user
+ * @param {Object} target - user being changed
+ * @param {'remove' | 'update'} action
+ * @param {Array} users - every user record (for last-superadmin checks)
+ * @param {{ role?: string }} [patch]
+ * @returns {{ allowed: boolean, reason?: string }}
+ */
+function checkAdminMutation(actor, target, action, users, patch = {}) {
+  if (actor?.role !== 'superadmin') {
+    return { allowed: false, reason: 'Only superadmins can manage administrators' }
+  }
+
+  if (action === 'remove') {
+    if (target.id === actor.id) {
+      return { allowed: false, reason: 'You cannot remove yourself' }
+    }
+    if (target.role === 'superadmin') {
+      return { allowed: false, reason: 'Superadmins cannot be removed - change their role to admin first' }
+    }
+    return { allowed: true }
+  }
+
+  if (patch.role !== undefined && patch.role !== target.role) {
+    if (!ADMIN_ROLES.includes(patch.role)) {
+      return { allowed: false, reason: 'role must be "admin" or "superadmin"' }
+    }
+    if (target.id === actor.id) {
+      return { allowed: false, reason: 'You cannot change your own role' }
+    }
+    const superadmins = users.filter(u => u.role === 'superadmin' && !u.disabled)
+    if (target.role === 'superadmin' && superadmins.length <= 1) {
+      return { allowed: false, reason: 'At least one superadmin is required' }
+    }
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * Shape a user record for the admin roster response
+ * @param {Object} user
+ * @param {Object} actor - signed-in user (drives can_remove)
+ * @returns {Object}
+ */
+function toAdminMember(user, actor) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.username,
+    title: user.title || null,
+    role: user.role,
+    location: user.location,
+    can_sign_in: Boolean(user.password_hash),
+    can_remove: user.role !== 'superadmin' && user.id !== actor?.id,
+    created_at: user.created_at || null,
+    updated_at: user.updated_at || null
+  }
+}
+
+export {
+  ADMIN_ROLES,
+  isAdminRole,
+  nameFromEmail,
+  validateLocation,
+  validateAdminInput,
+  validateAdminUpdate,
+  checkAdminMutation,
+  toAdminMember
+}
@@ -0,0 +1,120 @@
+/**
+ * Tests for admin roster validation and mutation rules
+ * Run with: node --test server/admins.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  nameFromEmail,
+  validateAdminInput,
+  validateAdminUpdate,
+  checkAdminMutation,
+  toAdminMember
+} from './admins.js'
+
+const location = { majcom: 'AETC', installation: 'JBSA', wing: '73 MDW' }
+
+const sarah = { id: 'u1', username: 'sarah@us.af.mil', name: 'Sarah', role: 'superadmin', location, password_hash: 'x' }
+const david = { id: 'u2', username: 'david@us.af.mil', name: 'David', role: 'superadmin', location }
+const john = { id: 'u3', username: 'john@us.af.mil', name: 'John', role: 'admin', location }
+const users = [sarah, david, john]
+
+describe('validateAdminInput', () => {
+  test('accepts a complete admin', () => {
+    assert.strictEqual(validateAdminInput({ email: 'a.b@us.af.mil', role: 'admin', location }), null)
+  })
+
+  test('rejects invalid email', () => {
+    assert.ok(validateAdminInput({ email: 'nope', role: 'admin', location })?.includes('email'))
+  })
+
+  test('rejects non-admin roles', () => {
+    assert.ok(validateAdminInput({ email: 'a@b.mil', role: 'user', location })?.includes('role'))
+  })
+
+  test('requires the location hierarchy', () => {
+    const error = validateAdminInput({ email: 'a@b.mil', role: 'admin', location: { majcom: 'AETC', installation: 'JBSA' } })
+    assert.strictEqual(error, 'location.wing is required')
+  })
+
+  test('rejects short temporary passwords', () => {
+    assert.ok(validateAdminInput({ email: 'a@b.mil', role: 'admin', location, password: 'short' })?.includes('password'))
+  })
+
+  test('rejects display fields that are not strings', () => {
+    assert.strictEqual(validateAdminInput({ email: 'a@b.mil', role: 'admin', location, name: 42 }), 'name must be a string')
+    assert.strictEqual(validateAdminInput({ email: 'a@b.mil', role: 'admin', location, title: { x: 1 } }), 'title must be a string')
+    assert.strictEqual(validateAdminInput({ email: ['a@b.mil'], role: 'admin', location }), 'A valid email address is required')
+  })
+})
+
+describe('validateAdminUpdate', () => {
+  test('accepts partial updates and password resets', () => {
+    assert.strictEqual(validateAdminUpdate({ title: 'Wing Admin' }), null)
+    assert.strictEqual(validateAdminUpdate({ password: 'new-password' }), null)
+  })
+
+  test('rejects bad locations, display fields and passwords', () => {
+    assert.strictEqual(validateAdminUpdate({ location: { majcom: 'AETC' } }), 'location.installation is required')
+    assert.strictEqual(validateAdminUpdate({ name: 7 }), 'name must be a string')
+    assert.ok(validateAdminUpdate({ password: 'short' })?.includes('password'))
+  })
+})
+
+describe('checkAdminMutation', () => {
+  test('only superadmins may change the roster', () => {
+    const result = checkAdminMutation(john, { ...john, id: 'u9' }, 'remove', users)
+    assert.strictEqual(result.allowed, false)
+  })
+
+  test('superadmins can remove admins', () => {
+    assert.strictEqual(checkAdminMutation(sarah, john, 'remove', users).allowed, true)
+  })
+
+  test('superadmins cannot be removed', () => {
+    const result = checkAdminMutation(sarah, david, 'remove', users)
+    assert.strictEqual(result.allowed, false)
+    assert.ok(result.reason?.includes('Superadmins'))
+  })
+
+  test('cannot change your own role', () => {
+    assert.strictEqual(checkAdminMutation(sarah, sarah, 'update', users, { role: 'admin' }).allowed, false)
+  })
+
+  test('can demote another superadmin while one remains', () => {
+    assert.strictEqual(checkAdminMutation(sarah, david, 'update', users, { role: 'admin' }).allowed, true)
+  })
+
+  test('cannot demote the last superadmin', () => {
+    const onlySarah = [sarah, { ...david, role: 'admin' }]
+    const actor = { ...sarah, id: 'other', role: 'superadmin' }
+    const result = checkAdminMutation(actor, sarah, 'update', onlySarah, { role: 'admin' })
+    assert.strictEqual(result.allowed, false)
+    assert.ok(result.reason?.includes('At least one superadmin'))
+  })
+
+  test('location-only updates are allowed', () => {
+    assert.strictEqual(checkAdminMutation(sarah, john, 'update', users, {}).allowed, true)
+  })
+})
+
+describe('toAdminMember', () => {
+  test('exposes email and removal flag without the password hash', () => {
+    const member = toAdminMember(sarah, david)
+    assert.strictEqual(member.email, 'sarah@us.af.mil')
+    assert.strictEqual(member.can_remove, false)
+    assert.strictEqual(member.can_sign_in, true)
+    assert.strictEqual('password_hash' in member, false)
+  })
+
+  test('admins other than the caller are removable', () => {
+    assert.strictEqual(toAdminMember(john, sarah).can_remove, true)
+  })
+})
+
+describe('nameFromEmail', () => {
+  test('title-cases the local part', () => {
+    assert.strictEqual(nameFromEmail('maria.johnson@us.af.mil'), 'Maria Johnson')
+  })
+})
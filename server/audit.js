@@ -0,0 +1,232 @@
+/**
+ * Append-only audit trail of document and version actions
+ * Entries are hash-chained so any edit or deletion in the log file is detectable
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+const AUDIT_ACTIONS = [
+  'document.create',
+  'version.upload',
+  'version.revert',
+  'version.approve',
+  'version.reject',
+  'version.effective',
+  'version.superseded',
+  'document.delete',
+  'workspace.reset',
+  'sample.add',
+  'workflow.save',
+  'workflow.delete',
+  'workflow.assign',
+  'relationship.create',
+  'relationship.confirm',
+  'relationship.dismiss',
+  'relationship.delete',
+  'references.review',
+  'library.import'
+]
+
+const GENESIS_HASH = '0'.repeat(64)
+
+// Entries an in-memory log keeps before dropping the oldest (session mode has no file to grow)
+const MAX_MEMORY_ENTRIES = 10000
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function hashEntry(entry) {
+  const { hash: _hash, ...rest } = entry
+  return crypto.createHash('sha256').update(JSON.stringify(rest)).digest('hex')
+}
+
+/**
+ * Reduce a document to the fields worth keeping in before/after state
+ * @param {Object} doc
+ * @returns {Object | null}
+ */
+function summarizeDocument(doc) {
+  if (!doc) return null
+  return {
+    id: doc.id,
+    name: doc.name,
+    short_title: doc.short_title || null,
+    current_version_id: doc.current_version_id,
+    version_count: doc.versions?.length || 0
+  }
+}
+
+/**
+ * Reduce a version to the fields worth keeping in before/after state
+ * @param {Object} version
+ * @returns {Object | null}
+ */
+function summarizeVersion(version) {
+  if (!version) return null
+  return {
+    id: version.id,
+    filename: version.filename,
+    original_name: version.original_name,
+    status: version.status || 'published',
+    uploaded_by: version.uploaded_by
+  }
+}
+
+/**
+ * Create the audit log. With a `dir` entries are appended to `audit.jsonl`
+ * and never rewritten; without one the log lives in memory (demo session mode)
+ * and keeps only the newest `maxEntries`.
+ * @param {{ dir?: string | null, maxEntries?: number }} options
+ */
+function createAuditLog({ dir = null, maxEntries = MAX_MEMORY_ENTRIES } = {}) {
+  const logFile = dir ? path.join(dir, 'audit.jsonl') : null
+  const entries = []
+  // Hash of the last entry dropped from memory, where verification of the kept entries starts
+  let droppedHash = GENESIS_HASH
+
+  if (logFile) {
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true })
+    if (fs.existsSync(logFile)) {
+      for (const line of fs.readFileSync(logFile, 'utf-8').split('\n')) {
+        if (!line.trim()) continue
+        try {
+          entries.push(JSON.parse(line))
+        } catch {
+          console.error('Skipping unreadable audit entry')
+        }
+      }
+    }
+  }
+
+  return {
+    /**
+     * Append an event
+     * @param {{ workspace: string, action: string, actor: Object | null, ip?: string | null,
+     *   document_id?: string | null, version_id?: string | null, before?: any, after?: any, details?: Object }} event
+     * @returns {Object} stored entry
+     */
+    record(event) {
+      const previous = entries[entries.length - 1]
+      const entry = {
+        id: crypto.randomUUID(),
+        seq: (previous?.seq || 0) + 1,
+        at: new Date().toISOString(),
+        workspace: event.workspace,
+        action: event.action,
+        actor: event.actor || null,
+        ip: event.ip || null,
+        document_id: event.document_id || null,
+        version_id: event.version_id || null,
+        before: event.before ?? null,
+        after: event.after ?? null,
+        details: event.details || null,
+        prev_hash: previous?.hash || GENESIS_HASH
+      }
+      entry.hash = hashEntry(entry)
+
+      entries.push(entry)
+      if (logFile) {
+        fs.appendFileSync(logFile, JSON.stringify(entry) + '\n')
+      } else if (entries.length > maxEntries) {
+        droppedHash = entries.splice(0, entries.length - maxEntries).pop().hash
+      }
+      return entry
+    },
+
+    /**
+     * Query entries, newest first
+     * @param {{ workspace?: string, action?: string, actor?: string, document_id?: string,
+     *   from?: string, to?: string, limit?: number, offset?: number }} filters
+     * @returns {{ total: number, entries: Array }}
+     */
+    query(filters = {}) {
+      const from = filters.from ? new Date(filters.from) : null
+      const to = filters.to ? new Date(filters.to) : null
+      const actor = filters.actor?.toLowerCase()
+
+      const matched = entries.filter(e => {
+        if (filters.workspace && e.workspace !== filters.workspace) return false
+        if (filters.action && e.action !== filters.action) return false
+        if (filters.document_id && e.document_id !== filters.document_id) return false
+        if (actor && !(e.actor?.id === filters.actor || e.actor?.name?.toLowerCase().includes(actor))) return false
+        if (from && new Date(e.at) < from) return false
+        if (to && new Date(e.at) > to) return false
+        return true
+      }).reverse()
+
+      const offset = Math.max(0, filters.offset || 0)
+      const limit = filters.limit ? Math.max(1, filters.limit) : matched.length
+      return { total: matched.length, entries: matched.slice(offset, offset + limit) }
+    },
+
+    /**
+     * Re-hash the chain and report the first broken link, if any
+     * @returns {{ valid: boolean, broken_at?: number }}
+     */
+    verify() {
+      return verifyChain(entries, droppedHash)
+    }
+  }
+}
+
+/**
+ * Check that every entry's hash and prev_hash link are intact
+ * @param {Array} entries - in append order
+ * @param {string} [startHash] - hash the first entry links to, when earlier entries were dropped
+ * @returns {{ valid: boolean, broken_at?: number }}
+ */
+function verifyChain(entries, startHash = GENESIS_HASH) {
+  let prevHash = startHash
+  for (const entry of entries) {
+    if (entry.prev_hash !== prevHash || hashEntry(entry) !== entry.hash) {
+      return { valid: false, broken_at: entry.seq }
+    }
+    prevHash = entry.hash
+  }
+  return { valid: true }
+}
+
+function csvCell(value) {
+  if (value === null || value === undefined) return ''
+  const raw = typeof value === 'string' ? value : JSON.stringify(value)
+  // Quote-prefix formula-like text (names, notes) so exported cells stay plain text
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Render audit entries as CSV
+ * @param {Array} entries
+ * @returns {string}
+ */
+function auditToCsv(entries) {
+  const header = ['seq', 'at', 'action', 'actor_id', 'actor_name', 'actor_role', 'ip', 'document_id', 'version_id', 'before', 'after', 'details', 'hash']
+  const rows = entries.map(e => [
+    e.seq,
+    e.at,
+    e.action,
+    e.actor?.id,
+    e.actor?.name,
+    e.actor?.role,
+    e.ip,
+    e.document_id,
+    e.version_id,
+    e.before,
+    e.after,
+    e.details,
+    e.hash
+  ].map(csvCell).join(','))
+  return [header.join(','), ...rows].join('\n') + '\n'
+}
+
+export {
+  AUDIT_ACTIONS,
+  MAX_MEMORY_ENTRIES,
+  createAuditLog,
+  verifyChain,
+  summarizeDocument,
+  summarizeVersion,
+  auditToCsv
+}
@@ -0,0 +1,140 @@
+/**
+ * Tests for the hash-chained audit log
+ * Run with: node --test server/audit.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createAuditLog, verifyChain, auditToCsv, summarizeVersion } from './audit.js'
+
+const sarah = { id: 'u1', name: 'Sarah Mitchell', role: 'superadmin' }
+const john = { id: 'u2', name: 'John Smith', role: 'admin' }
+
+function tempDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'regsync-audit-'))
+}
+
+describe('createAuditLog', () => {
+  test('chains entries and verifies', () => {
+    const log = createAuditLog()
+    const first = log.record({ workspace: 'default', action: 'document.create', actor: sarah, document_id: 'd1' })
+    const second = log.record({ workspace: 'default', action: 'version.upload', actor: john, document_id: 'd1' })
+
+    assert.strictEqual(first.seq, 1)
+    assert.strictEqual(second.prev_hash, first.hash)
+    assert.deepStrictEqual(log.verify(), { valid: true })
+  })
+
+  test('survives a restart from the log file', () => {
+    const dir = tempDir()
+    try {
+      const log = createAuditLog({ dir })
+      log.record({ workspace: 'default', action: 'document.create', actor: sarah })
+      log.record({ workspace: 'default', action: 'document.delete', actor: sarah })
+
+      const reopened = createAuditLog({ dir })
+      assert.strictEqual(reopened.query().total, 2)
+      const third = reopened.record({ workspace: 'default', action: 'workspace.reset', actor: sarah })
+      assert.strictEqual(third.seq, 3)
+      assert.deepStrictEqual(reopened.verify(), { valid: true })
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('detects an edited entry in the log file', () => {
+    const dir = tempDir()
+    try {
+      const log = createAuditLog({ dir })
+      log.record({ workspace: 'default', action: 'version.approve', actor: john, version_id: 'v1' })
+      log.record({ workspace: 'default', action: 'version.reject', actor: john, version_id: 'v2' })
+
+      const file = path.join(dir, 'audit.jsonl')
+      fs.writeFileSync(file, fs.readFileSync(file, 'utf-8').replace('John Smith', 'Someone Else'))
+
+      assert.deepStrictEqual(createAuditLog({ dir }).verify(), { valid: false, broken_at: 1 })
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('query', () => {
+  const log = createAuditLog()
+  log.record({ workspace: 'default', action: 'document.create', actor: sarah, document_id: 'd1' })
+  log.record({ workspace: 'default', action: 'version.upload', actor: john, document_id: 'd1' })
+  log.record({ workspace: 'default', action: 'version.upload', actor: john, document_id: 'd2' })
+  log.record({ workspace: 'other', action: 'version.upload', actor: john, document_id: 'd9' })
+
+  test('returns newest first, scoped to a workspace', () => {
+    const { total, entries } = log.query({ workspace: 'default' })
+    assert.strictEqual(total, 3)
+    assert.deepStrictEqual(entries.map(e => e.seq), [3, 2, 1])
+  })
+
+  test('filters by action, document and actor name', () => {
+    assert.strictEqual(log.query({ workspace: 'default', action: 'version.upload' }).total, 2)
+    assert.strictEqual(log.query({ workspace: 'default', document_id: 'd1' }).total, 2)
+    assert.strictEqual(log.query({ workspace: 'default', actor: 'sarah' }).total, 1)
+    assert.strictEqual(log.query({ workspace: 'default', actor: 'u2' }).total, 2)
+  })
+
+  test('filters by time range', () => {
+    assert.strictEqual(log.query({ to: '2000-01-01T00:00:00Z' }).total, 0)
+    assert.strictEqual(log.query({ from: '2000-01-01T00:00:00Z' }).total, 4)
+  })
+
+  test('paginates', () => {
+    const { total, entries } = log.query({ workspace: 'default', limit: 1, offset: 1 })
+    assert.strictEqual(total, 3)
+    assert.strictEqual(entries[0].seq, 2)
+  })
+})
+
+describe('in-memory log', () => {
+  test('keeps the newest entries and still verifies', () => {
+    const log = createAuditLog({ maxEntries: 2 })
+    for (let i = 0; i < 5; i++) log.record({ workspace: `session-${i}`, action: 'sample.add', actor: sarah })
+
+    const { total, entries } = log.query()
+    assert.strictEqual(total, 2)
+    assert.deepStrictEqual(entries.map(e => e.seq), [5, 4])
+    assert.deepStrictEqual(log.verify(), { valid: true })
+  })
+})
+
+describe('verifyChain', () => {
+  test('detects a deleted entry', () => {
+    const log = createAuditLog()
+    for (let i = 0; i < 3; i++) log.record({ workspace: 'default', action: 'sample.add', actor: sarah })
+    const [newest, , oldest] = log.query().entries
+    assert.deepStrictEqual(verifyChain([oldest, newest]), { valid: false, broken_at: 3 })
+  })
+})
+
+describe('auditToCsv', () => {
+  test('escapes quotes, commas and serializes state', () => {
+    const log = createAuditLog()
+    log.record({
+      workspace: 'default',
+      action: 'version.reject',
+      actor: { id: 'u3', name: 'Smith, "JJ"', role: 'admin' },
+      before: summarizeVersion({ id: 'v1', filename: 'a.pdf', original_name: 'a.pdf', status: 'pending', uploaded_by: 'JJ' })
+    })
+    const [header, row] = auditToCsv(log.query().entries).trim().split('\n')
+
+    assert.ok(header.startsWith('seq,at,action,actor_id,actor_name'))
+    assert.ok(row.includes('"Smith, ""JJ"""'))
+    assert.ok(row.includes('""status"":""pending""'))
+  })
+
+  test('quote-prefixes cells a spreadsheet would run as formulas', () => {
+    const log = createAuditLog()
+    log.record({ workspace: 'default', action: 'sample.add', actor: { id: '=HYPERLINK("x")', name: '+1', role: '@SUM(A1)' }, ip: '-2' })
+    const [, row] = auditToCsv(log.query().entries).trim().split('\n')
+    assert.ok(row.includes(`"'=HYPERLINK(""x"")",'+1,'@SUM(A1),'-2`))
+  })
+})
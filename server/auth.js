@@ -0,0 +1,140 @@
+/**
+ * Authentication helpers: password hashing, signed session tokens and role permissions
+ */
+
+import crypto from 'crypto'
+
+// Permissions by role - the server is the source of truth, the client only displays them
+const PERMISSIONS = {
+  user: ['view_policies', 'ask_questions'],
+  admin: ['view_policies', 'ask_questions', 'upload_policies', 'manage_versions'],
+  superadmin: ['view_policies', 'ask_questions', 'upload_policies', 'manage_versions', 'manage_admins']
+}
+
+const ROLES = Object.keys(PERMISSIONS)
+
+// Session token lifetime (8 hours - one duty day)
+const TOKEN_TTL_MS = 8 * 60 * 60 * 1000
+
+/**
+ * Get the permissions granted to a role
+ * @param {string} role
+ * @returns {string[]}
+ */
+function getPermissions(role) {
+  return PERMISSIONS[role] || []
+}
+
+/**
+ * Check whether a role grants a permission
+ * @param {string} role
+ * @param {string} permission
+ * @returns {boolean}
+ */
+function hasPermission(role, permission) {
+  return getPermissions(role).includes(permission)
+}
+
+/**
+ * Hash a password with scrypt
+ * @param {string} password
+ * @param {string} [salt] - hex salt (random when omitted)
+ * @returns {string} "scrypt$<salt>$<hash>"
+ */
+function hashPassword(password, salt = crypto.randomBytes(16).toString('hex')) {
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex')
+  return `scrypt$${salt}$${hash}`
+}
+
+/**
+ * Verify a password against a stored scrypt hash
+ * @param {string} password
+ * @param {string} stored
+ * @returns {boolean}
+ */
+function verifyPassword(password, stored) {
+  if (typeof password !== 'string' || typeof stored !== 'string') return false
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = crypto.scryptSync(password, salt, expected.length)
+  return crypto.timingSafeEqual(expected, actual)
+}
+
+const base64url = value => Buffer.from(value).toString('base64url')
+
+function sign(data, secret) {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+/**
+ * Create a signed session token
+ * @param {{ sub: string, role: string, gen: number }} claims - `gen` is the user's token generation
+ * @param {string} secret
+ * @param {number} [ttlMs]
+ * @returns {string} "<payload>.<signature>"
+ */
+function signToken(claims, secret, ttlMs = TOKEN_TTL_MS) {
+  const payload = base64url(JSON.stringify({ ...claims, exp: Date.now() + ttlMs }))
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * Verify a session token's signature and expiry
+ * @param {string} token
+ * @param {string} secret
+ * @returns {{ sub: string, role: string, exp: number } | null}
+ */
+function verifyToken(token, secret) {
+  if (typeof token !== 'string') return null
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'))
+    if (!claims.exp || claims.exp < Date.now()) return null
+    return claims
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a verified token belongs to the user's current token generation. Signing out and
+ * password resets bump the generation, which revokes every token issued before them.
+ * @param {{ gen?: number }} claims
+ * @param {{ token_generation?: number }} user
+ * @returns {boolean}
+ */
+function isTokenCurrent(claims, user) {
+  return (claims.gen || 0) === (user.token_generation || 0)
+}
+
+/**
+ * Strip secrets from a user record and attach its permissions
+ * @param {Object} user
+ * @returns {Object}
+ */
+function publicUser(user) {
+  const { password_hash: _passwordHash, token_generation: _generation, ...rest } = user
+  return { ...rest, permissions: getPermissions(user.role) }
+}
+
+export {
+  PERMISSIONS,
+  ROLES,
+  TOKEN_TTL_MS,
+  getPermissions,
+  hasPermission,
+  hashPassword,
+  verifyPassword,
+  signToken,
+  verifyToken,
+  isTokenCurrent,
+  publicUser
+}
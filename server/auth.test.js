@@ -0,0 +1,118 @@
+/**
+ * Tests for password hashing, session tokens and role permissions
+ * Run with: node --test server/auth.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import {
+  getPermissions,
+  hasPermission,
+  hashPassword,
+  verifyPassword,
+  signToken,
+  verifyToken,
+  isTokenCurrent,
+  publicUser
+} from './auth.js'
+
+const SECRET = 'test-secret'
+
+describe('hasPermission', () => {
+  test('admins can manage versions but not admins', () => {
+    assert.strictEqual(hasPermission('admin', 'manage_versions'), true)
+    assert.strictEqual(hasPermission('admin', 'manage_admins'), false)
+  })
+
+  test('superadmins have every permission', () => {
+    assert.strictEqual(hasPermission('superadmin', 'upload_policies'), true)
+    assert.strictEqual(hasPermission('superadmin', 'manage_admins'), true)
+  })
+
+  test('users can only view and ask', () => {
+    assert.deepStrictEqual(getPermissions('user'), ['view_policies', 'ask_questions'])
+    assert.strictEqual(hasPermission('user', 'upload_policies'), false)
+  })
+
+  test('unknown roles have no permissions', () => {
+    assert.strictEqual(hasPermission('guest', 'view_policies'), false)
+  })
+})
+
+describe('hashPassword / verifyPassword', () => {
+  test('verifies the original password', () => {
+    const stored = hashPassword('correct horse')
+    assert.strictEqual(verifyPassword('correct horse', stored), true)
+  })
+
+  test('rejects a wrong password', () => {
+    const stored = hashPassword('correct horse')
+    assert.strictEqual(verifyPassword('battery staple', stored), false)
+  })
+
+  test('uses a random salt per hash', () => {
+    assert.notStrictEqual(hashPassword('same'), hashPassword('same'))
+  })
+
+  test('rejects malformed hashes', () => {
+    assert.strictEqual(verifyPassword('x', 'plaintext'), false)
+    assert.strictEqual(verifyPassword(undefined, hashPassword('x')), false)
+  })
+
+  test('seed fixture accounts use the documented demo password', () => {
+    const { users } = JSON.parse(fs.readFileSync(new URL('../seed/users.json', import.meta.url), 'utf-8'))
+    for (const user of users) {
+      assert.strictEqual(verifyPassword('regsync-demo', user.password_hash), true, user.username)
+    }
+  })
+})
+
+describe('signToken / verifyToken', () => {
+  test('round-trips claims', () => {
+    const claims = verifyToken(signToken({ sub: 'u1', role: 'admin' }, SECRET), SECRET)
+    assert.strictEqual(claims?.sub, 'u1')
+    assert.strictEqual(claims?.role, 'admin')
+  })
+
+  test('rejects tokens signed with another secret', () => {
+    assert.strictEqual(verifyToken(signToken({ sub: 'u1' }, 'other'), SECRET), null)
+  })
+
+  test('rejects tampered payloads', () => {
+    const [, signature] = signToken({ sub: 'u1', role: 'user' }, SECRET).split('.')
+    const forged = Buffer.from(JSON.stringify({ sub: 'u1', role: 'superadmin', exp: Date.now() + 60000 })).toString('base64url')
+    assert.strictEqual(verifyToken(`${forged}.${signature}`, SECRET), null)
+  })
+
+  test('rejects expired tokens', () => {
+    assert.strictEqual(verifyToken(signToken({ sub: 'u1' }, SECRET, -1000), SECRET), null)
+  })
+
+  test('rejects garbage', () => {
+    assert.strictEqual(verifyToken('not-a-token', SECRET), null)
+    assert.strictEqual(verifyToken(undefined, SECRET), null)
+  })
+})
+
+describe('isTokenCurrent', () => {
+  test('accepts tokens of the current generation only', () => {
+    const claims = verifyToken(signToken({ sub: 'u1', role: 'admin', gen: 1 }, SECRET), SECRET)
+    assert.strictEqual(isTokenCurrent(claims, { id: 'u1', token_generation: 1 }), true)
+    assert.strictEqual(isTokenCurrent(claims, { id: 'u1', token_generation: 2 }), false)
+  })
+
+  test('treats tokens and accounts from before generations as generation 0', () => {
+    assert.strictEqual(isTokenCurrent({ sub: 'u1' }, { id: 'u1' }), true)
+    assert.strictEqual(isTokenCurrent({ sub: 'u1' }, { id: 'u1', token_generation: 1 }), false)
+  })
+})
+
+describe('publicUser', () => {
+  test('strips the password hash and adds permissions', () => {
+    const user = publicUser({ id: 'u1', role: 'admin', password_hash: 'scrypt$a$b', token_generation: 2 })
+    assert.strictEqual('password_hash' in user, false)
+    assert.strictEqual('token_generation' in user, false)
+    assert.ok(user.permissions.includes('upload_policies'))
+  })
+})
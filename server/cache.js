@@ -0,0 +1,222 @@
+/**
+ * Content-addressed cache for extracted PDF text and computed diffs
+ * Entries are keyed by the SHA-256 of the file contents, so an edited or replaced file
+ * never hits a stale entry. Each entry records the format it was produced with;
+ * bumping a format constant invalidates everything written under the old one.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+// Bump when PDF text extraction changes
+const TEXT_FORMAT = 1
+// Bump when the section diff or redline output in sections.js changes
+const DIFF_FORMAT = 1
+
+const FORMATS = { text: TEXT_FORMAT, diffs: DIFF_FORMAT }
+
+/**
+ * SHA-256 of a buffer or string, hex encoded
+ * @param {Buffer | string} content
+ * @returns {string}
+ */
+function hashContent(content) {
+  return crypto.createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Cache key for the diff between two files, by content hash
+ * @param {string} oldHash
+ * @param {string} newHash
+ * @returns {string}
+ */
+function diffKey(oldHash, newHash) {
+  return `${oldHash}-${newHash}`
+}
+
+/**
+ * Create the cache. With a `dir` entries are JSON files under `text/` and `diffs/`
+ * and survive restarts; without one they live in memory.
+ * @param {{ dir?: string | null }} options
+ */
+function createContentCache({ dir = null } = {}) {
+  const memory = new Map()
+  // path -> { size, mtimeMs, hash } so unchanged files are not re-read just to hash them
+  const fileHashes = new Map()
+  // key -> promise, so concurrent requests for the same entry compute it once
+  const inflight = new Map()
+  const counters = { hits: 0, misses: 0 }
+
+  const entryFile = (kind, key) => path.join(dir, kind, `${key}.json`)
+
+  if (dir) {
+    for (const kind of Object.keys(FORMATS)) {
+      fs.mkdirSync(path.join(dir, kind), { recursive: true })
+    }
+  }
+
+  function read(kind, key) {
+    let entry = memory.get(`${kind}/${key}`)
+    if (!entry && dir) {
+      try {
+        entry = JSON.parse(fs.readFileSync(entryFile(kind, key), 'utf-8'))
+      } catch {
+        return undefined
+      }
+    }
+    if (!entry || entry.format !== FORMATS[kind]) return undefined
+    return entry.value
+  }
+
+  function write(kind, key, value) {
+    const entry = { format: FORMATS[kind], created_at: new Date().toISOString(), value }
+    if (!dir) {
+      memory.set(`${kind}/${key}`, entry)
+      return
+    }
+    // Write then rename so a crash never leaves a truncated entry behind
+    const file = entryFile(kind, key)
+    const tmp = `${file}.${process.pid}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(entry))
+    fs.renameSync(tmp, file)
+  }
+
+  function remove(kind, key) {
+    memory.delete(`${kind}/${key}`)
+    if (dir) {
+      try { fs.unlinkSync(entryFile(kind, key)) } catch {}
+    }
+  }
+
+  function keys(kind) {
+    if (!dir) {
+      return [...memory.keys()].filter(k => k.startsWith(`${kind}/`)).map(k => k.slice(kind.length + 1))
+    }
+    return fs.readdirSync(path.join(dir, kind))
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length))
+  }
+
+  /**
+   * Content hash of a file, reusing the last hash while size and mtime are unchanged
+   * @param {string} filePath
+   * @returns {string}
+   */
+  function hashFile(filePath) {
+    const stat = fs.statSync(filePath)
+    const known = fileHashes.get(filePath)
+    if (known && known.size === stat.size && known.mtimeMs === stat.mtimeMs) return known.hash
+
+    const hash = hashContent(fs.readFileSync(filePath))
+    fileHashes.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, hash })
+    return hash
+  }
+
+  // Return the cached value, or compute and store it. Null results (failed extraction) are not cached.
+  async function remember(kind, key, compute) {
+    const cached = read(kind, key)
+    if (cached !== undefined) {
+      counters.hits++
+      return cached
+    }
+
+    const flightKey = `${kind}/${key}`
+    if (inflight.has(flightKey)) return inflight.get(flightKey)
+
+    counters.misses++
+    const promise = Promise.resolve()
+      .then(compute)
+      .then(value => {
+        if (value !== null && value !== undefined) write(kind, key, value)
+        return value
+      })
+      .finally(() => inflight.delete(flightKey))
+    inflight.set(flightKey, promise)
+    return promise
+  }
+
+  return {
+    hashFile,
+
+    /**
+     * Per-page text of a file, extracted at most once per distinct content
+     * @param {string} filePath
+     * @param {(filePath: string) => Promise<string[] | null>} extract
+     * @returns {Promise<string[] | null>}
+     */
+    pages(filePath, extract) {
+      return remember('text', hashFile(filePath), () => extract(filePath))
+    },
+
+    /**
+     * Diff between two files identified by content hash, computed at most once per pair
+     * @param {string} oldHash
+     * @param {string} newHash
+     * @param {() => Promise<Object | null>} compute
+     * @returns {Promise<Object | null>}
+     */
+    diff(oldHash, newHash, compute) {
+      return remember('diffs', diffKey(oldHash, newHash), compute)
+    },
+
+    /**
+     * Drop the text of one file and every diff it takes part in
+     * @param {string} hash
+     * @returns {number} entries removed
+     */
+    invalidate(hash) {
+      let removed = 0
+      if (read('text', hash) !== undefined) {
+        remove('text', hash)
+        removed++
+      }
+      for (const key of keys('diffs')) {
+        if (key.split('-').includes(hash)) {
+          remove('diffs', key)
+          removed++
+        }
+      }
+      for (const [filePath, known] of fileHashes) {
+        if (known.hash === hash) fileHashes.delete(filePath)
+      }
+      return removed
+    },
+
+    /**
+     * Drop every entry
+     * @returns {number} entries removed
+     */
+    clear() {
+      let removed = 0
+      for (const kind of Object.keys(FORMATS)) {
+        for (const key of keys(kind)) {
+          remove(kind, key)
+          removed++
+        }
+      }
+      fileHashes.clear()
+      return removed
+    },
+
+    /**
+     * Entry counts and hit/miss counters since startup
+     * @returns {{ text_entries: number, diff_entries: number, hits: number, misses: number }}
+     */
+    stats() {
+      return {
+        text_entries: keys('text').length,
+        diff_entries: keys('diffs').length,
+        ...counters
+      }
+    }
+  }
+}
+
+export {
+  TEXT_FORMAT,
+  DIFF_FORMAT,
+  hashContent,
+  diffKey,
+  createContentCache
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for the content-addressed text and diff cache
+ * Run with: node --test server/cache.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createContentCache, hashContent, diffKey } from './cache.js'
+
+function tempDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'regsync-cache-'))
+}
+
+function writeFile(dir, name, content) {
+  const filePath = path.join(dir, name)
+  fs.writeFileSync(filePath, content)
+  return filePath
+}
+
+describe('createContentCache', () => {
+  test('extracts each distinct file content once', async () => {
+    const dir = tempDir()
+    try {
+      const cache = createContentCache()
+      const a = writeFile(dir, 'a.pdf', 'same bytes')
+      const b = writeFile(dir, 'b.pdf', 'same bytes')
+      let calls = 0
+      const extract = async () => { calls++; return ['page one', 'page two'] }
+
+      assert.deepStrictEqual(await cache.pages(a, extract), ['page one', 'page two'])
+      assert.deepStrictEqual(await cache.pages(b, extract), ['page one', 'page two'])
+      assert.strictEqual(calls, 1)
+      assert.deepStrictEqual(cache.stats(), { text_entries: 1, diff_entries: 0, hits: 1, misses: 1 })
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('misses when the file content changes', async () => {
+    const dir = tempDir()
+    try {
+      const cache = createContentCache()
+      const file = writeFile(dir, 'a.pdf', 'version one')
+      const first = await cache.pages(file, async () => ['one'])
+
+      fs.writeFileSync(file, 'version two, longer')
+      const second = await cache.pages(file, async () => ['two'])
+
+      assert.deepStrictEqual(first, ['one'])
+      assert.deepStrictEqual(second, ['two'])
+      assert.strictEqual(cache.hashFile(file), hashContent('version two, longer'))
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('does not cache failed extractions', async () => {
+    const dir = tempDir()
+    try {
+      const cache = createContentCache()
+      const file = writeFile(dir, 'a.pdf', 'broken')
+      assert.strictEqual(await cache.pages(file, async () => null), null)
+      assert.deepStrictEqual(await cache.pages(file, async () => ['recovered']), ['recovered'])
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('shares one computation between concurrent requests', async () => {
+    const cache = createContentCache()
+    let calls = 0
+    const compute = async () => {
+      calls++
+      await new Promise(resolve => setTimeout(resolve, 10))
+      return { changes: [] }
+    }
+
+    const [first, second] = await Promise.all([cache.diff('a', 'b', compute), cache.diff('a', 'b', compute)])
+    assert.strictEqual(calls, 1)
+    assert.deepStrictEqual(first, second)
+  })
+
+  test('persists entries across restarts', async () => {
+    const dir = tempDir()
+    try {
+      const first = createContentCache({ dir })
+      await first.diff('old', 'new', async () => ({ changes: [{ type: 'added' }] }))
+      assert.ok(fs.existsSync(path.join(dir, 'diffs', `${diffKey('old', 'new')}.json`)))
+
+      const reopened = createContentCache({ dir })
+      const value = await reopened.diff('old', 'new', async () => assert.fail('should be cached'))
+      assert.deepStrictEqual(value, { changes: [{ type: 'added' }] })
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('ignores entries written under another format', async () => {
+    const dir = tempDir()
+    try {
+      const cache = createContentCache({ dir })
+      fs.writeFileSync(
+        path.join(dir, 'diffs', `${diffKey('old', 'new')}.json`),
+        JSON.stringify({ format: 0, value: { stale: true } })
+      )
+      const value = await cache.diff('old', 'new', async () => ({ stale: false }))
+      assert.deepStrictEqual(value, { stale: false })
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('invalidate drops a file and every diff it takes part in', async () => {
+    const dir = tempDir()
+    try {
+      const cache = createContentCache({ dir: path.join(dir, 'cache') })
+      const file = writeFile(dir, 'a.pdf', 'content')
+      const hash = cache.hashFile(file)
+      await cache.pages(file, async () => ['text'])
+      await cache.diff(hash, 'other', async () => ({ changes: [] }))
+      await cache.diff('other', hash, async () => ({ changes: [] }))
+      await cache.diff('other', 'unrelated', async () => ({ changes: [] }))
+
+      assert.strictEqual(cache.invalidate(hash), 3)
+      assert.deepStrictEqual(
+        { text: cache.stats().text_entries, diffs: cache.stats().diff_entries },
+        { text: 0, diffs: 1 }
+      )
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('clear drops everything', async () => {
+    const cache = createContentCache()
+    await cache.diff('a', 'b', async () => ({ changes: [] }))
+    await cache.diff('b', 'c', async () => ({ changes: [] }))
+    assert.strictEqual(cache.clear(), 2)
+    assert.strictEqual(cache.stats().diff_entries, 0)
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * Saved assistant conversations
+ * Each conversation belongs to one user and keeps its messages with the sources they cited,
+ * as they were when the answer was given. A share token gives a read-only view of it.
+ */
+
+import crypto from 'crypto'
+
+const MAX_TITLE_LENGTH = 120
+const MAX_MESSAGES = 200
+
+// Titles derived from the first question are cut to this many characters
+const DERIVED_TITLE_LENGTH = 60
+const UNTITLED = 'New conversation'
+
+const MESSAGE_ROLES = ['user', 'assistant']
+
+// Fields of a chat message worth keeping; anything else the client sends is dropped
+const MESSAGE_FIELDS = ['id', 'role', 'content', 'sources', 'degraded', 'stopped', 'grounding', 'ungroundedDraft', 'timestamp']
+
+// Fields of a cited source snapshot
+const SOURCE_FIELDS = [
+  'content', 'score', 'metadata', 'chunk_id', 'document_id', 'version_id', 'section',
+  'updated_at', 'updated_by', 'filename', 'page_number', 'source', 'is_current', 'superseded_by'
+]
+
+function pick(object, fields) {
+  const picked = {}
+  for (const field of fields) {
+    if (object[field] !== undefined) picked[field] = object[field]
+  }
+  return picked
+}
+
+/**
+ * Validate a list of chat messages
+ * @param {unknown} messages
+ * @returns {string | null} error message
+ */
+function validateMessages(messages) {
+  if (!Array.isArray(messages)) return 'messages must be an array'
+  if (messages.length > MAX_MESSAGES) return `A conversation can have at most ${MAX_MESSAGES} messages`
+
+  for (const [index, message] of messages.entries()) {
+    if (typeof message?.id !== 'string' || !message.id) return `messages[${index}].id is required`
+    if (!MESSAGE_ROLES.includes(message.role)) return `messages[${index}].role must be one of: ${MESSAGE_ROLES.join(', ')}`
+    if (typeof message.content !== 'string') return `messages[${index}].content must be a string`
+    if (message.sources !== undefined) {
+      if (!Array.isArray(message.sources) || message.sources.some(source => typeof source?.content !== 'string')) {
+        return `messages[${index}].sources must be an array of { content }`
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Validate the body of a create/update conversation request. Updates may send only a title
+ * (rename) or only messages.
+ * @param {{ title?: string, messages?: Array }} input
+ * @param {{ partial?: boolean }} options
+ * @returns {string | null} error message
+ */
+function validateConversation(input, { partial = false } = {}) {
+  if (!input || typeof input !== 'object') return 'Request body is required'
+  if (input.title !== undefined) {
+    if (typeof input.title !== 'string' || !input.title.trim()) return 'title must be a non-empty string'
+    if (input.title.trim().length > MAX_TITLE_LENGTH) return `title must be at most ${MAX_TITLE_LENGTH} characters`
+  }
+  if (input.messages === undefined) {
+    return partial ? (input.title === undefined ? 'title or messages is required' : null) : 'messages is required'
+  }
+  return validateMessages(input.messages)
+}
+
+/**
+ * Keep the known fields of each cited source snapshot
+ * @param {Array} sources - validated sources
+ * @returns {Array}
+ */
+function sanitizeSources(sources) {
+  return sources.map(source => pick(source, SOURCE_FIELDS))
+}
+
+/**
+ * Keep the known fields of each message, and of each source snapshot
+ * @param {Array} messages - validated messages
+ * @returns {Array}
+ */
+function sanitizeMessages(messages) {
+  return messages.map(message => {
+    const kept = pick(message, MESSAGE_FIELDS)
+    if (kept.sources) kept.sources = sanitizeSources(kept.sources)
+    return kept
+  })
+}
+
+/**
+ * Title from the first question, cut at a word boundary
+ * @param {Array<{ role: string, content: string }>} messages
+ * @returns {string}
+ */
+function deriveTitle(messages) {
+  const question = messages.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').trim()
+  if (!question) return UNTITLED
+  if (question.length <= DERIVED_TITLE_LENGTH) return question
+
+  const cut = question.slice(0, DERIVED_TITLE_LENGTH)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > DERIVED_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`
+}
+
+/**
+ * Build a stored conversation from validated input. A derived title follows the messages
+ * until the user renames the conversation.
+ * @param {string} id
+ * @param {{ title?: string, messages?: Array }} input
+ * @param {{ id: string, name: string }} user - owner
+ * @param {string} now - ISO timestamp
+ * @param {Object | null} existing - stored conversation being updated
+ * @returns {Object}
+ */
+function buildConversation(id, input, user, now, existing = null) {
+  const messages = input.messages !== undefined ? sanitizeMessages(input.messages) : existing?.messages || []
+  const renamed = input.title !== undefined
+  const titleIsCustom = renamed || Boolean(existing?.title_is_custom)
+
+  return {
+    id,
+    user_id: existing?.user_id || user.id,
+    owner_name: existing?.owner_name || user.name,
+    title: renamed ? input.title.trim() : titleIsCustom ? existing.title : deriveTitle(messages),
+    title_is_custom: titleIsCustom,
+    messages,
+    share_token: existing?.share_token || null,
+    shared_at: existing?.shared_at || null,
+    created_at: existing?.created_at || now,
+    updated_at: now
+  }
+}
+
+/**
+ * Whether a conversation's title or any message contains the query (case-insensitive)
+ * @param {Object} conversation
+ * @param {string} query
+ * @returns {boolean}
+ */
+function matchesQuery(conversation, query) {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return true
+  return conversation.title.toLowerCase().includes(needle)
+    || conversation.messages.some(m => m.content.toLowerCase().includes(needle))
+}
+
+/**
+ * Conversations for the history sidebar: the owner's, matching the query, most recent first
+ * @param {Array} conversations - every stored conversation in the workspace
+ * @param {string} userId
+ * @param {string} [query]
+ * @returns {Array} summaries without messages
+ */
+function listConversations(conversations, userId, query = '') {
+  return conversations
+    .filter(c => c.user_id === userId && matchesQuery(c, query))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .map(summarizeConversation)
+}
+
+/**
+ * A conversation without its messages
+ * @param {Object} conversation
+ * @returns {Object}
+ */
+function summarizeConversation(conversation) {
+  const { messages, user_id: _userId, title_is_custom: _custom, ...summary } = conversation
+  const lastQuestion = [...messages].reverse().find(m => m.role === 'user')
+  return {
+    ...summary,
+    message_count: messages.length,
+    preview: lastQuestion ? lastQuestion.content.slice(0, DERIVED_TITLE_LENGTH) : ''
+  }
+}
+
+/**
+ * A conversation as its owner sees it
+ * @param {Object} conversation
+ * @returns {Object}
+ */
+function publicConversation(conversation) {
+  const { user_id: _userId, title_is_custom: _custom, ...rest } = conversation
+  return rest
+}
+
+/**
+ * A shared conversation as anyone with the link sees it - no owner IDs or share token
+ * @param {Object} conversation
+ * @returns {Object}
+ */
+function sharedConversation(conversation) {
+  return {
+    title: conversation.title,
+    owner_name: conversation.owner_name,
+    messages: conversation.messages,
+    created_at: conversation.created_at,
+    updated_at: conversation.updated_at,
+    shared_at: conversation.shared_at
+  }
+}
+
+/**
+ * IDs of the documents a conversation's answers cite. A shared conversation is only shown to
+ * viewers whose scope covers all of them, since the answers quote those policies.
+ * @param {Object} conversation
+ * @returns {string[]}
+ */
+function citedDocumentIds(conversation) {
+  const ids = new Set()
+  for (const message of conversation.messages) {
+    for (const source of message.sources || []) {
+      if (source.document_id) ids.add(source.document_id)
+    }
+  }
+  return [...ids]
+}
+
+// Unguessable token for a read-only share link
+function createShareToken() {
+  return crypto.randomBytes(18).toString('base64url')
+}
+
+export {
+  MAX_TITLE_LENGTH,
+  MAX_MESSAGES,
+  validateMessages,
+  validateConversation,
+  sanitizeSources,
+  sanitizeMessages,
+  deriveTitle,
+  buildConversation,
+  matchesQuery,
+  listConversations,
+  summarizeConversation,
+  publicConversation,
+  sharedConversation,
+  citedDocumentIds,
+  createShareToken
+}
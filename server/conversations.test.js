@@ -0,0 +1,167 @@
+/**
+ * Tests for saved assistant conversations
+ * Run with: node --test server/conversations.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  MAX_TITLE_LENGTH,
+  MAX_MESSAGES,
+  validateConversation,
+  sanitizeMessages,
+  deriveTitle,
+  buildConversation,
+  listConversations,
+  publicConversation,
+  sharedConversation,
+  citedDocumentIds,
+  createShareToken
+} from './conversations.js'
+
+const alex = { id: 'u3', name: 'Alex Kim' }
+const john = { id: 'u2', name: 'John Smith' }
+
+const NOW = '2024-03-01T12:00:00.000Z'
+const LATER = '2024-03-02T09:30:00.000Z'
+
+const source = {
+  content: 'Vouchers must be filed within 5 business days of return.',
+  score: 0.82,
+  metadata: { document_name: 'Travel Policy' },
+  document_id: 'doc-1',
+  version_id: 'ver-1',
+  section: '4.2',
+  page_number: 3
+}
+
+const messages = [
+  { id: '1', role: 'user', content: 'When is my travel voucher due?', timestamp: NOW },
+  { id: '2', role: 'assistant', content: 'Within 5 business days of return [1].', sources: [source], timestamp: NOW }
+]
+
+describe('validateConversation', () => {
+  test('accepts messages with source snapshots', () => {
+    assert.strictEqual(validateConversation({ messages }), null)
+  })
+
+  test('requires messages on create', () => {
+    assert.strictEqual(validateConversation({ title: 'Travel' }), 'messages is required')
+  })
+
+  test('accepts a rename on its own as an update', () => {
+    assert.strictEqual(validateConversation({ title: 'Travel' }, { partial: true }), null)
+    assert.strictEqual(validateConversation({}, { partial: true }), 'title or messages is required')
+  })
+
+  test('rejects blank and overlong titles', () => {
+    assert.match(validateConversation({ title: '  ', messages }), /title/)
+    assert.match(validateConversation({ title: 'x'.repeat(MAX_TITLE_LENGTH + 1), messages }), /at most/)
+  })
+
+  test('rejects malformed messages', () => {
+    assert.match(validateConversation({ messages: [{ id: '1', role: 'system', content: 'hi' }] }), /role/)
+    assert.match(validateConversation({ messages: [{ role: 'user', content: 'hi' }] }), /id is required/)
+    assert.match(validateConversation({ messages: [{ id: '1', role: 'assistant', content: 'hi', sources: [{}] }] }), /sources/)
+  })
+
+  test('limits the number of messages', () => {
+    const many = Array.from({ length: MAX_MESSAGES + 1 }, (_, i) => ({ id: String(i), role: 'user', content: 'q' }))
+    assert.match(validateConversation({ messages: many }), /at most/)
+  })
+})
+
+describe('sanitizeMessages', () => {
+  test('drops unknown message and source fields', () => {
+    const [kept] = sanitizeMessages([{ ...messages[1], html: '<b>x</b>', sources: [{ ...source, embedding: [0.1] }] }])
+    assert.strictEqual(kept.html, undefined)
+    assert.strictEqual(kept.sources[0].embedding, undefined)
+    assert.strictEqual(kept.sources[0].section, '4.2')
+  })
+})
+
+describe('deriveTitle', () => {
+  test('uses the first question', () => {
+    assert.strictEqual(deriveTitle(messages), 'When is my travel voucher due?')
+  })
+
+  test('cuts long questions at a word boundary', () => {
+    const title = deriveTitle([{ role: 'user', content: 'What are the requirements for submitting a travel voucher after a temporary duty assignment overseas?' }])
+    assert.ok(title.length <= 61)
+    assert.ok(title.endsWith('…'))
+    assert.ok(!title.includes('  '))
+  })
+
+  test('falls back when there is no question yet', () => {
+    assert.strictEqual(deriveTitle([]), 'New conversation')
+  })
+})
+
+describe('buildConversation', () => {
+  test('derives the title and records the owner', () => {
+    const conversation = buildConversation('c1', { messages }, alex, NOW)
+    assert.strictEqual(conversation.title, 'When is my travel voucher due?')
+    assert.strictEqual(conversation.user_id, 'u3')
+    assert.strictEqual(conversation.owner_name, 'Alex Kim')
+    assert.strictEqual(conversation.share_token, null)
+  })
+
+  test('keeps a renamed title when messages are added', () => {
+    const created = buildConversation('c1', { messages: [] }, alex, NOW)
+    const renamed = buildConversation('c1', { title: ' Voucher deadlines ' }, alex, LATER, created)
+    const updated = buildConversation('c1', { messages }, alex, LATER, renamed)
+    assert.strictEqual(renamed.title, 'Voucher deadlines')
+    assert.strictEqual(updated.title, 'Voucher deadlines')
+    assert.strictEqual(updated.created_at, NOW)
+    assert.strictEqual(updated.updated_at, LATER)
+  })
+
+  test('keeps the owner and share token on update', () => {
+    const shared = { ...buildConversation('c1', { messages }, alex, NOW), share_token: 'tok', shared_at: NOW }
+    const updated = buildConversation('c1', { messages }, john, LATER, shared)
+    assert.strictEqual(updated.user_id, 'u3')
+    assert.strictEqual(updated.share_token, 'tok')
+  })
+})
+
+describe('listConversations', () => {
+  const older = buildConversation('c1', { messages }, alex, NOW)
+  const newer = buildConversation('c2', { messages: [{ id: '1', role: 'user', content: 'How do I request leave?' }] }, alex, LATER)
+  const others = buildConversation('c3', { messages }, john, LATER)
+
+  test("lists only the user's conversations, most recent first", () => {
+    const list = listConversations([older, newer, others], 'u3')
+    assert.deepStrictEqual(list.map(c => c.id), ['c2', 'c1'])
+    assert.strictEqual(list[0].messages, undefined)
+    assert.strictEqual(list[1].message_count, 2)
+  })
+
+  test('searches titles and message text', () => {
+    assert.deepStrictEqual(listConversations([older, newer], 'u3', 'LEAVE').map(c => c.id), ['c2'])
+    assert.deepStrictEqual(listConversations([older, newer], 'u3', 'business days').map(c => c.id), ['c1'])
+  })
+})
+
+describe('shared views', () => {
+  test('hide owner IDs and the share token', () => {
+    const conversation = { ...buildConversation('c1', { messages }, alex, NOW), share_token: 'tok', shared_at: NOW }
+    assert.strictEqual(publicConversation(conversation).user_id, undefined)
+    const shared = sharedConversation(conversation)
+    assert.strictEqual(shared.share_token, undefined)
+    assert.strictEqual(shared.owner_name, 'Alex Kim')
+    assert.deepStrictEqual(shared.messages[1].sources[0], source)
+  })
+
+  test('list each cited document once', () => {
+    const conversation = buildConversation('c1', {
+      messages: [...messages, { id: '3', role: 'assistant', content: 'See [1] and [2].', sources: [source, { ...source, document_id: 'doc-2' }], timestamp: NOW }]
+    }, alex, NOW)
+    assert.deepStrictEqual(citedDocumentIds(conversation), ['doc-1', 'doc-2'])
+  })
+
+  test('share tokens are unguessable and URL-safe', () => {
+    const token = createShareToken()
+    assert.match(token, /^[A-Za-z0-9_-]{24}$/)
+    assert.notStrictEqual(token, createShareToken())
+  })
+})
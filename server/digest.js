@@ -2,6 +2,8 @@
  * Digest computation logic for weekly/monthly policy summaries
  */
 
+import { upcomingChange } from './schedule.js'
+
 /**
  * Get ISO week number from a date
  * @param {Date} date
@@ -107,50 +109,74 @@ function isInRange(dateStr, start, end) {
   return date >= start && date <= end
 }
 
+/**
+ * The earlier version a revert restored, or null for ordinary uploads
+ * @param {Object} doc
+ * @param {Object} version
+ * @returns {{ version_id: string, created_at: string | null } | null}
+ */
+function revertedFrom(doc, version) {
+  if (!version.reverted_from) return null
+  const source = (doc.versions || []).find(v => v.id === version.reverted_from)
+  return { version_id: version.reverted_from, created_at: source?.created_at || source?.uploaded_at || null }
+}
+
+/**
+ * Kinds of digest events: a version being recorded/approved, and a version's effective date arriving
+ */
+const DIGEST_EVENTS = ['published', 'takes_effect']
+
 /**
  * Compute digest for documents within a date range
  * @param {Array} documents - Array of document objects with versions
  * @param {Date} startDate
  * @param {Date} endDate
- * @returns {{ documents: Array, stats: { new_policies: number, updated_policies: number, total_changes: number } }}
+ * @param {{ events?: string[], now?: Date }} [options] - which events to report; `now` decides upcoming changes
+ * @returns {{ documents: Array, stats: { new_policies: number, updated_policies: number, total_changes: number, effective_changes: number } }}
  */
-function computeDigest(documents, startDate, endDate) {
+function computeDigest(documents, startDate, endDate, { events = DIGEST_EVENTS, now = new Date() } = {}) {
   const digestDocs = []
   let newPolicies = 0
   let updatedPolicies = 0
   let totalChanges = 0
+  let effectiveChanges = 0
 
   for (const doc of documents) {
     // Check if document was created in this period
     const isNew = isInRange(doc.created_at, startDate, endDate)
 
-    // Find versions updated in this period (excluding the initial creation if it's new)
-    const changesInPeriod = (doc.versions || [])
-      .filter(v => {
-        const versionDate = v.created_at || v.uploaded_at
-        if (!versionDate) return false
-
-        // Include if version is in range
-        const inRange = isInRange(versionDate, startDate, endDate)
+    const changesInPeriod = []
+    for (const v of doc.versions || []) {
+      // Rejected versions never took effect
+      if (v.status === 'rejected') continue
 
-        // For new docs, include all versions in period
-        // For existing docs, include all versions in period
-        return inRange
-      })
-      .sort((a, b) => {
-        // Sort by date descending (newest first)
-        const dateA = new Date(a.created_at || a.uploaded_at)
-        const dateB = new Date(b.created_at || b.uploaded_at)
-        return dateB - dateA
-      })
-      .map(v => ({
+      const change = {
         version_id: v.id,
         uploaded_by: v.uploaded_by || 'Unknown',
         uploaded_at: v.created_at || v.uploaded_at,
         notes: v.notes || null,
         summary: v.notes || null, // Use notes as summary for now
-        status: v.status || 'published'
-      }))
+        status: v.status || 'published',
+        effective_at: v.effective_at || null,
+        // Reverts restore an earlier version's text; say which one
+        reverted_from: revertedFrom(doc, v)
+      }
+
+      // Published: the version was recorded (or approved) in this period
+      const publishedAt = v.approved_at || v.created_at || v.uploaded_at
+      if (events.includes('published') && publishedAt && isInRange(publishedAt, startDate, endDate)) {
+        changesInPeriod.push({ ...change, event: 'published', event_at: publishedAt })
+      }
+
+      // Takes effect: an approved version's effective date falls in this period
+      const approved = change.status === 'published' || change.status === 'scheduled'
+      if (events.includes('takes_effect') && approved && v.effective_at && isInRange(v.effective_at, startDate, endDate)) {
+        changesInPeriod.push({ ...change, event: 'takes_effect', event_at: v.effective_at })
+      }
+    }
+
+    // Sort by date descending (newest first)
+    changesInPeriod.sort((a, b) => new Date(b.event_at) - new Date(a.event_at))
 
     // Only include if there are changes in this period
     if (changesInPeriod.length > 0) {
@@ -159,7 +185,8 @@ function computeDigest(documents, startDate, endDate) {
         name: doc.name,
         short_title: doc.short_title || null,
         is_new: isNew,
-        changes: changesInPeriod
+        changes: changesInPeriod,
+        upcoming: upcomingChange(doc, now)
       })
 
       if (isNew) {
@@ -168,13 +195,14 @@ function computeDigest(documents, startDate, endDate) {
         updatedPolicies++
       }
       totalChanges += changesInPeriod.length
+      effectiveChanges += changesInPeriod.filter(c => c.event === 'takes_effect').length
     }
   }
 
   // Sort by newest change first
   digestDocs.sort((a, b) => {
-    const dateA = new Date(a.changes[0]?.uploaded_at || 0)
-    const dateB = new Date(b.changes[0]?.uploaded_at || 0)
+    const dateA = new Date(a.changes[0]?.event_at || 0)
+    const dateB = new Date(b.changes[0]?.event_at || 0)
     return dateB - dateA
   })
 
@@ -183,7 +211,8 @@ function computeDigest(documents, startDate, endDate) {
     stats: {
       new_policies: newPolicies,
       updated_policies: updatedPolicies,
-      total_changes: totalChanges
+      total_changes: totalChanges,
+      effective_changes: effectiveChanges
     }
   }
 }
@@ -263,6 +292,7 @@ export {
   getMonthBounds,
   formatPeriodLabel,
   isInRange,
+  DIGEST_EVENTS,
   computeDigest,
   getPreviousWeek,
   getPreviousMonth,
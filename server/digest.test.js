@@ -206,6 +206,79 @@ describe('computeDigest', () => {
     assert.strictEqual(doc?.changes[0].uploaded_by, 'Editor')
     assert.strictEqual(doc?.changes[0].notes, 'Updated section 3')
   })
+
+  test('skips rejected versions', () => {
+    const start = new Date('2024-01-01T00:00:00Z')
+    const end = new Date('2024-01-31T23:59:59Z')
+    const withRejected = [{
+      ...mockDocuments[1],
+      versions: [
+        ...mockDocuments[1].versions,
+        { id: 'v3', uploaded_by: 'Editor', created_at: '2024-01-25T09:00:00Z', status: 'rejected' }
+      ]
+    }]
+
+    const { documents } = computeDigest(withRejected, start, end)
+
+    assert.deepStrictEqual(documents[0].changes.map(c => c.version_id), ['v2'])
+  })
+
+  test('marks reverts with the version they restored', () => {
+    const start = new Date('2024-01-01T00:00:00Z')
+    const end = new Date('2024-01-31T23:59:59Z')
+    const withRevert = [{
+      ...mockDocuments[1],
+      versions: [
+        ...mockDocuments[1].versions,
+        { id: 'v3', uploaded_by: 'Editor', created_at: '2024-01-25T09:00:00Z', notes: 'Section 3 change withdrawn', reverted_from: 'v1' }
+      ]
+    }]
+
+    const { documents } = computeDigest(withRevert, start, end)
+
+    assert.deepStrictEqual(documents[0].changes[0].reverted_from, { version_id: 'v1', created_at: '2023-12-01T10:00:00Z' })
+    assert.strictEqual(documents[0].changes[1].reverted_from, null)
+  })
+
+  describe('effective dates', () => {
+    const start = new Date('2024-02-01T00:00:00Z')
+    const end = new Date('2024-02-29T23:59:59Z')
+    const scheduledDoc = [{
+      id: 'doc4',
+      name: 'Policy D',
+      short_title: '36-1201',
+      created_at: '2023-06-01T10:00:00Z',
+      versions: [
+        { id: 'v1', uploaded_by: 'Admin', created_at: '2023-06-01T10:00:00Z' },
+        // Signed in January, effective mid-February
+        { id: 'v2', uploaded_by: 'Editor', created_at: '2024-01-10T10:00:00Z', approved_at: '2024-01-12T10:00:00Z', effective_at: '2024-02-15T00:00:00Z', status: 'published' },
+        // Signed in February, effective in April
+        { id: 'v3', uploaded_by: 'Editor', created_at: '2024-02-05T10:00:00Z', approved_at: '2024-02-06T10:00:00Z', effective_at: '2024-04-01T00:00:00Z', status: 'scheduled' },
+        // Still in review - its proposed date is not an event
+        { id: 'v4', uploaded_by: 'Editor', created_at: '2024-01-20T10:00:00Z', effective_at: '2024-02-20T00:00:00Z', status: 'pending' }
+      ]
+    }]
+    const now = new Date('2024-03-01T00:00:00Z')
+
+    test('reports published and takes-effect events separately', () => {
+      const { documents, stats } = computeDigest(scheduledDoc, start, end, { now })
+      const events = documents[0].changes.map(c => [c.event, c.version_id])
+
+      assert.deepStrictEqual(events, [['takes_effect', 'v2'], ['published', 'v3']])
+      assert.strictEqual(stats.total_changes, 2)
+      assert.strictEqual(stats.effective_changes, 1)
+    })
+
+    test('filters to the requested events', () => {
+      const { documents } = computeDigest(scheduledDoc, start, end, { events: ['takes_effect'], now })
+      assert.deepStrictEqual(documents[0].changes.map(c => c.version_id), ['v2'])
+    })
+
+    test('flags the next upcoming change', () => {
+      const { documents } = computeDigest(scheduledDoc, start, end, { now })
+      assert.deepStrictEqual(documents[0].upcoming, { version_id: 'v3', effective_at: '2024-04-01T00:00:00Z' })
+    })
+  })
 })
 
 describe('getPreviousWeek', () => {
@@ -0,0 +1,216 @@
+/**
+ * Answer feedback and its review queue
+ * Users rate assistant answers up or down, optionally with a reason and comment; the question,
+ * answer and cited sources are kept with the rating. Admins triage downvoted answers, grouped
+ * by the policy document they cited, as a policy gap, retrieval miss or model error.
+ */
+
+import crypto from 'crypto'
+import { sanitizeSources } from './conversations.js'
+
+const FEEDBACK_RATINGS = ['up', 'down']
+
+// Reasons a user can give for a downvote
+const FEEDBACK_REASONS = ['incorrect', 'incomplete', 'outdated', 'wrong_policy', 'other']
+
+// What an admin decides went wrong with a downvoted answer
+const TRIAGE_CATEGORIES = ['policy_gap', 'retrieval_miss', 'model_error']
+
+const REVIEW_STATUSES = ['open', 'triaged', 'all']
+
+const MAX_COMMENT_LENGTH = 2000
+const MAX_TEXT_LENGTH = 20000
+const MAX_SOURCES = 20
+
+// Group for downvoted answers that cited no policy document
+const NO_DOCUMENT = 'none'
+
+/**
+ * Stable ID of one caller's rating of one answer, so rating again replaces it
+ * @param {string | null} userId - null when signed out
+ * @param {string} messageId
+ * @returns {string}
+ */
+function feedbackId(userId, messageId) {
+  return crypto.createHash('sha256').update(`${userId || 'anonymous'}:${messageId}`).digest('hex').slice(0, 32)
+}
+
+/**
+ * Validate the body of a feedback request
+ * @param {{ message_id?: string, rating?: string, reason?: string, comment?: string, question?: string, answer?: string, sources?: Array }} input
+ * @returns {string | null} error message
+ */
+function validateFeedback(input) {
+  if (!input || typeof input !== 'object') return 'Request body is required'
+  if (typeof input.message_id !== 'string' || !input.message_id) return 'message_id is required'
+  if (!FEEDBACK_RATINGS.includes(input.rating)) return `rating must be one of: ${FEEDBACK_RATINGS.join(', ')}`
+  if (input.reason !== undefined && input.reason !== null) {
+    if (input.rating !== 'down') return 'reason is only accepted with a down rating'
+    if (!FEEDBACK_REASONS.includes(input.reason)) return `reason must be one of: ${FEEDBACK_REASONS.join(', ')}`
+  }
+  if (input.comment !== undefined && input.comment !== null) {
+    if (typeof input.comment !== 'string') return 'comment must be a string'
+    if (input.comment.length > MAX_COMMENT_LENGTH) return `comment must be at most ${MAX_COMMENT_LENGTH} characters`
+  }
+  if (typeof input.question !== 'string') return 'question is required'
+  if (typeof input.answer !== 'string') return 'answer is required'
+  if (input.question.length > MAX_TEXT_LENGTH || input.answer.length > MAX_TEXT_LENGTH) {
+    return `question and answer must be at most ${MAX_TEXT_LENGTH} characters`
+  }
+  if (input.sources !== undefined) {
+    if (!Array.isArray(input.sources) || input.sources.some(source => typeof source?.content !== 'string')) {
+      return 'sources must be an array of { content }'
+    }
+  }
+  return null
+}
+
+/**
+ * Build a stored feedback entry from validated input. Rating an answer again keeps its triage.
+ * @param {string} id
+ * @param {Object} input
+ * @param {{ id: string, name: string } | null} user - null when signed out
+ * @param {string} now - ISO timestamp
+ * @param {Object | null} existing
+ * @returns {Object}
+ */
+function buildFeedback(id, input, user, now, existing = null) {
+  const comment = typeof input.comment === 'string' ? input.comment.trim() : ''
+  return {
+    id,
+    message_id: input.message_id,
+    conversation_id: typeof input.conversation_id === 'string' ? input.conversation_id : null,
+    rating: input.rating,
+    reason: input.rating === 'down' ? input.reason || null : null,
+    comment: comment || null,
+    question: input.question,
+    answer: input.answer,
+    sources: sanitizeSources((input.sources || []).slice(0, MAX_SOURCES)),
+    user: user ? { id: user.id, name: user.name } : null,
+    triage: input.rating === 'down' ? existing?.triage || null : null,
+    created_at: existing?.created_at || now,
+    updated_at: now
+  }
+}
+
+/**
+ * Validate an admin's triage decision; a null category reopens the entry
+ * @param {{ category?: string | null, note?: string }} input
+ * @returns {string | null} error message
+ */
+function validateTriage(input) {
+  if (!input || typeof input !== 'object') return 'Request body is required'
+  if (input.category !== null && !TRIAGE_CATEGORIES.includes(input.category)) {
+    return `category must be one of: ${TRIAGE_CATEGORIES.join(', ')}, or null`
+  }
+  if (input.note !== undefined && input.note !== null) {
+    if (typeof input.note !== 'string') return 'note must be a string'
+    if (input.note.length > MAX_COMMENT_LENGTH) return `note must be at most ${MAX_COMMENT_LENGTH} characters`
+  }
+  return null
+}
+
+/**
+ * Apply a validated triage decision
+ * @param {Object} entry
+ * @param {{ category: string | null, note?: string }} input
+ * @param {{ id: string, name: string }} admin
+ * @param {string} now
+ * @returns {Object}
+ */
+function applyTriage(entry, input, admin, now) {
+  if (input.category === null) return { ...entry, triage: null }
+  return {
+    ...entry,
+    triage: {
+      category: input.category,
+      note: input.note?.trim() || null,
+      by: { id: admin.id, name: admin.name },
+      at: now
+    }
+  }
+}
+
+/**
+ * Parse the review queue's query string
+ * @param {{ status?: string, category?: string }} query
+ * @returns {{ value: { status: string, category: string | null } } | { error: string }}
+ */
+function parseReviewFilters(query) {
+  const status = query.status || 'open'
+  if (!REVIEW_STATUSES.includes(status)) {
+    return { error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` }
+  }
+  const category = query.category || null
+  if (category !== null && !TRIAGE_CATEGORIES.includes(category)) {
+    return { error: `category must be one of: ${TRIAGE_CATEGORIES.join(', ')}` }
+  }
+  return { value: { status, category } }
+}
+
+/**
+ * Downvoted answers matching the filters, grouped by the documents they cited. An answer that
+ * cited several documents appears under each; one that cited none is grouped under "none".
+ * Groups are named by a cited file name until the caller resolves the document. Groups with the
+ * most entries come first, and entries are newest first.
+ * @param {Array} entries - every stored feedback entry
+ * @param {{ status: string, category: string | null }} filters
+ * @returns {Array<{ document_id: string, document_name: string, entries: Array }>}
+ */
+function groupDownvotes(entries, { status, category }) {
+  const matching = entries
+    .filter(entry => entry.rating === 'down')
+    .filter(entry => status === 'all' || (status === 'open' ? !entry.triage : Boolean(entry.triage)))
+    .filter(entry => !category || entry.triage?.category === category)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+
+  const groups = new Map()
+  for (const entry of matching) {
+    const documents = new Map()
+    for (const source of entry.sources) {
+      if (source.document_id && !documents.has(source.document_id)) {
+        documents.set(source.document_id, source.filename || source.document_id)
+      }
+    }
+    if (documents.size === 0) documents.set(NO_DOCUMENT, 'No policy cited')
+
+    for (const [documentId, name] of documents) {
+      if (!groups.has(documentId)) groups.set(documentId, { document_id: documentId, document_name: name, entries: [] })
+      groups.get(documentId).entries.push(entry)
+    }
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    b.entries.length - a.entries.length || a.document_name.localeCompare(b.document_name)
+  )
+}
+
+/**
+ * Up/down counts and open downvotes, for the review page header
+ * @param {Array} entries
+ * @returns {{ up: number, down: number, open: number }}
+ */
+function summarizeFeedback(entries) {
+  const down = entries.filter(entry => entry.rating === 'down')
+  return {
+    up: entries.length - down.length,
+    down: down.length,
+    open: down.filter(entry => !entry.triage).length
+  }
+}
+
+export {
+  FEEDBACK_RATINGS,
+  FEEDBACK_REASONS,
+  TRIAGE_CATEGORIES,
+  REVIEW_STATUSES,
+  NO_DOCUMENT,
+  feedbackId,
+  validateFeedback,
+  buildFeedback,
+  validateTriage,
+  applyTriage,
+  parseReviewFilters,
+  groupDownvotes,
+  summarizeFeedback
+}
@@ -0,0 +1,148 @@
+/**
+ * Tests for answer feedback and the review queue
+ * Run with: node --test server/feedback.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  NO_DOCUMENT,
+  feedbackId,
+  validateFeedback,
+  buildFeedback,
+  validateTriage,
+  applyTriage,
+  parseReviewFilters,
+  groupDownvotes,
+  summarizeFeedback
+} from './feedback.js'
+
+const alex = { id: 'u3', name: 'Alex Kim' }
+const john = { id: 'u2', name: 'John Smith' }
+
+const NOW = '2024-03-01T12:00:00.000Z'
+const LATER = '2024-03-02T09:30:00.000Z'
+
+const travelSource = { content: 'Vouchers within 5 days.', score: 0.8, document_id: 'doc-travel', filename: 'travel.pdf' }
+const leaveSource = { content: 'Leave requires 30 days notice.', score: 0.6, document_id: 'doc-leave', filename: 'leave.pdf' }
+
+const input = {
+  message_id: 'm1',
+  rating: 'down',
+  reason: 'outdated',
+  comment: '  The deadline changed last year ',
+  question: 'When is my voucher due?',
+  answer: 'Within 5 days [1].',
+  sources: [travelSource]
+}
+
+describe('feedbackId', () => {
+  test('is stable per caller and answer', () => {
+    assert.strictEqual(feedbackId('u3', 'm1'), feedbackId('u3', 'm1'))
+    assert.notStrictEqual(feedbackId('u3', 'm1'), feedbackId('u2', 'm1'))
+    assert.notStrictEqual(feedbackId(null, 'm1'), feedbackId('u3', 'm1'))
+  })
+})
+
+describe('validateFeedback', () => {
+  test('accepts a downvote with a reason and comment', () => {
+    assert.strictEqual(validateFeedback(input), null)
+  })
+
+  test('accepts an upvote without a reason', () => {
+    assert.strictEqual(validateFeedback({ ...input, rating: 'up', reason: undefined }), null)
+  })
+
+  test('rejects unknown ratings and reasons', () => {
+    assert.match(validateFeedback({ ...input, rating: 'meh' }), /rating/)
+    assert.match(validateFeedback({ ...input, reason: 'boring' }), /reason/)
+    assert.match(validateFeedback({ ...input, rating: 'up' }), /only accepted with a down rating/)
+  })
+
+  test('requires the question and answer', () => {
+    assert.match(validateFeedback({ ...input, question: undefined }), /question/)
+    assert.match(validateFeedback({ ...input, answer: 42 }), /answer/)
+  })
+
+  test('rejects malformed sources and long comments', () => {
+    assert.match(validateFeedback({ ...input, sources: [{ score: 1 }] }), /sources/)
+    assert.match(validateFeedback({ ...input, comment: 'x'.repeat(2001) }), /comment/)
+  })
+})
+
+describe('buildFeedback', () => {
+  test('keeps the answer context and the rater', () => {
+    const entry = buildFeedback('f1', input, alex, NOW)
+    assert.strictEqual(entry.comment, 'The deadline changed last year')
+    assert.deepStrictEqual(entry.user, { id: 'u3', name: 'Alex Kim' })
+    assert.strictEqual(entry.sources[0].document_id, 'doc-travel')
+    assert.strictEqual(entry.triage, null)
+  })
+
+  test('records signed-out feedback without a user', () => {
+    assert.strictEqual(buildFeedback('f1', input, null, NOW).user, null)
+  })
+
+  test('keeps triage when re-rated down and clears it when rated up', () => {
+    const triaged = applyTriage(buildFeedback('f1', input, alex, NOW), { category: 'policy_gap' }, john, NOW)
+    const again = buildFeedback('f1', { ...input, comment: 'Still wrong' }, alex, LATER, triaged)
+    assert.strictEqual(again.triage.category, 'policy_gap')
+    assert.strictEqual(again.created_at, NOW)
+
+    const up = buildFeedback('f1', { ...input, rating: 'up', reason: undefined }, alex, LATER, triaged)
+    assert.strictEqual(up.triage, null)
+    assert.strictEqual(up.reason, null)
+  })
+})
+
+describe('triage', () => {
+  test('validates the category', () => {
+    assert.strictEqual(validateTriage({ category: 'retrieval_miss', note: 'Wrong chunk' }), null)
+    assert.strictEqual(validateTriage({ category: null }), null)
+    assert.match(validateTriage({ category: 'typo' }), /category/)
+    assert.match(validateTriage({}), /category/)
+  })
+
+  test('records who triaged and when; null reopens', () => {
+    const entry = buildFeedback('f1', input, alex, NOW)
+    const triaged = applyTriage(entry, { category: 'model_error', note: ' Hallucinated ' }, john, LATER)
+    assert.deepStrictEqual(triaged.triage, { category: 'model_error', note: 'Hallucinated', by: { id: 'u2', name: 'John Smith' }, at: LATER })
+    assert.strictEqual(applyTriage(triaged, { category: null }, john, LATER).triage, null)
+  })
+})
+
+describe('parseReviewFilters', () => {
+  test('defaults to open downvotes', () => {
+    assert.deepStrictEqual(parseReviewFilters({}), { value: { status: 'open', category: null } })
+  })
+
+  test('rejects unknown values', () => {
+    assert.ok(parseReviewFilters({ status: 'closed' }).error)
+    assert.ok(parseReviewFilters({ category: 'typo' }).error)
+  })
+})
+
+describe('groupDownvotes', () => {
+  const travel = buildFeedback('f1', input, alex, NOW)
+  const both = buildFeedback('f2', { ...input, message_id: 'm2', sources: [travelSource, leaveSource] }, alex, LATER)
+  const uncited = buildFeedback('f3', { ...input, message_id: 'm3', sources: [] }, alex, NOW)
+  const upvote = buildFeedback('f4', { ...input, message_id: 'm4', rating: 'up', reason: undefined }, alex, NOW)
+  const triaged = applyTriage(buildFeedback('f5', { ...input, message_id: 'm5' }, alex, NOW), { category: 'policy_gap' }, john, NOW)
+
+  test('groups open downvotes by cited document, largest group first', () => {
+    const groups = groupDownvotes([travel, both, uncited, upvote, triaged], { status: 'open', category: null })
+    assert.deepStrictEqual(groups.map(g => g.document_id), ['doc-travel', 'doc-leave', NO_DOCUMENT])
+    assert.deepStrictEqual(groups[0].entries.map(e => e.id), ['f2', 'f1'])
+    assert.strictEqual(groups[0].document_name, 'travel.pdf')
+  })
+
+  test('filters triaged entries by category', () => {
+    const groups = groupDownvotes([travel, triaged], { status: 'triaged', category: 'policy_gap' })
+    assert.deepStrictEqual(groups.flatMap(g => g.entries.map(e => e.id)), ['f5'])
+    assert.deepStrictEqual(groupDownvotes([travel, triaged], { status: 'triaged', category: 'model_error' }), [])
+  })
+
+  test('counts ratings and open downvotes', () => {
+    assert.deepStrictEqual(summarizeFeedback([travel, both, upvote, triaged]), { up: 1, down: 3, open: 2 })
+  })
+})
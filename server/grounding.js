@@ -0,0 +1,173 @@
+/**
+ * Answer grounding verifier
+ * Checks each sentence of a generated answer against the passages it was generated from:
+ * enough of its words must appear in one passage, and every number in it (days, dollar
+ * amounts, dates, paragraph numbers) must appear in that same passage. The share of claims
+ * that pass is the answer's confidence; below MIN_SUPPORT the answer is not used.
+ */
+
+import { tokenize } from './search.js'
+
+// Share of a claim's terms that must appear in the supporting passage
+const MIN_OVERLAP = 0.5
+
+// Share of claims that must be supported for the answer to stand
+const MIN_SUPPORT = 0.5
+
+// Sentences with fewer terms than this (greetings, lead-ins) are not checked
+const MIN_CLAIM_TERMS = 3
+
+// Sentences that decline to answer make no claim
+const NO_ANSWER_PATTERN = /\b(don'?t|do not|does not|doesn'?t) (have|contain|include|cover|mention)\b.*\b(information|details|guidance)\b/i
+
+const NUMBER_WORDS = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90, hundred: 100
+}
+
+const CITATION_MARKER_PATTERN = /\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?!\()/g
+
+/**
+ * Numbers in a text, normalized so "$1,500.00" and "1500" or "five" and "5" compare equal:
+ * thousands separators and trailing ".00" dropped, number words converted to digits.
+ * @param {string} text
+ * @returns {Set<string>}
+ */
+function extractNumbers(text) {
+  const numbers = new Set()
+  for (const match of text.matchAll(/\d[\d,]*(?:\.\d+)?/g)) {
+    const value = match[0].replace(/,(?=\d{3}\b)/g, '').replace(/\.0+$/, '').replace(/,$/, '')
+    numbers.add(value)
+  }
+  for (const word of text.toLowerCase().match(/[a-z]+/g) || []) {
+    if (NUMBER_WORDS[word] !== undefined) numbers.add(String(NUMBER_WORDS[word]))
+  }
+  return numbers
+}
+
+/**
+ * Split an answer into sentences, keeping each one's original markdown. Bullets and lines are
+ * sentences of their own, and the citation markers after a full stop stay with its sentence.
+ * @param {string} answer
+ * @returns {string[]}
+ */
+function splitSentences(answer) {
+  const sentences = []
+  for (const line of answer.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed) continue
+    for (const sentence of trimmed.split(/(?<=[.!?](?:\s*\[\d{1,2}(?:\s*,\s*\d{1,2})*\])*)\s+(?=[A-Z*])/)) {
+      if (sentence.trim()) sentences.push(sentence.trim())
+    }
+  }
+  return sentences
+}
+
+/**
+ * Citation markers in a sentence ("[1]", "[2, 3]") as 1-based passage numbers
+ * @param {string} sentence
+ * @returns {number[]}
+ */
+function citedNumbers(sentence) {
+  const cited = []
+  for (const match of sentence.matchAll(CITATION_MARKER_PATTERN)) {
+    for (const n of match[1].split(',')) cited.push(Number(n.trim()))
+  }
+  return cited
+}
+
+// Sentence text without markdown, bullets and citation markers
+function plainText(sentence) {
+  return sentence
+    .replace(CITATION_MARKER_PATTERN, ' ')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/, '')
+    .replace(/[*_`#>]/g, '')
+    .trim()
+}
+
+/**
+ * Terms and numbers of a retrieved passage, for checkSentence()
+ * @param {string} content
+ * @returns {{ terms: Set<string>, numbers: Set<string> }}
+ */
+function indexPassage(content) {
+  return { terms: new Set(tokenize(content)), numbers: extractNumbers(content) }
+}
+
+/**
+ * Check one sentence against the passages. Passages it cites are tried first; a sentence
+ * with no valid citation is checked against all of them.
+ * @param {string} sentence
+ * @param {Array<{ terms: Set<string>, numbers: Set<string> }>} passages
+ * @returns {{ text: string, claim: boolean, supported: boolean, overlap: number, source: number | null, missing_numbers: string[] }}
+ */
+function checkSentence(sentence, passages) {
+  const text = plainText(sentence)
+  const terms = [...new Set(tokenize(text))].filter(term => !/^\d+$/.test(term))
+  const numbers = [...extractNumbers(text)]
+  if ((terms.length < MIN_CLAIM_TERMS && numbers.length === 0) || NO_ANSWER_PATTERN.test(text)) {
+    return { text: sentence, claim: false, supported: true, overlap: 0, source: null, missing_numbers: [] }
+  }
+
+  const cited = citedNumbers(sentence).filter(n => n >= 1 && n <= passages.length)
+  const candidates = (cited.length > 0 ? cited : passages.map((_, i) => i + 1))
+
+  let best = { overlap: -1, source: null, missing: numbers }
+  for (const n of candidates) {
+    const passage = passages[n - 1]
+    const overlap = terms.length === 0 ? 1 : terms.filter(term => passage.terms.has(term)).length / terms.length
+    const missing = numbers.filter(number => !passage.numbers.has(number))
+    // Prefer passages with every number, then the most shared terms
+    if (missing.length < best.missing.length || (missing.length === best.missing.length && overlap > best.overlap)) {
+      best = { overlap, source: n, missing }
+    }
+  }
+
+  return {
+    text: sentence,
+    claim: true,
+    supported: best.overlap >= MIN_OVERLAP && best.missing.length === 0,
+    overlap: Math.round(Math.max(best.overlap, 0) * 100) / 100,
+    source: best.source,
+    missing_numbers: best.missing
+  }
+}
+
+/**
+ * Verify an answer against the passages it was generated from
+ * @param {string} answer
+ * @param {Array<{ content: string }>} sources - in the order the answer's [n] markers refer to
+ * @returns {{ grounded: boolean, support: number | null, confidence: number | null, claims: number, sentences: Array }}
+ */
+function verifyAnswer(answer, sources) {
+  const passages = sources.map(source => indexPassage(source.content || ''))
+  const sentences = splitSentences(answer).map(sentence => checkSentence(sentence, passages))
+
+  const claims = sentences.filter(s => s.claim)
+  if (claims.length === 0) {
+    // Nothing to check, e.g. "I don't have information on that"
+    return { grounded: true, support: null, confidence: null, claims: 0, sentences }
+  }
+
+  const support = claims.filter(s => s.supported).length / claims.length
+  return {
+    grounded: passages.length > 0 && support >= MIN_SUPPORT,
+    support: Math.round(support * 100) / 100,
+    confidence: Math.round(support * 100),
+    claims: claims.length,
+    sentences
+  }
+}
+
+export {
+  MIN_OVERLAP,
+  MIN_SUPPORT,
+  extractNumbers,
+  splitSentences,
+  citedNumbers,
+  indexPassage,
+  checkSentence,
+  verifyAnswer
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for the answer grounding verifier
+ * Run with: node --test server/grounding.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { extractNumbers, splitSentences, citedNumbers, indexPassage, checkSentence, verifyAnswer } from './grounding.js'
+
+const sources = [
+  { content: '4. VOUCHER SUBMISSION Travel vouchers must be submitted in DTS within 5 duty days of return. Late vouchers may result in collection action.' },
+  { content: '2. LEAVE REQUESTS Members may carry over up to 60 days of leave. Requests over $1,500 in advance pay require commander approval.' }
+]
+
+describe('extractNumbers', () => {
+  test('normalizes separators, decimals and number words', () => {
+    assert.deepStrictEqual([...extractNumbers('$1,500.00 within five days')].sort(), ['1500', '5'])
+    assert.deepStrictEqual([...extractNumbers('para 4.2, 15 January 2026')].sort(), ['15', '2026', '4.2'])
+  })
+})
+
+describe('splitSentences / citedNumbers', () => {
+  test('splits lines and sentences, keeping markers with their sentence', () => {
+    assert.deepStrictEqual(splitSentences('Vouchers are due in 5 days. [1] Late ones are flagged.\n- Leave carries over [2]'), [
+      'Vouchers are due in 5 days. [1]',
+      'Late ones are flagged.',
+      '- Leave carries over [2]'
+    ])
+  })
+
+  test('reads single and grouped markers', () => {
+    assert.deepStrictEqual(citedNumbers('Due in 5 days [1] and leave [2, 3]. See [docs](x)'), [1, 2, 3])
+  })
+})
+
+describe('checkSentence', () => {
+  const passages = sources.map(source => indexPassage(source.content))
+
+  test('a sentence whose words and numbers are in a passage is supported', () => {
+    const result = checkSentence('- Travel vouchers must be submitted in DTS within **5 duty days** [1]', passages)
+    assert.strictEqual(result.supported, true)
+    assert.strictEqual(result.source, 1)
+  })
+
+  test('a wrong number is unsupported even when the wording matches', () => {
+    const result = checkSentence('- Travel vouchers must be submitted in DTS within **10 duty days** [1]', passages)
+    assert.strictEqual(result.supported, false)
+    assert.deepStrictEqual(result.missing_numbers, ['10'])
+  })
+
+  test('a number from another passage does not support a cited claim', () => {
+    const result = checkSentence('Travel vouchers must be submitted within 60 days [1]', passages)
+    assert.strictEqual(result.supported, false)
+  })
+
+  test('uncited sentences are checked against every passage', () => {
+    assert.strictEqual(checkSentence('Members may carry over up to 60 days of leave.', passages).source, 2)
+  })
+
+  test('short lead-ins and refusals are not claims', () => {
+    assert.strictEqual(checkSentence('Here is what I found:', passages).claim, false)
+    assert.strictEqual(checkSentence("I don't have information on that in the policy documents.", passages).claim, false)
+  })
+})
+
+describe('verifyAnswer', () => {
+  test('computes confidence from the share of supported claims', () => {
+    const report = verifyAnswer([
+      'Vouchers are due within **5 duty days** of return [1].',
+      '- Up to **60 days** of leave may be carried over [2]',
+      '- Advance pay over **$2,000** requires commander approval [2]'
+    ].join('\n'), sources)
+    assert.strictEqual(report.claims, 3)
+    assert.strictEqual(report.confidence, 67)
+    assert.strictEqual(report.grounded, true)
+    assert.deepStrictEqual(report.sentences.map(s => s.supported), [true, true, false])
+  })
+
+  test('an answer the passages do not support is not grounded', () => {
+    const report = verifyAnswer('Members receive 45 days of convalescent leave after surgery. Supervisors approve it within 3 days.', sources)
+    assert.strictEqual(report.grounded, false)
+    assert.strictEqual(report.confidence, 0)
+  })
+
+  test('no passages means no grounding', () => {
+    assert.strictEqual(verifyAnswer('Vouchers are due within 5 duty days of return.', []).grounded, false)
+  })
+
+  test('an answer with no claims needs no support', () => {
+    const report = verifyAnswer("I don't have information on that in the policy documents.", sources)
+    assert.strictEqual(report.grounded, true)
+    assert.strictEqual(report.confidence, null)
+  })
+})
@@ -0,0 +1,331 @@
+/**
+ * Bulk import of a policy library
+ * Files from a ZIP or a server directory are grouped into documents and versions before
+ * anything is saved: a file joins an existing document or an earlier file of the import when
+ * the upload match score says it is the same publication, and an optional CSV manifest names
+ * documents and sets their scope and effective dates. The resulting plan is the dry-run report
+ * an admin reviews before committing.
+ */
+
+import path from 'path'
+import { parseScope, SCOPE_LEVELS } from './scope.js'
+import { parseEffectiveAt, isFutureEffective } from './schedule.js'
+
+// Match score at which a file is treated as a version of a document ("medium" confidence on upload)
+const MATCH_THRESHOLD = 40
+
+const IMPORT_STATUSES = ['analyzing', 'planned', 'committed', 'discarded', 'failed']
+
+// Manifest header aliases, after lower-casing and turning spaces and dashes into underscores
+const MANIFEST_COLUMNS = {
+  filename: 'filename',
+  file: 'filename',
+  path: 'filename',
+  name: 'name',
+  title: 'name',
+  short_title: 'short_title',
+  scope: 'scope',
+  effective_at: 'effective_at',
+  effective_date: 'effective_at'
+}
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with commas, quotes ("") and newlines.
+ * @param {string} text
+ * @returns {string[][]}
+ */
+function parseCsv(text) {
+  const rows = []
+  let row = []
+  let field = ''
+  let quoted = false
+
+  const source = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(fields => fields.some(value => value.trim()))
+}
+
+// Manifest scope: "installation:JBSA San Antonio" or the JSON the upload form sends
+function parseManifestScope(value) {
+  const trimmed = value.trim()
+  if (!trimmed || trimmed.startsWith('{')) return parseScope(trimmed)
+  const separator = trimmed.indexOf(':')
+  if (separator === -1) return { error: `scope must be "level:value" with a level of ${SCOPE_LEVELS.join(', ')}` }
+  return parseScope({ level: trimmed.slice(0, separator).trim().toLowerCase(), value: trimmed.slice(separator + 1) })
+}
+
+// Files are matched to manifest rows by file name, wherever they sit in the folder or archive
+function fileKey(filename) {
+  return path.basename(filename.replace(/\\/g, '/')).toLowerCase()
+}
+
+/**
+ * Parse a CSV manifest. Rows with a bad scope or date are reported and left out; the header
+ * must have a filename column.
+ * @param {string} text
+ * @returns {{ value: { entries: Map<string, Object>, errors: Array<{ row: number, filename: string | null, error: string }> } } | { error: string }}
+ */
+function parseManifest(text) {
+  const [header, ...rows] = parseCsv(text || '')
+  if (!header) return { error: 'The manifest is empty' }
+
+  const columns = header.map(name => MANIFEST_COLUMNS[name.trim().toLowerCase().replace(/[\s-]+/g, '_')] || null)
+  if (!columns.includes('filename')) return { error: 'The manifest needs a filename column' }
+
+  const entries = new Map()
+  const errors = []
+  rows.forEach((fields, index) => {
+    const row = index + 2
+    const values = {}
+    columns.forEach((column, i) => {
+      if (column) values[column] = (fields[i] || '').trim()
+    })
+    if (!values.filename) {
+      errors.push({ row, filename: null, error: 'filename is required' })
+      return
+    }
+
+    const scope = parseManifestScope(values.scope || '')
+    const effectiveAt = parseEffectiveAt(values.effective_at || '')
+    const error = scope.error || effectiveAt.error
+    if (error) {
+      errors.push({ row, filename: values.filename, error })
+      return
+    }
+    const key = fileKey(values.filename)
+    if (entries.has(key)) {
+      errors.push({ row, filename: values.filename, error: `Duplicate of row ${entries.get(key).row}` })
+      return
+    }
+    entries.set(key, {
+      row,
+      filename: values.filename,
+      name: values.name || null,
+      short_title: values.short_title || null,
+      scope: scope.value,
+      effective_at: effectiveAt.value
+    })
+  })
+  return { value: { entries, errors } }
+}
+
+/**
+ * Whether an archive or folder entry is a policy file to import. Folders, hidden files and
+ * macOS resource forks are ignored without being reported.
+ * @param {string} filename
+ * @returns {'pdf' | 'ignored' | 'unsupported'}
+ */
+function classifyFile(filename) {
+  const normalized = filename.replace(/\\/g, '/')
+  const base = path.basename(normalized)
+  if (normalized.endsWith('/') || normalized.split('/').some(part => part === '__MACOSX') || base.startsWith('.')) {
+    return 'ignored'
+  }
+  return /\.pdf$/i.test(base) ? 'pdf' : 'unsupported'
+}
+
+// Undated versions sort before dated ones, then by path, so "v1" comes before "v2"
+function compareVersions(a, b) {
+  const byDate = (a.effective_at || '').localeCompare(b.effective_at || '')
+  return byDate || a.path.localeCompare(b.path, undefined, { numeric: true })
+}
+
+// A planned document in the shape the match score expects of a library document
+function asCandidate(group) {
+  return {
+    name: group.name,
+    short_title: group.short_title,
+    versions: [{ original_name: group.versions[0].original_name }]
+  }
+}
+
+// Highest-scoring candidate at or above the threshold
+function bestMatch(file, candidates, matchScore) {
+  let best = null
+  for (const candidate of candidates) {
+    const { score, signals } = matchScore(file.original_name, candidate.doc, file.text)
+    if (score >= MATCH_THRESHOLD && (!best || score > best.score)) best = { ...candidate, score, signals }
+  }
+  return best
+}
+
+// A document the import will create or add versions to; new documents are keyed by their order
+function newGroup(action, existing, shortTitle, index) {
+  return {
+    key: existing ? existing.id : `new-${index}`,
+    action,
+    document_id: existing?.id || null,
+    name: existing?.name || null,
+    short_title: existing ? existing.short_title || null : shortTitle,
+    scope: existing?.scope || null,
+    match: null,
+    versions: []
+  }
+}
+
+const sameTitle = (a, b) => Boolean(a && b) && a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * Group the files of an import into new documents and new versions of library documents.
+ * A manifest short title decides the document outright; otherwise a file joins the
+ * best-scoring library document, then the best-scoring document planned so far, and starts
+ * a new document when neither reaches the threshold. In a new document the latest version
+ * already in effect becomes current and later-dated ones are scheduled; a new document whose
+ * versions all take effect in the future is skipped, since it cannot start on a future date.
+ * @param {Array<{ id: string, path: string, original_name: string, size: number, hash: string, text: string | null }>} files - staged PDFs
+ * @param {Array} documents - the library
+ * @param {{ manifest?: { entries: Map, errors: Array } | null, knownHashes?: Map<string, { document_id: string, name: string }>, matchScore: Function, now?: Date }} options
+ *   `knownHashes` maps the content hash of every library version's file to its document;
+ *   `matchScore(filename, doc, text)` returns `{ score, signals }` as on upload
+ * @returns {{ documents: Array, skipped: Array, warnings: Array, stats: Object }}
+ */
+function planImport(files, documents, { manifest = null, knownHashes = new Map(), matchScore, now = new Date() }) {
+  const planned = []
+  const skipped = []
+  const warnings = []
+  const seenHashes = new Map()
+  const used = new Set()
+
+  const library = documents.map(doc => ({ doc, existing: doc }))
+  const ordered = [...files].sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))
+
+  for (const file of ordered) {
+    const key = fileKey(file.path)
+    const entry = manifest?.entries.get(key) || null
+    const rowError = manifest?.errors.find(error => error.filename && fileKey(error.filename) === key)
+    if (entry) used.add(key)
+
+    if (rowError) {
+      skipped.push({ file_id: file.id, path: file.path, reason: 'manifest_error', detail: `Row ${rowError.row}: ${rowError.error}` })
+      continue
+    }
+    if (knownHashes.has(file.hash)) {
+      skipped.push({ file_id: file.id, path: file.path, reason: 'already_in_library', detail: knownHashes.get(file.hash).name })
+      continue
+    }
+    if (seenHashes.has(file.hash)) {
+      skipped.push({ file_id: file.id, path: file.path, reason: 'duplicate', detail: seenHashes.get(file.hash) })
+      continue
+    }
+    seenHashes.set(file.hash, file.path)
+    if (file.text === null) warnings.push({ path: file.path, warning: 'No text could be read; matched on the file name only' })
+
+    const version = {
+      file_id: file.id,
+      path: file.path,
+      original_name: file.original_name,
+      size: file.size,
+      effective_at: entry?.effective_at || null
+    }
+
+    let group = null
+    let match = null
+    if (entry?.short_title) {
+      const existing = documents.find(doc => sameTitle(doc.short_title, entry.short_title))
+      group = planned.find(g => existing ? g.document_id === existing.id : !g.document_id && sameTitle(g.short_title, entry.short_title))
+      if (!group && existing) group = newGroup('update', existing, null)
+      match = group && { score: null, signals: [{ type: 'manifest', weight: 0, detail: `Short title ${entry.short_title}` }] }
+    } else {
+      const fromLibrary = bestMatch(file, library, matchScore)
+      const fromImport = fromLibrary ? null : bestMatch(file, planned.filter(g => !g.document_id).map(g => ({ doc: asCandidate(g), group: g })), matchScore)
+      if (fromLibrary) {
+        group = planned.find(g => g.document_id === fromLibrary.existing.id) || newGroup('update', fromLibrary.existing, null)
+        match = { score: fromLibrary.score, signals: fromLibrary.signals }
+      } else if (fromImport) {
+        group = fromImport.group
+        match = { score: fromImport.score, signals: fromImport.signals }
+      }
+    }
+
+    if (!group) {
+      group = newGroup('create', null, entry?.short_title || null, planned.length + 1)
+      group.name = entry?.name || file.original_name.replace(/\.pdf$/i, '')
+    }
+    if (!planned.includes(group)) planned.push(group)
+    if (!group.match && match) group.match = match
+    if (group.action === 'create') {
+      if (entry?.name && !group.name_from_manifest) {
+        group.name = entry.name
+        group.name_from_manifest = true
+      }
+      if (entry?.scope && !group.scope) group.scope = entry.scope
+    }
+    group.versions.push(version)
+  }
+
+  for (const [key, entry] of manifest?.entries || []) {
+    if (!used.has(key)) warnings.push({ path: entry.filename, warning: `Manifest row ${entry.row} matches no file` })
+  }
+  for (const error of manifest?.errors || []) {
+    if (!error.filename) warnings.push({ path: null, warning: `Manifest row ${error.row}: ${error.error}` })
+  }
+
+  const result = []
+  for (const { name_from_manifest: _fromManifest, ...group } of planned) {
+    const versions = [...group.versions].sort(compareVersions)
+    if (group.action === 'update') {
+      result.push({ ...group, versions: versions.map(version => ({ ...version, current: false, scheduled: false })) })
+      continue
+    }
+
+    // Undated versions sort first, so everything up to the last one in effect is past
+    const current = versions.findLastIndex(version => !isFutureEffective(version, now))
+    if (current === -1) {
+      for (const version of versions) {
+        skipped.push({ file_id: version.file_id, path: version.path, reason: 'future_effective', detail: 'A new document cannot start on a future date' })
+      }
+      continue
+    }
+    result.push({ ...group, versions: versions.map((version, i) => ({ ...version, current: i === current, scheduled: i > current })) })
+  }
+  return {
+    documents: result,
+    skipped,
+    warnings,
+    stats: {
+      files: files.length,
+      new_documents: result.filter(g => g.action === 'create').length,
+      updated_documents: result.filter(g => g.action === 'update').length,
+      versions: result.reduce((sum, g) => sum + g.versions.length, 0),
+      skipped: skipped.length
+    }
+  }
+}
+
+export {
+  MATCH_THRESHOLD,
+  IMPORT_STATUSES,
+  parseCsv,
+  parseManifest,
+  classifyFile,
+  planImport
+}
@@ -0,0 +1,125 @@
+/**
+ * Tests for bulk import planning
+ * Run with: node --test server/imports.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { parseCsv, parseManifest, classifyFile, planImport } from './imports.js'
+
+// Stand-in for the upload match score: same publication number scores 50
+function matchScore(filename, doc) {
+  const number = text => (text || '').match(/\d{1,3}-\d{1,5}/)?.[0]
+  const own = number(filename)
+  const other = number(doc.short_title) || number(doc.name) || number(doc.versions?.[0]?.original_name)
+  return own && own === other
+    ? { score: 50, signals: [{ type: 'document_number', weight: 50, detail: `Document number ${own}` }] }
+    : { score: 0, signals: [] }
+}
+
+const travel = { id: 'travel', name: 'JBSA-Instruction-36-1201-Travel-Reimbursement', short_title: 'JBSA 36-1201', scope: null, versions: [] }
+
+function file(id, filePath, hash = id) {
+  return { id, path: filePath, original_name: filePath.split('/').pop(), size: 100, hash, text: '' }
+}
+
+describe('parseCsv', () => {
+  test('handles quoted commas, escaped quotes and CRLF line endings', () => {
+    assert.deepStrictEqual(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\r\n\r\n'), [['a', 'b, c', 'say "hi"'], ['1', '2', '3']])
+  })
+})
+
+describe('parseManifest', () => {
+  test('reads rows by file name and reports bad ones', () => {
+    const { value } = parseManifest([
+      'File,Name,Short Title,Scope,Effective Date',
+      'policies/Leave-v2.pdf,Leave and Pass,JBSA 36-3003,installation:JBSA,2024-05-01',
+      'Telework.pdf,,,base:JBSA,',
+      ',Orphan,,,'
+    ].join('\n'))
+
+    const leave = value.entries.get('leave-v2.pdf')
+    assert.deepStrictEqual([leave.name, leave.short_title, leave.scope, leave.effective_at], [
+      'Leave and Pass', 'JBSA 36-3003', { level: 'installation', value: 'JBSA' }, '2024-05-01T00:00:00.000Z'
+    ])
+    assert.deepStrictEqual(value.errors.map(e => [e.row, e.filename]), [[3, 'Telework.pdf'], [4, null]])
+  })
+
+  test('requires a filename column', () => {
+    assert.match(parseManifest('name,scope\nLeave,').error, /filename/)
+  })
+})
+
+describe('classifyFile', () => {
+  test('imports PDFs and ignores folders and system files', () => {
+    assert.deepStrictEqual(
+      ['a/Leave.PDF', 'a/', '__MACOSX/a/._Leave.pdf', '.DS_Store', 'notes.docx'].map(classifyFile),
+      ['pdf', 'ignored', 'ignored', 'ignored', 'unsupported']
+    )
+  })
+})
+
+describe('planImport', () => {
+  test('groups files into new documents and versions of library documents', () => {
+    const plan = planImport([
+      file('f1', 'wing/Leave-36-3003-v2.pdf'),
+      file('f2', 'wing/Leave-36-3003-v1.pdf'),
+      file('f3', 'wing/Travel-36-1201-2025.pdf'),
+      file('f4', 'wing/Fitness-36-1802.pdf')
+    ], [travel], { matchScore })
+
+    assert.deepStrictEqual(plan.documents.map(d => [d.action, d.document_id, d.versions.map(v => [v.file_id, v.current])]), [
+      ['create', null, [['f4', true]]],
+      ['create', null, [['f2', false], ['f1', true]]],
+      ['update', 'travel', [['f3', false]]]
+    ])
+    assert.deepStrictEqual(plan.stats, { files: 4, new_documents: 2, updated_documents: 1, versions: 4, skipped: 0 })
+  })
+
+  test('applies manifest names, scopes and effective dates', () => {
+    const { value: manifest } = parseManifest([
+      'filename,name,short_title,scope,effective_at',
+      'a.pdf,Leave and Pass,JBSA 36-3003,installation:JBSA,2024-06-01',
+      'b.pdf,,JBSA 36-3003,,2024-01-01',
+      'missing.pdf,Nothing,,,'
+    ].join('\n'))
+    const plan = planImport([file('a', 'a.pdf'), file('b', 'b.pdf')], [travel], { manifest, matchScore })
+
+    const [leave] = plan.documents
+    assert.deepStrictEqual([leave.name, leave.short_title, leave.scope.value], ['Leave and Pass', 'JBSA 36-3003', 'JBSA'])
+    assert.deepStrictEqual(leave.versions.map(v => [v.file_id, v.current]), [['b', false], ['a', true]])
+    assert.deepStrictEqual(plan.warnings.map(w => w.path), ['missing.pdf'])
+  })
+
+  test('schedules future-dated versions of new documents and skips documents that start in the future', () => {
+    const { value: manifest } = parseManifest([
+      'filename,short_title,effective_at',
+      'leave-v1.pdf,JBSA 36-3003,2024-01-01',
+      'leave-v2.pdf,JBSA 36-3003,2099-01-01',
+      'gym.pdf,JBSA 36-1802,2099-06-01'
+    ].join('\n'))
+    const plan = planImport([file('a', 'leave-v1.pdf'), file('b', 'leave-v2.pdf'), file('c', 'gym.pdf')], [], {
+      manifest,
+      matchScore,
+      now: new Date('2025-01-01T00:00:00.000Z')
+    })
+
+    assert.deepStrictEqual(plan.documents.map(d => d.versions.map(v => [v.file_id, v.current, v.scheduled])), [
+      [['a', true, false], ['b', false, true]]
+    ])
+    assert.deepStrictEqual(plan.skipped.map(s => [s.file_id, s.reason]), [['c', 'future_effective']])
+    assert.strictEqual(plan.stats.new_documents, 1)
+  })
+
+  test('skips duplicates, files already in the library and bad manifest rows', () => {
+    const { value: manifest } = parseManifest('filename,effective_at\nc.pdf,someday')
+    const plan = planImport(
+      [file('a', 'a.pdf', 'h1'), file('b', 'copy/a.pdf', 'h1'), file('c', 'c.pdf'), file('d', 'd.pdf', 'h2')],
+      [travel],
+      { manifest, knownHashes: new Map([['h2', { document_id: 'travel', name: travel.name }]]), matchScore }
+    )
+    assert.deepStrictEqual(plan.skipped.map(s => [s.file_id, s.reason]), [
+      ['c', 'manifest_error'], ['b', 'duplicate'], ['d', 'already_in_library']
+    ])
+  })
+})
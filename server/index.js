@@ -1,7 +1,7 @@
 /**
  * RegSync Local API Server
  * Document management backend with LlamaFarm RAG integration
- * Supports per-session isolation for demo deployment
+ * Durable journal-backed storage, with optional per-session isolation for demo deployment
  */
 
 import express from 'express'
@@ -9,22 +9,119 @@ import multer from 'multer'
 import cors from 'cors'
 import { v4 as uuidv4 } from 'uuid'
 import fs from 'fs'
+import crypto from 'crypto'
 import path from 'path'
 import { fileURLToPath } from 'url'
 import { createRequire } from 'module'
 const require = createRequire(import.meta.url)
 const { PDFParse } = require('pdf-parse')
-import fastDiff from 'fast-diff'
 import stringSimilarity from 'string-similarity'
 import {
   getWeekBounds,
   getMonthBounds,
   formatPeriodLabel,
+  DIGEST_EVENTS,
   computeDigest,
   getPreviousWeek,
   getPreviousMonth,
   validateArchiveLimit
 } from './digest.js'
+import { createRecordStore, createDocumentRepository } from './store.js'
+import {
+  hasPermission,
+  verifyPassword,
+  signToken,
+  verifyToken,
+  isTokenCurrent,
+  publicUser,
+  hashPassword,
+  TOKEN_TTL_MS
+} from './auth.js'
+import {
+  isAdminRole,
+  nameFromEmail,
+  validateAdminInput,
+  validateAdminUpdate,
+  checkAdminMutation,
+  toAdminMember
+} from './admins.js'
+import {
+  AUDIT_ACTIONS,
+  createAuditLog,
+  summarizeDocument,
+  summarizeVersion,
+  auditToCsv
+} from './audit.js'
+import {
+  validateWorkflow,
+  buildWorkflow,
+  resolveWorkflow,
+  startReview,
+  reviewOf,
+  currentStage,
+  canReviewStage,
+  applyDecision
+} from './workflow.js'
+import {
+  parseEffectiveAt,
+  approvedStatus,
+  isFutureEffective,
+  settleDueVersions,
+  upcomingChange
+} from './schedule.js'
+import { computeSectionDiff, computeRedline } from './sections.js'
+import { createContentCache } from './cache.js'
+import { JOB_STATUSES, publicJob, createJobQueue } from './jobs.js'
+import { parseScope, canViewDocument, filterVisible } from './scope.js'
+import {
+  OVERFETCH_FACTOR,
+  PINNED_OVERFETCH_FACTOR,
+  chunkMetadata,
+  filterRetrievedChunks,
+  findPinnableVersion,
+  parseTopK
+} from './retrieval.js'
+import { tokenize, parseSearchFilters, selectSearchTargets, versionStatus, createSearchIndex } from './search.js'
+import { verifyAnswer } from './grounding.js'
+import {
+  validateConversation,
+  buildConversation,
+  listConversations,
+  publicConversation,
+  sharedConversation,
+  citedDocumentIds,
+  createShareToken
+} from './conversations.js'
+import {
+  feedbackId,
+  validateFeedback,
+  buildFeedback,
+  validateTriage,
+  applyTriage,
+  parseReviewFilters,
+  groupDownvotes,
+  summarizeFeedback,
+  NO_DOCUMENT
+} from './feedback.js'
+import {
+  suggestRelationships,
+  parseRelationship,
+  validateDecision,
+  buildRelationship,
+  decideRelationship,
+  relationshipsOf,
+  buildLineage,
+  supersededDocuments
+} from './lineage.js'
+import {
+  extractReferences,
+  sectionIds,
+  checkReferences,
+  buildReferenceReport,
+  markReviewed
+} from './references.js'
+import { parseManifest, classifyFile, planImport } from './imports.js'
+import { readZip } from './zip.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -48,20 +145,41 @@ const SEED_POLICIES_DIR = path.join(SEED_DIR, 'policies')
 const SEED_METADATA_FILE = path.join(SEED_DIR, 'documents.json')
 const SEED_SAMPLES_DIR = path.join(SEED_DIR, 'samples')
 const SEED_SAMPLES_MANIFEST = path.join(SEED_SAMPLES_DIR, 'manifest.json')
+const SEED_USERS_FILE = path.join(SEED_DIR, 'users.json')
+
+// Bulk imports: server directories may only be read from under this root (unset disables them)
+const IMPORT_ROOT = process.env.REGSYNC_IMPORT_ROOT ? path.resolve(process.env.REGSYNC_IMPORT_ROOT) : null
+const MAX_IMPORT_BYTES = 500 * 1024 * 1024 // 500MB ZIP, and 500MB of files staged from it or a folder
+const MAX_IMPORT_FILE_BYTES = 50 * 1024 * 1024 // Same as a single upload
+const MAX_IMPORT_ENTRIES = 2000
 
 // Demo limits
 const DEMO_MAX_DOCUMENTS = 20
 const DEMO_MAX_STORAGE_BYTES = 200 * 1024 * 1024 // 200MB
 
-// Session expiry (2 hours)
+// Session expiry (2 hours) - only applies in session storage mode
 const SESSION_TTL_MS = 2 * 60 * 60 * 1000
 
+// Storage mode: 'durable' persists one shared library to data/store,
+// 'session' gives every browser session its own in-memory copy of the seed (demo deployment)
+const STORAGE_MODE = process.env.REGSYNC_STORAGE_MODE === 'session' ? 'session' : 'durable'
+const STORE_DIR = path.join(DATA_DIR, 'store')
+// Extracted PDF text and diffs, keyed by file content so every mode can share it
+const CACHE_DIR = path.join(DATA_DIR, 'cache')
+const DEFAULT_WORKSPACE = 'default'
+// Users and other server-wide records live outside the document workspaces
+const SYSTEM_WORKSPACE = 'system'
+
+// Session token signing secret - set REGSYNC_AUTH_SECRET so sign-ins survive restarts
+const AUTH_SECRET = process.env.REGSYNC_AUTH_SECRET || crypto.randomBytes(32).toString('hex')
+const AUTH_COOKIE = 'regsync_auth'
+
 // Ensure directories exist
 if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true })
 if (!fs.existsSync(UPLOADS_DIR)) fs.mkdirSync(UPLOADS_DIR, { recursive: true })
 
 // ============================================
-// Session Management
+// Storage
 // ============================================
 
 // Load seed metadata template (once at startup)
@@ -75,68 +193,363 @@ if (fs.existsSync(SEED_METADATA_FILE)) {
   }
 }
 
-// In-memory session store: Map<sessionId, { metadata, createdAt, uploadedFiles }>
-const sessions = new Map()
+const records = createRecordStore({ dir: STORAGE_MODE === 'durable' ? STORE_DIR : null })
+const documentsRepo = createDocumentRepository({ records, seedDocuments: seedMetadata.documents })
+// Audit trail is append-only and kept outside the compacted record journal
+const auditLog = createAuditLog({ dir: STORAGE_MODE === 'durable' ? STORE_DIR : null })
 
-function createSession() {
-  return {
-    metadata: JSON.parse(JSON.stringify(seedMetadata)), // deep copy
-    createdAt: Date.now(),
-    uploadedFiles: [] // track files uploaded by this session for cleanup
+// PDF text and diff cache
+const contentCache = createContentCache({ dir: CACHE_DIR })
+
+// Keyword index over policy text for /search and the assistant's offline mode, filled from the cache
+const searchIndex = createSearchIndex()
+
+// Seed user accounts (local test fixtures) the first time the store starts
+if (records.list(SYSTEM_WORKSPACE, 'users').length === 0 && fs.existsSync(SEED_USERS_FILE)) {
+  try {
+    const { users } = JSON.parse(fs.readFileSync(SEED_USERS_FILE, 'utf-8'))
+    for (const user of users) {
+      records.put(SYSTEM_WORKSPACE, 'users', user.id, user)
+    }
+    console.log(`Loaded seed users: ${users.length} accounts`)
+  } catch (err) {
+    console.error('Failed to load seed users:', err.message)
   }
 }
 
-function getSession(sessionId) {
-  if (!sessions.has(sessionId)) {
-    sessions.set(sessionId, createSession())
-    console.log(`New session created: ${sessionId} (total: ${sessions.size})`)
+function findUserByUsername(username) {
+  const normalized = String(username || '').trim().toLowerCase()
+  return records.list(SYSTEM_WORKSPACE, 'users').find(u => u.username.toLowerCase() === normalized) || null
+}
+
+// Last access time per session workspace (session mode only)
+const sessionAccess = new Map()
+
+function deleteUploadedFiles(filenames) {
+  invalidateCachedFiles(filenames.map(filename => path.join(UPLOADS_DIR, filename)))
+  let deleted = 0
+  for (const filename of filenames) {
+    const filePath = path.join(UPLOADS_DIR, filename)
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath)
+        deleted++
+      }
+    } catch {}
   }
-  const session = sessions.get(sessionId)
-  session.lastAccess = Date.now()
-  return session
+  return deleted
+}
+
+// Session cleanup - evict expired sessions every 30 minutes
+if (STORAGE_MODE === 'session') {
+  setInterval(() => {
+    const now = Date.now()
+    let evicted = 0
+    for (const [sessionId, lastAccess] of sessionAccess) {
+      if (now - lastAccess > SESSION_TTL_MS) {
+        deleteUploadedFiles(documentsRepo.dropWorkspace(sessionId))
+        sessionAccess.delete(sessionId)
+        evicted++
+      }
+    }
+    if (evicted > 0) {
+      console.log(`Session cleanup: evicted ${evicted} expired sessions (remaining: ${sessionAccess.size})`)
+    }
+  }, 30 * 60 * 1000) // Every 30 minutes
 }
 
-function loadMetadata(sessionId) {
-  return getSession(sessionId).metadata
+// ============================================
+// Background Jobs
+// ============================================
+
+// Document and version a job works on, or null once either is gone (or the session expired)
+function jobTarget(job) {
+  if (!records.hasWorkspace(job.workspace)) return null
+  const doc = documentsRepo.getDocument(job.workspace, job.document_id)
+  const version = doc?.versions.find(v => v.id === job.version_id)
+  return version ? { doc, version } : null
 }
 
-function saveMetadata(sessionId, data) {
-  const session = getSession(sessionId)
-  session.metadata = data
+const notRetryable = message => Object.assign(new Error(message), { retryable: false })
+
+// Work that runs after the request that queued it has returned
+const jobHandlers = {
+  // Section diff of a new version against the version it will replace. The redline is left in
+  // the content cache for /compare rather than stored on the version.
+  async 'version.diff'(job, { progress }) {
+    const target = jobTarget(job)
+    const base = target?.doc.versions.find(v => v.id === job.payload.base_version_id)
+    if (!target || !base) return { skipped: 'Version no longer exists' }
+
+    const oldFilePath = resolveFilePath(base.filename)
+    const newFilePath = resolveFilePath(target.version.filename)
+    if (!oldFilePath || !newFilePath) throw notRetryable('PDF files not found')
+
+    progress('Comparing with the current version')
+    const comparison = await compareFiles(oldFilePath, newFilePath)
+    if (!comparison) throw new Error('PDF text extraction failed')
+
+    documentsRepo.updateVersion(job.workspace, job.document_id, job.version_id, {
+      diff: { base_version_id: base.id, changes: comparison.changes, stats: comparison.stats }
+    })
+    const summaryJob = jobQueue.enqueue('version.summary', {
+      workspace: job.workspace,
+      document_id: job.document_id,
+      version_id: job.version_id
+    })
+    return { changes: comparison.changes.length, summary_job_id: summaryJob.id }
+  },
+
+  // LLM summary of a version's diff; the last attempt settles for the plain change count
+  async 'version.summary'(job, { progress }) {
+    const target = jobTarget(job)
+    if (!target?.version.diff) return { skipped: 'No diff to summarize' }
+
+    progress('Summarizing changes')
+    const { changes } = target.version.diff
+    const summary = job.attempts < job.max_attempts
+      ? await requestChangeSummary(changes, target.doc.name)
+      : await generateChangeSummary(changes, target.doc.name)
+
+    documentsRepo.updateVersion(job.workspace, job.document_id, job.version_id, { summary })
+    return { summary }
+  },
+
+  // Send a newly current version's PDF to the LlamaFarm RAG dataset
+  async 'rag.ingest'(job, { progress }) {
+    const target = jobTarget(job)
+    if (!target) return { skipped: 'Version no longer exists' }
+
+    const filePath = resolveFilePath(target.version.filename)
+    if (!filePath) throw notRetryable('PDF file not found')
+
+    progress('Adding to the policy knowledge base')
+    const upload = await uploadToLlamaFarm(filePath, target.version.original_name, chunkMetadata(target.doc, target.version))
+    if (!upload.success) throw new Error(upload.error || 'LlamaFarm upload failed')
+
+    documentsRepo.updateVersion(job.workspace, job.document_id, job.version_id, { rag_status: 'ingested' })
+    if (job.payload.previous_version_id) {
+      jobQueue.enqueue('rag.change_summary', {
+        workspace: job.workspace,
+        document_id: job.document_id,
+        version_id: job.version_id,
+        payload: { previous_version_id: job.payload.previous_version_id }
+      })
+    }
+    return { ingested: target.version.original_name }
+  },
+
+  // Replace the document's "what changed" summary in the RAG dataset
+  async 'rag.change_summary'(job, { progress }) {
+    const target = jobTarget(job)
+    if (!target) return { skipped: 'Version no longer exists' }
+
+    progress('Storing change summary')
+    const { doc } = target
+    const result = await storeChangeSummary(
+      job.workspace, doc.id, doc.name, doc.short_title, job.payload.previous_version_id, job.version_id
+    )
+    if (!result.success) throw new Error(result.error || 'Change summary upload failed')
+    return { stored: !result.skipped }
+  },
+
+  // Suggest lineage relationships from the publications a version's text mentions
+  async 'lineage.suggest'(job, { progress }) {
+    const target = jobTarget(job)
+    if (!target) return { skipped: 'Version no longer exists' }
+
+    const filePath = resolveFilePath(target.version.filename)
+    if (!filePath) throw notRetryable('PDF file not found')
+
+    progress('Looking for related policies')
+    const text = await extractPdfText(filePath)
+    if (text === null) throw new Error('PDF text extraction failed')
+
+    const suggestions = suggestRelationships(
+      target.doc, text, documentsRepo.listDocuments(job.workspace), records.list(job.workspace, 'relationships')
+    )
+    const now = new Date().toISOString()
+    for (const { evidence, ...link } of suggestions) {
+      const id = uuidv4()
+      records.put(job.workspace, 'relationships', id, buildRelationship(id, link, {
+        status: 'suggested',
+        evidence: { version_id: target.version.id, text: evidence },
+        user: null,
+        now
+      }))
+    }
+    return { suggested: suggestions.length }
+  },
+
+  // Record the publications and paragraphs a published version cites
+  async 'references.extract'(job, { progress }) {
+    const target = jobTarget(job)
+    if (!target) return { skipped: 'Version no longer exists' }
+
+    const filePath = resolveFilePath(target.version.filename)
+    if (!filePath) throw notRetryable('PDF file not found')
+
+    progress('Indexing cross-references')
+    const pages = await extractPdfPages(filePath)
+    if (pages === null) throw new Error('PDF text extraction failed')
+
+    const references = extractReferences(target.doc, pages, documentsRepo.listDocuments(job.workspace))
+    records.put(job.workspace, 'references', target.version.id, {
+      id: target.version.id,
+      document_id: target.doc.id,
+      version_id: target.version.id,
+      extracted_at: new Date().toISOString(),
+      reviewed_at: null,
+      references
+    })
+    return { references: references.length }
+  },
+
+  // Read the staged files of a bulk import and group them into documents and versions (the dry run)
+  async 'import.plan'(job, { progress }) {
+    if (!records.hasWorkspace(job.workspace)) return { skipped: 'Workspace no longer exists' }
+    const batch = records.get(job.workspace, 'imports', job.payload.import_id)
+    if (batch?.status !== 'analyzing') return { skipped: 'Import is no longer being analyzed' }
+
+    const files = []
+    for (const [i, file] of batch.files.entries()) {
+      progress(`Reading file ${i + 1} of ${batch.files.length}`)
+      const filePath = path.join(UPLOADS_DIR, file.filename)
+      if (!fs.existsSync(filePath)) throw notRetryable(`Staged file ${file.path} is missing`)
+      files.push({ ...file, hash: contentCache.hashFile(filePath), text: await extractPdfText(filePath) })
+    }
+
+    // Files are matched only against documents the uploader can see
+    const documents = filterVisible(job.payload.viewer, documentsRepo.listDocuments(job.workspace))
+    const knownHashes = new Map()
+    for (const doc of documents) {
+      for (const version of doc.versions) {
+        const filePath = resolveFilePath(version.filename)
+        if (filePath) knownHashes.set(contentCache.hashFile(filePath), { document_id: doc.id, name: doc.name })
+      }
+    }
+
+    progress('Grouping files into documents')
+    const manifest = batch.manifest && { entries: new Map(batch.manifest.entries), errors: batch.manifest.errors }
+    const plan = planImport(files, documents, { manifest, knownHashes, matchScore: calculateMatchScore })
+    plan.skipped.push(...batch.unsupported.map(entry => ({ file_id: null, path: entry, reason: 'unsupported', detail: null })))
+    plan.stats.skipped = plan.skipped.length
+
+    records.put(job.workspace, 'imports', batch.id, { ...batch, status: 'planned', planned_at: new Date().toISOString(), plan })
+    return { documents: plan.documents.length, skipped: plan.skipped.length }
+  }
 }
 
-// Session cleanup - evict expired sessions every 30 minutes
-setInterval(() => {
-  const now = Date.now()
-  let evicted = 0
-  for (const [sessionId, session] of sessions) {
-    if (now - (session.lastAccess || session.createdAt) > SESSION_TTL_MS) {
-      // Clean up uploaded files for this session
-      for (const filename of session.uploadedFiles) {
-        const filePath = path.join(UPLOADS_DIR, filename)
-        try {
-          if (fs.existsSync(filePath)) fs.unlinkSync(filePath)
-        } catch {}
+const jobQueue = createJobQueue({
+  records,
+  workspace: SYSTEM_WORKSPACE,
+  handlers: jobHandlers,
+  // Mark versions that never reached the RAG dataset, and imports that could not be analyzed, so admins can see it
+  onFailed(job) {
+    if (job.type === 'import.plan') {
+      const batch = records.hasWorkspace(job.workspace) && records.get(job.workspace, 'imports', job.payload.import_id)
+      if (batch) records.put(job.workspace, 'imports', batch.id, { ...batch, status: 'failed', error: job.error })
+      return
+    }
+    if (job.type !== 'rag.ingest' || !jobTarget(job)) return
+    documentsRepo.updateVersion(job.workspace, job.document_id, job.version_id, { rag_status: 'failed' })
+  }
+})
+
+// Queue the scan of a version's text for related policies
+function enqueueLineageScan(workspace, documentId, versionId) {
+  return jobQueue.enqueue('lineage.suggest', { workspace, document_id: documentId, version_id: versionId })
+}
+
+// Queue the extraction of a published version's cross-references
+function enqueueReferenceExtraction(workspace, documentId, versionId) {
+  return jobQueue.enqueue('references.extract', { workspace, document_id: documentId, version_id: versionId })
+}
+
+// Queue cross-reference extraction and RAG ingestion for a version that just became current.
+// Demo sessions skip ingestion - their RAG answers come from the shared seed data.
+function enqueuePublishJobs(workspace, documentId, versionId, previousVersionId) {
+  enqueueReferenceExtraction(workspace, documentId, versionId)
+  if (STORAGE_MODE === 'session') return { rag_status: 'demo_mode', jobs: [] }
+
+  documentsRepo.updateVersion(workspace, documentId, versionId, { rag_status: 'queued' })
+  const job = jobQueue.enqueue('rag.ingest', {
+    workspace,
+    document_id: documentId,
+    version_id: versionId,
+    payload: { previous_version_id: previousVersionId || null }
+  })
+  return { rag_status: 'queued', jobs: [publicJob(job)] }
+}
+
+const SCHEDULER_ACTOR = { id: 'system', name: 'Scheduler', role: 'system' }
+
+// Effective-date scheduler - promote scheduled versions whose date has arrived. A due version
+// older than the current one (a newer version was published meanwhile) is superseded instead.
+function promoteDueVersions() {
+  const now = new Date()
+  const workspaces = STORAGE_MODE === 'session' ? [...sessionAccess.keys()] : [DEFAULT_WORKSPACE]
+  let promoted = 0
+  let supersededCount = 0
+
+  for (const workspace of workspaces) {
+    for (const doc of documentsRepo.listDocuments(workspace)) {
+      const { current, superseded } = settleDueVersions(doc, now)
+      if (!current && superseded.length === 0) continue
+
+      const at = now.toISOString()
+      const currentId = current ? current.id : doc.current_version_id
+      for (const version of superseded) {
+        documentsRepo.updateVersion(workspace, doc.id, version.id, { status: 'published', superseded_by: currentId, superseded_at: at })
+        auditLog.record({
+          workspace,
+          action: 'version.superseded',
+          actor: SCHEDULER_ACTOR,
+          document_id: doc.id,
+          version_id: version.id,
+          before: { status: version.status },
+          after: { status: 'published', superseded_by: currentId, effective_at: version.effective_at },
+          details: null
+        })
       }
-      sessions.delete(sessionId)
-      evicted++
+      supersededCount += superseded.length
+      if (!current) continue
+
+      documentsRepo.updateVersion(workspace, doc.id, current.id, { status: 'published', promoted_at: at })
+      documentsRepo.updateDocument(workspace, doc.id, { current_version_id: current.id, updated_at: at })
+      auditLog.record({
+        workspace,
+        action: 'version.effective',
+        actor: SCHEDULER_ACTOR,
+        document_id: doc.id,
+        version_id: current.id,
+        before: { current_version_id: doc.current_version_id },
+        after: { current_version_id: current.id, effective_at: current.effective_at },
+        details: superseded.length > 0 ? { superseded: superseded.map(v => v.id) } : null
+      })
+      enqueuePublishJobs(workspace, doc.id, current.id, doc.current_version_id)
+      promoted++
     }
   }
-  if (evicted > 0) {
-    console.log(`Session cleanup: evicted ${evicted} expired sessions (remaining: ${sessions.size})`)
+
+  if (promoted > 0 || supersededCount > 0) {
+    console.log(`Scheduler: ${promoted} version(s) took effect, ${supersededCount} superseded`)
   }
-}, 30 * 60 * 1000) // Every 30 minutes
+}
+
+promoteDueVersions()
+setInterval(promoteDueVersions, 60 * 1000) // Every minute
 
 // ============================================
 // Middleware
 // ============================================
 
 app.use(cors({ credentials: true, origin: true }))
-app.use(express.json())
+// Saved conversations carry the passages each answer cited, so allow more than the 100kb default
+app.use(express.json({ limit: '2mb' }))
 
-// Session middleware - assigns/reads session cookie
-app.use((req, res, next) => {
-  // Parse cookies manually (lightweight, no dependency)
+// Parse cookies manually (lightweight, no dependency)
+function parseCookies(req) {
   const cookies = {}
   const cookieHeader = req.headers.cookie
   if (cookieHeader) {
@@ -145,6 +558,17 @@ app.use((req, res, next) => {
       cookies[name] = rest.join('=')
     })
   }
+  return cookies
+}
+
+// Workspace middleware - durable mode shares one workspace, session mode assigns/reads a session cookie
+app.use((req, res, next) => {
+  if (STORAGE_MODE === 'durable') {
+    req.workspace = DEFAULT_WORKSPACE
+    return next()
+  }
+
+  const cookies = parseCookies(req)
 
   let sessionId = cookies['regsync_session']
   if (!sessionId) {
@@ -152,10 +576,59 @@ app.use((req, res, next) => {
     // Set cookie: HttpOnly for security, SameSite=Lax for cross-origin
     res.setHeader('Set-Cookie', `regsync_session=${sessionId}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_TTL_MS / 1000}`)
   }
-  req.sessionId = sessionId
+  if (!sessionAccess.has(sessionId)) {
+    console.log(`New session created: ${sessionId} (total: ${sessionAccess.size + 1})`)
+  }
+  sessionAccess.set(sessionId, Date.now())
+  req.workspace = sessionId
+  next()
+})
+
+// Auth middleware - resolves the signed token (cookie or Bearer header) to req.user
+app.use((req, res, next) => {
+  const header = req.headers.authorization
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : parseCookies(req)[AUTH_COOKIE]
+  const claims = token ? verifyToken(token, AUTH_SECRET) : null
+  const user = claims ? records.get(SYSTEM_WORKSPACE, 'users', claims.sub) : null
+  req.user = user && !user.disabled && isTokenCurrent(claims, user) ? user : null
   next()
 })
 
+// Route guard - 401 when signed out, 403 when the caller's role lacks the permission
+function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Sign in required' })
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: `Missing permission: ${permission}` })
+    }
+    next()
+  }
+}
+
+// Document the caller's scope allows them to see, or null. Out-of-scope documents
+// answer 404 like missing ones so their existence is not revealed.
+function getVisibleDocument(req, documentId) {
+  const doc = documentsRepo.getDocument(req.workspace, documentId)
+  return doc && canViewDocument(req.user, doc) ? doc : null
+}
+
+// Append an audit entry attributed to the signed-in caller
+function audit(req, action, { document_id = null, version_id = null, before = null, after = null, details = null } = {}) {
+  auditLog.record({
+    workspace: req.workspace,
+    action,
+    actor: req.user ? { id: req.user.id, name: req.user.name, role: req.user.role } : null,
+    ip: req.ip,
+    document_id,
+    version_id,
+    before,
+    after,
+    details
+  })
+}
+
 // File upload configuration - uploads go to shared uploads directory
 const storage = multer.diskStorage({
   destination: (req, file, cb) => cb(null, UPLOADS_DIR),
@@ -165,6 +638,7 @@ const storage = multer.diskStorage({
   }
 })
 const upload = multer({ storage, limits: { fileSize: 50 * 1024 * 1024 } }) // 50MB limit
+const importUpload = multer({ storage, limits: { fileSize: MAX_IMPORT_BYTES } })
 
 // ============================================
 // File Resolution Helpers
@@ -240,6 +714,8 @@ async function uploadToLlamaFarm(filePath, originalName, metadata = {}) {
 
     const formData = new FormData()
     formData.append('file', blob, originalName)
+    // Copied onto every chunk so retrieval can be filtered by document and scope
+    formData.append('metadata', JSON.stringify(metadata))
 
     const url = `${LLAMAFARM_URL}/v1/projects/${LLAMAFARM_NAMESPACE}/${LLAMAFARM_PROJECT}/datasets/${LLAMAFARM_DATASET}/data?auto_process=true`
 
@@ -264,11 +740,12 @@ async function uploadToLlamaFarm(filePath, originalName, metadata = {}) {
 }
 
 // Upload text content to LlamaFarm RAG dataset (for change summaries)
-async function uploadTextToLlamaFarm(text, filename) {
+async function uploadTextToLlamaFarm(text, filename, metadata = {}) {
   try {
     const blob = new Blob([text], { type: 'text/plain' })
     const formData = new FormData()
     formData.append('file', blob, filename)
+    formData.append('metadata', JSON.stringify(metadata))
 
     const url = `${LLAMAFARM_URL}/v1/projects/${LLAMAFARM_NAMESPACE}/${LLAMAFARM_PROJECT}/datasets/${LLAMAFARM_DATASET}/data?auto_process=true`
 
@@ -360,15 +837,14 @@ function formatChangeSummary(docName, shortTitle, compareResult) {
 }
 
 // Store change summary in LlamaFarm RAG (replaces any existing summary)
-async function storeChangeSummary(sessionId, documentId, docName, shortTitle, oldVersionId, newVersionId) {
+async function storeChangeSummary(workspace, documentId, docName, shortTitle, oldVersionId, newVersionId) {
   try {
     if (!oldVersionId) {
       console.log('Skipping change summary - first version, nothing to compare')
       return { success: true, skipped: true }
     }
 
-    const metadata = loadMetadata(sessionId)
-    const doc = metadata.documents.find(d => d.id === documentId)
+    const doc = documentsRepo.getDocument(workspace, documentId)
     if (!doc) {
       console.log('Document not found for change summary')
       return { success: false, error: 'Document not found' }
@@ -390,17 +866,14 @@ async function storeChangeSummary(sessionId, documentId, docName, shortTitle, ol
       return { success: false, error: 'PDF files not found' }
     }
 
-    const [oldText, newText] = await Promise.all([
-      extractPdfText(oldFilePath),
-      extractPdfText(newFilePath)
-    ])
+    const comparison = await compareFiles(oldFilePath, newFilePath)
 
-    if (!oldText || !newText) {
+    if (!comparison) {
       console.log('Could not extract PDF text for change summary')
       return { success: false, error: 'PDF extraction failed' }
     }
 
-    const changes = computeTextDiff(oldText, newText)
+    const { changes } = comparison
     const summary = await generateChangeSummary(changes, docName)
 
     const compareResult = {
@@ -414,7 +887,7 @@ async function storeChangeSummary(sessionId, documentId, docName, shortTitle, ol
 
     const summaryText = formatChangeSummary(docName, shortTitle, compareResult)
     const filename = `${documentId}_changes.txt`
-    const uploadResult = await uploadTextToLlamaFarm(summaryText, filename)
+    const uploadResult = await uploadTextToLlamaFarm(summaryText, filename, chunkMetadata(doc, newVersion))
 
     if (uploadResult.success) {
       console.log('✓ Change summary stored in RAG for document:', docName)
@@ -427,100 +900,107 @@ async function storeChangeSummary(sessionId, documentId, docName, shortTitle, ol
   }
 }
 
-// Extract text from PDF file (using pdf-parse v2.x API)
-async function extractPdfText(filePath) {
+// Parse the text of each page of a PDF file (using pdf-parse v2.x API)
+async function parsePdfPages(filePath) {
   try {
     const dataBuffer = fs.readFileSync(filePath)
     const uint8Array = new Uint8Array(dataBuffer)
     const parser = new PDFParse(uint8Array)
     await parser.load()
     const result = await parser.getText()
-    const texts = result.pages.map(page => page.text).filter(Boolean)
-    return texts.join('\n\n')
+    return result.pages.map(page => page.text || '')
   } catch (error) {
     console.error('PDF extraction error:', error.message)
     return null
   }
 }
 
-// Split text into sections (by page markers or paragraphs)
-function splitIntoSections(text) {
-  const pagePattern = /(?:--- Page \d+ ---|\n{3,})/g
-  const sections = text.split(pagePattern).filter(s => s.trim().length > 50)
-
-  if (sections.length < 3) {
-    return text.split(/\n\n+/).filter(s => s.trim().length > 30).slice(0, 50)
+// Per-page text of a PDF file, parsed once per distinct file content
+async function extractPdfPages(filePath) {
+  try {
+    return await contentCache.pages(filePath, parsePdfPages)
+  } catch (error) {
+    console.error('PDF extraction error:', error.message)
+    return null
   }
-
-  return sections.slice(0, 50)
 }
 
-// Compute diff between two texts
-function computeTextDiff(oldText, newText) {
-  const normalizedOld = oldText.replace(/\s+/g, ' ').trim()
-  const normalizedNew = newText.replace(/\s+/g, ' ').trim()
-
-  const diff = fastDiff(normalizedOld, normalizedNew)
-
-  const changes = []
-  let changeIndex = 0
-
-  for (const [type, text] of diff) {
-    if (type === 0) continue
-
-    const trimmedText = text.trim()
-    if (trimmedText.length < 10) continue
+// Extract text from PDF file
+async function extractPdfText(filePath) {
+  const pages = await extractPdfPages(filePath)
+  return pages ? pages.filter(Boolean).join('\n\n') : null
+}
 
-    const sectionTitle = trimmedText.substring(0, 60) + (trimmedText.length > 60 ? '...' : '')
-    const sentences = trimmedText.split(/[.!?]\s+/).filter(s => s.length > 5).length
+// Section changes, stats and redline between two PDF files, computed once per pair of file contents
+async function compareFiles(oldFilePath, newFilePath) {
+  const oldHash = contentCache.hashFile(oldFilePath)
+  const newHash = contentCache.hashFile(newFilePath)
 
-    changes.push({
-      section: `Section ${++changeIndex}: ${sectionTitle}`,
-      type: type === 1 ? 'added' : 'removed',
-      summary: type === 1
-        ? `New content added (~${sentences} sentences)`
-        : `Content removed (~${sentences} sentences)`,
-      before: type === -1 ? trimmedText.substring(0, 500) : undefined,
-      after: type === 1 ? trimmedText.substring(0, 500) : undefined
-    })
-  }
+  return contentCache.diff(oldHash, newHash, async () => {
+    const [oldText, newText] = await Promise.all([
+      extractPdfText(oldFilePath),
+      extractPdfText(newFilePath)
+    ])
+    if (!oldText || !newText) return null
 
-  return changes.slice(0, 15)
+    const changes = computeSectionDiff(oldText, newText)
+    return {
+      changes,
+      stats: {
+        added: changes.filter(c => c.type === 'added').length,
+        removed: changes.filter(c => c.type === 'removed').length,
+        modified: changes.filter(c => c.type === 'modified').length,
+        moved: changes.filter(c => c.type === 'moved').length
+      },
+      redline: computeRedline(oldText, newText)
+    }
+  })
 }
 
-// Generate AI summary of changes using LlamaFarm
-async function generateChangeSummary(changes, docName) {
+// Summary used when there is nothing to summarize or LlamaFarm can't be reached
+function fallbackChangeSummary(changes, docName) {
   if (changes.length === 0) {
     return `No significant content changes detected between versions of "${docName}". The document may have formatting or metadata updates.`
   }
+  return `${changes.length} change${changes.length === 1 ? '' : 's'} detected in the document.`
+}
 
-  try {
-    const changesText = changes.map((c, i) =>
-      `${i + 1}. ${c.type.toUpperCase()}: ${c.section} - ${c.summary}`
-    ).join('\n')
-
-    const response = await fetch(`${LLAMAFARM_URL}/v1/projects/${LLAMAFARM_NAMESPACE}/${LLAMAFARM_PROJECT}/chat/completions`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        messages: [{
-          role: 'user',
-          content: `Summarize these changes to the document "${docName}" in 1-2 sentences for a policy administrator:\n\n${changesText}`
-        }],
-        max_tokens: 150,
-        temperature: 0.3
-      })
+// Ask LlamaFarm to summarize the changes; throws when it is unreachable or errors
+async function requestChangeSummary(changes, docName) {
+  if (changes.length === 0) return fallbackChangeSummary(changes, docName)
+
+  const changesText = changes.map((c, i) =>
+    `${i + 1}. ${c.type.toUpperCase()}: ${c.section} - ${c.summary}`
+  ).join('\n')
+
+  const response = await fetch(`${LLAMAFARM_URL}/v1/projects/${LLAMAFARM_NAMESPACE}/${LLAMAFARM_PROJECT}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      messages: [{
+        role: 'user',
+        content: `Summarize these changes to the document "${docName}" in 1-2 sentences for a policy administrator:\n\n${changesText}`
+      }],
+      max_tokens: 150,
+      temperature: 0.3
     })
+  })
 
-    if (!response.ok) {
-      return `${changes.length} change${changes.length === 1 ? '' : 's'} detected in the document.`
-    }
+  if (!response.ok) {
+    throw new Error(`LlamaFarm summary failed (${response.status})`)
+  }
+
+  const data = await response.json()
+  return data.choices?.[0]?.message?.content || fallbackChangeSummary(changes, docName)
+}
 
-    const data = await response.json()
-    return data.choices?.[0]?.message?.content || `${changes.length} change${changes.length === 1 ? '' : 's'} detected in the document.`
+// Generate AI summary of changes using LlamaFarm, falling back to a change count
+async function generateChangeSummary(changes, docName) {
+  try {
+    return await requestChangeSummary(changes, docName)
   } catch (error) {
     console.error('AI summary error:', error.message)
-    return `${changes.length} change${changes.length === 1 ? '' : 's'} detected in the document.`
+    return fallbackChangeSummary(changes, docName)
   }
 }
 
@@ -627,26 +1107,40 @@ function getConfidenceLevel(score) {
 // Demo Limit Helpers
 // ============================================
 
-function getSessionUsage(sessionId) {
-  const metadata = loadMetadata(sessionId)
-  const documentCount = metadata.documents.length
+// Usage limits apply to demo sessions only; the durable library is unbounded
+function getSessionUsage(workspace) {
+  const documents = documentsRepo.listDocuments(workspace)
+  const documentCount = documents.length
 
   let totalStorage = 0
-  for (const doc of metadata.documents) {
+  for (const doc of documents) {
     for (const version of doc.versions) {
       totalStorage += version.size || 0
     }
   }
 
+  if (STORAGE_MODE === 'durable') {
+    return {
+      mode: STORAGE_MODE,
+      documents: { current: documentCount, max: null },
+      storage: { current_bytes: totalStorage, max_bytes: null },
+      can_upload: true
+    }
+  }
+
   return {
+    mode: STORAGE_MODE,
     documents: { current: documentCount, max: DEMO_MAX_DOCUMENTS },
     storage: { current_bytes: totalStorage, max_bytes: DEMO_MAX_STORAGE_BYTES },
     can_upload: documentCount < DEMO_MAX_DOCUMENTS && totalStorage < DEMO_MAX_STORAGE_BYTES
   }
 }
 
-function checkUploadLimits(sessionId, isNewDocument = true) {
-  const usage = getSessionUsage(sessionId)
+function checkUploadLimits(workspace, isNewDocument = true) {
+  const usage = getSessionUsage(workspace)
+  if (usage.mode === 'durable') {
+    return { allowed: true }
+  }
 
   if (isNewDocument && usage.documents.current >= usage.documents.max) {
     return { allowed: false, error: `Document limit reached (${usage.documents.max}). Reset the demo or delete documents to continue.` }
@@ -660,477 +1154,1842 @@ function checkUploadLimits(sessionId, isNewDocument = true) {
 }
 
 // ============================================
-// API Routes
+// Auth API
 // ============================================
 
-// Serve policy PDF files directly by filename
-app.get('/v1/projects/:namespace/:project/policies/:filename', (req, res) => {
-  const filePath = resolveFilePath(req.params.filename)
+function setAuthCookie(res, token, maxAgeMs) {
+  res.setHeader('Set-Cookie', `${AUTH_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${Math.floor(maxAgeMs / 1000)}`)
+}
 
-  if (!filePath) {
-    return res.status(404).json({ error: 'File not found' })
+// Sign in with username (email) and password
+app.post('/v1/projects/:namespace/:project/auth/login', (req, res) => {
+  const { username, password } = req.body || {}
+  const user = findUserByUsername(username)
+
+  if (!user || user.disabled || !verifyPassword(password, user.password_hash)) {
+    return res.status(401).json({ error: 'Invalid email or password' })
   }
 
-  res.setHeader('Content-Type', 'application/pdf')
-  res.setHeader('Content-Disposition', `inline; filename="${req.params.filename}"`)
-  res.sendFile(filePath)
-})
+  const token = signToken({ sub: user.id, role: user.role, gen: user.token_generation || 0 }, AUTH_SECRET)
+  setAuthCookie(res, token, TOKEN_TTL_MS)
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'healthy', sessions: sessions.size })
+  res.json({ user: publicUser(user), token, expires_in: TOKEN_TTL_MS / 1000 })
 })
 
-// List all documents
-app.get('/v1/projects/:namespace/:project/documents/', (req, res) => {
-  const metadata = loadMetadata(req.sessionId)
-  res.json({
-    total: metadata.documents.length,
-    documents: metadata.documents
-  })
+// Sign out (clears the auth cookie and revokes every token issued to the caller)
+app.post('/v1/projects/:namespace/:project/auth/logout', (req, res) => {
+  if (req.user) {
+    records.put(SYSTEM_WORKSPACE, 'users', req.user.id, { ...req.user, token_generation: (req.user.token_generation || 0) + 1 })
+  }
+  setAuthCookie(res, '', 0)
+  res.json({ message: 'Signed out' })
 })
 
-// Get single document
-app.get('/v1/projects/:namespace/:project/documents/:documentId', (req, res) => {
-  const metadata = loadMetadata(req.sessionId)
-  const doc = metadata.documents.find(d => d.id === req.params.documentId)
-  if (!doc) {
-    return res.status(404).json({ error: 'Document not found' })
+// Current user - the client drives admin routing from this answer
+app.get('/v1/projects/:namespace/:project/auth/me', (req, res) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Not signed in' })
   }
-  res.json({ document: doc })
+  res.json({ user: publicUser(req.user) })
 })
 
-// Create new document (upload)
-app.post('/v1/projects/:namespace/:project/documents/', upload.single('file'), async (req, res) => {
-  if (!req.file) {
-    return res.status(400).json({ error: 'No file uploaded' })
-  }
+// ============================================
+// Admin Roster API
+// ============================================
 
-  // Check demo limits
-  const limitCheck = checkUploadLimits(req.sessionId, true)
-  if (!limitCheck.allowed) {
-    // Clean up uploaded file
-    try { fs.unlinkSync(path.join(UPLOADS_DIR, req.file.filename)) } catch {}
-    return res.status(400).json({ error: limitCheck.error })
+// List administrators
+app.get('/v1/projects/:namespace/:project/admins', requirePermission('manage_admins'), (req, res) => {
+  const admins = records.list(SYSTEM_WORKSPACE, 'users')
+    .filter(isAdminRole)
+    .map(user => toAdminMember(user, req.user))
+  res.json({ total: admins.length, admins })
+})
+
+// Add an administrator (promotes an existing account or provisions a new one)
+app.post('/v1/projects/:namespace/:project/admins', requirePermission('manage_admins'), (req, res) => {
+  const error = validateAdminInput(req.body)
+  if (error) {
+    return res.status(400).json({ error })
   }
 
-  const metadata = loadMetadata(req.sessionId)
+  const { email, role, location, name, title, password } = req.body
   const now = new Date().toISOString()
-  const versionId = uuidv4()
-  const documentId = uuidv4()
-  const docName = req.body.name || req.file.originalname.replace('.pdf', '')
 
-  const document = {
-    id: documentId,
-    name: docName,
-    short_title: req.body.short_title || null,
-    current_version_id: versionId,
-    created_at: now,
-    updated_at: now,
-    versions: [{
-      id: versionId,
-      filename: req.file.filename,
-      original_name: req.file.originalname,
-      uploaded_by: req.body.uploaded_by || 'Unknown',
-      notes: req.body.notes || null,
-      created_at: now,
-      size: req.file.size
-    }]
+  // Existing accounts are changed through PATCH, never silently through "add admin"
+  if (findUserByUsername(email)) {
+    return res.status(409).json({ error: 'An account with this email already exists' })
   }
 
-  metadata.documents.push(document)
-  saveMetadata(req.sessionId, metadata)
-
-  // Track uploaded file for session cleanup
-  getSession(req.sessionId).uploadedFiles.push(req.file.filename)
+  const user = {
+    id: uuidv4(),
+    username: email.trim().toLowerCase(),
+    name: name?.trim() || nameFromEmail(email),
+    title: title?.trim() || 'Policy Administrator',
+    role,
+    location,
+    // New accounts can't sign in until a temporary password is set
+    password_hash: password ? hashPassword(password) : null,
+    created_at: now,
+    updated_at: now
+  }
 
-  // Skip LlamaFarm upload for demo sessions (RAG uses shared seed data only)
-  res.status(201).json({
-    document: {
-      id: document.id,
-      name: document.name,
-      short_title: document.short_title,
-      current_version_id: document.current_version_id,
-      created_at: document.created_at,
-      updated_at: document.updated_at
-    },
-    version: document.versions[0],
-    rag_status: 'demo_mode'
-  })
+  records.put(SYSTEM_WORKSPACE, 'users', user.id, user)
+  res.status(201).json({ admin: toAdminMember(user, req.user) })
 })
 
-// Upload new version (as pending - requires approval)
-app.post('/v1/projects/:namespace/:project/documents/:documentId/versions', upload.single('file'), async (req, res) => {
-  if (!req.file) {
-    return res.status(400).json({ error: 'No file uploaded' })
+// Update an administrator's role, location or display fields, or reset their password
+app.patch('/v1/projects/:namespace/:project/admins/:userId', requirePermission('manage_admins'), (req, res) => {
+  const target = records.get(SYSTEM_WORKSPACE, 'users', req.params.userId)
+  if (!target || !isAdminRole(target)) {
+    return res.status(404).json({ error: 'Admin not found' })
   }
 
-  // Check storage limits (not document count - adding version, not new doc)
-  const limitCheck = checkUploadLimits(req.sessionId, false)
-  if (!limitCheck.allowed) {
-    try { fs.unlinkSync(path.join(UPLOADS_DIR, req.file.filename)) } catch {}
-    return res.status(400).json({ error: limitCheck.error })
+  const error = validateAdminUpdate(req.body)
+  if (error) {
+    return res.status(400).json({ error })
   }
 
-  const metadata = loadMetadata(req.sessionId)
-  const docIndex = metadata.documents.findIndex(d => d.id === req.params.documentId)
+  const { role, location, name, title, password } = req.body
 
-  if (docIndex === -1) {
-    return res.status(404).json({ error: 'Document not found' })
+  const check = checkAdminMutation(req.user, target, 'update', records.list(SYSTEM_WORKSPACE, 'users'), { role })
+  if (!check.allowed) {
+    return res.status(403).json({ error: check.reason })
   }
 
-  const now = new Date().toISOString()
-  const versionId = uuidv4()
-  const doc = metadata.documents[docIndex]
-
-  const version = {
-    id: versionId,
-    filename: req.file.filename,
-    original_name: req.file.originalname,
-    uploaded_by: req.body.uploaded_by || 'Unknown',
-    notes: req.body.notes || null,
-    created_at: now,
-    size: req.file.size,
-    status: 'pending'
+  const user = {
+    ...target,
+    ...(role !== undefined && { role }),
+    ...(location !== undefined && { location }),
+    ...(name?.trim() && { name: name.trim() }),
+    ...(title?.trim() && { title: title.trim() }),
+    // A reset password signs the account out everywhere
+    ...(password !== undefined && { password_hash: hashPassword(password), token_generation: (target.token_generation || 0) + 1 }),
+    updated_at: new Date().toISOString()
   }
+  records.put(SYSTEM_WORKSPACE, 'users', user.id, user)
+  res.json({ admin: toAdminMember(user, req.user) })
+})
 
-  // Pre-compute diff and summary at upload time
-  const previousVersion = doc.versions.find(v => v.id === doc.current_version_id)
-  if (previousVersion) {
-    try {
-      const oldFilePath = resolveFilePath(previousVersion.filename)
-      const newFilePath = path.join(UPLOADS_DIR, req.file.filename)
-
-      if (oldFilePath && fs.existsSync(newFilePath)) {
-        const [oldText, newText] = await Promise.all([
-          extractPdfText(oldFilePath),
-          extractPdfText(newFilePath)
-        ])
-
-        if (oldText && newText) {
-          const changes = computeTextDiff(oldText, newText)
-          const summary = await generateChangeSummary(changes, doc.name)
-
-          const stats = {
-            added: changes.filter(c => c.type === 'added').length,
-            removed: changes.filter(c => c.type === 'removed').length
-          }
-
-          version.diff = { changes, stats }
-          version.summary = summary
-          console.log(`✓ Pre-computed diff and summary for version ${versionId}`)
-        }
-      }
-    } catch (error) {
-      console.error('Failed to pre-compute diff/summary:', error.message)
-    }
+// Remove admin access (the account stays, as a regular user)
+app.delete('/v1/projects/:namespace/:project/admins/:userId', requirePermission('manage_admins'), (req, res) => {
+  const target = records.get(SYSTEM_WORKSPACE, 'users', req.params.userId)
+  if (!target || !isAdminRole(target)) {
+    return res.status(404).json({ error: 'Admin not found' })
   }
 
-  metadata.documents[docIndex].versions.push(version)
-  saveMetadata(req.sessionId, metadata)
-
-  // Track uploaded file for session cleanup
-  getSession(req.sessionId).uploadedFiles.push(req.file.filename)
+  const check = checkAdminMutation(req.user, target, 'remove', records.list(SYSTEM_WORKSPACE, 'users'))
+  if (!check.allowed) {
+    return res.status(403).json({ error: check.reason })
+  }
 
-  res.status(201).json({
-    version,
-    previous_version_id: doc.current_version_id,
-    message: 'Version uploaded - pending review'
-  })
+  records.put(SYSTEM_WORKSPACE, 'users', target.id, { ...target, role: 'user', updated_at: new Date().toISOString() })
+  res.json({ message: `Removed ${target.name} from admin list` })
 })
 
-// Approve a pending version
-app.post('/v1/projects/:namespace/:project/documents/:documentId/versions/:versionId/approve', async (req, res) => {
-  const metadata = loadMetadata(req.sessionId)
-  const docIndex = metadata.documents.findIndex(d => d.id === req.params.documentId)
+// ============================================
+// Audit Log API
+// ============================================
 
-  if (docIndex === -1) {
-    return res.status(404).json({ error: 'Document not found' })
+// Query the audit trail for this workspace (newest first); format=csv downloads every match
+app.get('/v1/projects/:namespace/:project/audit', requirePermission('manage_versions'), (req, res) => {
+  const { action, actor, document_id, from, to, format } = req.query
+
+  if (action && !AUDIT_ACTIONS.includes(action)) {
+    return res.status(400).json({ error: `Unknown action: ${action}` })
+  }
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (value && Number.isNaN(new Date(value).getTime())) {
+      return res.status(400).json({ error: `${name} must be an ISO date` })
+    }
   }
 
-  const doc = metadata.documents[docIndex]
-  const versionIndex = doc.versions.findIndex(v => v.id === req.params.versionId)
+  const filters = { workspace: req.workspace, action, actor, document_id, from, to }
 
-  if (versionIndex === -1) {
-    return res.status(404).json({ error: 'Version not found' })
+  if (format === 'csv') {
+    const { entries } = auditLog.query(filters)
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="regsync-audit-${new Date().toISOString().slice(0, 10)}.csv"`)
+    return res.send(auditToCsv(entries))
   }
 
-  const version = doc.versions[versionIndex]
-  const now = new Date().toISOString()
-  const previousVersionId = doc.current_version_id
-
-  metadata.documents[docIndex].versions[versionIndex].status = 'published'
-  metadata.documents[docIndex].current_version_id = req.params.versionId
-  metadata.documents[docIndex].updated_at = now
-  saveMetadata(req.sessionId, metadata)
+  const limit = Math.min(parseInt(req.query.limit) || 50, 500)
+  const offset = parseInt(req.query.offset) || 0
+  const { total, entries } = auditLog.query({ ...filters, limit, offset })
 
-  // Skip LlamaFarm operations for demo sessions
   res.json({
-    message: 'Version approved and published',
-    version: metadata.documents[docIndex].versions[versionIndex],
-    rag_status: 'demo_mode'
+    total,
+    limit,
+    offset,
+    actions: AUDIT_ACTIONS,
+    integrity: auditLog.verify(),
+    entries
   })
 })
 
-// Reject a pending version
-app.delete('/v1/projects/:namespace/:project/documents/:documentId/versions/:versionId', (req, res) => {
-  const metadata = loadMetadata(req.sessionId)
-  const docIndex = metadata.documents.findIndex(d => d.id === req.params.documentId)
-
-  if (docIndex === -1) {
-    return res.status(404).json({ error: 'Document not found' })
-  }
+// ============================================
+// Review Workflow API
+// ============================================
 
-  const doc = metadata.documents[docIndex]
-  const versionIndex = doc.versions.findIndex(v => v.id === req.params.versionId)
+function listWorkflows(workspace) {
+  return records.list(workspace, 'workflows')
+}
 
-  if (versionIndex === -1) {
-    return res.status(404).json({ error: 'Version not found' })
+// List configured workflows; the built-in single-stage review applies when none are set up
+app.get('/v1/projects/:namespace/:project/workflows', requirePermission('manage_versions'), (req, res) => {
+  const workflows = listWorkflows(req.workspace)
+  res.json({
+    workflows,
+    default_workflow: resolveWorkflow(workflows, null)
+  })
+})
+
+// Create or replace a workflow. Versions already in review keep the stages they started with.
+function saveWorkflow(req, res, id) {
+  const users = records.list(SYSTEM_WORKSPACE, 'users')
+  const error = validateWorkflow(req.body, users)
+  if (error) {
+    return res.status(400).json({ error })
+  }
+
+  const existing = records.get(req.workspace, 'workflows', id)
+  const now = new Date().toISOString()
+  const workflow = {
+    ...buildWorkflow(id, req.body, users),
+    created_at: existing?.created_at || now,
+    updated_at: now
+  }
+
+  // Only one workflow can be the workspace default
+  if (workflow.is_default) {
+    for (const other of listWorkflows(req.workspace)) {
+      if (other.id !== id && other.is_default) {
+        records.put(req.workspace, 'workflows', other.id, { ...other, is_default: false })
+      }
+    }
+  }
+  records.put(req.workspace, 'workflows', id, workflow)
+  audit(req, 'workflow.save', { before: existing || null, after: workflow })
+
+  res.status(existing ? 200 : 201).json({ workflow })
+}
+
+app.post('/v1/projects/:namespace/:project/workflows', requirePermission('manage_admins'), (req, res) => {
+  saveWorkflow(req, res, uuidv4())
+})
+
+app.put('/v1/projects/:namespace/:project/workflows/:workflowId', requirePermission('manage_admins'), (req, res) => {
+  if (!records.get(req.workspace, 'workflows', req.params.workflowId)) {
+    return res.status(404).json({ error: 'Workflow not found' })
+  }
+  saveWorkflow(req, res, req.params.workflowId)
+})
+
+// Delete a workflow - documents assigned to it fall back to the default
+app.delete('/v1/projects/:namespace/:project/workflows/:workflowId', requirePermission('manage_admins'), (req, res) => {
+  const workflow = records.get(req.workspace, 'workflows', req.params.workflowId)
+  if (!workflow) {
+    return res.status(404).json({ error: 'Workflow not found' })
+  }
+
+  records.remove(req.workspace, 'workflows', workflow.id)
+  for (const doc of documentsRepo.listDocuments(req.workspace)) {
+    if (doc.workflow_id === workflow.id) {
+      documentsRepo.updateDocument(req.workspace, doc.id, { workflow_id: null })
+    }
+  }
+  audit(req, 'workflow.delete', { before: workflow })
+
+  res.json({ message: `Deleted workflow ${workflow.name}` })
+})
+
+// Assign the workflow new versions of a document go through (null = workspace default)
+app.put('/v1/projects/:namespace/:project/documents/:documentId/workflow', requirePermission('manage_admins'), (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const workflowId = req.body?.workflow_id || null
+  if (workflowId && !records.get(req.workspace, 'workflows', workflowId)) {
+    return res.status(400).json({ error: 'Workflow not found' })
+  }
+
+  documentsRepo.updateDocument(req.workspace, doc.id, { workflow_id: workflowId })
+  audit(req, 'workflow.assign', {
+    document_id: doc.id,
+    before: { workflow_id: doc.workflow_id || null },
+    after: { workflow_id: workflowId }
+  })
+
+  res.json({ document_id: doc.id, workflow_id: workflowId })
+})
+
+// Pending versions across the library, flagged with whether the caller can decide the current stage
+app.get('/v1/projects/:namespace/:project/reviews', requirePermission('manage_versions'), (req, res) => {
+  const reviews = []
+  for (const doc of documentsRepo.listDocuments(req.workspace)) {
+    for (const version of doc.versions) {
+      if (version.status !== 'pending') continue
+      const review = reviewOf(version)
+      const stage = currentStage(review)
+      reviews.push({
+        document_id: doc.id,
+        document_name: doc.name,
+        short_title: doc.short_title || null,
+        current_version_id: doc.current_version_id,
+        version_id: version.id,
+        uploaded_by: version.uploaded_by,
+        created_at: version.created_at,
+        workflow_name: review.workflow_name,
+        stage_index: review.stage_index,
+        stage_count: review.stages.length,
+        stage,
+        can_review: canReviewStage(req.user, stage)
+      })
+    }
+  }
+  reviews.sort((a, b) => new Date(a.created_at) - new Date(b.created_at))
+
+  res.json({ total: reviews.length, reviews })
+})
+
+// ============================================
+// API Routes
+// ============================================
+
+// Serve policy PDF files directly by filename
+app.get('/v1/projects/:namespace/:project/policies/:filename', (req, res) => {
+  const owner = documentsRepo.listDocuments(req.workspace)
+    .find(doc => doc.versions.some(v => v.filename === req.params.filename))
+  const filePath = resolveFilePath(req.params.filename)
+
+  if (!filePath || !owner || !canViewDocument(req.user, owner)) {
+    return res.status(404).json({ error: 'File not found' })
+  }
+
+  res.setHeader('Content-Type', 'application/pdf')
+  res.setHeader('Content-Disposition', `inline; filename="${req.params.filename}"`)
+  res.sendFile(filePath)
+})
+
+// Health check
+app.get('/health', (req, res) => {
+  res.json({ status: 'healthy', storage: STORAGE_MODE, workspaces: records.workspaceCount() })
+})
+
+// Flag the version current_version_id points at, so clients never infer it from version order
+function withCurrentFlag(doc) {
+  return {
+    ...doc,
+    versions: doc.versions.map(v => ({ ...v, is_current: v.id === doc.current_version_id }))
+  }
+}
+
+// List all documents
+app.get('/v1/projects/:namespace/:project/documents/', (req, res) => {
+  const now = new Date()
+  const documents = filterVisible(req.user, documentsRepo.listDocuments(req.workspace))
+    .map(doc => ({ ...withCurrentFlag(doc), upcoming_change: upcomingChange(doc, now) }))
+  res.json({
+    total: documents.length,
+    documents
+  })
+})
+
+// Get single document
+app.get('/v1/projects/:namespace/:project/documents/:documentId', (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+  res.json({ document: { ...withCurrentFlag(doc), upcoming_change: upcomingChange(doc, new Date()) } })
+})
+
+// Create new document (upload)
+app.post('/v1/projects/:namespace/:project/documents/', requirePermission('upload_policies'), upload.single('file'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' })
+  }
+
+  // Check demo limits
+  const limitCheck = checkUploadLimits(req.workspace, true)
+  if (!limitCheck.allowed) {
+    // Clean up uploaded file
+    try { fs.unlinkSync(path.join(UPLOADS_DIR, req.file.filename)) } catch {}
+    return res.status(400).json({ error: limitCheck.error })
+  }
+
+  // A new document's first version is current as soon as it is created, so it cannot be scheduled
+  const effectiveAt = parseEffectiveAt(req.body.effective_at)
+  const effectiveError = effectiveAt.error ||
+    (isFutureEffective({ effective_at: effectiveAt.value }, new Date()) &&
+      'A new document takes effect when it is uploaded; effective_at cannot be in the future')
+  if (effectiveError) {
+    try { fs.unlinkSync(path.join(UPLOADS_DIR, req.file.filename)) } catch {}
+    return res.status(400).json({ error: effectiveError })
+  }
+
+  const scope = parseScope(req.body.scope)
+  if (scope.error) {
+    try { fs.unlinkSync(path.join(UPLOADS_DIR, req.file.filename)) } catch {}
+    return res.status(400).json({ error: scope.error })
+  }
+
+  const now = new Date().toISOString()
+  const versionId = uuidv4()
+  const documentId = uuidv4()
+  const docName = req.body.name || req.file.originalname.replace('.pdf', '')
+
+  const document = documentsRepo.saveDocument(req.workspace, {
+    id: documentId,
+    name: docName,
+    short_title: req.body.short_title || null,
+    scope: scope.value,
+    current_version_id: versionId,
+    created_at: now,
+    updated_at: now,
+    versions: [{
+      id: versionId,
+      filename: req.file.filename,
+      original_name: req.file.originalname,
+      uploaded_by: req.user.name,
+      notes: req.body.notes || null,
+      created_at: now,
+      effective_at: effectiveAt.value,
+      size: req.file.size
+    }]
+  })
+
+  audit(req, 'document.create', {
+    document_id: document.id,
+    version_id: versionId,
+    after: { document: summarizeDocument(document), version: summarizeVersion(document.versions[0]) }
+  })
+
+  // Track uploaded file for reset and session cleanup
+  documentsRepo.trackUpload(req.workspace, req.file.filename)
+
+  enqueueLineageScan(req.workspace, document.id, versionId)
+  const { rag_status, jobs } = enqueuePublishJobs(req.workspace, document.id, versionId, null)
+  res.status(201).json({
+    document: {
+      id: document.id,
+      name: document.name,
+      short_title: document.short_title,
+      scope: document.scope,
+      current_version_id: document.current_version_id,
+      created_at: document.created_at,
+      updated_at: document.updated_at
+    },
+    version: document.versions[0],
+    rag_status,
+    jobs
+  })
+})
+
+// Upload new version (as pending - requires approval)
+app.post('/v1/projects/:namespace/:project/documents/:documentId/versions', requirePermission('upload_policies'), upload.single('file'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' })
+  }
+
+  // Check storage limits (not document count - adding version, not new doc)
+  const limitCheck = checkUploadLimits(req.workspace, false)
+  if (!limitCheck.allowed) {
+    try { fs.unlinkSync(path.join(UPLOADS_DIR, req.file.filename)) } catch {}
+    return res.status(400).json({ error: limitCheck.error })
+  }
+
+  const effectiveAt = parseEffectiveAt(req.body.effective_at)
+  if (effectiveAt.error) {
+    try { fs.unlinkSync(path.join(UPLOADS_DIR, req.file.filename)) } catch {}
+    return res.status(400).json({ error: effectiveAt.error })
+  }
+
+  const doc = getVisibleDocument(req, req.params.documentId)
+
+  if (!doc) {
+    try { fs.unlinkSync(path.join(UPLOADS_DIR, req.file.filename)) } catch {}
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const { version, job } = addPendingVersion(req, doc, {
+    filename: req.file.filename,
+    original_name: req.file.originalname,
+    size: req.file.size,
+    notes: req.body.notes || null,
+    effective_at: effectiveAt.value
+  })
+
+  res.status(201).json({
+    version,
+    previous_version_id: doc.current_version_id,
+    job: job && publicJob(job),
+    message: 'Version uploaded - pending review'
+  })
+})
+
+// Record a new pending version of a document from a file already in the uploads directory.
+// It enters the document's review workflow, and its diff and summary are computed in the background.
+function addPendingVersion(req, doc, fields) {
+  const now = new Date().toISOString()
+  const version = documentsRepo.addVersion(req.workspace, doc.id, {
+    id: uuidv4(),
+    ...fields,
+    uploaded_by: req.user.name,
+    created_at: now,
+    status: 'pending',
+    review: startReview(resolveWorkflow(records.list(req.workspace, 'workflows'), doc.workflow_id), now)
+  })
+  audit(req, version.reverted_from ? 'version.revert' : 'version.upload', {
+    document_id: doc.id,
+    version_id: version.id,
+    before: { current_version_id: doc.current_version_id },
+    after: summarizeVersion(version),
+    details: version.reverted_from ? { reverted_from: version.reverted_from, note: version.notes } : null
+  })
+
+  // Track uploaded file for reset and session cleanup
+  documentsRepo.trackUpload(req.workspace, version.filename)
+  enqueueLineageScan(req.workspace, doc.id, version.id)
+
+  // Diff and summary are computed in the background; the client polls the job
+  const job = doc.current_version_id
+    ? jobQueue.enqueue('version.diff', {
+      workspace: req.workspace,
+      document_id: doc.id,
+      version_id: version.id,
+      payload: { base_version_id: doc.current_version_id }
+    })
+    : null
+
+  return { version, job }
+}
+
+// Longest justification accepted for a revert
+const MAX_REVERT_NOTE_LENGTH = 2000
+
+// Revert to an earlier version: its file becomes a new pending version that goes through the
+// same review, diff, summary and RAG ingest as an upload, recording which version it restores
+app.post('/v1/projects/:namespace/:project/documents/:documentId/versions/:versionId/revert', requirePermission('upload_policies'), (req, res) => {
+  const note = typeof req.body?.note === 'string' ? req.body.note.trim() : ''
+  if (!note) {
+    return res.status(400).json({ error: 'A justification note is required to revert' })
+  }
+  if (note.length > MAX_REVERT_NOTE_LENGTH) {
+    return res.status(400).json({ error: `note must be at most ${MAX_REVERT_NOTE_LENGTH} characters` })
+  }
+
+  const effectiveAt = parseEffectiveAt(req.body?.effective_at)
+  if (effectiveAt.error) {
+    return res.status(400).json({ error: effectiveAt.error })
   }
 
-  const version = doc.versions[versionIndex]
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const source = doc.versions.find(v => v.id === req.params.versionId)
+  if (!source) {
+    return res.status(404).json({ error: 'Version not found' })
+  }
+  if (source.id === doc.current_version_id) {
+    return res.status(400).json({ error: 'This version is already current' })
+  }
+  // Only versions that were once published can be restored
+  if ((source.status || 'published') !== 'published') {
+    return res.status(400).json({ error: `Cannot revert to a ${source.status} version` })
+  }
+
+  const sourcePath = resolveFilePath(source.filename)
+  if (!sourcePath) {
+    return res.status(404).json({ error: 'The file for this version is missing' })
+  }
+
+  const limitCheck = checkUploadLimits(req.workspace, false)
+  if (!limitCheck.allowed) {
+    return res.status(400).json({ error: limitCheck.error })
+  }
+
+  // Copy the file so deleting or resetting either version never removes the other's file
+  const originalName = source.original_name || source.filename.replace(/^\d{13}-/, '')
+  const filename = `${Date.now()}-${originalName}`
+  fs.copyFileSync(sourcePath, path.join(UPLOADS_DIR, filename))
+
+  const { version, job } = addPendingVersion(req, doc, {
+    filename,
+    original_name: originalName,
+    size: fs.statSync(sourcePath).size,
+    notes: note,
+    effective_at: effectiveAt.value,
+    reverted_from: source.id
+  })
+
+  res.status(201).json({
+    version,
+    previous_version_id: doc.current_version_id,
+    job: job && publicJob(job),
+    message: 'Revert submitted - pending review'
+  })
+})
+
+// Approve or reject the current review stage of a pending version.
+// Approving the last stage publishes the version; rejected versions stay in history.
+function reviewDecision(decision) {
+  return (req, res) => {
+    const doc = getVisibleDocument(req, req.params.documentId)
+
+    if (!doc) {
+      return res.status(404).json({ error: 'Document not found' })
+    }
+
+    const pending = doc.versions.find(v => v.id === req.params.versionId)
+    if (!pending) {
+      return res.status(404).json({ error: 'Version not found' })
+    }
+
+    if (pending.status !== 'pending') {
+      return res.status(400).json({ error: `Only pending versions can be ${decision}` })
+    }
+
+    const review = reviewOf(pending)
+    const stage = currentStage(review)
+    if (!canReviewStage(req.user, stage)) {
+      const names = stage?.reviewers.map(r => r.name).join(', ')
+      return res.status(403).json({ error: `The "${stage?.name}" stage must be decided by ${names || 'a named reviewer'}` })
+    }
+
+    // Reviewers may set or correct the effective date while approving
+    const effective = parseEffectiveAt(req.body?.effective_at)
+    if (effective.error) {
+      return res.status(400).json({ error: effective.error })
+    }
+    const effectiveAt = req.body?.effective_at !== undefined ? effective.value : pending.effective_at || null
+
+    const now = new Date().toISOString()
+    const result = applyDecision(review, {
+      decision,
+      reviewer: req.user,
+      comment: req.body?.comment,
+      at: now
+    })
+    if (!result.ok) {
+      return res.status(400).json({ error: result.error })
+    }
+
+    // A fully approved version with a future effective date waits for the scheduler
+    const status = result.status === 'published'
+      ? approvedStatus({ effective_at: effectiveAt }, new Date(now))
+      : result.status
+    const version = documentsRepo.updateVersion(req.workspace, doc.id, pending.id, {
+      status,
+      review: result.review,
+      effective_at: effectiveAt,
+      ...(result.status === 'published' && { approved_at: now })
+    })
+    let published = null
+    if (status === 'published') {
+      documentsRepo.updateDocument(req.workspace, doc.id, {
+        current_version_id: version.id,
+        updated_at: now
+      })
+      published = enqueuePublishJobs(req.workspace, doc.id, version.id, doc.current_version_id)
+    }
+
+    audit(req, decision === 'approved' ? 'version.approve' : 'version.reject', {
+      document_id: doc.id,
+      version_id: version.id,
+      before: { status: pending.status, stage: stage.name, current_version_id: doc.current_version_id },
+      after: {
+        status: version.status,
+        stage: currentStage(result.review)?.name || null,
+        current_version_id: status === 'published' ? version.id : doc.current_version_id,
+        effective_at: effectiveAt
+      },
+      details: { comment: result.review.decisions.at(-1).comment }
+    })
+
+    let message = `${stage.name} approved - awaiting ${currentStage(result.review)?.name}`
+    if (status === 'published') message = 'Version approved and published'
+    if (status === 'scheduled') message = `Version approved - takes effect ${effectiveAt.slice(0, 10)}`
+    if (status === 'rejected') message = `Version rejected at ${stage.name}`
+
+    res.json({
+      message,
+      version,
+      ...published
+    })
+  }
+}
+
+// Approve the current review stage (publishes after the final stage)
+app.post('/v1/projects/:namespace/:project/documents/:documentId/versions/:versionId/approve', requirePermission('manage_versions'), reviewDecision('approved'))
+
+// Reject a pending version - a comment is required and the version is kept as 'rejected'
+app.post('/v1/projects/:namespace/:project/documents/:documentId/versions/:versionId/reject', requirePermission('manage_versions'), reviewDecision('rejected'))
+
+// List versions for a document
+app.get('/v1/projects/:namespace/:project/documents/:documentId/versions', (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  res.json({
+    document_id: doc.id,
+    total: doc.versions.length,
+    versions: withCurrentFlag(doc).versions
+  })
+})
+
+// View/download document file
+app.get('/v1/projects/:namespace/:project/documents/:documentId/file', (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const versionId = req.query.version_id || doc.current_version_id
+  const version = doc.versions.find(v => v.id === versionId)
+
+  if (!version) {
+    return res.status(404).json({ error: 'Version not found' })
+  }
+
+  const filePath = resolveFilePath(version.filename)
+  if (!filePath) {
+    return res.status(404).json({ error: 'File not found on disk' })
+  }
+
+  res.setHeader('Content-Type', 'application/pdf')
+  res.setHeader('Content-Disposition', `inline; filename="${version.original_name}"`)
+  res.sendFile(filePath)
+})
+
+// Delete document
+app.delete('/v1/projects/:namespace/:project/documents/:documentId', requirePermission('manage_versions'), async (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  // Only delete uploaded files (not seed files)
+  invalidateCachedFiles(doc.versions.map(v => path.join(UPLOADS_DIR, v.filename)))
+  for (const version of doc.versions) {
+    const uploadPath = path.join(UPLOADS_DIR, version.filename)
+    if (fs.existsSync(uploadPath)) {
+      fs.unlinkSync(uploadPath)
+    }
+  }
+
+  documentsRepo.deleteDocument(req.workspace, doc.id)
+  for (const rel of relationshipsOf(doc.id, records.list(req.workspace, 'relationships'))) {
+    records.remove(req.workspace, 'relationships', rel.id)
+  }
+  for (const version of doc.versions) {
+    records.remove(req.workspace, 'references', version.id)
+  }
+  audit(req, 'document.delete', {
+    document_id: doc.id,
+    before: summarizeDocument(doc)
+  })
+
+  res.json({ message: 'Document deleted' })
+})
+
+// Compare two versions of a document
+app.get('/v1/projects/:namespace/:project/documents/:documentId/compare', async (req, res) => {
+  const { oldVersionId, newVersionId } = req.query
+
+  if (!oldVersionId || !newVersionId) {
+    return res.status(400).json({ error: 'Both oldVersionId and newVersionId are required' })
+  }
+
+  const doc = getVisibleDocument(req, req.params.documentId)
+
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const oldVersion = doc.versions.find(v => v.id === oldVersionId)
+  const newVersion = doc.versions.find(v => v.id === newVersionId)
+
+  if (!oldVersion || !newVersion) {
+    return res.status(404).json({ error: 'One or both versions not found' })
+  }
+
+  const oldFilePath = resolveFilePath(oldVersion.filename)
+  const newFilePath = resolveFilePath(newVersion.filename)
+
+  // Return pre-computed changes if they were computed against the requested base version, with the
+  // redline from the content cache. The summary job may still be running, in which case the summary is generated now.
+  const precomputed = newVersion.diff && newVersion.diff.base_version_id === oldVersionId
+  if (precomputed) {
+    console.log(`Returning pre-computed diff for version ${newVersionId}`)
+    const cached = oldFilePath && newFilePath ? await compareFiles(oldFilePath, newFilePath) : null
+    return res.json({
+      document_id: doc.id,
+      document_name: doc.name,
+      old_version_id: oldVersionId,
+      new_version_id: newVersionId,
+      old_version: oldVersion,
+      new_version: newVersion,
+      total_changes: newVersion.diff.changes.length,
+      summary: newVersion.summary || await generateChangeSummary(newVersion.diff.changes, doc.name),
+      changes: newVersion.diff.changes,
+      redline: cached?.redline ?? null,
+      compared_at: new Date().toISOString(),
+      precomputed: true
+    })
+  }
+
+  // Fallback: compute on-demand
+  console.log(`Computing diff on-demand for version ${newVersionId}`)
+
+  if (!oldFilePath || !newFilePath) {
+    const fallbackSummary = newVersion.notes || 'No change details available — PDF files not found on disk.'
+    return res.json({
+      document_id: doc.id,
+      document_name: doc.name,
+      old_version_id: oldVersionId,
+      new_version_id: newVersionId,
+      old_version: oldVersion,
+      new_version: newVersion,
+      total_changes: 0,
+      summary: fallbackSummary,
+      changes: [],
+      redline: null,
+      compared_at: new Date().toISOString(),
+      precomputed: false
+    })
+  }
+
+  const comparison = await compareFiles(oldFilePath, newFilePath)
+
+  if (!comparison) {
+    return res.status(500).json({ error: 'Failed to extract text from PDFs' })
+  }
+
+  const { changes, redline } = comparison
+  const summary = await generateChangeSummary(changes, doc.name)
+
+  res.json({
+    document_id: doc.id,
+    document_name: doc.name,
+    old_version_id: oldVersionId,
+    new_version_id: newVersionId,
+    old_version: oldVersion,
+    new_version: newVersion,
+    total_changes: changes.length,
+    summary,
+    changes,
+    redline,
+    compared_at: new Date().toISOString(),
+    precomputed: false
+  })
+})
+
+// Detect potential matches for an uploaded document
+app.post('/v1/projects/:namespace/:project/documents/detect-matches', requirePermission('upload_policies'), upload.single('file'), async (req, res) => {
+  const startTime = Date.now()
+  console.log('=== Match Detection Request ===')
 
-  if (version.status !== 'pending') {
-    return res.status(400).json({ error: 'Can only reject pending versions' })
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' })
   }
 
-  // Delete the uploaded file (only if it's in uploads dir, not seed)
-  const filePath = path.join(UPLOADS_DIR, version.filename)
-  if (fs.existsSync(filePath)) {
+  console.log('Uploaded file:', req.file.originalname)
+
+  try {
+    const filePath = path.join(UPLOADS_DIR, req.file.filename)
+    const extractedText = await extractPdfText(filePath)
+    console.log('Extracted text length:', extractedText?.length || 0)
+
+    // Only documents the uploader can see are offered as matches
+    const existingDocs = filterVisible(req.user, documentsRepo.listDocuments(req.workspace))
+    console.log('Existing documents to check:', existingDocs.length)
+
+    const matches = []
+    for (const doc of existingDocs) {
+      const { score, signals } = calculateMatchScore(
+        req.file.originalname,
+        doc,
+        extractedText
+      )
+
+      const confidence = getConfidenceLevel(score)
+      if (confidence) {
+        matches.push({
+          document: {
+            id: doc.id,
+            name: doc.name,
+            short_title: doc.short_title,
+            updated_at: doc.updated_at,
+            current_version_id: doc.current_version_id
+          },
+          score,
+          confidence,
+          signals
+        })
+      }
+    }
+
+    matches.sort((a, b) => b.score - a.score)
+    const topMatches = matches.slice(0, 3)
+
+    const extractedDocNumber = extractDocNumber(req.file.originalname) || extractDocNumber(extractedText?.substring(0, 2000))
+    const extractedTitle = extractTitleFromText(extractedText)
+
+    // Clean up the uploaded file (it was just for analysis)
     fs.unlinkSync(filePath)
+
+    res.json({
+      matches: topMatches,
+      extracted_title: extractedTitle,
+      extracted_doc_number: extractedDocNumber,
+      analysis_time_ms: Date.now() - startTime
+    })
+  } catch (error) {
+    console.error('Match detection error:', error)
+    try {
+      const filePath = path.join(UPLOADS_DIR, req.file.filename)
+      if (fs.existsSync(filePath)) fs.unlinkSync(filePath)
+    } catch {}
+    res.status(500).json({ error: 'Failed to analyze document' })
+  }
+})
+
+// ============================================
+// Bulk Import API - Load a library from a ZIP or server folder
+// ============================================
+
+// Entries of a server directory, in the same shape as ZIP entries
+function listImportDirectory(directory) {
+  const entries = []
+  const walk = (dir, prefix) => {
+    for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+      const name = prefix ? `${prefix}/${dirent.name}` : dirent.name
+      const fullPath = path.join(dir, dirent.name)
+      if (dirent.isDirectory()) {
+        walk(fullPath, name)
+      } else if (dirent.isFile()) {
+        entries.push({ name, size: fs.statSync(fullPath).size, directory: false, read: () => fs.promises.readFile(fullPath) })
+      }
+    }
+  }
+  walk(directory, '')
+  return entries
+}
+
+// Directory under IMPORT_ROOT named by a request, resolved through symlinks
+function resolveImportDirectory(value) {
+  if (!IMPORT_ROOT) return { error: 'Directory imports are disabled; set REGSYNC_IMPORT_ROOT on the server' }
+  if (typeof value !== 'string' || !value.trim()) return { error: 'directory must be a path under the import root' }
+
+  const root = fs.existsSync(IMPORT_ROOT) ? fs.realpathSync(IMPORT_ROOT) : IMPORT_ROOT
+  const requested = path.resolve(root, value.trim())
+  if (!fs.existsSync(requested) || !fs.statSync(requested).isDirectory()) return { error: 'Directory not found', status: 404 }
+  const directory = fs.realpathSync(requested)
+  if (directory !== root && !directory.startsWith(root + path.sep)) {
+    return { error: 'directory must be a path under the import root' }
+  }
+  return { value: directory, relative: path.relative(root, directory) || '.' }
+}
+
+// An import as returned to the client; staged file names stay on the server
+function publicImport(batch) {
+  const { files, manifest: _manifest, unsupported: _unsupported, ...rest } = batch
+  return { ...rest, file_count: files.length }
+}
+
+// Delete the staged files of an import that are not part of a document
+function deleteStagedFiles(batch, keep = new Set()) {
+  return deleteUploadedFiles(batch.files.filter(file => !keep.has(file.id)).map(file => file.filename))
+}
+
+// Stage a ZIP (`file`) or server directory (`directory`) for import and queue the dry run.
+// A CSV manifest comes as `manifest`, or as a manifest.csv inside the archive or folder.
+app.post('/v1/projects/:namespace/:project/imports', requirePermission('upload_policies'), importUpload.fields([
+  { name: 'file', maxCount: 1 },
+  { name: 'manifest', maxCount: 1 }
+]), async (req, res) => {
+  const archive = req.files?.file?.[0] || null
+  const manifestFile = req.files?.manifest?.[0] || null
+  const cleanup = () => {
+    for (const file of [archive, manifestFile]) {
+      if (file) try { fs.unlinkSync(path.join(UPLOADS_DIR, file.filename)) } catch {}
+    }
+  }
+
+  if (Boolean(archive) === Boolean(req.body.directory)) {
+    cleanup()
+    return res.status(400).json({ error: 'Send either a ZIP file or a directory' })
+  }
+  const limitCheck = checkUploadLimits(req.workspace, true)
+  if (!limitCheck.allowed) {
+    cleanup()
+    return res.status(400).json({ error: limitCheck.error })
+  }
+
+  let entries
+  let source
+  if (archive) {
+    const zip = readZip(await fs.promises.readFile(path.join(UPLOADS_DIR, archive.filename)), {
+      maxEntryBytes: MAX_IMPORT_FILE_BYTES,
+      maxEntries: MAX_IMPORT_ENTRIES
+    })
+    if (zip.error) {
+      cleanup()
+      return res.status(400).json({ error: zip.error })
+    }
+    entries = zip.value
+    source = { type: 'zip', name: archive.originalname }
+  } else {
+    const directory = resolveImportDirectory(req.body.directory)
+    if (directory.error) {
+      cleanup()
+      return res.status(directory.status || 400).json({ error: directory.error })
+    }
+    entries = listImportDirectory(directory.value)
+    source = { type: 'directory', name: directory.relative }
+  }
+
+  // An uploaded manifest wins over one found among the files
+  const bundledManifest = entries.find(entry => !entry.directory && path.basename(entry.name).toLowerCase() === 'manifest.csv')
+  let manifest = null
+  try {
+    const manifestText = manifestFile
+      ? await fs.promises.readFile(path.join(UPLOADS_DIR, manifestFile.filename), 'utf8')
+      : (await bundledManifest?.read())?.toString('utf8')
+    if (manifestText !== undefined) {
+      const parsed = parseManifest(manifestText)
+      if (parsed.error) {
+        cleanup()
+        return res.status(400).json({ error: `Manifest: ${parsed.error}` })
+      }
+      manifest = { entries: [...parsed.value.entries], errors: parsed.value.errors }
+    }
+  } catch (error) {
+    cleanup()
+    return res.status(400).json({ error: `Manifest could not be read: ${error.message}` })
+  }
+
+  // Pick the PDFs to stage, and check their total size before anything is written
+  const staging = []
+  const unsupported = []
+  for (const entry of entries) {
+    if (entry === bundledManifest) continue
+    const kind = classifyFile(entry.directory ? `${entry.name}/` : entry.name)
+    if (kind === 'ignored') continue
+    if (kind === 'unsupported' || entry.size > MAX_IMPORT_FILE_BYTES) {
+      unsupported.push(entry.name)
+      continue
+    }
+    staging.push(entry)
+  }
+  const stagingBytes = staging.reduce((total, entry) => total + entry.size, 0)
+  const usage = getSessionUsage(req.workspace)
+  let limitError = null
+  if (staging.length > MAX_IMPORT_ENTRIES) {
+    limitError = `Too many files to import (${staging.length}); at most ${MAX_IMPORT_ENTRIES} per import`
+  } else if (stagingBytes > MAX_IMPORT_BYTES) {
+    limitError = `The files to import total more than ${MAX_IMPORT_BYTES / 1024 / 1024}MB`
+  } else if (usage.mode !== 'durable' && usage.storage.current_bytes + stagingBytes > usage.storage.max_bytes) {
+    limitError = `This import would exceed the storage limit (${Math.round(usage.storage.max_bytes / 1024 / 1024)}MB). Import fewer files or reset the demo.`
+  }
+  if (limitError) {
+    cleanup()
+    return res.status(400).json({ error: limitError })
+  }
+
+  // Copy the PDFs into the uploads directory, where they stay until the import is committed or discarded
+  const files = []
+  try {
+    for (const entry of staging) {
+      const originalName = path.basename(entry.name)
+      const filename = `${Date.now()}-${files.length + 1}-${originalName}`
+      await fs.promises.writeFile(path.join(UPLOADS_DIR, filename), await entry.read())
+      files.push({ id: uuidv4(), path: entry.name, original_name: originalName, filename, size: entry.size })
+    }
+  } catch (error) {
+    deleteUploadedFiles(files.map(file => file.filename))
+    cleanup()
+    return res.status(400).json({ error: `Files could not be read: ${error.message}` })
+  }
+  // Tracked once for the whole import; committing them as versions does not track them again
+  documentsRepo.trackUploads(req.workspace, files.map(file => file.filename))
+  cleanup()
+
+  if (files.length === 0) {
+    return res.status(400).json({ error: 'No PDF files found to import' })
+  }
+
+  const batch = {
+    id: uuidv4(),
+    status: 'analyzing',
+    source,
+    has_manifest: Boolean(manifest),
+    created_by: { id: req.user.id, name: req.user.name },
+    created_at: new Date().toISOString(),
+    files,
+    unsupported,
+    manifest,
+    plan: null,
+    error: null
+  }
+  records.put(req.workspace, 'imports', batch.id, batch)
+  const viewer = { role: req.user.role, location: req.user.location || null }
+  const job = jobQueue.enqueue('import.plan', { workspace: req.workspace, payload: { import_id: batch.id, viewer } })
+
+  res.status(202).json({ import: publicImport(batch), job: publicJob(job) })
+})
+
+// An import and, once analyzed, its dry-run report
+app.get('/v1/projects/:namespace/:project/imports/:importId', requirePermission('upload_policies'), (req, res) => {
+  const batch = records.get(req.workspace, 'imports', req.params.importId)
+  if (!batch) {
+    return res.status(404).json({ error: 'Import not found' })
+  }
+  res.json({ import: publicImport(batch) })
+})
+
+// Commit an analyzed import as planned. `exclude` lists planned documents (by key) to leave out.
+// New documents are created with the latest version already in effect current, earlier ones
+// published and later-dated ones scheduled for the effective-date scheduler; files matching
+// a library document become pending versions that go through its review workflow.
+app.post('/v1/projects/:namespace/:project/imports/:importId/commit', requirePermission('upload_policies'), (req, res) => {
+  const batch = records.get(req.workspace, 'imports', req.params.importId)
+  if (!batch) {
+    return res.status(404).json({ error: 'Import not found' })
+  }
+  if (batch.status !== 'planned') {
+    return res.status(409).json({ error: `Import is ${batch.status}, not ready to commit` })
+  }
+  const exclude = req.body?.exclude ?? []
+  if (!Array.isArray(exclude) || exclude.some(key => typeof key !== 'string')) {
+    return res.status(400).json({ error: 'exclude must be an array of planned document keys' })
+  }
+
+  const planned = batch.plan.documents.filter(group => !exclude.includes(group.key))
+  const creating = planned.filter(group => group.action === 'create').length
+  const usage = getSessionUsage(req.workspace)
+  if (usage.mode !== 'durable' && usage.documents.current + creating > usage.documents.max) {
+    return res.status(400).json({ error: `This import would exceed the document limit (${usage.documents.max}). Exclude some documents or reset the demo.` })
+  }
+
+  const filesById = new Map(batch.files.map(file => [file.id, file]))
+  const notes = `Imported from ${batch.source.name}`
+  const committedAt = new Date()
+  const now = committedAt.toISOString()
+  const results = []
+
+  for (const group of planned) {
+    if (group.action === 'update') {
+      const doc = getVisibleDocument(req, group.document_id)
+      if (!doc) {
+        results.push({ key: group.key, action: group.action, document_id: group.document_id, name: group.name, versions: 0, error: 'Document no longer exists' })
+        continue
+      }
+      for (const item of group.versions) {
+        const file = filesById.get(item.file_id)
+        addPendingVersion(req, documentsRepo.getDocument(req.workspace, doc.id), {
+          filename: file.filename,
+          original_name: file.original_name,
+          size: file.size,
+          notes,
+          effective_at: item.effective_at
+        })
+      }
+      results.push({ key: group.key, action: group.action, document_id: doc.id, name: doc.name, versions: group.versions.length })
+      continue
+    }
+
+    const versions = group.versions.map(item => {
+      const file = filesById.get(item.file_id)
+      return {
+        id: uuidv4(),
+        filename: file.filename,
+        original_name: file.original_name,
+        uploaded_by: req.user.name,
+        notes,
+        created_at: now,
+        effective_at: item.effective_at,
+        status: approvedStatus(item, committedAt),
+        size: file.size
+      }
+    })
+    // Planning skipped documents with no version in effect, and dates only move into the past
+    const current = versions.findLast(version => version.status === 'published')
+    const document = documentsRepo.saveDocument(req.workspace, {
+      id: uuidv4(),
+      name: group.name,
+      short_title: group.short_title,
+      scope: group.scope,
+      current_version_id: current.id,
+      created_at: now,
+      updated_at: now,
+      versions
+    })
+    audit(req, 'document.create', {
+      document_id: document.id,
+      version_id: current.id,
+      after: { document: summarizeDocument(document), version: summarizeVersion(document.versions.find(v => v.id === current.id)) },
+      details: { import_id: batch.id, versions: versions.length }
+    })
+
+    for (const version of versions.filter(v => v.status === 'published' && v !== current)) {
+      enqueueReferenceExtraction(req.workspace, document.id, version.id)
+    }
+    enqueueLineageScan(req.workspace, document.id, current.id)
+    enqueuePublishJobs(req.workspace, document.id, current.id, null)
+    results.push({ key: group.key, action: group.action, document_id: document.id, name: document.name, versions: versions.length })
+  }
+
+  const used = new Set(planned.flatMap(group => group.versions.map(version => version.file_id)))
+  deleteStagedFiles(batch, used)
+
+  const result = {
+    documents: results,
+    new_documents: results.filter(r => r.action === 'create').length,
+    new_versions: results.reduce((sum, r) => sum + r.versions, 0),
+    excluded: batch.plan.documents.length - planned.length
+  }
+  const committed = { ...batch, status: 'committed', committed_at: now, committed_by: { id: req.user.id, name: req.user.name }, result }
+  records.put(req.workspace, 'imports', batch.id, committed)
+  audit(req, 'library.import', {
+    details: {
+      import_id: batch.id,
+      source: batch.source,
+      new_documents: result.new_documents,
+      new_versions: result.new_versions,
+      excluded: result.excluded,
+      skipped: batch.plan.skipped.length
+    }
+  })
+
+  res.json({ import: publicImport(committed) })
+})
+
+// Discard an import that has not been committed, deleting its staged files
+app.delete('/v1/projects/:namespace/:project/imports/:importId', requirePermission('upload_policies'), (req, res) => {
+  const batch = records.get(req.workspace, 'imports', req.params.importId)
+  if (!batch) {
+    return res.status(404).json({ error: 'Import not found' })
+  }
+  if (batch.status === 'committed' || batch.status === 'discarded') {
+    return res.status(409).json({ error: `Import is already ${batch.status}` })
+  }
+
+  deleteStagedFiles(batch)
+  records.put(req.workspace, 'imports', batch.id, { ...batch, status: 'discarded', discarded_at: new Date().toISOString() })
+  res.json({ message: 'Import discarded' })
+})
+
+// ============================================
+// Lineage API - Relationships between policies
+// ============================================
+
+// Related document as shown with a relationship, or null when the caller cannot see it
+function relatedDocument(req, documentId) {
+  const doc = getVisibleDocument(req, documentId)
+  return doc ? { id: doc.id, name: doc.name, short_title: doc.short_title || null } : null
+}
+
+// The fields of a relationship worth keeping in audit before/after state
+function summarizeRelationship(rel) {
+  return {
+    id: rel.id,
+    source_document_id: rel.source_document_id,
+    target_document_id: rel.target_document_id,
+    type: rel.type,
+    status: rel.status
+  }
+}
+
+// Relationship the caller may manage: both of its documents must be visible to them
+function getVisibleRelationship(req, relationshipId) {
+  const rel = records.get(req.workspace, 'relationships', relationshipId)
+  if (!rel) return null
+  const visible = getVisibleDocument(req, rel.source_document_id) && getVisibleDocument(req, rel.target_document_id)
+  return visible ? rel : null
+}
+
+// A document's confirmed relationships; admins also get the suggestions waiting for a decision
+app.get('/v1/projects/:namespace/:project/documents/:documentId/relationships', (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const related = relationshipsOf(doc.id, records.list(req.workspace, 'relationships'))
+    .map(rel => ({ ...rel, related_document: relatedDocument(req, rel.related_document_id) }))
+    .filter(rel => rel.related_document)
+  const canManage = Boolean(req.user) && hasPermission(req.user.role, 'upload_policies')
+
+  res.json({
+    document_id: doc.id,
+    relationships: related.filter(rel => rel.status === 'confirmed'),
+    suggestions: canManage ? related.filter(rel => rel.status === 'suggested') : []
+  })
+})
+
+// Relate a document to another. Confirms a matching suggestion (or dismissed one) if there is one.
+app.post('/v1/projects/:namespace/:project/documents/:documentId/relationships', requirePermission('upload_policies'), (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+  const parsed = parseRelationship(req.body, doc.id)
+  if (parsed.error) {
+    return res.status(400).json({ error: parsed.error })
+  }
+  if (!getVisibleDocument(req, req.body.target_document_id)) {
+    return res.status(404).json({ error: 'Related document not found' })
+  }
+
+  const link = parsed.value
+  const existing = records.list(req.workspace, 'relationships').find(rel =>
+    rel.source_document_id === link.source_document_id &&
+    rel.target_document_id === link.target_document_id &&
+    rel.type === link.type
+  )
+  if (existing?.status === 'confirmed') {
+    return res.status(409).json({ error: 'These documents are already related this way' })
+  }
+
+  const now = new Date().toISOString()
+  const relationship = existing
+    ? decideRelationship(existing, 'confirmed', req.user, now)
+    : buildRelationship(uuidv4(), link, { status: 'confirmed', user: req.user, now })
+  records.put(req.workspace, 'relationships', relationship.id, relationship)
+  audit(req, existing ? 'relationship.confirm' : 'relationship.create', {
+    document_id: relationship.source_document_id,
+    before: existing ? summarizeRelationship(existing) : null,
+    after: summarizeRelationship(relationship)
+  })
+
+  res.status(201).json({ relationship })
+})
+
+// Scan the current version's text again for related policies (e.g. after adding the policies it names)
+app.post('/v1/projects/:namespace/:project/documents/:documentId/relationships/scan', requirePermission('upload_policies'), (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const job = enqueueLineageScan(req.workspace, doc.id, doc.current_version_id)
+  res.status(202).json({ job: publicJob(job) })
+})
+
+// Confirm or dismiss a suggested relationship
+app.put('/v1/projects/:namespace/:project/relationships/:relationshipId', requirePermission('upload_policies'), (req, res) => {
+  const rel = getVisibleRelationship(req, req.params.relationshipId)
+  if (!rel) {
+    return res.status(404).json({ error: 'Relationship not found' })
+  }
+  const error = validateDecision(req.body)
+  if (error) {
+    return res.status(400).json({ error })
+  }
+  if (rel.status !== 'suggested') {
+    return res.status(400).json({ error: 'Only suggested relationships can be confirmed or dismissed' })
+  }
+
+  const relationship = decideRelationship(rel, req.body.status, req.user, new Date().toISOString())
+  records.put(req.workspace, 'relationships', relationship.id, relationship)
+  audit(req, relationship.status === 'confirmed' ? 'relationship.confirm' : 'relationship.dismiss', {
+    document_id: relationship.source_document_id,
+    version_id: relationship.evidence?.version_id || null,
+    before: summarizeRelationship(rel),
+    after: summarizeRelationship(relationship)
+  })
+
+  res.json({ relationship })
+})
+
+// Remove a relationship
+app.delete('/v1/projects/:namespace/:project/relationships/:relationshipId', requirePermission('upload_policies'), (req, res) => {
+  const rel = getVisibleRelationship(req, req.params.relationshipId)
+  if (!rel) {
+    return res.status(404).json({ error: 'Relationship not found' })
+  }
+
+  records.remove(req.workspace, 'relationships', rel.id)
+  audit(req, 'relationship.delete', {
+    document_id: rel.source_document_id,
+    before: summarizeRelationship(rel)
+  })
+
+  res.json({ message: 'Relationship removed' })
+})
+
+// Lineage graph: confirmed relationships reachable from a document, among documents the caller can see
+app.get('/v1/projects/:namespace/:project/documents/:documentId/lineage', (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const relationships = records.list(req.workspace, 'relationships')
+  const documents = filterVisible(req.user, documentsRepo.listDocuments(req.workspace))
+  const { nodes, edges } = buildLineage(doc.id, documents, relationships)
+  const superseded = new Set(edges.filter(edge => edge.type === 'supersedes').map(edge => edge.target_document_id))
+
+  res.json({
+    document_id: doc.id,
+    nodes: nodes.map(node => ({ ...node, superseded: superseded.has(node.id) })),
+    edges
+  })
+})
+
+// ============================================
+// Cross-Reference API - Citations between policies
+// ============================================
+
+// Section IDs of each cited document's current version, for checking cited paragraphs.
+// Documents whose text cannot be read are left out, so their paragraphs are not checked.
+async function currentSectionIds(workspace, documentIds) {
+  const sections = new Map()
+  for (const documentId of documentIds) {
+    const doc = documentsRepo.getDocument(workspace, documentId)
+    const version = doc?.versions.find(v => v.id === doc.current_version_id)
+    const filePath = version && resolveFilePath(version.filename)
+    const text = filePath ? await extractPdfText(filePath) : null
+    if (text !== null) sections.set(documentId, sectionIds(text))
+  }
+  return sections
+}
+
+// Check the citations of documents' current versions. Cited documents the caller cannot see
+// are not named, though their issues still count.
+async function checkCurrentReferences(req, docs) {
+  const documents = documentsRepo.listDocuments(req.workspace)
+  const relationships = records.list(req.workspace, 'relationships')
+  const extracted = docs
+    .map(doc => ({ doc, record: records.get(req.workspace, 'references', doc.current_version_id) }))
+    .filter(({ record }) => record)
+
+  const cited = new Set()
+  for (const { record } of extracted) {
+    for (const reference of record.references) {
+      if (reference.paragraph && reference.target_document_id) cited.add(reference.target_document_id)
+    }
+  }
+  const sections = await currentSectionIds(req.workspace, cited)
+
+  return extracted.map(({ doc, record }) => ({
+    doc,
+    record,
+    references: checkReferences(record, documents, relationships, sections).map(reference => ({
+      ...reference,
+      target: reference.target && getVisibleDocument(req, reference.target.id) ? reference.target : null
+    }))
+  }))
+}
+
+// Broken-reference report across the documents the caller can see
+app.get('/v1/projects/:namespace/:project/references/report', requirePermission('upload_policies'), async (req, res) => {
+  const docs = filterVisible(req.user, documentsRepo.listDocuments(req.workspace)).filter(doc => doc.current_version_id)
+  const checked = await checkCurrentReferences(req, docs)
+  const { documents, stats } = buildReferenceReport(checked)
+
+  res.json({
+    documents,
+    stats: { ...stats, documents_checked: checked.length, documents_unindexed: docs.length - checked.length },
+    generated_at: new Date().toISOString()
+  })
+})
+
+// Extract the citations of every current version again, e.g. for documents added before extraction existed
+app.post('/v1/projects/:namespace/:project/references/scan', requirePermission('upload_policies'), (req, res) => {
+  const docs = filterVisible(req.user, documentsRepo.listDocuments(req.workspace)).filter(doc => doc.current_version_id)
+  const jobs = docs.map(doc => enqueueReferenceExtraction(req.workspace, doc.id, doc.current_version_id))
+  res.status(202).json({ jobs: jobs.map(publicJob) })
+})
+
+// Citations of a document's current version, each with its issues
+app.get('/v1/projects/:namespace/:project/documents/:documentId/references', requirePermission('upload_policies'), async (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+
+  const [checked] = await checkCurrentReferences(req, [doc])
+  res.json({
+    document_id: doc.id,
+    version_id: doc.current_version_id,
+    extracted_at: checked?.record.extracted_at || null,
+    reviewed_at: checked?.record.reviewed_at || null,
+    references: checked?.references || []
+  })
+})
+
+// Mark a document's citations reviewed against the current versions of the policies they cite
+app.post('/v1/projects/:namespace/:project/documents/:documentId/references/review', requirePermission('upload_policies'), (req, res) => {
+  const doc = getVisibleDocument(req, req.params.documentId)
+  if (!doc) {
+    return res.status(404).json({ error: 'Document not found' })
+  }
+  const record = records.get(req.workspace, 'references', doc.current_version_id)
+  if (!record) {
+    return res.status(404).json({ error: 'Cross-references have not been extracted for this document yet' })
+  }
+
+  const reviewed = markReviewed(record, documentsRepo.listDocuments(req.workspace), new Date().toISOString())
+  records.put(req.workspace, 'references', reviewed.id, reviewed)
+  const updated = record.references.filter((reference, i) =>
+    reference.target_version_id !== reviewed.references[i].target_version_id
+  )
+  audit(req, 'references.review', {
+    document_id: doc.id,
+    version_id: doc.current_version_id,
+    details: { updated_targets: [...new Set(updated.map(reference => reference.target_document_id).filter(Boolean))] }
+  })
+
+  res.json({ message: 'Cross-references marked reviewed', reviewed_at: reviewed.reviewed_at })
+})
+
+// ============================================
+// Retrieval API - Policy Assistant sources
+// ============================================
+
+// Retrieve policy passages for the assistant, limited to documents the caller can see and to
+// their current versions, or to one past version when `version_id` pins it.
+// The assistant builds its prompt from these results only, so out-of-scope text never reaches the model.
+app.post('/v1/projects/:namespace/:project/retrieve', async (req, res) => {
+  const { query, top_k, version_id = null, retrieval_strategy = 'hybrid', embedding_strategy } = req.body || {}
+  if (typeof query !== 'string' || !query.trim()) {
+    return res.status(400).json({ error: 'query is required' })
+  }
+  const topK = parseTopK(top_k)
+  const documents = documentsRepo.listDocuments(req.workspace)
+
+  if (version_id && !findPinnableVersion(documents, req.user, version_id)) {
+    return res.status(404).json({ error: 'Version not found' })
+  }
+
+  let data
+  try {
+    const response = await fetch(`${LLAMAFARM_URL}/v1/projects/${LLAMAFARM_NAMESPACE}/${LLAMAFARM_PROJECT}/rag/query`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        query,
+        database: LLAMAFARM_DATASET,
+        top_k: topK * (version_id ? PINNED_OVERFETCH_FACTOR : OVERFETCH_FACTOR),
+        retrieval_strategy,
+        ...(embedding_strategy && { embedding_strategy })
+      })
+    })
+    if (!response.ok) {
+      return res.status(502).json({ error: `LlamaFarm retrieval failed (${response.status})` })
+    }
+    data = await response.json()
+  } catch (error) {
+    console.error('LlamaFarm retrieval error:', error.message)
+    return res.status(502).json({ error: 'LlamaFarm is not reachable' })
   }
 
-  metadata.documents[docIndex].versions.splice(versionIndex, 1)
-  saveMetadata(req.sessionId, metadata)
-
-  res.json({ message: 'Pending version rejected and deleted' })
-})
-
-// List versions for a document
-app.get('/v1/projects/:namespace/:project/documents/:documentId/versions', (req, res) => {
-  const metadata = loadMetadata(req.sessionId)
-  const doc = metadata.documents.find(d => d.id === req.params.documentId)
+  const { results, withheld } = filterRetrievedChunks(data.results || [], {
+    user: req.user,
+    documents,
+    versionId: version_id
+  })
 
-  if (!doc) {
-    return res.status(404).json({ error: 'Document not found' })
-  }
+  // Flag passages from documents a confirmed relationship says have been superseded
+  const superseded = supersededDocuments(records.list(req.workspace, 'relationships'))
+  const flagged = results.slice(0, topK).map(result => {
+    const replacement = superseded.has(result.document_id)
+      ? getVisibleDocument(req, superseded.get(result.document_id))
+      : null
+    return replacement
+      ? { ...result, superseded_by: { document_id: replacement.id, name: replacement.name, short_title: replacement.short_title || null } }
+      : result
+  })
 
   res.json({
-    document_id: doc.id,
-    total: doc.versions.length,
-    versions: doc.versions
+    query,
+    version_id,
+    results: flagged,
+    total_results: Math.min(results.length, topK),
+    withheld,
+    retrieval_strategy_used: data.retrieval_strategy_used || retrieval_strategy,
+    database_used: data.database_used || LLAMAFARM_DATASET
   })
 })
 
-// View/download document file
-app.get('/v1/projects/:namespace/:project/documents/:documentId/file', (req, res) => {
-  const metadata = loadMetadata(req.sessionId)
-  const doc = metadata.documents.find(d => d.id === req.params.documentId)
-
-  if (!doc) {
-    return res.status(404).json({ error: 'Document not found' })
-  }
+// ============================================
+// Grounding API - Check answers against their sources
+// ============================================
 
-  const versionId = req.query.version_id || doc.current_version_id
-  const version = doc.versions.find(v => v.id === versionId)
+// Passages beyond this are not checked; retrieval never returns more than MAX_TOP_K
+const MAX_VERIFY_SOURCES = 20
 
-  if (!version) {
-    return res.status(404).json({ error: 'Version not found' })
+// Check each sentence of a generated answer against the passages it was generated from.
+// Confidence is the share of supported claims; the assistant drops answers that are not grounded.
+app.post('/v1/projects/:namespace/:project/verify', (req, res) => {
+  const { answer, sources } = req.body || {}
+  if (typeof answer !== 'string') {
+    return res.status(400).json({ error: 'answer is required' })
   }
-
-  const filePath = resolveFilePath(version.filename)
-  if (!filePath) {
-    return res.status(404).json({ error: 'File not found on disk' })
+  if (!Array.isArray(sources) || sources.some(source => typeof source?.content !== 'string')) {
+    return res.status(400).json({ error: 'sources must be an array of { content }' })
   }
 
-  res.setHeader('Content-Type', 'application/pdf')
-  res.setHeader('Content-Disposition', `inline; filename="${version.original_name}"`)
-  res.sendFile(filePath)
+  res.json(verifyAnswer(answer, sources.slice(0, MAX_VERIFY_SOURCES)))
 })
 
-// Delete document
-app.delete('/v1/projects/:namespace/:project/documents/:documentId', async (req, res) => {
-  const metadata = loadMetadata(req.sessionId)
-  const docIndex = metadata.documents.findIndex(d => d.id === req.params.documentId)
+// ============================================
+// Conversations API - Saved assistant conversations and share links
+// ============================================
 
-  if (docIndex === -1) {
-    return res.status(404).json({ error: 'Document not found' })
-  }
+// Conversation owned by the caller, or null. Other users' conversations answer 404.
+function getOwnConversation(req) {
+  const conversation = records.get(req.workspace, 'conversations', req.params.conversationId)
+  return conversation && conversation.user_id === req.user.id ? conversation : null
+}
 
-  const doc = metadata.documents[docIndex]
+// List the caller's conversations, most recent first (?q= searches titles and messages)
+app.get('/v1/projects/:namespace/:project/conversations', requirePermission('ask_questions'), (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : ''
+  res.json({ conversations: listConversations(records.list(req.workspace, 'conversations'), req.user.id, query) })
+})
 
-  // Only delete uploaded files (not seed files)
-  for (const version of doc.versions) {
-    const uploadPath = path.join(UPLOADS_DIR, version.filename)
-    if (fs.existsSync(uploadPath)) {
-      fs.unlinkSync(uploadPath)
-    }
+app.post('/v1/projects/:namespace/:project/conversations', requirePermission('ask_questions'), (req, res) => {
+  const error = validateConversation(req.body)
+  if (error) {
+    return res.status(400).json({ error })
   }
 
-  metadata.documents.splice(docIndex, 1)
-  saveMetadata(req.sessionId, metadata)
-
-  res.json({ message: 'Document deleted' })
+  const conversation = buildConversation(uuidv4(), req.body, req.user, new Date().toISOString())
+  records.put(req.workspace, 'conversations', conversation.id, conversation)
+  res.status(201).json({ conversation: publicConversation(conversation) })
 })
 
-// Compare two versions of a document
-app.get('/v1/projects/:namespace/:project/documents/:documentId/compare', async (req, res) => {
-  const { oldVersionId, newVersionId } = req.query
-
-  if (!oldVersionId || !newVersionId) {
-    return res.status(400).json({ error: 'Both oldVersionId and newVersionId are required' })
+app.get('/v1/projects/:namespace/:project/conversations/:conversationId', requirePermission('ask_questions'), (req, res) => {
+  const conversation = getOwnConversation(req)
+  if (!conversation) {
+    return res.status(404).json({ error: 'Conversation not found' })
   }
+  res.json({ conversation: publicConversation(conversation) })
+})
 
-  const metadata = loadMetadata(req.sessionId)
-  const doc = metadata.documents.find(d => d.id === req.params.documentId)
-
-  if (!doc) {
-    return res.status(404).json({ error: 'Document not found' })
+// Rename a conversation and/or replace its messages
+app.put('/v1/projects/:namespace/:project/conversations/:conversationId', requirePermission('ask_questions'), (req, res) => {
+  const existing = getOwnConversation(req)
+  if (!existing) {
+    return res.status(404).json({ error: 'Conversation not found' })
+  }
+  const error = validateConversation(req.body, { partial: true })
+  if (error) {
+    return res.status(400).json({ error })
   }
 
-  const oldVersion = doc.versions.find(v => v.id === oldVersionId)
-  const newVersion = doc.versions.find(v => v.id === newVersionId)
+  const conversation = buildConversation(existing.id, req.body, req.user, new Date().toISOString(), existing)
+  records.put(req.workspace, 'conversations', conversation.id, conversation)
+  res.json({ conversation: publicConversation(conversation) })
+})
 
-  if (!oldVersion || !newVersion) {
-    return res.status(404).json({ error: 'One or both versions not found' })
+app.delete('/v1/projects/:namespace/:project/conversations/:conversationId', requirePermission('ask_questions'), (req, res) => {
+  const conversation = getOwnConversation(req)
+  if (!conversation) {
+    return res.status(404).json({ error: 'Conversation not found' })
   }
+  records.remove(req.workspace, 'conversations', conversation.id)
+  res.json({ message: `Deleted conversation ${conversation.title}` })
+})
 
-  // Return pre-computed data if available
-  if (newVersion.diff && newVersion.summary) {
-    console.log(`Returning pre-computed diff for version ${newVersionId}`)
-    return res.json({
-      document_id: doc.id,
-      document_name: doc.name,
-      old_version_id: oldVersionId,
-      new_version_id: newVersionId,
-      old_version: oldVersion,
-      new_version: newVersion,
-      total_changes: newVersion.diff.changes.length,
-      summary: newVersion.summary,
-      changes: newVersion.diff.changes,
-      compared_at: new Date().toISOString(),
-      precomputed: true
-    })
+// Turn on the read-only share link; sharing again returns the same link
+app.post('/v1/projects/:namespace/:project/conversations/:conversationId/share', requirePermission('ask_questions'), (req, res) => {
+  const existing = getOwnConversation(req)
+  if (!existing) {
+    return res.status(404).json({ error: 'Conversation not found' })
   }
 
-  // Fallback: compute on-demand
-  console.log(`Computing diff on-demand for version ${newVersionId}`)
+  const conversation = existing.share_token
+    ? existing
+    : { ...existing, share_token: createShareToken(), shared_at: new Date().toISOString() }
+  records.put(req.workspace, 'conversations', conversation.id, conversation)
+  res.json({ share_token: conversation.share_token, shared_at: conversation.shared_at })
+})
 
-  const oldFilePath = resolveFilePath(oldVersion.filename)
-  const newFilePath = resolveFilePath(newVersion.filename)
+// Turn off the share link - anyone holding it loses access
+app.delete('/v1/projects/:namespace/:project/conversations/:conversationId/share', requirePermission('ask_questions'), (req, res) => {
+  const existing = getOwnConversation(req)
+  if (!existing) {
+    return res.status(404).json({ error: 'Conversation not found' })
+  }
+  records.put(req.workspace, 'conversations', existing.id, { ...existing, share_token: null, shared_at: null })
+  res.json({ message: 'Share link removed' })
+})
 
-  if (!oldFilePath || !newFilePath) {
-    const fallbackSummary = newVersion.notes || 'No change details available — PDF files not found on disk.'
-    return res.json({
-      document_id: doc.id,
-      document_name: doc.name,
-      old_version_id: oldVersionId,
-      new_version_id: newVersionId,
-      old_version: oldVersion,
-      new_version: newVersion,
-      total_changes: 0,
-      summary: fallbackSummary,
-      changes: [],
-      compared_at: new Date().toISOString(),
-      precomputed: false
-    })
+// Read-only view of a shared conversation, with the sources as they were cited
+app.get('/v1/projects/:namespace/:project/shared/:token', requirePermission('view_policies'), (req, res) => {
+  const conversation = records.list(req.workspace, 'conversations')
+    .find(c => c.share_token && c.share_token === req.params.token)
+  if (!conversation) {
+    return res.status(404).json({ error: 'This share link is invalid or has been turned off.' })
+  }
+  // Only admins see answers citing deleted documents, whose scope can no longer be checked
+  const outOfScope = citedDocumentIds(conversation).some(id => {
+    const doc = documentsRepo.getDocument(req.workspace, id)
+    return doc ? !canViewDocument(req.user, doc) : !isAdminRole(req.user)
+  })
+  if (outOfScope) {
+    return res.status(403).json({ error: 'This conversation cites policies outside your scope.' })
   }
+  res.json({ conversation: sharedConversation(conversation) })
+})
 
-  const [oldText, newText] = await Promise.all([
-    extractPdfText(oldFilePath),
-    extractPdfText(newFilePath)
-  ])
+// ============================================
+// Feedback API - Answer ratings and the admin review queue
+// ============================================
 
-  if (!oldText || !newText) {
-    return res.status(500).json({ error: 'Failed to extract text from PDFs' })
+// Rate an answer up or down, with the question, answer and sources it was given with.
+// Signed-in users only, so every rating has an owner; rating the same answer again replaces the rating.
+app.post('/v1/projects/:namespace/:project/feedback', requirePermission('ask_questions'), (req, res) => {
+  const error = validateFeedback(req.body)
+  if (error) {
+    return res.status(400).json({ error })
   }
 
-  const changes = computeTextDiff(oldText, newText)
-  const summary = await generateChangeSummary(changes, doc.name)
-
-  res.json({
-    document_id: doc.id,
-    document_name: doc.name,
-    old_version_id: oldVersionId,
-    new_version_id: newVersionId,
-    old_version: oldVersion,
-    new_version: newVersion,
-    total_changes: changes.length,
-    summary,
-    changes,
-    compared_at: new Date().toISOString(),
-    precomputed: false
-  })
+  const id = feedbackId(req.user.id, req.body.message_id)
+  const existing = records.get(req.workspace, 'feedback', id)
+  const entry = buildFeedback(id, req.body, req.user, new Date().toISOString(), existing)
+  records.put(req.workspace, 'feedback', id, entry)
+  res.status(existing ? 200 : 201).json({ feedback: entry })
 })
 
-// Detect potential matches for an uploaded document
-app.post('/v1/projects/:namespace/:project/documents/detect-matches', upload.single('file'), async (req, res) => {
-  const startTime = Date.now()
-  console.log('=== Match Detection Request ===')
-
-  if (!req.file) {
-    return res.status(400).json({ error: 'No file uploaded' })
+// Withdraw the caller's rating of an answer
+app.delete('/v1/projects/:namespace/:project/feedback/:messageId', requirePermission('ask_questions'), (req, res) => {
+  const id = feedbackId(req.user.id, req.params.messageId)
+  if (!records.get(req.workspace, 'feedback', id)) {
+    return res.status(404).json({ error: 'Feedback not found' })
   }
+  records.remove(req.workspace, 'feedback', id)
+  res.json({ message: 'Feedback removed' })
+})
 
-  console.log('Uploaded file:', req.file.originalname)
+// Downvoted answers grouped by the policy they cited (status=open|triaged|all, category)
+app.get('/v1/projects/:namespace/:project/feedback', requirePermission('manage_versions'), (req, res) => {
+  const filters = parseReviewFilters(req.query)
+  if (filters.error) {
+    return res.status(400).json({ error: filters.error })
+  }
+
+  const entries = records.list(req.workspace, 'feedback')
+  const groups = groupDownvotes(entries, filters.value).map(group => {
+    const doc = group.document_id === NO_DOCUMENT ? null : documentsRepo.getDocument(req.workspace, group.document_id)
+    return {
+      ...group,
+      document_name: doc?.name || group.document_name,
+      short_title: doc?.short_title || null,
+      // Documents deleted since the answer was given can no longer be opened
+      document_exists: Boolean(doc)
+    }
+  })
+  res.json({ summary: summarizeFeedback(entries), groups })
+})
 
-  try {
-    const filePath = path.join(UPLOADS_DIR, req.file.filename)
-    const extractedText = await extractPdfText(filePath)
-    console.log('Extracted text length:', extractedText?.length || 0)
+// Mark a downvoted answer as a policy gap, retrieval miss or model error (null reopens it)
+app.put('/v1/projects/:namespace/:project/feedback/:feedbackId/triage', requirePermission('manage_versions'), (req, res) => {
+  const entry = records.get(req.workspace, 'feedback', req.params.feedbackId)
+  if (!entry || entry.rating !== 'down') {
+    return res.status(404).json({ error: 'Feedback not found' })
+  }
+  const error = validateTriage(req.body)
+  if (error) {
+    return res.status(400).json({ error })
+  }
 
-    const metadata = loadMetadata(req.sessionId)
-    const existingDocs = metadata.documents
-    console.log('Existing documents to check:', existingDocs.length)
+  const triaged = applyTriage(entry, req.body, req.user, new Date().toISOString())
+  records.put(req.workspace, 'feedback', entry.id, triaged)
+  res.json({ feedback: triaged })
+})
 
-    const matches = []
-    for (const doc of existingDocs) {
-      const { score, signals } = calculateMatchScore(
-        req.file.originalname,
-        doc,
-        extractedText
-      )
+// ============================================
+// Search API - Local keyword search over policy text
+// ============================================
 
-      const confidence = getConfidenceLevel(score)
-      if (confidence) {
-        matches.push({
-          document: {
-            id: doc.id,
-            name: doc.name,
-            short_title: doc.short_title,
-            updated_at: doc.updated_at,
-            current_version_id: doc.current_version_id
-          },
-          score,
-          confidence,
-          signals
-        })
-      }
-    }
+// Add a PDF to the search index (once per distinct content); returns its content hash, or null when unreadable
+async function indexFile(filePath) {
+  const hash = contentCache.hashFile(filePath)
+  if (searchIndex.has(hash)) return hash
 
-    matches.sort((a, b) => b.score - a.score)
-    const topMatches = matches.slice(0, 3)
+  const pages = await extractPdfPages(filePath)
+  if (!pages) return null
+  searchIndex.add(hash, pages)
+  return hash
+}
 
-    const extractedDocNumber = extractDocNumber(req.file.originalname) || extractDocNumber(extractedText?.substring(0, 2000))
-    const extractedTitle = extractTitleFromText(extractedText)
+// Index the files of the given versions and map each content hash back to its versions
+async function indexVersions(targets) {
+  const byHash = new Map()
+  for (const target of targets) {
+    const filePath = resolveFilePath(target.version.filename)
+    const hash = filePath ? await indexFile(filePath) : null
+    if (!hash) continue
+    if (!byHash.has(hash)) byHash.set(hash, [])
+    byHash.get(hash).push(target)
+  }
+  return byHash
+}
 
-    // Clean up the uploaded file (it was just for analysis)
-    fs.unlinkSync(filePath)
+// Keyword search over the versions the caller can see: current ones by default, or filtered by
+// version status, scope level, series and date range, or one pinned past version.
+// Works without LlamaFarm, so the assistant falls back to it for extractive answers.
+app.get('/v1/projects/:namespace/:project/search', async (req, res) => {
+  const query = String(req.query.q || '').trim()
+  if (!query) {
+    return res.status(400).json({ error: 'q is required' })
+  }
+  const filters = parseSearchFilters(req.query)
+  if (filters.error) {
+    return res.status(400).json({ error: filters.error })
+  }
+  const limit = parseTopK(req.query.limit, 10)
+  const documents = documentsRepo.listDocuments(req.workspace)
+
+  let targets
+  if (req.query.version_id) {
+    const pinned = findPinnableVersion(documents, req.user, String(req.query.version_id))
+    if (!pinned) {
+      return res.status(404).json({ error: 'Version not found' })
+    }
+    targets = [pinned]
+  } else {
+    targets = selectSearchTargets(documents, req.user, filters.value)
+  }
+
+  const byHash = await indexVersions(targets)
+  const results = searchIndex.search(query, { keys: new Set(byHash.keys()), limit }).map(hit => {
+    const [{ doc, version }] = byHash.get(hit.key)
+    return {
+      content: hit.text,
+      snippet: hit.snippet,
+      score: hit.score,
+      section: hit.section,
+      page_number: hit.page_number,
+      document_id: doc.id,
+      document_name: doc.name,
+      short_title: doc.short_title || null,
+      scope: doc.scope || null,
+      version_id: version.id,
+      version_status: versionStatus(doc, version),
+      is_current: version.id === doc.current_version_id,
+      updated_at: version.created_at,
+      updated_by: version.uploaded_by,
+      metadata: { filename: version.filename, page_number: hit.page_number }
+    }
+  })
 
-    res.json({
-      matches: topMatches,
-      extracted_title: extractedTitle,
-      extracted_doc_number: extractedDocNumber,
-      analysis_time_ms: Date.now() - startTime
-    })
-  } catch (error) {
-    console.error('Match detection error:', error)
-    try {
-      const filePath = path.join(UPLOADS_DIR, req.file.filename)
-      if (fs.existsSync(filePath)) fs.unlinkSync(filePath)
-    } catch {}
-    res.status(500).json({ error: 'Failed to analyze document' })
-  }
+  // Search terms after stopword removal, for highlighting
+  res.json({ query, terms: tokenize(query), results, total: results.length })
 })
 
 // ============================================
@@ -1144,6 +3003,11 @@ app.get('/v1/projects/:namespace/:project/digest', (req, res) => {
     return res.status(400).json({ error: 'period must be "week" or "month"' })
   }
 
+  const events = req.query.events ? String(req.query.events).split(',').map(e => e.trim()) : DIGEST_EVENTS
+  if (events.some(e => !DIGEST_EVENTS.includes(e))) {
+    return res.status(400).json({ error: `events must be a comma-separated list of: ${DIGEST_EVENTS.join(', ')}` })
+  }
+
   let parsedYear = parseInt(year, 10)
   let parsedPeriodNum
 
@@ -1184,8 +3048,7 @@ app.get('/v1/projects/:namespace/:project/digest', (req, res) => {
     ? getWeekBounds(parsedYear, parsedPeriodNum)
     : getMonthBounds(parsedYear, parsedPeriodNum)
 
-  const metadata = loadMetadata(req.sessionId)
-  const { documents, stats } = computeDigest(metadata.documents, bounds.start, bounds.end)
+  const { documents, stats } = computeDigest(filterVisible(req.user, documentsRepo.listDocuments(req.workspace)), bounds.start, bounds.end, { events })
 
   const periodInfo = {
     type: period,
@@ -1209,34 +3072,29 @@ app.get('/v1/projects/:namespace/:project/digest', (req, res) => {
 
 // Get demo limits and usage for current session
 app.get('/v1/projects/:namespace/:project/limits', (req, res) => {
-  res.json(getSessionUsage(req.sessionId))
+  res.json(getSessionUsage(req.workspace))
 })
 
-// Reset session to seed state
-app.post('/v1/projects/:namespace/:project/reset', (req, res) => {
-  const session = getSession(req.sessionId)
-
-  // Clean up uploaded files for this session
-  let filesDeleted = 0
-  for (const filename of session.uploadedFiles) {
-    const filePath = path.join(UPLOADS_DIR, filename)
-    try {
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath)
-        filesDeleted++
-      }
-    } catch {}
-  }
-
-  // Reset session to fresh seed data
-  session.metadata = JSON.parse(JSON.stringify(seedMetadata))
-  session.uploadedFiles = []
+// Reset workspace to seed state
+app.post('/v1/projects/:namespace/:project/reset', requirePermission('manage_admins'), (req, res) => {
+  // Reset to fresh seed data, then clean up files uploaded into this workspace
+  const documentsBefore = documentsRepo.listDocuments(req.workspace).length
+  const { uploadedFiles, documentsRestored } = documentsRepo.reset(req.workspace)
+  records.clear(req.workspace, 'relationships')
+  records.clear(req.workspace, 'references')
+  records.clear(req.workspace, 'imports')
+  const filesDeleted = deleteUploadedFiles(uploadedFiles)
+  audit(req, 'workspace.reset', {
+    before: { document_count: documentsBefore },
+    after: { document_count: documentsRestored },
+    details: { files_cleaned: filesDeleted }
+  })
 
-  console.log(`Session ${req.sessionId} reset to seed (${filesDeleted} files cleaned up)`)
+  console.log(`Workspace ${req.workspace} reset to seed (${filesDeleted} files cleaned up)`)
 
   res.json({
     message: 'Demo reset to original state',
-    documents_restored: seedMetadata.documents.length,
+    documents_restored: documentsRestored,
     files_cleaned: filesDeleted
   })
 })
@@ -1249,20 +3107,20 @@ app.get('/v1/projects/:namespace/:project/samples', (req, res) => {
 
   try {
     const manifest = JSON.parse(fs.readFileSync(SEED_SAMPLES_MANIFEST, 'utf-8'))
-    const metadata = loadMetadata(req.sessionId)
+    const documents = documentsRepo.listDocuments(req.workspace)
 
     const samples = manifest.samples.map(sample => {
       let alreadyAdded = false
 
       if (sample.type === 'new_document') {
         // Check if a document with matching name or short_title exists
-        alreadyAdded = metadata.documents.some(doc =>
+        alreadyAdded = documents.some(doc =>
           doc.name === sample.title ||
           (sample.short_title && doc.short_title === sample.short_title)
         )
       } else if (sample.type === 'version_update') {
         // Check if the target document already has a version with this filename
-        const targetDoc = metadata.documents.find(doc =>
+        const targetDoc = documents.find(doc =>
           doc.name === sample.target_document_name
         )
         if (targetDoc) {
@@ -1307,7 +3165,7 @@ app.get('/v1/projects/:namespace/:project/samples/:sampleId/file', (req, res) =>
 })
 
 // Add a sample document to the session
-app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', async (req, res) => {
+app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', requirePermission('upload_policies'), async (req, res) => {
   if (!fs.existsSync(SEED_SAMPLES_MANIFEST)) {
     return res.status(404).json({ error: 'No samples available' })
   }
@@ -1326,19 +3184,18 @@ app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', async (req, r
 
   // Check limits
   const isNewDoc = sample.type === 'new_document'
-  const limitCheck = checkUploadLimits(req.sessionId, isNewDoc)
+  const limitCheck = checkUploadLimits(req.workspace, isNewDoc)
   if (!limitCheck.allowed) {
     return res.status(400).json({ error: limitCheck.error })
   }
 
-  const metadata = loadMetadata(req.sessionId)
   const now = new Date().toISOString()
 
   // Copy sample PDF to uploads directory with timestamp
   const destFilename = `${Date.now()}-${sample.filename}`
   const destPath = path.join(UPLOADS_DIR, destFilename)
   fs.copyFileSync(sampleFilePath, destPath)
-  getSession(req.sessionId).uploadedFiles.push(destFilename)
+  documentsRepo.trackUpload(req.workspace, destFilename)
 
   const fileSize = fs.statSync(destPath).size
 
@@ -1346,7 +3203,7 @@ app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', async (req, r
     const documentId = uuidv4()
     const versionId = uuidv4()
 
-    const document = {
+    const document = documentsRepo.saveDocument(req.workspace, {
       id: documentId,
       name: sample.title,
       short_title: sample.short_title || null,
@@ -1364,11 +3221,17 @@ app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', async (req, r
         size: fileSize,
         status: 'published'
       }]
-    }
+    })
 
-    metadata.documents.push(document)
-    saveMetadata(req.sessionId, metadata)
+    audit(req, 'sample.add', {
+      document_id: document.id,
+      version_id: versionId,
+      after: { document: summarizeDocument(document), version: summarizeVersion(document.versions[0]) },
+      details: { sample_id: sample.id, type: sample.type }
+    })
 
+    enqueueLineageScan(req.workspace, document.id, versionId)
+    const { rag_status, jobs } = enqueuePublishJobs(req.workspace, document.id, versionId, null)
     res.status(201).json({
       message: 'Sample document added',
       document: {
@@ -1376,11 +3239,13 @@ app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', async (req, r
         name: document.name,
         short_title: document.short_title
       },
-      type: 'new_document'
+      type: 'new_document',
+      rag_status,
+      jobs
     })
   } else if (sample.type === 'version_update') {
     // Find the target document
-    const targetDoc = metadata.documents.find(doc =>
+    const targetDoc = documentsRepo.listDocuments(req.workspace).find(doc =>
       doc.name === sample.target_document_name
     )
 
@@ -1392,36 +3257,7 @@ app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', async (req, r
 
     const versionId = uuidv4()
 
-    // Pre-compute diff if possible
-    let diff = null
-    let summary = null
-    const previousVersion = targetDoc.versions.find(v => v.id === targetDoc.current_version_id)
-    if (previousVersion) {
-      try {
-        const oldFilePath = resolveFilePath(previousVersion.filename)
-        if (oldFilePath) {
-          const [oldText, newText] = await Promise.all([
-            extractPdfText(oldFilePath),
-            extractPdfText(destPath)
-          ])
-          if (oldText && newText) {
-            const changes = computeTextDiff(oldText, newText)
-            summary = await generateChangeSummary(changes, targetDoc.name)
-            diff = {
-              changes,
-              stats: {
-                added: changes.filter(c => c.type === 'added').length,
-                removed: changes.filter(c => c.type === 'removed').length
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Failed to compute diff for sample:', error.message)
-      }
-    }
-
-    const version = {
+    const version = documentsRepo.addVersion(req.workspace, targetDoc.id, {
       id: versionId,
       filename: destFilename,
       original_name: sample.filename,
@@ -1430,23 +3266,117 @@ app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', async (req, r
       created_at: now,
       size: fileSize,
       status: 'pending',
-      ...(diff && { diff }),
-      ...(summary && { summary })
-    }
+      review: startReview(resolveWorkflow(records.list(req.workspace, 'workflows'), targetDoc.workflow_id), now)
+    })
+    audit(req, 'sample.add', {
+      document_id: targetDoc.id,
+      version_id: version.id,
+      before: { current_version_id: targetDoc.current_version_id },
+      after: summarizeVersion(version),
+      details: { sample_id: sample.id, type: sample.type }
+    })
 
-    const docIndex = metadata.documents.findIndex(d => d.id === targetDoc.id)
-    metadata.documents[docIndex].versions.push(version)
-    saveMetadata(req.sessionId, metadata)
+    const job = targetDoc.current_version_id
+      ? jobQueue.enqueue('version.diff', {
+        workspace: req.workspace,
+        document_id: targetDoc.id,
+        version_id: version.id,
+        payload: { base_version_id: targetDoc.current_version_id }
+      })
+      : null
+    enqueueLineageScan(req.workspace, targetDoc.id, version.id)
 
     res.status(201).json({
       message: 'Sample version added (pending approval)',
       version,
       document_id: targetDoc.id,
-      type: 'version_update'
+      type: 'version_update',
+      job: job && publicJob(job)
     })
   }
 })
 
+// ============================================
+// Jobs API - Background processing status
+// ============================================
+
+// Status of one job, for clients polling upload processing
+app.get('/v1/projects/:namespace/:project/jobs/:jobId', requirePermission('upload_policies'), (req, res) => {
+  const job = jobQueue.get(req.params.jobId)
+  if (!job || job.workspace !== req.workspace) {
+    return res.status(404).json({ error: 'Job not found' })
+  }
+  res.json({ job: publicJob(job) })
+})
+
+// Recent jobs, optionally for one document or in one status
+app.get('/v1/projects/:namespace/:project/jobs', requirePermission('manage_versions'), (req, res) => {
+  const { document_id, status } = req.query
+  if (status && !JOB_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of: ${JOB_STATUSES.join(', ')}` })
+  }
+
+  const jobs = jobQueue.list({ workspace: req.workspace, document_id, status })
+  res.json({ total: jobs.length, jobs: jobs.slice(0, 100).map(publicJob) })
+})
+
+// ============================================
+// Content Cache - Extracted PDF text and diffs
+// ============================================
+
+// Cache entry counts and hit rate
+app.get('/v1/projects/:namespace/:project/cache', requirePermission('manage_admins'), (req, res) => {
+  res.json(contentCache.stats())
+})
+
+// Drop every cached extraction and diff; they are rebuilt on next use
+app.delete('/v1/projects/:namespace/:project/cache', requirePermission('manage_admins'), (req, res) => {
+  const removed = contentCache.clear()
+  console.log(`Cleared content cache (${removed} entries)`)
+  res.json({ message: 'Cache cleared', removed })
+})
+
+// Drop cached text, diffs and search passages for uploaded files that are about to be deleted
+function invalidateCachedFiles(filePaths) {
+  for (const filePath of filePaths) {
+    try {
+      if (!fs.existsSync(filePath)) continue
+      const hash = contentCache.hashFile(filePath)
+      contentCache.invalidate(hash)
+      searchIndex.remove(hash)
+    } catch {}
+  }
+}
+
+// Extract and index every seed policy and diff consecutive seed versions, one at a time so startup stays responsive
+async function warmContentCache() {
+  const startTime = Date.now()
+  const files = fs.existsSync(SEED_POLICIES_DIR)
+    ? fs.readdirSync(SEED_POLICIES_DIR).filter(name => name.toLowerCase().endsWith('.pdf')).sort()
+    : []
+
+  for (const name of files) {
+    await indexFile(path.join(SEED_POLICIES_DIR, name))
+  }
+
+  let diffs = 0
+  for (const doc of seedMetadata.documents) {
+    const filePaths = (doc.versions || []).map(v => resolveFilePath(v.filename))
+    for (let i = 1; i < filePaths.length; i++) {
+      if (!filePaths[i - 1] || !filePaths[i]) continue
+      try {
+        if (await compareFiles(filePaths[i - 1], filePaths[i])) diffs++
+      } catch (error) {
+        console.error(`Cache warm-up failed for ${doc.name}:`, error.message)
+      }
+    }
+  }
+
+  const { hits, misses } = contentCache.stats()
+  console.log(`Content cache warm: ${files.length} seed policies, ${diffs} version diffs (${misses} computed, ${hits} cached) in ${Date.now() - startTime}ms`)
+  console.log(`Search index: ${searchIndex.stats().passages} passages from ${searchIndex.stats().files} files`)
+}
+
 // ============================================
 // Start Server
 // ============================================
@@ -1454,7 +3384,13 @@ app.post('/v1/projects/:namespace/:project/samples/:sampleId/add', async (req, r
 app.listen(PORT, () => {
   console.log(`RegSync API server running on http://localhost:${PORT}`)
   console.log(`Seed data: ${seedMetadata.documents.length} documents from ${SEED_DIR}`)
+  console.log(`Storage: ${STORAGE_MODE === 'durable' ? STORE_DIR : 'in-memory per-session workspaces'}`)
   console.log(`User uploads: ${UPLOADS_DIR}`)
+  console.log(`Content cache: ${CACHE_DIR}`)
   console.log(`LlamaFarm RAG: ${LLAMAFARM_URL}/v1/projects/${LLAMAFARM_NAMESPACE}/${LLAMAFARM_PROJECT}/datasets/${LLAMAFARM_DATASET}`)
-  console.log(`Demo limits: ${DEMO_MAX_DOCUMENTS} docs, ${DEMO_MAX_STORAGE_BYTES / 1024 / 1024}MB storage`)
+  if (STORAGE_MODE === 'session') {
+    console.log(`Demo limits: ${DEMO_MAX_DOCUMENTS} docs, ${DEMO_MAX_STORAGE_BYTES / 1024 / 1024}MB storage`)
+  }
+  jobQueue.start()
+  warmContentCache().catch(error => console.error('Content cache warm-up failed:', error.message))
 })
@@ -0,0 +1,228 @@
+/**
+ * In-process background job queue
+ * Jobs are persisted in the record store, run one at a time, and retried with
+ * exponential backoff, so slow or flaky work (PDF diffing, LLM summaries, RAG
+ * ingestion) happens after the request that caused it has already returned.
+ */
+
+import crypto from 'crypto'
+
+const JOB_STATUSES = ['queued', 'running', 'retrying', 'succeeded', 'failed']
+
+const DEFAULT_MAX_ATTEMPTS = 4
+const DEFAULT_BACKOFF_MS = 2000
+const MAX_BACKOFF_MS = 5 * 60 * 1000
+
+// Finished jobs are kept this long for status polling and troubleshooting
+const FINISHED_JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ * @param {number} attempts
+ * @param {number} baseMs
+ * @returns {number}
+ */
+function retryDelay(attempts, baseMs = DEFAULT_BACKOFF_MS) {
+  return Math.min(baseMs * 2 ** (attempts - 1), MAX_BACKOFF_MS)
+}
+
+/**
+ * Whether a job has stopped for good
+ * @param {{ status: string }} job
+ * @returns {boolean}
+ */
+function isFinished(job) {
+  return job.status === 'succeeded' || job.status === 'failed'
+}
+
+/**
+ * Job as returned by the API (without the owning workspace)
+ * @param {Object} job
+ * @returns {Object}
+ */
+function publicJob(job) {
+  const { workspace: _workspace, ...rest } = job
+  return rest
+}
+
+/**
+ * Create the job queue.
+ * @param {{
+ *   records: { list: Function, get: Function, put: Function, remove: Function },
+ *   workspace?: string,
+ *   handlers: Record<string, (job: Object, context: { progress: (message: string) => void }) => Promise<any>>,
+ *   onFailed?: (job: Object) => void,
+ *   maxAttempts?: number,
+ *   backoffMs?: number,
+ *   now?: () => Date
+ * }} options
+ */
+function createJobQueue({
+  records,
+  workspace = 'system',
+  handlers,
+  onFailed = () => {},
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  backoffMs = DEFAULT_BACKOFF_MS,
+  now = () => new Date()
+}) {
+  let timer = null
+  let running = false
+  let started = false
+
+  const allJobs = () => records.list(workspace, 'jobs')
+
+  function update(id, patch) {
+    const job = { ...records.get(workspace, 'jobs', id), ...patch, updated_at: now().toISOString() }
+    records.put(workspace, 'jobs', id, job)
+    return job
+  }
+
+  // Waiting jobs in the order they should run
+  function waiting() {
+    return allJobs()
+      .filter(job => job.status === 'queued' || job.status === 'retrying')
+      .sort((a, b) => a.run_at.localeCompare(b.run_at) || a.created_at.localeCompare(b.created_at))
+  }
+
+  // Run the next job that is due; returns false when nothing is due
+  async function runNext() {
+    const job = waiting().find(j => new Date(j.run_at) <= now())
+    if (!job) return false
+
+    const current = update(job.id, { status: 'running', attempts: job.attempts + 1, started_at: now().toISOString() })
+    const handler = handlers[job.type]
+    const progress = message => update(job.id, { progress: message })
+
+    try {
+      if (!handler) throw Object.assign(new Error(`Unknown job type: ${job.type}`), { retryable: false })
+      const result = await handler(current, { progress })
+      update(job.id, { status: 'succeeded', result: result ?? null, error: null, finished_at: now().toISOString() })
+    } catch (error) {
+      const message = error?.message || String(error)
+      if (error?.retryable !== false && current.attempts < current.max_attempts) {
+        const runAt = new Date(now().getTime() + retryDelay(current.attempts, backoffMs))
+        update(job.id, { status: 'retrying', error: message, run_at: runAt.toISOString() })
+        console.error(`Job ${job.type} ${job.id} failed (attempt ${current.attempts}/${current.max_attempts}), retrying:`, message)
+      } else {
+        const failed = update(job.id, { status: 'failed', error: message, finished_at: now().toISOString() })
+        console.error(`Job ${job.type} ${job.id} failed:`, message)
+        try { onFailed(failed) } catch {}
+      }
+    }
+    return true
+  }
+
+  // Arm the timer for the earliest waiting job
+  function schedule() {
+    if (!started || running) return
+    clearTimeout(timer)
+    timer = null
+
+    const [next] = waiting()
+    if (!next) return
+
+    const delay = Math.max(0, new Date(next.run_at).getTime() - now().getTime())
+    timer = setTimeout(async () => {
+      timer = null
+      running = true
+      try {
+        while (await runNext()) { /* keep going while jobs are due */ }
+      } finally {
+        running = false
+        schedule()
+      }
+    }, delay)
+    timer.unref?.()
+  }
+
+  return {
+    /**
+     * Queue a job
+     * @param {string} type
+     * @param {{ workspace: string, document_id?: string, version_id?: string, payload?: Object, maxAttempts?: number }} options
+     * @returns {Object} the job record
+     */
+    enqueue(type, { workspace: owner, document_id = null, version_id = null, payload = {}, maxAttempts: attempts = maxAttempts }) {
+      const at = now().toISOString()
+      const job = {
+        id: crypto.randomUUID(),
+        type,
+        workspace: owner,
+        document_id,
+        version_id,
+        payload,
+        status: 'queued',
+        attempts: 0,
+        max_attempts: attempts,
+        progress: null,
+        result: null,
+        error: null,
+        run_at: at,
+        created_at: at,
+        updated_at: at,
+        started_at: null,
+        finished_at: null
+      }
+      records.put(workspace, 'jobs', job.id, job)
+      schedule()
+      return job
+    },
+
+    get(id) {
+      return records.get(workspace, 'jobs', id) || null
+    },
+
+    /**
+     * Jobs matching every given field, newest first
+     * @param {{ workspace?: string, document_id?: string, version_id?: string, status?: string, type?: string }} filter
+     * @returns {Array}
+     */
+    list(filter = {}) {
+      return allJobs()
+        .filter(job => Object.entries(filter).every(([key, value]) => value === undefined || job[key] === value))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    },
+
+    /**
+     * Begin processing. Jobs left running by a crash are requeued and old finished jobs dropped.
+     */
+    start() {
+      const cutoff = now().getTime() - FINISHED_JOB_TTL_MS
+      for (const job of allJobs()) {
+        if (job.status === 'running') {
+          update(job.id, { status: 'queued', run_at: now().toISOString() })
+        } else if (isFinished(job) && new Date(job.finished_at).getTime() < cutoff) {
+          records.remove(workspace, 'jobs', job.id)
+        }
+      }
+      started = true
+      schedule()
+    },
+
+    stop() {
+      started = false
+      clearTimeout(timer)
+      timer = null
+    },
+
+    /**
+     * Run every job that is due right now, including ones queued while draining
+     * @returns {Promise<number>} jobs run
+     */
+    async drain() {
+      let count = 0
+      while (await runNext()) count++
+      return count
+    }
+  }
+}
+
+export {
+  JOB_STATUSES,
+  DEFAULT_MAX_ATTEMPTS,
+  retryDelay,
+  isFinished,
+  publicJob,
+  createJobQueue
+}
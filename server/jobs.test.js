@@ -0,0 +1,211 @@
+/**
+ * Tests for the background job queue
+ * Run with: node --test server/jobs.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createRecordStore } from './store.js'
+import { createJobQueue, retryDelay, publicJob, isFinished } from './jobs.js'
+
+// Clock the tests can move forward
+function testClock(start = '2026-03-01T12:00:00.000Z') {
+  let current = new Date(start).getTime()
+  return {
+    now: () => new Date(current),
+    advance: ms => { current += ms }
+  }
+}
+
+describe('retryDelay', () => {
+  test('doubles with each failed attempt', () => {
+    assert.deepStrictEqual([1, 2, 3, 4].map(n => retryDelay(n, 1000)), [1000, 2000, 4000, 8000])
+  })
+
+  test('is capped at five minutes', () => {
+    assert.strictEqual(retryDelay(20, 1000), 5 * 60 * 1000)
+  })
+})
+
+describe('createJobQueue', () => {
+  test('runs a job and records its result', async () => {
+    const queue = createJobQueue({
+      records: createRecordStore(),
+      handlers: {
+        async echo(job, { progress }) {
+          progress('working')
+          return { doubled: job.payload.value * 2 }
+        }
+      }
+    })
+
+    const job = queue.enqueue('echo', { workspace: 'default', document_id: 'd1', payload: { value: 21 } })
+    assert.strictEqual(job.status, 'queued')
+    assert.strictEqual(await queue.drain(), 1)
+
+    const done = queue.get(job.id)
+    assert.strictEqual(done.status, 'succeeded')
+    assert.strictEqual(done.attempts, 1)
+    assert.strictEqual(done.progress, 'working')
+    assert.deepStrictEqual(done.result, { doubled: 42 })
+    assert.ok(isFinished(done))
+  })
+
+  test('retries with backoff, then fails and reports it', async () => {
+    const clock = testClock()
+    const failed = []
+    let calls = 0
+    const queue = createJobQueue({
+      records: createRecordStore(),
+      handlers: { async flaky() { calls++; throw new Error('LlamaFarm unreachable') } },
+      onFailed: job => failed.push(job.id),
+      maxAttempts: 3,
+      backoffMs: 1000,
+      now: clock.now
+    })
+
+    const job = queue.enqueue('flaky', { workspace: 'default' })
+    await queue.drain()
+    assert.strictEqual(queue.get(job.id).status, 'retrying')
+    assert.strictEqual(queue.get(job.id).error, 'LlamaFarm unreachable')
+
+    // Not due yet
+    assert.strictEqual(await queue.drain(), 0)
+    clock.advance(1000)
+    await queue.drain()
+    assert.strictEqual(queue.get(job.id).attempts, 2)
+
+    clock.advance(1999)
+    assert.strictEqual(await queue.drain(), 0)
+    clock.advance(1)
+    await queue.drain()
+
+    assert.strictEqual(calls, 3)
+    assert.strictEqual(queue.get(job.id).status, 'failed')
+    assert.deepStrictEqual(failed, [job.id])
+  })
+
+  test('succeeds on a later attempt', async () => {
+    const clock = testClock()
+    let calls = 0
+    const queue = createJobQueue({
+      records: createRecordStore(),
+      handlers: {
+        async sometimes() {
+          calls++
+          if (calls === 1) throw new Error('timeout')
+          return 'ok'
+        }
+      },
+      backoffMs: 10,
+      now: clock.now
+    })
+
+    const job = queue.enqueue('sometimes', { workspace: 'default' })
+    await queue.drain()
+    clock.advance(10)
+    await queue.drain()
+
+    const done = queue.get(job.id)
+    assert.strictEqual(done.status, 'succeeded')
+    assert.strictEqual(done.error, null)
+    assert.strictEqual(done.result, 'ok')
+  })
+
+  test('does not retry errors marked as not retryable', async () => {
+    const queue = createJobQueue({
+      records: createRecordStore(),
+      handlers: { async broken() { throw Object.assign(new Error('PDF files not found'), { retryable: false }) } }
+    })
+
+    const job = queue.enqueue('broken', { workspace: 'default' })
+    await queue.drain()
+    assert.strictEqual(queue.get(job.id).status, 'failed')
+    assert.strictEqual(queue.get(job.id).attempts, 1)
+  })
+
+  test('fails unknown job types immediately', async () => {
+    const queue = createJobQueue({ records: createRecordStore(), handlers: {} })
+    const job = queue.enqueue('nope', { workspace: 'default' })
+    await queue.drain()
+    assert.strictEqual(queue.get(job.id).status, 'failed')
+    assert.match(queue.get(job.id).error, /Unknown job type/)
+  })
+
+  test('runs jobs queued by other jobs in the same drain', async () => {
+    const order = []
+    const queue = createJobQueue({
+      records: createRecordStore(),
+      handlers: {
+        async first() {
+          order.push('first')
+          queue.enqueue('second', { workspace: 'default' })
+        },
+        async second() { order.push('second') }
+      }
+    })
+
+    queue.enqueue('first', { workspace: 'default' })
+    assert.strictEqual(await queue.drain(), 2)
+    assert.deepStrictEqual(order, ['first', 'second'])
+  })
+
+  test('lists jobs by workspace and document, newest first', async () => {
+    const clock = testClock()
+    const queue = createJobQueue({ records: createRecordStore(), handlers: {}, now: clock.now })
+    const a = queue.enqueue('x', { workspace: 'default', document_id: 'd1' })
+    clock.advance(1)
+    const b = queue.enqueue('x', { workspace: 'default', document_id: 'd1' })
+    queue.enqueue('x', { workspace: 'default', document_id: 'd2' })
+    queue.enqueue('x', { workspace: 'other', document_id: 'd1' })
+
+    assert.deepStrictEqual(
+      queue.list({ workspace: 'default', document_id: 'd1' }).map(j => j.id),
+      [b.id, a.id]
+    )
+  })
+
+  test('requeues jobs interrupted by a restart and drops old finished ones', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'regsync-jobs-'))
+    try {
+      const clock = testClock()
+      const records = createRecordStore({ dir })
+      const queue = createJobQueue({ records, handlers: { async ok() {} }, now: clock.now })
+      const old = queue.enqueue('ok', { workspace: 'default' })
+      await queue.drain()
+      const interrupted = queue.enqueue('ok', { workspace: 'default' })
+      records.put('system', 'jobs', interrupted.id, { ...interrupted, status: 'running', attempts: 1 })
+
+      clock.advance(8 * 24 * 60 * 60 * 1000)
+      const reopened = createJobQueue({ records: createRecordStore({ dir }), handlers: { async ok() {} }, now: clock.now })
+      reopened.start()
+      reopened.stop()
+
+      assert.strictEqual(reopened.get(old.id), null)
+      assert.strictEqual(reopened.get(interrupted.id).status, 'queued')
+      await reopened.drain()
+      assert.strictEqual(reopened.get(interrupted.id).status, 'succeeded')
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('runs queued jobs on its own once started', async () => {
+    const queue = createJobQueue({ records: createRecordStore(), handlers: { async ok() { return 'done' } } })
+    queue.start()
+    const job = queue.enqueue('ok', { workspace: 'default' })
+    await new Promise(resolve => setTimeout(resolve, 20))
+    queue.stop()
+    assert.strictEqual(queue.get(job.id).status, 'succeeded')
+  })
+})
+
+describe('publicJob', () => {
+  test('hides the owning workspace', () => {
+    const job = publicJob({ id: 'j1', workspace: 'session-123', type: 'version.diff', status: 'queued' })
+    assert.deepStrictEqual(job, { id: 'j1', type: 'version.diff', status: 'queued' })
+  })
+})
@@ -0,0 +1,372 @@
+/**
+ * Policy lineage: relationships between documents in the library
+ * A document can supersede, implement, supplement or reference another. Relationships are
+ * suggested from the text of uploaded versions ("This instruction supplements DAFI 36-2903")
+ * and only count once an admin confirms them; the lineage graph and the assistant's
+ * superseded-document warning use confirmed relationships alone.
+ */
+
+// Stored direction: the source document <type> the target document
+const RELATIONSHIP_TYPES = ['supersedes', 'implements', 'supplements', 'references']
+
+// The same relationship seen from its target
+const INVERSE_TYPES = {
+  supersedes: 'superseded_by',
+  implements: 'implemented_by',
+  supplements: 'supplemented_by',
+  references: 'referenced_by'
+}
+
+const RELATIONSHIP_STATUSES = ['suggested', 'confirmed', 'dismissed']
+
+// Decisions an admin can make on a suggestion
+const DECISION_STATUSES = ['confirmed', 'dismissed']
+
+// How far the lineage graph follows confirmed relationships from the requested document
+const LINEAGE_DEPTH = 3
+
+const MAX_EVIDENCE_LENGTH = 240
+
+// Publication designators, grouped so that AFI and DAFI (and so on) name the same series
+const PUBLICATION_FAMILIES = {
+  DAFI: 'DAFI',
+  AFI: 'DAFI',
+  DAFPD: 'DAFPD',
+  AFPD: 'DAFPD',
+  DAFMAN: 'DAFMAN',
+  AFMAN: 'DAFMAN',
+  DAFH: 'DAFH',
+  AFH: 'DAFH',
+  JBSAI: 'JBSA',
+  JBSA: 'JBSA',
+  AETCI: 'AETC',
+  MDWI: 'MDW',
+  '73MDW': 'MDW'
+}
+
+// Spelled-out publication types, as in "Department of the Air Force Instruction (DAFI) 36-2903"
+const SPELLED_OUT_FAMILIES = {
+  'instruction': 'DAFI',
+  'policy directive': 'DAFPD',
+  'manual': 'DAFMAN',
+  'handbook': 'DAFH'
+}
+
+const DESIGNATORS = Object.keys(PUBLICATION_FAMILIES).join('|')
+
+// A publication reference: "DAFI 36-2903", "Air Force Instruction 36-3003",
+// "Department of the Air Force Instruction (DAFI) 36-2903", "Instruction 36-4405"
+const REFERENCE_PATTERN = new RegExp(
+  `\\b(?:(${DESIGNATORS})|(?:(Department of the Air Force|Air Force|Joint Base San Antonio)\\s+)?` +
+  `(Instruction|Policy Directive|Manual|Handbook)(?:\\s*\\((${DESIGNATORS})\\))?)\\s+(\\d{1,3}-\\d{1,5})\\b`,
+  'gi'
+)
+
+// Wording before a reference that says how the document relates to it; the closest match wins
+const RELATIONSHIP_CUES = [
+  { type: 'superseded_by', pattern: /\bsuperseded\s+by\b/gi },
+  { type: 'supersedes', pattern: /\bsupersed(?:es|ing)\b/gi },
+  { type: 'implements', pattern: /\bimplement(?:s|ing)\b/gi },
+  { type: 'supplements', pattern: /\bsupplement(?:s|ing)\b|\bsupplement\s+to\b/gi }
+]
+
+// How far back from a reference to look for its cue
+const CUE_WINDOW = 100
+
+// Strongest first: a document that supersedes another also mentions it, so keep the stronger link
+const TYPE_PRIORITY = ['supersedes', 'superseded_by', 'implements', 'supplements', 'references']
+
+/**
+ * Series and number of a library document, from its short title (or name)
+ * @param {{ short_title?: string | null, name?: string }} doc
+ * @returns {{ family: string | null, number: string } | null}
+ */
+function publicationNumber(doc) {
+  const title = doc.short_title || ''
+  const number = (title.match(/\d{1,3}-\d{1,5}/) || (doc.name || '').match(/\d{1,3}-\d{1,5}/))?.[0]
+  if (!number) return null
+  const designator = title.match(/^\s*([A-Za-z0-9]+)\s+\d/)?.[1]?.toUpperCase()
+  return { family: PUBLICATION_FAMILIES[designator] || null, number }
+}
+
+function familyOf(match) {
+  const designator = (match[1] || match[4])?.toUpperCase()
+  if (designator) return PUBLICATION_FAMILIES[designator]
+  if (match[2]?.toLowerCase() === 'joint base san antonio') return 'JBSA'
+  if (match[2]) return SPELLED_OUT_FAMILIES[match[3].toLowerCase()]
+  return null
+}
+
+// Relationship named by the closest cue in the text before a reference
+function cueBefore(text) {
+  let best = null
+  for (const { type, pattern } of RELATIONSHIP_CUES) {
+    for (const match of text.matchAll(pattern)) {
+      const end = match.index + match[0].length
+      if (!best || end > best.end) best = { type, end }
+    }
+  }
+  return best?.type || 'references'
+}
+
+// Text around a reference, cut at word boundaries
+function snippet(text, start, end) {
+  const from = Math.max(0, start - MAX_EVIDENCE_LENGTH / 2)
+  const to = end + MAX_EVIDENCE_LENGTH / 2
+  let excerpt = text.slice(from, to).replace(/\s+/g, ' ').trim()
+  if (from > 0) excerpt = excerpt.replace(/^\S*\s+/, '')
+  if (to < text.length) excerpt = excerpt.replace(/\s+\S*$/, '')
+  return excerpt.length > MAX_EVIDENCE_LENGTH ? excerpt.slice(0, MAX_EVIDENCE_LENGTH - 1) + '…' : excerpt
+}
+
+/**
+ * Publications a document's text mentions, with the relationship its wording suggests.
+ * The cue is looked for between the previous reference and this one, within the same sentence.
+ * @param {string} text
+ * @returns {Array<{ family: string | null, number: string, type: string, evidence: string, start: number, end: number }>}
+ */
+function findReferences(text) {
+  const references = []
+  let previousEnd = 0
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    const windowStart = Math.max(previousEnd, match.index - CUE_WINDOW)
+    const before = text.slice(windowStart, match.index)
+    // Start of the reference's sentence: the last '.' or ';' followed by a capitalized word
+    const sentenceStart = before.search(/[.;](?=\s+[A-Z])(?![\s\S]*[.;]\s+[A-Z])/)
+    const cueText = sentenceStart === -1 ? before : before.slice(sentenceStart + 1)
+    references.push({
+      family: familyOf(match),
+      number: match[5],
+      type: cueBefore(cueText),
+      evidence: snippet(text, match.index, match.index + match[0].length),
+      start: match.index,
+      end: match.index + match[0].length
+    })
+    previousEnd = match.index + match[0].length
+  }
+  return references
+}
+
+/**
+ * Library documents a reference could name: same number, and same series when both are known
+ * @param {{ family: string | null, number: string }} reference
+ * @param {Array} documents
+ * @returns {Array}
+ */
+function resolveReference(reference, documents) {
+  return documents.filter(doc => {
+    const publication = publicationNumber(doc)
+    if (!publication || publication.number !== reference.number) return false
+    return !reference.family || !publication.family || publication.family === reference.family
+  })
+}
+
+/**
+ * Whether two documents are already linked, in either direction and with any status.
+ * Dismissed suggestions count, so a later scan does not suggest them again.
+ * @param {Array} relationships
+ * @param {string} a
+ * @param {string} b
+ * @returns {boolean}
+ */
+function linksDocuments(relationships, a, b) {
+  return relationships.some(rel =>
+    (rel.source_document_id === a && rel.target_document_id === b) ||
+    (rel.source_document_id === b && rel.target_document_id === a)
+  )
+}
+
+// Stored form of a relationship: "superseded_by" is kept as the other document superseding this one
+function orient(documentId, relatedId, type) {
+  return type === 'superseded_by'
+    ? { source_document_id: relatedId, target_document_id: documentId, type: 'supersedes' }
+    : { source_document_id: documentId, target_document_id: relatedId, type }
+}
+
+/**
+ * Relationships to suggest from the text of one of a document's versions. Each referenced
+ * library document is suggested once, with the strongest relationship the text names; the
+ * document itself (earlier editions it supersedes) and documents already linked are skipped.
+ * @param {{ id: string }} doc
+ * @param {string} text
+ * @param {Array} documents - the library
+ * @param {Array} relationships - existing relationships of any status
+ * @returns {Array<{ source_document_id: string, target_document_id: string, type: string, evidence: string }>}
+ */
+function suggestRelationships(doc, text, documents, relationships) {
+  const others = documents.filter(other => other.id !== doc.id)
+  const strongest = new Map()
+  for (const reference of findReferences(text || '')) {
+    for (const target of resolveReference(reference, others)) {
+      const current = strongest.get(target.id)
+      if (!current || TYPE_PRIORITY.indexOf(reference.type) < TYPE_PRIORITY.indexOf(current.type)) {
+        strongest.set(target.id, reference)
+      }
+    }
+  }
+
+  const suggestions = []
+  for (const [targetId, reference] of strongest) {
+    if (linksDocuments(relationships, doc.id, targetId)) continue
+    suggestions.push({ ...orient(doc.id, targetId, reference.type), evidence: reference.evidence })
+  }
+  return suggestions
+}
+
+/**
+ * Parse a request to relate a document to another. `superseded_by` is accepted and stored
+ * the other way round.
+ * @param {{ type?: string, target_document_id?: string }} input
+ * @param {string} documentId
+ * @returns {{ value: { source_document_id: string, target_document_id: string, type: string } } | { error: string }}
+ */
+function parseRelationship(input, documentId) {
+  if (!input || typeof input !== 'object') return { error: 'Request body is required' }
+  if (input.type !== 'superseded_by' && !RELATIONSHIP_TYPES.includes(input.type)) {
+    return { error: `type must be one of: ${[...RELATIONSHIP_TYPES, 'superseded_by'].join(', ')}` }
+  }
+  if (typeof input.target_document_id !== 'string' || !input.target_document_id) {
+    return { error: 'target_document_id is required' }
+  }
+  if (input.target_document_id === documentId) return { error: 'A document cannot be related to itself' }
+  return { value: orient(documentId, input.target_document_id, input.type) }
+}
+
+/**
+ * Validate an admin's decision on a suggested relationship
+ * @param {{ status?: string }} input
+ * @returns {string | null} error message
+ */
+function validateDecision(input) {
+  if (!input || !DECISION_STATUSES.includes(input.status)) {
+    return `status must be one of: ${DECISION_STATUSES.join(', ')}`
+  }
+  return null
+}
+
+/**
+ * Build a stored relationship
+ * @param {string} id
+ * @param {{ source_document_id: string, target_document_id: string, type: string }} link
+ * @param {{ status: string, evidence?: { version_id: string, text: string } | null, user: { id: string, name: string } | null, now: string }} options
+ * @returns {Object}
+ */
+function buildRelationship(id, link, { status, evidence = null, user, now }) {
+  const by = user ? { id: user.id, name: user.name } : null
+  return {
+    id,
+    source_document_id: link.source_document_id,
+    target_document_id: link.target_document_id,
+    type: link.type,
+    status,
+    origin: evidence ? 'detected' : 'manual',
+    evidence,
+    created_by: by,
+    created_at: now,
+    decided_by: status === 'suggested' ? null : by,
+    decided_at: status === 'suggested' ? null : now
+  }
+}
+
+/**
+ * Record an admin's decision on a suggestion
+ * @param {Object} relationship
+ * @param {string} status - confirmed or dismissed
+ * @param {{ id: string, name: string }} admin
+ * @param {string} now
+ * @returns {Object}
+ */
+function decideRelationship(relationship, status, admin, now) {
+  return { ...relationship, status, decided_by: { id: admin.id, name: admin.name }, decided_at: now }
+}
+
+/**
+ * A document's relationships as seen from that document: `role` is the relationship's type
+ * when the document is its source and the inverse (e.g. "superseded_by") when it is the target
+ * @param {string} documentId
+ * @param {Array} relationships
+ * @returns {Array}
+ */
+function relationshipsOf(documentId, relationships) {
+  const related = []
+  for (const rel of relationships) {
+    if (rel.source_document_id === documentId) {
+      related.push({ ...rel, related_document_id: rel.target_document_id, role: rel.type })
+    } else if (rel.target_document_id === documentId) {
+      related.push({ ...rel, related_document_id: rel.source_document_id, role: INVERSE_TYPES[rel.type] })
+    }
+  }
+  return related
+}
+
+/**
+ * Confirmed relationships reachable from a document, up to LINEAGE_DEPTH steps in either
+ * direction. Only documents in `documents` (those the caller can see) are followed.
+ * @param {string} rootId
+ * @param {Array} documents
+ * @param {Array} relationships
+ * @returns {{ nodes: Array<{ id: string, name: string, short_title: string | null, depth: number }>, edges: Array }}
+ */
+function buildLineage(rootId, documents, relationships) {
+  const byId = new Map(documents.map(doc => [doc.id, doc]))
+  const confirmed = relationships.filter(rel =>
+    rel.status === 'confirmed' && byId.has(rel.source_document_id) && byId.has(rel.target_document_id)
+  )
+
+  const depths = new Map([[rootId, 0]])
+  let frontier = [rootId]
+  for (let depth = 1; depth <= LINEAGE_DEPTH && frontier.length > 0; depth++) {
+    const next = []
+    for (const id of frontier) {
+      for (const rel of relationshipsOf(id, confirmed)) {
+        if (depths.has(rel.related_document_id)) continue
+        depths.set(rel.related_document_id, depth)
+        next.push(rel.related_document_id)
+      }
+    }
+    frontier = next
+  }
+
+  const nodes = [...depths].map(([id, depth]) => {
+    const doc = byId.get(id)
+    return { id, name: doc.name, short_title: doc.short_title || null, depth }
+  })
+  const edges = confirmed
+    .filter(rel => depths.has(rel.source_document_id) && depths.has(rel.target_document_id))
+    .map(({ id, source_document_id, target_document_id, type }) => ({ id, source_document_id, target_document_id, type }))
+  return { nodes, edges }
+}
+
+/**
+ * Documents confirmed as superseded, mapped to the document that supersedes each
+ * @param {Array} relationships
+ * @returns {Map<string, string>}
+ */
+function supersededDocuments(relationships) {
+  const superseded = new Map()
+  for (const rel of relationships) {
+    if (rel.status === 'confirmed' && rel.type === 'supersedes') {
+      superseded.set(rel.target_document_id, rel.source_document_id)
+    }
+  }
+  return superseded
+}
+
+export {
+  RELATIONSHIP_TYPES,
+  INVERSE_TYPES,
+  RELATIONSHIP_STATUSES,
+  LINEAGE_DEPTH,
+  publicationNumber,
+  findReferences,
+  resolveReference,
+  linksDocuments,
+  suggestRelationships,
+  parseRelationship,
+  validateDecision,
+  buildRelationship,
+  decideRelationship,
+  relationshipsOf,
+  buildLineage,
+  supersededDocuments
+}
@@ -0,0 +1,165 @@
+/**
+ * Tests for policy lineage relationships
+ * Run with: node --test server/lineage.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  publicationNumber,
+  findReferences,
+  resolveReference,
+  suggestRelationships,
+  parseRelationship,
+  validateDecision,
+  buildRelationship,
+  decideRelationship,
+  relationshipsOf,
+  buildLineage,
+  supersededDocuments
+} from './lineage.js'
+
+const NOW = '2024-03-01T12:00:00.000Z'
+const john = { id: 'u2', name: 'John Smith' }
+
+const dafi = { id: 'dafi', name: 'Dress and Personal Appearance', short_title: 'DAFI 36-2903' }
+const supplement = { id: 'jbsa', name: 'JBSA-Instruction-36-2903-Dress-Supplement', short_title: 'JBSA 36-2903' }
+const leave = { id: 'leave', name: 'JBSA-Instruction-36-3003-Leave-Pass', short_title: 'JBSA 36-3003' }
+const afpd = { id: 'afpd', name: 'Personnel', short_title: 'AFPD 36-29' }
+const documents = [dafi, supplement, leave, afpd]
+
+const supplementText = 'Certified by: 502 ABW/CC Supersedes: JBSAI 36-2903, 1 March 2024 Pages: 8 ' +
+  'This instruction supplements Department of the Air Force Instruction (DAFI) 36-2903, Dress and Personal Appearance. ' +
+  'All provisions of DAFI 36-2903 apply unless specifically modified by this supplement. ' +
+  'Leave for appointments is covered in JBSAI 36-3003.'
+
+function link(id, source, target, type, status = 'confirmed') {
+  return buildRelationship(id, { source_document_id: source, target_document_id: target, type }, { status, user: john, now: NOW })
+}
+
+describe('publicationNumber', () => {
+  test('reads the series and number from the short title', () => {
+    assert.deepStrictEqual(publicationNumber(dafi), { family: 'DAFI', number: '36-2903' })
+    assert.deepStrictEqual(publicationNumber({ short_title: 'AFI 17-130' }), { family: 'DAFI', number: '17-130' })
+    assert.deepStrictEqual(publicationNumber(supplement), { family: 'JBSA', number: '36-2903' })
+  })
+
+  test('falls back to the name for the number', () => {
+    assert.deepStrictEqual(publicationNumber({ short_title: null, name: 'Instruction-36-4405-Cyber' }), { family: null, number: '36-4405' })
+    assert.strictEqual(publicationNumber({ name: 'Untitled' }), null)
+  })
+})
+
+describe('findReferences', () => {
+  test('takes the relationship from the closest wording before each reference', () => {
+    const found = findReferences(supplementText).map(r => [r.type, r.family, r.number])
+    assert.deepStrictEqual(found, [
+      ['supersedes', 'JBSA', '36-2903'],
+      ['supplements', 'DAFI', '36-2903'],
+      ['references', 'DAFI', '36-2903'],
+      ['references', 'JBSA', '36-3003']
+    ])
+  })
+
+  test('reads spelled-out publications and "superseded by"', () => {
+    const found = findReferences('This instruction implements Air Force Instruction 36-3003. It is superseded by AFI 17-130.')
+    assert.deepStrictEqual(found.map(r => [r.type, r.family, r.number]), [
+      ['implements', 'DAFI', '36-3003'],
+      ['superseded_by', 'DAFI', '17-130']
+    ])
+    assert.match(found[0].evidence, /implements Air Force Instruction 36-3003/)
+  })
+})
+
+describe('resolveReference', () => {
+  test('matches the number within the same series', () => {
+    assert.deepStrictEqual(resolveReference({ family: 'DAFI', number: '36-2903' }, documents).map(d => d.id), ['dafi'])
+    assert.deepStrictEqual(resolveReference({ family: null, number: '36-2903' }, documents).map(d => d.id), ['dafi', 'jbsa'])
+    assert.deepStrictEqual(resolveReference({ family: 'DAFI', number: '99-1' }, documents), [])
+  })
+})
+
+describe('suggestRelationships', () => {
+  test('suggests the strongest relationship per document and skips the document itself', () => {
+    const suggestions = suggestRelationships(supplement, supplementText, documents, [])
+    assert.deepStrictEqual(suggestions.map(s => [s.source_document_id, s.type, s.target_document_id]), [
+      ['jbsa', 'supplements', 'dafi'],
+      ['jbsa', 'references', 'leave']
+    ])
+    assert.match(suggestions[0].evidence, /supplements Department of the Air Force Instruction/)
+  })
+
+  test('stores "superseded by" as the other document superseding this one', () => {
+    const [suggestion] = suggestRelationships(dafi, 'This publication is superseded by JBSAI 36-3003.', documents, [])
+    assert.deepStrictEqual([suggestion.source_document_id, suggestion.type, suggestion.target_document_id], ['leave', 'supersedes', 'dafi'])
+  })
+
+  test('does not suggest documents already linked, even when dismissed', () => {
+    const dismissed = link('r1', 'dafi', 'jbsa', 'references', 'dismissed')
+    const suggestions = suggestRelationships(supplement, supplementText, documents, [dismissed])
+    assert.deepStrictEqual(suggestions.map(s => s.target_document_id), ['leave'])
+  })
+})
+
+describe('parseRelationship', () => {
+  test('accepts the relationship types and flips superseded_by', () => {
+    assert.deepStrictEqual(parseRelationship({ type: 'implements', target_document_id: 'afpd' }, 'dafi'), {
+      value: { source_document_id: 'dafi', target_document_id: 'afpd', type: 'implements' }
+    })
+    assert.deepStrictEqual(parseRelationship({ type: 'superseded_by', target_document_id: 'leave' }, 'dafi').value, {
+      source_document_id: 'leave', target_document_id: 'dafi', type: 'supersedes'
+    })
+  })
+
+  test('rejects unknown types, missing targets and self links', () => {
+    assert.match(parseRelationship({ type: 'cites', target_document_id: 'afpd' }, 'dafi').error, /type/)
+    assert.match(parseRelationship({ type: 'references' }, 'dafi').error, /target_document_id/)
+    assert.match(parseRelationship({ type: 'references', target_document_id: 'dafi' }, 'dafi').error, /itself/)
+  })
+})
+
+describe('decisions', () => {
+  test('records who confirmed or dismissed a suggestion', () => {
+    const suggested = buildRelationship('r1', { source_document_id: 'jbsa', target_document_id: 'dafi', type: 'supplements' }, {
+      status: 'suggested', evidence: { version_id: 'v1', text: 'supplements DAFI 36-2903' }, user: null, now: NOW
+    })
+    assert.strictEqual(suggested.origin, 'detected')
+    assert.strictEqual(suggested.decided_by, null)
+
+    const confirmed = decideRelationship(suggested, 'confirmed', john, NOW)
+    assert.deepStrictEqual([confirmed.status, confirmed.decided_by.name], ['confirmed', 'John Smith'])
+    assert.strictEqual(validateDecision({ status: 'dismissed' }), null)
+    assert.match(validateDecision({ status: 'suggested' }), /status/)
+  })
+})
+
+describe('lineage', () => {
+  const relationships = [
+    link('r1', 'jbsa', 'dafi', 'supplements'),
+    link('r2', 'dafi', 'afpd', 'implements'),
+    link('r3', 'leave', 'jbsa', 'references', 'suggested')
+  ]
+
+  test('labels relationships from the document they are viewed from', () => {
+    assert.deepStrictEqual(relationshipsOf('dafi', relationships).map(r => [r.role, r.related_document_id]), [
+      ['supplemented_by', 'jbsa'],
+      ['implements', 'afpd']
+    ])
+  })
+
+  test('follows confirmed relationships in both directions', () => {
+    const { nodes, edges } = buildLineage('jbsa', documents, relationships)
+    assert.deepStrictEqual(nodes.map(n => [n.id, n.depth]), [['jbsa', 0], ['dafi', 1], ['afpd', 2]])
+    assert.deepStrictEqual(edges.map(e => e.id), ['r1', 'r2'])
+  })
+
+  test('leaves out documents the caller cannot see', () => {
+    const { nodes } = buildLineage('jbsa', [supplement, afpd], relationships)
+    assert.deepStrictEqual(nodes.map(n => n.id), ['jbsa'])
+  })
+
+  test('maps superseded documents to their replacement', () => {
+    const superseded = supersededDocuments([link('r4', 'leave', 'dafi', 'supersedes'), link('r5', 'jbsa', 'afpd', 'supersedes', 'suggested')])
+    assert.deepStrictEqual([...superseded], [['dafi', 'leave']])
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * Cross-references between policies
+ * Each published version's text is scanned for the publications it cites ("IAW DAFI 36-3003,
+ * para 4.2"), with the cited paragraph when there is one. The report checks the citations of
+ * current versions against the library: the cited publication may be missing, superseded, no
+ * longer contain the cited paragraph, or have been updated since the citing policy was reviewed.
+ */
+
+import { findReferences, resolveReference, supersededDocuments } from './lineage.js'
+import { parseSections } from './sections.js'
+
+// Problems a citation can have, in report order
+const REFERENCE_ISSUES = ['missing', 'superseded', 'paragraph_missing', 'target_updated']
+
+// Paragraph ID as sections.js numbers them: "4.2", "A2.1"
+const PARAGRAPH = '((?:A\\d+\\.)?\\d{1,2}(?:\\.\\d+)*)'
+const PART = `(?:(?:para(?:graph)?s?\\.?|¶)\\s*${PARAGRAPH}|(Table|Figure)\\s+${PARAGRAPH}|(Attachment)\\s+(\\d+))`
+
+// "DAFI 36-3003, para 4.2", "AFI 36-2903 Table 3.1"
+const PART_AFTER = new RegExp(`^\\s*,?\\s*${PART}`, 'i')
+// "paragraph 4.2 of DAFI 36-3003", "Attachment 2 to AFI 36-2903"
+const PART_BEFORE = new RegExp(`${PART}\\s*,?\\s+(?:of|in|to)\\s+(?:the\\s+)?$`, 'i')
+
+// How far before a citation to look for "paragraph 4.2 of"
+const PART_WINDOW = 40
+
+// Part of a publication a match names, as a section ID ("4.2", "Table 3.1", "Attachment 2")
+function partId(match) {
+  if (match[1]) return match[1]
+  if (match[2]) return `${match[2][0].toUpperCase()}${match[2].slice(1).toLowerCase()} ${match[3]}`
+  return `Attachment ${match[5]}`
+}
+
+/**
+ * Paragraph, table, figure or attachment cited next to a publication
+ * @param {string} text
+ * @param {number} start - where the publication reference starts
+ * @param {number} end - where it ends
+ * @returns {string | null}
+ */
+function citedPart(text, start, end) {
+  const after = text.slice(end, end + PART_WINDOW).match(PART_AFTER)
+  if (after) return partId(after)
+  const before = text.slice(Math.max(0, start - PART_WINDOW), start).match(PART_BEFORE)
+  return before ? partId(before) : null
+}
+
+/**
+ * Outbound citations in the per-page text of a version. A publication cited several times
+ * for the same paragraph is kept once, at its first page. Citations of the document itself
+ * and "Supersedes:" lines (earlier editions, tracked as lineage) are left out.
+ * @param {{ id: string, short_title?: string | null, name?: string }} doc
+ * @param {Array<string | null>} pages
+ * @param {Array} documents - the library, to note which version of each cited policy was current
+ * @returns {Array<{ publication: string, family: string | null, number: string, paragraph: string | null, page: number, text: string, target_document_id: string | null, target_version_id: string | null }>}
+ */
+function extractReferences(doc, pages, documents) {
+  const others = documents.filter(other => other.id !== doc.id)
+  const references = []
+  const seen = new Set()
+
+  pages.forEach((pageText, index) => {
+    if (!pageText) return
+    for (const reference of findReferences(pageText)) {
+      if (reference.type === 'supersedes' || reference.type === 'superseded_by') continue
+      if (resolveReference(reference, [doc]).length > 0) continue
+
+      const paragraph = citedPart(pageText, reference.start, reference.end)
+      const key = `${reference.family}|${reference.number}|${paragraph}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      const [target] = resolveReference(reference, others)
+      references.push({
+        publication: pageText.slice(reference.start, reference.end).replace(/\s+/g, ' '),
+        family: reference.family,
+        number: reference.number,
+        paragraph,
+        page: index + 1,
+        text: reference.evidence,
+        target_document_id: target?.id || null,
+        target_version_id: target?.current_version_id || null
+      })
+    }
+  })
+  return references
+}
+
+/**
+ * Section IDs of a version's text, for checking cited paragraphs
+ * @param {string} text
+ * @returns {Set<string>}
+ */
+function sectionIds(text) {
+  return new Set(parseSections(text || '').map(section => section.id.replace(/ \(\d+\)$/, '')))
+}
+
+// A cited paragraph exists if it is a heading or has numbered subparagraphs ("4.2" when only 4.2.1 is headed)
+function hasPart(ids, part) {
+  if (ids.has(part)) return true
+  for (const id of ids) {
+    if (id.startsWith(`${part}.`)) return true
+  }
+  return false
+}
+
+/**
+ * Check a version's citations against the library as it is now
+ * @param {{ document_id: string, references: Array }} record - stored extraction
+ * @param {Array} documents - the library
+ * @param {Array} relationships - lineage relationships, for superseded documents
+ * @param {Map<string, Set<string>>} sections - section IDs of each document's current version
+ * @returns {Array} the citations, each with its `target` document (or null) and `issues`
+ */
+function checkReferences(record, documents, relationships, sections) {
+  const superseded = supersededDocuments(relationships)
+  const byId = new Map(documents.map(doc => [doc.id, doc]))
+  const others = documents.filter(doc => doc.id !== record.document_id)
+
+  return record.references.map(reference => {
+    const [target] = resolveReference(reference, others)
+    const issues = []
+    let supersededBy = null
+
+    if (!target) {
+      issues.push('missing')
+    } else {
+      const replacement = byId.get(superseded.get(target.id))
+      // Citing the document that replaced this one's target is the replacement's own business
+      if (replacement && replacement.id !== record.document_id) {
+        issues.push('superseded')
+        supersededBy = { document_id: replacement.id, name: replacement.name, short_title: replacement.short_title || null }
+      }
+      const ids = sections.get(target.id)
+      if (reference.paragraph && ids && !hasPart(ids, reference.paragraph)) issues.push('paragraph_missing')
+      if (reference.target_document_id === target.id && reference.target_version_id &&
+          reference.target_version_id !== target.current_version_id) {
+        issues.push('target_updated')
+      }
+    }
+
+    return {
+      ...reference,
+      target: target ? { id: target.id, name: target.name, short_title: target.short_title || null, current_version_id: target.current_version_id } : null,
+      superseded_by: supersededBy,
+      issues
+    }
+  })
+}
+
+/**
+ * Broken-reference report: citing documents with at least one citation that has an issue,
+ * most issues first, and a count per issue across the library
+ * @param {Array<{ doc: Object, record: Object, references: Array }>} checked - documents with checked citations
+ * @returns {{ documents: Array, stats: Object }}
+ */
+function buildReferenceReport(checked) {
+  const stats = Object.fromEntries(REFERENCE_ISSUES.map(issue => [issue, 0]))
+  stats.references = 0
+  const documents = []
+
+  for (const { doc, record, references } of checked) {
+    stats.references += references.length
+    const broken = references.filter(reference => reference.issues.length > 0)
+    for (const reference of broken) {
+      for (const issue of reference.issues) stats[issue]++
+    }
+    if (broken.length === 0) continue
+    documents.push({
+      document_id: doc.id,
+      name: doc.name,
+      short_title: doc.short_title || null,
+      version_id: record.version_id,
+      extracted_at: record.extracted_at,
+      references: broken
+    })
+  }
+
+  documents.sort((a, b) => b.references.length - a.references.length || a.name.localeCompare(b.name))
+  return { documents, stats }
+}
+
+/**
+ * Mark a version's citations reviewed against the current versions of the policies they cite,
+ * which clears their "updated" flags
+ * @param {{ references: Array }} record
+ * @param {Array} documents - the library
+ * @param {string} now - ISO timestamp
+ * @returns {Object} the updated record
+ */
+function markReviewed(record, documents, now) {
+  const others = documents.filter(doc => doc.id !== record.document_id)
+  return {
+    ...record,
+    reviewed_at: now,
+    references: record.references.map(reference => {
+      const [target] = resolveReference(reference, others)
+      return { ...reference, target_document_id: target?.id || null, target_version_id: target?.current_version_id || null }
+    })
+  }
+}
+
+export {
+  REFERENCE_ISSUES,
+  citedPart,
+  extractReferences,
+  sectionIds,
+  checkReferences,
+  buildReferenceReport,
+  markReviewed
+}
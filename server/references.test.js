@@ -0,0 +1,96 @@
+/**
+ * Tests for cross-reference extraction and the broken-reference report
+ * Run with: node --test server/references.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  citedPart,
+  extractReferences,
+  sectionIds,
+  checkReferences,
+  buildReferenceReport,
+  markReviewed
+} from './references.js'
+
+const NOW = '2024-03-01T12:00:00.000Z'
+
+const dafi = { id: 'dafi', name: 'Dress and Personal Appearance', short_title: 'DAFI 36-2903', current_version_id: 'dafi-v2' }
+const supplement = { id: 'jbsa', name: 'JBSA-Instruction-36-2903-Dress-Supplement', short_title: 'JBSA 36-2903', current_version_id: 'jbsa-v1' }
+const leave = { id: 'leave', name: 'JBSA-Instruction-36-3003-Leave-Pass', short_title: 'JBSA 36-3003', current_version_id: 'leave-v1' }
+const library = [dafi, supplement, leave]
+
+const pages = [
+  'JBSA 36-2903 1 March 2024 Supersedes: JBSAI 36-2903, 1 March 2020 ' +
+  'This instruction supplements DAFI 36-2903, Dress and Personal Appearance.',
+  'Members wear the uniform IAW DAFI 36-2903, para 5.1. Leave is requested IAW paragraph 4.2 of JBSAI 36-3003. ' +
+  'Badges follow DAFI 36-2903, para 5.1. Medical appointments are covered by DAFI 36-3003, para 2.1.'
+]
+
+function relationship(source, target, type) {
+  return { id: `${source}-${target}`, source_document_id: source, target_document_id: target, type, status: 'confirmed' }
+}
+
+describe('citedPart', () => {
+  test('reads the paragraph after or before the publication', () => {
+    const after = 'IAW DAFI 36-3003, para 4.2.'
+    assert.strictEqual(citedPart(after, 4, 16), '4.2')
+    const before = 'see paragraph A2.1 of AFI 36-2903'
+    assert.strictEqual(citedPart(before, 22, 33), 'A2.1')
+    assert.strictEqual(citedPart('DAFI 36-2903, Table 3.1 lists', 0, 12), 'Table 3.1')
+    assert.strictEqual(citedPart('IAW DAFI 36-3003 and local guidance', 4, 16), null)
+  })
+})
+
+describe('extractReferences', () => {
+  test('records each publication and paragraph once, with its page and the cited version', () => {
+    const references = extractReferences(supplement, pages, library)
+    assert.deepStrictEqual(references.map(r => [r.publication, r.paragraph, r.page, r.target_document_id, r.target_version_id]), [
+      ['DAFI 36-2903', null, 1, 'dafi', 'dafi-v2'],
+      ['DAFI 36-2903', '5.1', 2, 'dafi', 'dafi-v2'],
+      ['JBSAI 36-3003', '4.2', 2, 'leave', 'leave-v1'],
+      ['DAFI 36-3003', '2.1', 2, null, null]
+    ])
+    assert.match(references[2].text, /paragraph 4\.2 of JBSAI 36-3003/)
+  })
+})
+
+describe('checkReferences', () => {
+  const record = { document_id: 'jbsa', version_id: 'jbsa-v1', references: extractReferences(supplement, pages, library) }
+  const sections = new Map([
+    ['dafi', sectionIds('1. Purpose.\n5. Uniform.\n5.1.1. Wear.\n')],
+    ['leave', sectionIds('4. Leave.\n4.1. Ordinary leave.\n')]
+  ])
+
+  test('flags missing publications and paragraphs that no longer exist', () => {
+    const checked = checkReferences(record, library, [], sections)
+    assert.deepStrictEqual(checked.map(r => r.issues), [[], [], ['paragraph_missing'], ['missing']])
+  })
+
+  test('flags superseded publications and publications updated since the check', () => {
+    const updated = library.map(doc => doc.id === 'dafi' ? { ...doc, current_version_id: 'dafi-v3' } : doc)
+    const checked = checkReferences(record, updated, [relationship('leave', 'dafi', 'supersedes')], sections)
+    assert.deepStrictEqual(checked[1].issues, ['superseded', 'target_updated'])
+    assert.strictEqual(checked[1].superseded_by.document_id, 'leave')
+  })
+
+  test('reviewing clears the updated flag', () => {
+    const updated = library.map(doc => doc.id === 'dafi' ? { ...doc, current_version_id: 'dafi-v3' } : doc)
+    const reviewed = markReviewed(record, updated, NOW)
+    assert.strictEqual(reviewed.reviewed_at, NOW)
+    assert.deepStrictEqual(checkReferences(reviewed, updated, [], sections)[1].issues, [])
+  })
+})
+
+describe('buildReferenceReport', () => {
+  test('lists citing documents with broken references and counts each issue', () => {
+    const record = { document_id: 'jbsa', version_id: 'jbsa-v1', extracted_at: NOW, references: extractReferences(supplement, pages, library) }
+    const references = checkReferences(record, library, [], new Map())
+    const clean = { doc: leave, record: { document_id: 'leave', version_id: 'leave-v1', references: [] }, references: [] }
+
+    const { documents, stats } = buildReferenceReport([clean, { doc: supplement, record, references }])
+    assert.deepStrictEqual(documents.map(d => [d.document_id, d.references.length]), [['jbsa', 1]])
+    assert.deepStrictEqual(stats, { missing: 1, superseded: 0, paragraph_missing: 0, target_updated: 0, references: 4 })
+  })
+})
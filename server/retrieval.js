@@ -0,0 +1,181 @@
+/**
+ * Scope-aware retrieval for the Policy Assistant
+ * Chunks are tagged with their document, version, status and scope when ingested, and every
+ * chunk LlamaFarm returns is traced back to a version in the library and checked against the
+ * caller's accessible scopes before it can reach a prompt or the sources list. Only the current
+ * version of each document is retrievable unless the caller pins a past one.
+ */
+
+import path from 'path'
+import { canAccessPolicy } from './scope.js'
+
+// LlamaFarm knows nothing about scope, so ask for extra results to fill top_k after filtering
+const OVERFETCH_FACTOR = 3
+// A pinned past version competes with every current version for the top results
+const PINNED_OVERFETCH_FACTOR = 10
+const MAX_TOP_K = 20
+
+// Change summaries are stored in the dataset as "<document id>_changes.txt"
+const CHANGE_SUMMARY_PATTERN = /^(.+)_changes\.txt$/
+
+// Versions that never passed review; their text must not be retrievable in any mode
+const UNRETRIEVABLE_STATUSES = ['pending', 'rejected']
+
+/**
+ * Metadata attached to every chunk of a version when it is ingested
+ * @param {{ id: string, scope?: { level: string, value: string } | null }} doc
+ * @param {{ id: string, status?: string } | null} version
+ * @returns {{ document_id: string, version_id: string | null, status: string, scope_level: string, scope_value: string }}
+ */
+function chunkMetadata(doc, version) {
+  const scope = doc.scope || { level: 'daf', value: 'DAF' }
+  return {
+    document_id: doc.id,
+    version_id: version?.id ?? null,
+    status: version?.status || 'published',
+    scope_level: scope.level,
+    scope_value: scope.value
+  }
+}
+
+/**
+ * Whether a document's text may reach the caller's prompt. Unlike library access there is no
+ * admin bypass: answers draw only on policies that apply at the caller's location.
+ * @param {Object | null} user
+ * @param {{ scope?: Object | null }} doc
+ * @returns {boolean}
+ */
+function inCallerScope(user, doc) {
+  return canAccessPolicy(user?.location || null, doc.scope || null)
+}
+
+/**
+ * Whether a version's text may be retrieved at all
+ * @param {{ status?: string }} version
+ * @returns {boolean}
+ */
+function isRetrievable(version) {
+  return !UNRETRIEVABLE_STATUSES.includes(version.status)
+}
+
+/**
+ * Lookup tables from document ID and file name to document and version
+ * @param {Array} documents
+ * @returns {{ byId: Map<string, Object>, byFilename: Map<string, { doc: Object, version: Object }> }}
+ */
+function indexDocuments(documents) {
+  const byId = new Map()
+  const byFilename = new Map()
+  for (const doc of documents) {
+    byId.set(doc.id, doc)
+    for (const version of doc.versions || []) {
+      for (const name of [version.filename, version.original_name]) {
+        if (name) byFilename.set(name.toLowerCase(), { doc, version })
+      }
+    }
+  }
+  return { byId, byFilename }
+}
+
+/**
+ * Library version a retrieved chunk came from: by its ingestion metadata, or for chunks
+ * ingested before metadata was attached, by file name. A change summary stands for the
+ * document's current version, since each publish replaces it.
+ * @param {{ document_id?: string, version_id?: string, metadata?: Object }} chunk
+ * @param {{ byId: Map<string, Object>, byFilename: Map<string, { doc: Object, version: Object }> }} index
+ * @returns {{ doc: Object, version: Object } | null}
+ */
+function resolveChunkSource(chunk, index) {
+  const documentId = chunk.metadata?.document_id || chunk.document_id
+  if (documentId) {
+    const doc = index.byId.get(documentId)
+    const versionId = chunk.metadata?.version_id || chunk.version_id
+    const version = doc?.versions.find(v => v.id === versionId)
+    return version ? { doc, version } : null
+  }
+
+  const source = chunk.metadata?.filename || chunk.metadata?.source
+  if (typeof source !== 'string' || !source) return null
+  const name = path.basename(source)
+
+  const summary = name.match(CHANGE_SUMMARY_PATTERN)
+  if (summary) {
+    const doc = index.byId.get(summary[1])
+    const version = doc?.versions.find(v => v.id === doc.current_version_id)
+    return version ? { doc, version } : null
+  }
+  return index.byFilename.get(name.toLowerCase()) || null
+}
+
+/**
+ * Keep the chunks the caller may see: by default those of each document's current version,
+ * or with `versionId` only those of that version. Chunks that cannot be traced to a library
+ * version (deleted documents, stray uploads), chunks outside the caller's accessible scopes
+ * and chunks of pending or rejected versions are withheld from everyone, admins included.
+ * @param {Array} chunks - RAG query results
+ * @param {{ user: Object | null, documents: Array, versionId?: string | null }} options
+ * @returns {{ results: Array, withheld: number }}
+ */
+function filterRetrievedChunks(chunks, { user, documents, versionId = null }) {
+  const index = indexDocuments(documents)
+  const results = []
+  for (const chunk of chunks) {
+    const source = resolveChunkSource(chunk, index)
+    if (!source || !inCallerScope(user, source.doc) || !isRetrievable(source.version)) continue
+
+    const { doc, version } = source
+    const isCurrent = version.id === doc.current_version_id
+    if (versionId ? version.id !== versionId : !isCurrent) continue
+
+    results.push({
+      ...chunk,
+      document_id: doc.id,
+      version_id: version.id,
+      is_current: isCurrent,
+      updated_at: version.created_at,
+      updated_by: version.uploaded_by
+    })
+  }
+  return { results, withheld: chunks.length - results.length }
+}
+
+/**
+ * Find a version the caller may pin retrieval to
+ * @param {Array} documents
+ * @param {Object | null} user
+ * @param {string} versionId
+ * @returns {{ doc: Object, version: Object } | null}
+ */
+function findPinnableVersion(documents, user, versionId) {
+  for (const doc of documents) {
+    const version = doc.versions.find(v => v.id === versionId)
+    if (version) {
+      return inCallerScope(user, doc) && isRetrievable(version) ? { doc, version } : null
+    }
+  }
+  return null
+}
+
+/**
+ * Clamp a requested top_k
+ * @param {unknown} value
+ * @param {number} fallback
+ * @returns {number}
+ */
+function parseTopK(value, fallback = 5) {
+  const topK = parseInt(value, 10)
+  if (isNaN(topK) || topK < 1) return fallback
+  return Math.min(topK, MAX_TOP_K)
+}
+
+export {
+  OVERFETCH_FACTOR,
+  PINNED_OVERFETCH_FACTOR,
+  chunkMetadata,
+  isRetrievable,
+  resolveChunkSource,
+  indexDocuments,
+  filterRetrievedChunks,
+  findPinnableVersion,
+  parseTopK
+}
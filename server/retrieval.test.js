@@ -0,0 +1,196 @@
+/**
+ * Tests for scope-aware retrieval
+ * Run with: node --test server/retrieval.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  chunkMetadata,
+  isRetrievable,
+  resolveChunkSource,
+  indexDocuments,
+  filterRetrievedChunks,
+  findPinnableVersion,
+  parseTopK
+} from './retrieval.js'
+
+const travel = {
+  id: 'doc-travel',
+  name: 'Travel Reimbursement',
+  current_version_id: 'travel-v2',
+  versions: [
+    { id: 'travel-v1', filename: 'Travel-v1.pdf', original_name: 'Travel.pdf', status: 'published', created_at: '2025-01-01T00:00:00.000Z', uploaded_by: 'A' },
+    { id: 'travel-v2', filename: 'Travel-v2.pdf', original_name: 'Travel-2.pdf', status: 'published', created_at: '2025-06-01T00:00:00.000Z', uploaded_by: 'B' },
+    { id: 'travel-v3', filename: '1767225600000-Travel-v3.pdf', original_name: 'Travel-3.pdf', status: 'pending' },
+    { id: 'travel-v4', filename: '1767225600001-Travel-v4.pdf', original_name: 'Travel-4.pdf', status: 'rejected' }
+  ]
+}
+const jbsa = {
+  id: 'doc-jbsa',
+  name: 'JBSA Gate Access',
+  scope: { level: 'installation', value: 'JBSA' },
+  current_version_id: 'jbsa-v1',
+  versions: [{ id: 'jbsa-v1', filename: '1767225600000-JBSAI-31-101.pdf', original_name: 'JBSAI-31-101.pdf', status: 'published' }]
+}
+const sop = {
+  id: 'doc-sop',
+  name: 'Clinic SOP',
+  scope: { level: 'squadron', value: '59 MDOS' },
+  current_version_id: 'sop-v1',
+  versions: [{ id: 'sop-v1', filename: '1767225600000-SOP.pdf', original_name: 'SOP.pdf', status: 'published' }]
+}
+const documents = [travel, jbsa, sop]
+
+const alex = { id: 'u1', role: 'user', location: { majcom: 'PACAF', installation: 'Kadena', wing: '18 WG' } }
+const maria = { id: 'u2', role: 'user', location: { majcom: 'AETC', installation: 'JBSA', wing: '73 MDW' } }
+const john = { id: 'u3', role: 'admin', location: { majcom: 'AETC', installation: 'JBSA', wing: '502 ABW' } }
+
+const chunks = [
+  { content: 'Per diem v2', score: 0.9, metadata: { filename: 'Travel-v2.pdf', page_number: 2 } },
+  { content: 'Gate hours', score: 0.8, metadata: { ...chunkMetadata(jbsa, jbsa.versions[0]), filename: 'JBSAI-31-101.pdf' } },
+  { content: 'Clinic hours', score: 0.7, metadata: { source: '/data/uploads/SOP.pdf' } },
+  { content: 'What changed', score: 0.6, metadata: { filename: 'doc-jbsa_changes.txt' } },
+  { content: 'Deleted policy', score: 0.5, metadata: { filename: 'Old-Policy.pdf' } }
+]
+
+// Every version of the travel policy, as if each had been ingested
+const travelChunks = travel.versions.map(version => ({
+  content: `Per diem ${version.id}`,
+  score: 0.9,
+  metadata: chunkMetadata(travel, version)
+}))
+
+const contents = ({ results }) => results.map(chunk => chunk.content)
+
+describe('chunkMetadata', () => {
+  test('tags chunks with the document, version, status and scope', () => {
+    assert.deepStrictEqual(chunkMetadata(jbsa, jbsa.versions[0]), {
+      document_id: 'doc-jbsa',
+      version_id: 'jbsa-v1',
+      status: 'published',
+      scope_level: 'installation',
+      scope_value: 'JBSA'
+    })
+  })
+
+  test('unscoped documents are tagged DAF-wide', () => {
+    const metadata = chunkMetadata({ id: 'doc' }, null)
+    assert.strictEqual(metadata.scope_level, 'daf')
+    assert.strictEqual(metadata.version_id, null)
+  })
+})
+
+describe('isRetrievable', () => {
+  test('pending and rejected versions are never retrievable', () => {
+    assert.deepStrictEqual(travel.versions.map(isRetrievable), [true, true, false, false])
+    assert.strictEqual(isRetrievable({ status: 'scheduled' }), true)
+  })
+})
+
+describe('resolveChunkSource', () => {
+  const index = indexDocuments(documents)
+  const ids = source => source && [source.doc.id, source.version.id]
+
+  test('prefers the document and version IDs from ingestion metadata', () => {
+    assert.deepStrictEqual(ids(resolveChunkSource(travelChunks[0], index)), ['doc-travel', 'travel-v1'])
+    assert.strictEqual(resolveChunkSource({ metadata: { document_id: 'gone', version_id: 'v1' } }, index), null)
+    assert.strictEqual(resolveChunkSource({ metadata: { document_id: 'doc-sop', version_id: 'gone' } }, index), null)
+  })
+
+  test('falls back to stored or original file names, ignoring directories and case', () => {
+    assert.deepStrictEqual(ids(resolveChunkSource(chunks[0], index)), ['doc-travel', 'travel-v2'])
+    assert.deepStrictEqual(ids(resolveChunkSource(chunks[2], index)), ['doc-sop', 'sop-v1'])
+    assert.deepStrictEqual(ids(resolveChunkSource({ metadata: { filename: 'TRAVEL.pdf' } }, index)), ['doc-travel', 'travel-v1'])
+  })
+
+  test('maps change summaries to the current version of their document', () => {
+    assert.deepStrictEqual(ids(resolveChunkSource(chunks[3], index)), ['doc-jbsa', 'jbsa-v1'])
+  })
+
+  test('returns null for unknown sources', () => {
+    assert.strictEqual(resolveChunkSource(chunks[4], index), null)
+    assert.strictEqual(resolveChunkSource({ metadata: {} }, index), null)
+  })
+})
+
+describe('filterRetrievedChunks', () => {
+  test('out-of-scope chunks never come back', () => {
+    const filtered = filterRetrievedChunks(chunks, { user: alex, documents })
+    assert.deepStrictEqual(contents(filtered), ['Per diem v2'])
+    assert.strictEqual(filtered.withheld, 4)
+  })
+
+  test('users get the chunks of their own installation', () => {
+    assert.deepStrictEqual(contents(filterRetrievedChunks(chunks, { user: maria, documents })), ['Per diem v2', 'Gate hours', 'What changed'])
+  })
+
+  test('signed-out callers only get DoD and DAF-wide chunks', () => {
+    assert.deepStrictEqual(contents(filterRetrievedChunks(chunks, { user: null, documents })), ['Per diem v2'])
+  })
+
+  test('admins only get the chunks of their own accessible scopes', () => {
+    assert.deepStrictEqual(contents(filterRetrievedChunks(chunks, { user: john, documents })), ['Per diem v2', 'Gate hours', 'What changed'])
+
+    const kadenaAdmin = { ...alex, id: 'u4', role: 'admin' }
+    const filtered = filterRetrievedChunks(chunks, { user: kadenaAdmin, documents })
+    assert.deepStrictEqual(contents(filtered), ['Per diem v2'])
+    assert.strictEqual(filtered.withheld, 4)
+  })
+
+  test('kept chunks carry their resolved document and version', () => {
+    const [chunk] = filterRetrievedChunks(chunks, { user: maria, documents }).results
+    assert.strictEqual(chunk.document_id, 'doc-travel')
+    assert.strictEqual(chunk.version_id, 'travel-v2')
+    assert.strictEqual(chunk.is_current, true)
+    assert.strictEqual(chunk.updated_by, 'B')
+  })
+
+  test('a scope change on the document applies to chunks tagged before it', () => {
+    const rescoped = [{ ...jbsa, scope: { level: 'installation', value: 'Kadena' } }, travel, sop]
+    assert.deepStrictEqual(contents(filterRetrievedChunks(chunks.slice(1, 2), { user: maria, documents: rescoped })), [])
+    assert.deepStrictEqual(contents(filterRetrievedChunks(chunks.slice(1, 2), { user: alex, documents: rescoped })), ['Gate hours'])
+  })
+
+  test('defaults to the current version only', () => {
+    for (const user of [maria, john]) {
+      assert.deepStrictEqual(contents(filterRetrievedChunks(travelChunks, { user, documents })), ['Per diem travel-v2'])
+    }
+  })
+
+  test('a pinned version returns only that version, marked as not current', () => {
+    const { results } = filterRetrievedChunks([...travelChunks, ...chunks], { user: maria, documents, versionId: 'travel-v1' })
+    assert.deepStrictEqual(results.map(chunk => chunk.content), ['Per diem travel-v1'])
+    assert.strictEqual(results[0].is_current, false)
+  })
+
+  test('pending and rejected versions cannot be pinned, even by admins', () => {
+    for (const versionId of ['travel-v3', 'travel-v4']) {
+      assert.deepStrictEqual(contents(filterRetrievedChunks(travelChunks, { user: john, documents, versionId })), [])
+    }
+  })
+})
+
+describe('findPinnableVersion', () => {
+  test('finds published versions of documents in the caller\'s scopes', () => {
+    assert.strictEqual(findPinnableVersion(documents, maria, 'travel-v1').doc, travel)
+    assert.strictEqual(findPinnableVersion(documents, john, 'jbsa-v1').version.id, 'jbsa-v1')
+  })
+
+  test('refuses unknown, out-of-scope, pending and rejected versions', () => {
+    assert.strictEqual(findPinnableVersion(documents, maria, 'nope'), null)
+    assert.strictEqual(findPinnableVersion(documents, alex, 'jbsa-v1'), null)
+    assert.strictEqual(findPinnableVersion(documents, john, 'sop-v1'), null)
+    assert.strictEqual(findPinnableVersion(documents, john, 'travel-v3'), null)
+    assert.strictEqual(findPinnableVersion(documents, john, 'travel-v4'), null)
+  })
+})
+
+describe('parseTopK', () => {
+  test('defaults invalid values and caps large ones', () => {
+    assert.strictEqual(parseTopK(undefined), 5)
+    assert.strictEqual(parseTopK('0'), 5)
+    assert.strictEqual(parseTopK('8'), 8)
+    assert.strictEqual(parseTopK(500), 20)
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Scheduled effective dates
+ * An approved version whose effective date is still ahead is held as 'scheduled'
+ * and promoted to current by the server scheduler once the date arrives.
+ */
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Parse an effective date from a request. Date-only values mean the start of that day (UTC).
+ * @param {unknown} value
+ * @returns {{ value: string | null } | { error: string }}
+ */
+function parseEffectiveAt(value) {
+  if (value === undefined || value === null || value === '') return { value: null }
+  if (typeof value !== 'string') return { error: 'effective_at must be an ISO date' }
+
+  const date = new Date(DATE_ONLY.test(value) ? `${value}T00:00:00.000Z` : value)
+  if (Number.isNaN(date.getTime())) return { error: 'effective_at must be an ISO date' }
+  return { value: date.toISOString() }
+}
+
+/**
+ * Check whether a version's effective date is still in the future
+ * @param {{ effective_at?: string | null }} version
+ * @param {Date} now
+ * @returns {boolean}
+ */
+function isFutureEffective(version, now) {
+  return Boolean(version.effective_at) && new Date(version.effective_at) > now
+}
+
+/**
+ * Status an approved version should take: held until its effective date, otherwise live now
+ * @param {{ effective_at?: string | null }} version
+ * @param {Date} now
+ * @returns {'scheduled' | 'published'}
+ */
+function approvedStatus(version, now) {
+  return isFutureEffective(version, now) ? 'scheduled' : 'published'
+}
+
+/**
+ * Scheduled versions of a document whose effective date has arrived, oldest date first.
+ * The last one is the version that should become current.
+ * @param {Object} doc
+ * @param {Date} now
+ * @returns {Array}
+ */
+function dueVersions(doc, now) {
+  return (doc.versions || [])
+    .filter(v => v.status === 'scheduled' && !isFutureEffective(v, now))
+    .sort((a, b) => new Date(a.effective_at || 0) - new Date(b.effective_at || 0))
+}
+
+/**
+ * Check whether a version was uploaded after another: by version number, else by creation time
+ * @param {{ version_number?: number, created_at?: string }} version
+ * @param {{ version_number?: number, created_at?: string }} other
+ * @returns {boolean}
+ */
+function isNewerVersion(version, other) {
+  if (Number.isInteger(version.version_number) && Number.isInteger(other.version_number)) {
+    return version.version_number > other.version_number
+  }
+  return new Date(version.created_at || 0) > new Date(other.created_at || 0)
+}
+
+/**
+ * Settle a document's due versions. The newest one becomes current if it is newer than the
+ * current version; every other due version is superseded and kept as a past version.
+ * @param {Object} doc
+ * @param {Date} now
+ * @returns {{ current: Object | null, superseded: Array }}
+ */
+function settleDueVersions(doc, now) {
+  const due = dueVersions(doc, now)
+  const currentVersion = (doc.versions || []).find(v => v.id === doc.current_version_id)
+  const newest = due.reduce((best, v) => (!best || isNewerVersion(v, best) ? v : best), null)
+  const current = newest && (!currentVersion || isNewerVersion(newest, currentVersion)) ? newest : null
+  return { current, superseded: due.filter(v => v !== current) }
+}
+
+/**
+ * Next scheduled change for a document, for "upcoming change" badges
+ * @param {Object} doc
+ * @param {Date} now
+ * @returns {{ version_id: string, effective_at: string } | null}
+ */
+function upcomingChange(doc, now) {
+  const next = (doc.versions || [])
+    .filter(v => v.status === 'scheduled' && isFutureEffective(v, now))
+    .sort((a, b) => new Date(a.effective_at) - new Date(b.effective_at))[0]
+  return next ? { version_id: next.id, effective_at: next.effective_at } : null
+}
+
+export {
+  parseEffectiveAt,
+  isFutureEffective,
+  approvedStatus,
+  dueVersions,
+  isNewerVersion,
+  settleDueVersions,
+  upcomingChange
+}
@@ -0,0 +1,104 @@
+/**
+ * Tests for scheduled effective dates
+ * Run with: node --test server/schedule.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  parseEffectiveAt,
+  approvedStatus,
+  dueVersions,
+  settleDueVersions,
+  upcomingChange
+} from './schedule.js'
+
+const NOW = new Date('2024-03-01T12:00:00.000Z')
+
+const doc = {
+  id: 'doc1',
+  current_version_id: 'v1',
+  versions: [
+    { id: 'v1', version_number: 1, status: 'published', created_at: '2024-01-01T00:00:00.000Z' },
+    { id: 'v2', version_number: 2, status: 'scheduled', effective_at: '2024-02-15T00:00:00.000Z' },
+    { id: 'v3', version_number: 3, status: 'scheduled', effective_at: '2024-02-28T00:00:00.000Z' },
+    { id: 'v4', version_number: 4, status: 'scheduled', effective_at: '2024-04-01T00:00:00.000Z' },
+    { id: 'v5', version_number: 5, status: 'pending', effective_at: '2024-03-15T00:00:00.000Z' }
+  ]
+}
+
+describe('parseEffectiveAt', () => {
+  test('treats a missing date as none', () => {
+    assert.deepStrictEqual(parseEffectiveAt(undefined), { value: null })
+    assert.deepStrictEqual(parseEffectiveAt(''), { value: null })
+  })
+
+  test('reads date-only values as the start of the day in UTC', () => {
+    assert.deepStrictEqual(parseEffectiveAt('2024-04-01'), { value: '2024-04-01T00:00:00.000Z' })
+  })
+
+  test('rejects values that are not dates', () => {
+    assert.deepStrictEqual(parseEffectiveAt('next tuesday'), { error: 'effective_at must be an ISO date' })
+    assert.deepStrictEqual(parseEffectiveAt(20240401), { error: 'effective_at must be an ISO date' })
+  })
+})
+
+describe('approvedStatus', () => {
+  test('holds versions whose date is still ahead', () => {
+    assert.strictEqual(approvedStatus({ effective_at: '2024-04-01T00:00:00.000Z' }, NOW), 'scheduled')
+  })
+
+  test('publishes versions without a date or with a past date', () => {
+    assert.strictEqual(approvedStatus({}, NOW), 'published')
+    assert.strictEqual(approvedStatus({ effective_at: '2024-02-01T00:00:00.000Z' }, NOW), 'published')
+  })
+})
+
+describe('dueVersions', () => {
+  test('returns due scheduled versions with the latest date last', () => {
+    assert.deepStrictEqual(dueVersions(doc, NOW).map(v => v.id), ['v2', 'v3'])
+  })
+})
+
+describe('settleDueVersions', () => {
+  test('makes the newest due version current and supersedes the rest', () => {
+    const { current, superseded } = settleDueVersions(doc, NOW)
+    assert.strictEqual(current.id, 'v3')
+    assert.deepStrictEqual(superseded.map(v => v.id), ['v2'])
+  })
+
+  test('does not promote a due version over a newer current version', () => {
+    const later = {
+      current_version_id: 'v3',
+      versions: [
+        { id: 'v1', version_number: 1, status: 'published' },
+        { id: 'v2', version_number: 2, status: 'scheduled', effective_at: '2024-02-28T00:00:00.000Z' },
+        { id: 'v3', version_number: 3, status: 'published' }
+      ]
+    }
+    const { current, superseded } = settleDueVersions(later, NOW)
+    assert.strictEqual(current, null)
+    assert.deepStrictEqual(superseded.map(v => v.id), ['v2'])
+  })
+
+  test('compares by upload time when versions have no numbers', () => {
+    const unnumbered = {
+      current_version_id: 'v1',
+      versions: [
+        { id: 'v1', status: 'published', created_at: '2024-02-01T00:00:00.000Z' },
+        { id: 'v0', status: 'scheduled', created_at: '2024-01-15T00:00:00.000Z', effective_at: '2024-02-20T00:00:00.000Z' }
+      ]
+    }
+    assert.strictEqual(settleDueVersions(unnumbered, NOW).current, null)
+  })
+})
+
+describe('upcomingChange', () => {
+  test('returns the next scheduled version, ignoring pending ones', () => {
+    assert.deepStrictEqual(upcomingChange(doc, NOW), { version_id: 'v4', effective_at: '2024-04-01T00:00:00.000Z' })
+  })
+
+  test('returns null when nothing is scheduled', () => {
+    assert.strictEqual(upcomingChange({ versions: doc.versions.slice(0, 1) }, NOW), null)
+  })
+})
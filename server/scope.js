@@ -0,0 +1,97 @@
+/**
+ * Policy visibility scopes
+ * Server-side counterpart of canAccessPolicy() in src/types/location.ts. Every route that
+ * lists or serves documents filters through here so out-of-scope policies never leave the server.
+ */
+
+import { isAdminRole } from './admins.js'
+
+// Broadest to most specific; dod and daf are visible to everyone
+const SCOPE_LEVELS = ['dod', 'daf', 'majcom', 'installation', 'wing', 'group', 'squadron']
+
+const UNIVERSAL_LEVELS = ['dod', 'daf']
+
+/**
+ * Parse a document scope from a request body (multipart sends it as a JSON string)
+ * @param {Object | string | undefined} value
+ * @returns {{ value: { level: string, value: string } | null } | { error: string }}
+ */
+function parseScope(value) {
+  if (value === undefined || value === null || value === '' || value === 'null') return { value: null }
+
+  let scope = value
+  if (typeof value === 'string') {
+    try {
+      scope = JSON.parse(value)
+    } catch {
+      return { error: 'scope must be a JSON object' }
+    }
+  }
+
+  if (!scope || typeof scope !== 'object') return { error: 'scope must be a JSON object' }
+  if (!SCOPE_LEVELS.includes(scope.level)) {
+    return { error: `scope.level must be one of: ${SCOPE_LEVELS.join(', ')}` }
+  }
+  if (typeof scope.value !== 'string' || !scope.value.trim()) {
+    return { error: 'scope.value is required' }
+  }
+  return { value: { level: scope.level, value: scope.value.trim() } }
+}
+
+/**
+ * Scopes whose policies apply at a location, broadest first (mirrors getAccessibleScopes() in the UI)
+ * @param {{ majcom?: string, installation?: string, wing?: string, group?: string, squadron?: string } | null} location
+ * @returns {Array<{ level: string, value: string }>}
+ */
+function getAccessibleScopes(location) {
+  const scopes = [
+    { level: 'dod', value: 'DoD' },
+    { level: 'daf', value: 'DAF' }
+  ]
+  for (const level of SCOPE_LEVELS.slice(UNIVERSAL_LEVELS.length)) {
+    if (location?.[level]) scopes.push({ level, value: location[level] })
+  }
+  return scopes
+}
+
+/**
+ * Whether a location falls inside a policy scope. Unscoped policies are DAF-wide.
+ * @param {{ majcom?: string, installation?: string, wing?: string, group?: string, squadron?: string } | null} location
+ * @param {{ level: string, value: string } | null} scope
+ * @returns {boolean}
+ */
+function canAccessPolicy(location, scope) {
+  if (!scope || UNIVERSAL_LEVELS.includes(scope.level)) return true
+  return getAccessibleScopes(location).some(s => s.level === scope.level && s.value === scope.value)
+}
+
+/**
+ * Whether a caller may see a document. Admins manage the whole library; everyone else
+ * sees what their location allows, and signed-out callers only DoD/DAF-wide policies.
+ * @param {Object | null} user - signed-in user record
+ * @param {{ scope?: Object | null }} doc
+ * @returns {boolean}
+ */
+function canViewDocument(user, doc) {
+  if (isAdminRole(user)) return true
+  return canAccessPolicy(user?.location || null, doc.scope || null)
+}
+
+/**
+ * Documents the caller may see
+ * @param {Object | null} user
+ * @param {Array} docs
+ * @returns {Array}
+ */
+function filterVisible(user, docs) {
+  return docs.filter(doc => canViewDocument(user, doc))
+}
+
+export {
+  SCOPE_LEVELS,
+  parseScope,
+  getAccessibleScopes,
+  canAccessPolicy,
+  canViewDocument,
+  filterVisible
+}
@@ -0,0 +1,96 @@
+/**
+ * Tests for policy visibility scopes
+ * Run with: node --test server/scope.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import { parseScope, getAccessibleScopes, canAccessPolicy, canViewDocument, filterVisible } from './scope.js'
+
+const location = { majcom: 'AETC', installation: 'JBSA', wing: '73 MDW', squadron: '59 MDOS' }
+
+const alex = { id: 'u1', role: 'user', location: { majcom: 'PACAF', installation: 'Kadena', wing: '18 WG' } }
+const maria = { id: 'u2', role: 'user', location }
+const john = { id: 'u3', role: 'admin', location: { majcom: 'AETC', installation: 'JBSA', wing: '502 ABW' } }
+
+const docs = [
+  { id: 'unscoped' },
+  { id: 'dafi', scope: { level: 'daf', value: 'DAF' } },
+  { id: 'aetci', scope: { level: 'majcom', value: 'AETC' } },
+  { id: 'wing', scope: { level: 'wing', value: '73 MDW' } },
+  { id: 'sop', scope: { level: 'squadron', value: '59 MDOS' } }
+]
+
+const ids = list => list.map(doc => doc.id)
+
+describe('parseScope', () => {
+  test('treats missing values as unscoped', () => {
+    for (const value of [undefined, null, '', 'null']) {
+      assert.deepStrictEqual(parseScope(value), { value: null })
+    }
+  })
+
+  test('accepts objects and JSON strings', () => {
+    assert.deepStrictEqual(parseScope({ level: 'wing', value: ' 73 MDW ' }), { value: { level: 'wing', value: '73 MDW' } })
+    assert.deepStrictEqual(parseScope('{"level":"majcom","value":"AETC"}'), { value: { level: 'majcom', value: 'AETC' } })
+  })
+
+  test('rejects malformed scopes', () => {
+    assert.ok(parseScope('{not json').error)
+    assert.match(parseScope({ level: 'base', value: 'JBSA' }).error, /scope.level/)
+    assert.match(parseScope({ level: 'wing', value: '' }).error, /scope.value/)
+  })
+})
+
+describe('getAccessibleScopes', () => {
+  test('lists DoD and DAF plus each level of the location', () => {
+    assert.deepStrictEqual(getAccessibleScopes(alex.location), [
+      { level: 'dod', value: 'DoD' },
+      { level: 'daf', value: 'DAF' },
+      { level: 'majcom', value: 'PACAF' },
+      { level: 'installation', value: 'Kadena' },
+      { level: 'wing', value: '18 WG' }
+    ])
+    assert.deepStrictEqual(getAccessibleScopes(location).at(-1), { level: 'squadron', value: '59 MDOS' })
+  })
+
+  test('a missing location only reaches DoD and DAF', () => {
+    assert.deepStrictEqual(getAccessibleScopes(null).map(s => s.level), ['dod', 'daf'])
+  })
+})
+
+describe('canAccessPolicy', () => {
+  test('DoD, DAF and unscoped policies are visible everywhere', () => {
+    assert.strictEqual(canAccessPolicy(null, null), true)
+    assert.strictEqual(canAccessPolicy(null, { level: 'dod', value: 'DoD' }), true)
+    assert.strictEqual(canAccessPolicy(alex.location, { level: 'daf', value: 'DAF' }), true)
+  })
+
+  test('narrower scopes must match the location at that level', () => {
+    assert.strictEqual(canAccessPolicy(location, { level: 'majcom', value: 'AETC' }), true)
+    assert.strictEqual(canAccessPolicy(alex.location, { level: 'majcom', value: 'AETC' }), false)
+    assert.strictEqual(canAccessPolicy(location, { level: 'squadron', value: '59 MDOS' }), true)
+    assert.strictEqual(canAccessPolicy(john.location, { level: 'squadron', value: '59 MDOS' }), false)
+  })
+
+  test('a missing location only sees universal policies', () => {
+    assert.strictEqual(canAccessPolicy(null, { level: 'wing', value: '73 MDW' }), false)
+    assert.strictEqual(canAccessPolicy(location, { level: 'bogus', value: 'AETC' }), false)
+  })
+})
+
+describe('canViewDocument / filterVisible', () => {
+  test('admins see every document', () => {
+    assert.deepStrictEqual(ids(filterVisible(john, docs)), ids(docs))
+  })
+
+  test('users see policies for their own chain', () => {
+    assert.deepStrictEqual(ids(filterVisible(maria, docs)), ['unscoped', 'dafi', 'aetci', 'wing', 'sop'])
+    assert.deepStrictEqual(ids(filterVisible(alex, docs)), ['unscoped', 'dafi'])
+  })
+
+  test('signed-out callers only see universal policies', () => {
+    assert.deepStrictEqual(ids(filterVisible(null, docs)), ['unscoped', 'dafi'])
+    assert.strictEqual(canViewDocument(null, docs[4]), false)
+  })
+})
@@ -0,0 +1,314 @@
+/**
+ * Local BM25 keyword index over policy text
+ * Passages are the numbered sections of each PDF page, keyed by the file's content hash, so
+ * the index keeps working when LlamaFarm is down and a file shared by several documents is
+ * indexed once. The index knows nothing about documents: callers pick the versions to search
+ * with selectSearchTargets() and pass their files' keys.
+ */
+
+import { parseSections } from './sections.js'
+import { SCOPE_LEVELS, canViewDocument } from './scope.js'
+import { isRetrievable } from './retrieval.js'
+
+const K1 = 1.2
+const B = 0.75
+
+// Long sections are cut into windows of this many words so one passage stays citable
+const MAX_PASSAGE_WORDS = 120
+
+// Raw BM25 scores are unbounded; score / (score + SCORE_SCALE) maps them into 0..1 for display
+const SCORE_SCALE = 8
+
+// Which versions of each document a search covers; "past" is a superseded published version
+const VERSION_STATUSES = ['current', 'past', 'scheduled', 'all']
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'is', 'it', 'its', 'may', 'my', 'of', 'on', 'or', 'our', 'shall', 'should',
+  'that', 'the', 'their', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who',
+  'will', 'with', 'you', 'your'
+])
+
+/**
+ * Lowercase search terms, without stopwords and with a light plural strip ("vouchers" -> "voucher")
+ * @param {string} text
+ * @returns {string[]}
+ */
+function tokenize(text) {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(token => !STOPWORDS.has(token) && (token.length > 1 || /\d/.test(token)))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token))
+}
+
+/**
+ * Split per-page text into passages: one per numbered section on each page, long ones windowed
+ * @param {string[]} pages
+ * @returns {Array<{ page_number: number, section: string, text: string }>}
+ */
+function splitPassages(pages) {
+  const passages = []
+  pages.forEach((pageText, pageIndex) => {
+    for (const section of parseSections(pageText || '')) {
+      const words = section.text.split(' ')
+      for (let start = 0; start < words.length; start += MAX_PASSAGE_WORDS) {
+        passages.push({
+          page_number: pageIndex + 1,
+          section: section.id,
+          text: words.slice(start, start + MAX_PASSAGE_WORDS).join(' ')
+        })
+      }
+    }
+  })
+  return passages
+}
+
+/**
+ * The sentence of a passage that best matches the query, trimmed to `maxLength`
+ * @param {string} text
+ * @param {string} query
+ * @param {number} maxLength
+ * @returns {string}
+ */
+function bestSnippet(text, query, maxLength = 240) {
+  const terms = new Set(tokenize(query))
+  const sentences = text.match(/[^.!?]+(?:[.!?]+|$)/g)?.map(s => s.trim()).filter(Boolean) || [text]
+
+  let best = sentences[0]
+  let bestHits = -1
+  for (const sentence of sentences) {
+    const hits = new Set(tokenize(sentence).filter(token => terms.has(token))).size
+    if (hits > bestHits) {
+      best = sentence
+      bestHits = hits
+    }
+  }
+  return best.length > maxLength ? `${best.slice(0, maxLength - 1).trimEnd()}…` : best
+}
+
+/**
+ * Policy series of a document, the number before the hyphen of its short title ("JBSA 36-1201" -> "36")
+ * @param {{ short_title?: string | null, name?: string }} doc
+ * @returns {string | null}
+ */
+function policySeries(doc) {
+  const match = (doc.short_title || doc.name || '').match(/(\d{1,3})-\d{1,5}/)
+  return match ? match[1] : null
+}
+
+/**
+ * Where a retrievable version stands in its document's history
+ * @param {{ current_version_id: string }} doc
+ * @param {{ id: string, status?: string }} version
+ * @returns {'current' | 'scheduled' | 'past'}
+ */
+function versionStatus(doc, version) {
+  if (version.id === doc.current_version_id) return 'current'
+  if (version.status === 'scheduled') return 'scheduled'
+  return 'past'
+}
+
+/**
+ * Parse search filters from a query string
+ * @param {{ status?: string, scope_level?: string, series?: string, from?: string, to?: string }} query
+ * @returns {{ value: { status: string, scopeLevel: string | null, series: string | null, from: Date | null, to: Date | null } } | { error: string }}
+ */
+function parseSearchFilters(query) {
+  const status = query.status ? String(query.status) : 'current'
+  if (!VERSION_STATUSES.includes(status)) {
+    return { error: `status must be one of: ${VERSION_STATUSES.join(', ')}` }
+  }
+
+  const scopeLevel = query.scope_level ? String(query.scope_level) : null
+  if (scopeLevel && !SCOPE_LEVELS.includes(scopeLevel)) {
+    return { error: `scope_level must be one of: ${SCOPE_LEVELS.join(', ')}` }
+  }
+
+  // "36" and "36-" both name the series
+  const series = query.series ? String(query.series).trim().replace(/-$/, '') : null
+  if (series !== null && !/^\d{1,3}$/.test(series)) {
+    return { error: 'series must be a policy series number, e.g. 36' }
+  }
+
+  const dates = {}
+  for (const field of ['from', 'to']) {
+    if (!query[field]) {
+      dates[field] = null
+      continue
+    }
+    const value = String(query[field])
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      return { error: `${field} must be an ISO date` }
+    }
+    // A bare "to" date includes that whole day
+    if (field === 'to' && DATE_ONLY_PATTERN.test(value)) date.setUTCDate(date.getUTCDate() + 1)
+    dates[field] = date
+  }
+  if (dates.from && dates.to && dates.from >= dates.to) {
+    return { error: 'from must be before to' }
+  }
+
+  return { value: { status, scopeLevel, series, from: dates.from, to: dates.to } }
+}
+
+/**
+ * Versions a search covers: those of documents the caller can see that match the filters.
+ * Pending and rejected versions are never searchable. Current versions come first, so a file
+ * shared by several versions is attributed to the current one.
+ * @param {Array} documents
+ * @param {Object | null} user
+ * @param {{ status: string, scopeLevel: string | null, series: string | null, from: Date | null, to: Date | null }} filters
+ * @returns {Array<{ doc: Object, version: Object }>}
+ */
+function selectSearchTargets(documents, user, filters) {
+  const targets = []
+  for (const doc of documents) {
+    if (!canViewDocument(user, doc)) continue
+    // Unscoped policies are DAF-wide
+    if (filters.scopeLevel && (doc.scope?.level || 'daf') !== filters.scopeLevel) continue
+    if (filters.series && policySeries(doc) !== filters.series) continue
+
+    for (const version of doc.versions || []) {
+      if (!isRetrievable(version)) continue
+      const status = versionStatus(doc, version)
+      if (filters.status !== 'all' && status !== filters.status) continue
+
+      const date = new Date(version.created_at)
+      if (filters.from && !(date >= filters.from)) continue
+      if (filters.to && !(date < filters.to)) continue
+      targets.push({ doc, version, status })
+    }
+  }
+  return targets.sort((a, b) => (b.status === 'current') - (a.status === 'current'))
+}
+
+/**
+ * Create an empty index
+ */
+function createSearchIndex() {
+  // passage id -> { key, page_number, section, text, length, terms: Map<term, tf> }
+  const passages = new Map()
+  // term -> Set of passage ids
+  const postings = new Map()
+  // key -> passage ids
+  const byKey = new Map()
+  let nextId = 0
+  let totalLength = 0
+
+  function remove(key) {
+    const ids = byKey.get(key)
+    if (!ids) return false
+    for (const id of ids) {
+      const passage = passages.get(id)
+      for (const term of passage.terms.keys()) {
+        const termIds = postings.get(term)
+        termIds.delete(id)
+        if (termIds.size === 0) postings.delete(term)
+      }
+      totalLength -= passage.length
+      passages.delete(id)
+    }
+    byKey.delete(key)
+    return true
+  }
+
+  return {
+    has(key) {
+      return byKey.has(key)
+    },
+
+    /**
+     * Index (or re-index) the pages of one file
+     * @param {string} key - content hash of the file
+     * @param {string[]} pages
+     * @returns {number} passages indexed
+     */
+    add(key, pages) {
+      remove(key)
+      const ids = []
+      for (const passage of splitPassages(pages)) {
+        const tokens = tokenize(passage.text)
+        if (tokens.length === 0) continue
+
+        const terms = new Map()
+        for (const token of tokens) terms.set(token, (terms.get(token) || 0) + 1)
+
+        const id = nextId++
+        passages.set(id, { ...passage, key, length: tokens.length, terms })
+        for (const term of terms.keys()) {
+          if (!postings.has(term)) postings.set(term, new Set())
+          postings.get(term).add(id)
+        }
+        totalLength += tokens.length
+        ids.push(id)
+      }
+      byKey.set(key, ids)
+      return ids.length
+    },
+
+    remove,
+
+    /**
+     * Best-matching passages, optionally limited to some keys
+     * @param {string} query
+     * @param {{ keys?: Set<string> | null, limit?: number }} options
+     * @returns {Array<{ key: string, page_number: number, section: string, text: string, snippet: string, score: number, raw_score: number }>}
+     */
+    search(query, { keys = null, limit = 10 } = {}) {
+      const terms = [...new Set(tokenize(query))]
+      if (terms.length === 0 || passages.size === 0) return []
+
+      const averageLength = totalLength / passages.size
+      const scores = new Map()
+      for (const term of terms) {
+        const ids = postings.get(term)
+        if (!ids) continue
+        const idf = Math.log(1 + (passages.size - ids.size + 0.5) / (ids.size + 0.5))
+        for (const id of ids) {
+          const passage = passages.get(id)
+          if (keys && !keys.has(passage.key)) continue
+          const tf = passage.terms.get(term)
+          const weight = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * passage.length / averageLength))
+          scores.set(id, (scores.get(id) || 0) + weight)
+        }
+      }
+
+      return [...scores.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([id, score]) => {
+          const { key, page_number, section, text } = passages.get(id)
+          return {
+            key,
+            page_number,
+            section,
+            text,
+            snippet: bestSnippet(text, query),
+            score: score / (score + SCORE_SCALE),
+            raw_score: score
+          }
+        })
+    },
+
+    /**
+     * @returns {{ files: number, passages: number, terms: number }}
+     */
+    stats() {
+      return { files: byKey.size, passages: passages.size, terms: postings.size }
+    }
+  }
+}
+
+export {
+  VERSION_STATUSES,
+  tokenize,
+  splitPassages,
+  bestSnippet,
+  policySeries,
+  versionStatus,
+  parseSearchFilters,
+  selectSearchTargets,
+  createSearchIndex
+}
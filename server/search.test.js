@@ -0,0 +1,245 @@
+/**
+ * Tests for the local BM25 search index
+ * Run with: node --test server/search.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  tokenize,
+  splitPassages,
+  bestSnippet,
+  policySeries,
+  versionStatus,
+  parseSearchFilters,
+  selectSearchTargets,
+  createSearchIndex
+} from './search.js'
+
+const travelPages = [
+  [
+    'TRAVEL AND REIMBURSEMENT PROCEDURES',
+    '1. PURPOSE',
+    'This instruction establishes procedures for official travel.',
+    '4. VOUCHER SUBMISSION',
+    'Travel vouchers must be submitted in DTS within 5 duty days of return. Late vouchers may result in',
+    'collection action against the GTCC.'
+  ].join('\n'),
+  [
+    '5. LODGING',
+    'Government lodging must be used when available. Commercial lodging requires a non-availability statement.'
+  ].join('\n')
+]
+
+const leavePages = [
+  [
+    '1. PURPOSE',
+    'This instruction covers leave and pass procedures.',
+    '2. LEAVE REQUESTS',
+    'Leave requests must be submitted in LeaveWeb at least 48 hours before the start of leave.'
+  ].join('\n')
+]
+
+const cyberPages = [
+  [
+    '3. ACCESS',
+    'Users must remove their CAC from the CAC reader when leaving the workstation.'
+  ].join('\n')
+]
+
+function buildIndex() {
+  const index = createSearchIndex()
+  index.add('travel', travelPages)
+  index.add('leave', leavePages)
+  index.add('cyber', cyberPages)
+  return index
+}
+
+describe('tokenize', () => {
+  test('drops stopwords, keeps numbers and strips plurals', () => {
+    assert.deepStrictEqual(tokenize('How do I submit travel vouchers within 5 days?'), ['submit', 'travel', 'voucher', 'within', '5', 'day'])
+  })
+
+  test('keeps double-s words intact', () => {
+    assert.deepStrictEqual(tokenize('Leave and pass access'), ['leave', 'pass', 'access'])
+  })
+})
+
+describe('splitPassages', () => {
+  test('splits each page into numbered sections with page numbers', () => {
+    const passages = splitPassages(travelPages)
+    assert.deepStrictEqual(passages.map(p => [p.page_number, p.section]), [
+      [1, 'Front matter'],
+      [1, '1'],
+      [1, '4'],
+      [2, '5']
+    ])
+    assert.match(passages[2].text, /within 5 duty days of return\. Late vouchers/)
+  })
+
+  test('windows long sections', () => {
+    const long = `1. LONG\n${Array.from({ length: 250 }, (_, i) => `word${i}`).join(' ')}`
+    const passages = splitPassages([long])
+    assert.strictEqual(passages.length, 3)
+    assert.ok(passages.every(p => p.section === '1'))
+  })
+})
+
+describe('bestSnippet', () => {
+  test('picks the sentence with the most query terms', () => {
+    const text = 'Travel vouchers must be submitted in DTS within 5 duty days of return. Late vouchers may result in collection action.'
+    assert.strictEqual(bestSnippet(text, 'collection action'), 'Late vouchers may result in collection action.')
+  })
+
+  test('truncates long sentences', () => {
+    const snippet = bestSnippet('a'.repeat(500), 'a', 50)
+    assert.strictEqual(snippet.length, 50)
+    assert.ok(snippet.endsWith('…'))
+  })
+})
+
+describe('createSearchIndex', () => {
+  test('ranks the passage that matches the query terms first', () => {
+    const [top] = buildIndex().search('voucher submission deadline')
+    assert.strictEqual(top.key, 'travel')
+    assert.strictEqual(top.section, '4')
+    assert.strictEqual(top.page_number, 1)
+    assert.ok(top.score > 0 && top.score < 1)
+  })
+
+  test('finds exact figures and acronyms', () => {
+    assert.strictEqual(buildIndex().search('48 hours')[0].key, 'leave')
+    assert.strictEqual(buildIndex().search('CAC reader')[0].key, 'cyber')
+  })
+
+  test('reports the page of the match', () => {
+    const [top] = buildIndex().search('commercial lodging')
+    assert.strictEqual(top.page_number, 2)
+    assert.match(top.snippet, /Commercial lodging/)
+  })
+
+  test('limits results to the allowed keys', () => {
+    const results = buildIndex().search('procedures', { keys: new Set(['leave']) })
+    assert.ok(results.length > 0)
+    assert.ok(results.every(r => r.key === 'leave'))
+  })
+
+  test('returns nothing for stopword-only or unknown queries', () => {
+    assert.deepStrictEqual(buildIndex().search('what is the'), [])
+    assert.deepStrictEqual(buildIndex().search('zeppelin'), [])
+  })
+
+  test('re-adding a key replaces its passages and remove drops them', () => {
+    const index = buildIndex()
+    const before = index.stats()
+    index.add('travel', travelPages)
+    assert.deepStrictEqual(index.stats(), before)
+
+    assert.strictEqual(index.remove('cyber'), true)
+    assert.strictEqual(index.has('cyber'), false)
+    assert.deepStrictEqual(index.search('CAC reader'), [])
+    assert.strictEqual(index.remove('cyber'), false)
+  })
+})
+
+const travel = {
+  id: 'doc-travel',
+  name: 'Travel Reimbursement',
+  short_title: 'JBSA 36-1201',
+  current_version_id: 'travel-v2',
+  versions: [
+    { id: 'travel-v1', status: 'published', created_at: '2025-11-18T10:00:00.000Z' },
+    { id: 'travel-v2', status: 'published', created_at: '2026-01-25T14:00:00.000Z' },
+    { id: 'travel-v3', status: 'scheduled', created_at: '2026-03-01T09:00:00.000Z' },
+    { id: 'travel-v4', status: 'pending', created_at: '2026-03-02T09:00:00.000Z' }
+  ]
+}
+const gate = {
+  id: 'doc-gate',
+  name: 'JBSAI 31-101 Gate Access',
+  short_title: null,
+  scope: { level: 'installation', value: 'JBSA' },
+  current_version_id: 'gate-v1',
+  versions: [{ id: 'gate-v1', status: 'published', created_at: '2025-12-01T00:00:00.000Z' }]
+}
+const clinic = {
+  id: 'doc-clinic',
+  name: 'Clinic SOP',
+  short_title: '73MDW 44-102',
+  scope: { level: 'wing', value: '73 MDW' },
+  current_version_id: 'clinic-v1',
+  versions: [{ id: 'clinic-v1', status: 'published', created_at: '2026-02-01T00:00:00.000Z' }]
+}
+const documents = [travel, gate, clinic]
+
+const maria = { id: 'u1', role: 'user', location: { majcom: 'AETC', installation: 'JBSA', wing: '73 MDW' } }
+const alex = { id: 'u2', role: 'user', location: { majcom: 'PACAF', installation: 'Kadena', wing: '18 WG' } }
+
+const filters = query => parseSearchFilters(query).value
+const versionIds = targets => targets.map(target => target.version.id)
+
+describe('policySeries / versionStatus', () => {
+  test('reads the series from the short title, or the name without one', () => {
+    assert.strictEqual(policySeries(travel), '36')
+    assert.strictEqual(policySeries(gate), '31')
+    assert.strictEqual(policySeries({ name: 'Clinic SOP' }), null)
+  })
+
+  test('classifies versions as current, scheduled or past', () => {
+    assert.deepStrictEqual(travel.versions.slice(0, 3).map(v => versionStatus(travel, v)), ['past', 'current', 'scheduled'])
+  })
+})
+
+describe('parseSearchFilters', () => {
+  test('defaults to current versions with no other filters', () => {
+    assert.deepStrictEqual(parseSearchFilters({}), {
+      value: { status: 'current', scopeLevel: null, series: null, from: null, to: null }
+    })
+  })
+
+  test('accepts a series with or without its hyphen', () => {
+    assert.strictEqual(filters({ series: '36-' }).series, '36')
+    assert.strictEqual(filters({ series: '91' }).series, '91')
+  })
+
+  test('a bare to date includes that whole day', () => {
+    assert.strictEqual(filters({ to: '2026-01-25' }).to.toISOString(), '2026-01-26T00:00:00.000Z')
+  })
+
+  test('rejects unknown values', () => {
+    assert.match(parseSearchFilters({ status: 'draft' }).error, /status/)
+    assert.match(parseSearchFilters({ scope_level: 'base' }).error, /scope_level/)
+    assert.match(parseSearchFilters({ series: 'AFI' }).error, /series/)
+    assert.match(parseSearchFilters({ from: 'yesterday' }).error, /from/)
+    assert.match(parseSearchFilters({ from: '2026-02-01', to: '2026-01-01' }).error, /before/)
+  })
+})
+
+describe('selectSearchTargets', () => {
+  test('defaults to the current version of each visible document', () => {
+    assert.deepStrictEqual(versionIds(selectSearchTargets(documents, maria, filters({}))), ['travel-v2', 'gate-v1', 'clinic-v1'])
+    assert.deepStrictEqual(versionIds(selectSearchTargets(documents, alex, filters({}))), ['travel-v2'])
+  })
+
+  test('all covers every version except pending and rejected ones, current first', () => {
+    assert.deepStrictEqual(
+      versionIds(selectSearchTargets([travel], maria, filters({ status: 'all' }))),
+      ['travel-v2', 'travel-v1', 'travel-v3']
+    )
+    assert.deepStrictEqual(versionIds(selectSearchTargets([travel], maria, filters({ status: 'past' }))), ['travel-v1'])
+  })
+
+  test('filters by scope level, with unscoped documents counted as DAF-wide', () => {
+    assert.deepStrictEqual(versionIds(selectSearchTargets(documents, maria, filters({ scope_level: 'daf' }))), ['travel-v2'])
+    assert.deepStrictEqual(versionIds(selectSearchTargets(documents, maria, filters({ scope_level: 'wing' }))), ['clinic-v1'])
+  })
+
+  test('filters by series', () => {
+    assert.deepStrictEqual(versionIds(selectSearchTargets(documents, maria, filters({ series: '44' }))), ['clinic-v1'])
+  })
+
+  test('filters by the version date', () => {
+    const range = filters({ status: 'all', from: '2026-01-01', to: '2026-01-31' })
+    assert.deepStrictEqual(versionIds(selectSearchTargets(documents, maria, range)), ['travel-v2'])
+  })
+})
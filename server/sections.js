@@ -0,0 +1,370 @@
+/**
+ * Section-aware structural diff for policy PDFs
+ * Parses AFI-style numbering (1.2.3., A1.1., Table 2.1, Figure 3.1, Attachment 1),
+ * aligns old and new sections by number and content, and reports every change
+ * against the real paragraph ID.
+ */
+
+import fastDiff from 'fast-diff'
+import stringSimilarity from 'string-similarity'
+
+// Same-numbered sections at least this similar are the same paragraph, edited
+const SAME_ID_SIMILARITY = 0.5
+// Differently-numbered sections at least this similar are a moved/renumbered paragraph
+const MOVED_SIMILARITY = 0.6
+
+const HEADING_PATTERNS = [
+  { kind: 'paragraph', pattern: /^((?:A\d+\.)?\d{1,2}(?:\.\d+)*)\.\s+(.*)$/, id: m => m[1] },
+  { kind: 'table', pattern: /^Table\s+((?:A\d+\.)?\d+(?:\.\d+)*)\.?\s*(.*)$/, id: m => `Table ${m[1]}` },
+  { kind: 'figure', pattern: /^Figure\s+((?:A\d+\.)?\d+(?:\.\d+)*)\.?\s*(.*)$/, id: m => `Figure ${m[1]}` },
+  { kind: 'attachment', pattern: /^Attachment\s+(\d+)\b[.:\s-]*(.*)$/, id: m => `Attachment ${m[1]}` }
+]
+
+// "NAME, Col, USAF" - the signature block that closes an instruction
+const SIGNATURE_PATTERN = /^[A-Z][A-Z .'-]+,\s*(?:Col|Lt Col|Maj|Capt|Brig Gen|Maj Gen|Lt Gen|Gen|CMSgt|SES|GS-\d+)\b/
+
+const KIND_LABELS = {
+  preamble: 'Front matter',
+  paragraph: 'Paragraph',
+  table: 'Table',
+  figure: 'Figure',
+  attachment: 'Attachment',
+  signature: 'Signature block'
+}
+
+function normalize(text) {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function wordCount(text) {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Match a line against the section heading patterns
+ * @param {string} line
+ * @returns {{ kind: string, id: string } | null}
+ */
+function parseHeading(line) {
+  const trimmed = line.trim()
+  if (SIGNATURE_PATTERN.test(trimmed)) return { kind: 'signature', id: 'Signature block' }
+  for (const { kind, pattern, id } of HEADING_PATTERNS) {
+    const match = trimmed.match(pattern)
+    if (match) return { kind, id: id(match) }
+  }
+  return null
+}
+
+/**
+ * Split document text into numbered sections. Text before the first heading is
+ * front matter; a repeated ID gets a "(2)" suffix so every section stays addressable.
+ * @param {string} text
+ * @returns {Array<{ id: string, kind: string, text: string, index: number }>}
+ */
+function parseSections(text) {
+  const sections = []
+  const seen = new Map()
+  let current = { id: 'Front matter', kind: 'preamble', lines: [] }
+
+  const push = () => {
+    const body = normalize(current.lines.join('\n'))
+    if (!body) return
+    const count = (seen.get(current.id) || 0) + 1
+    seen.set(current.id, count)
+    sections.push({
+      id: count > 1 ? `${current.id} (${count})` : current.id,
+      kind: current.kind,
+      text: body,
+      index: sections.length
+    })
+  }
+
+  for (const line of text.split('\n')) {
+    // Everything after the signature line belongs to the signature block
+    const heading = current.kind === 'signature' ? null : parseHeading(line)
+    if (heading) {
+      push()
+      current = { ...heading, lines: [] }
+    }
+    current.lines.push(line)
+  }
+  push()
+
+  return sections
+}
+
+// Parent of a paragraph ID ("2.3" -> "2", "A1.2" -> "A1"); null for top-level and non-paragraphs
+function parentOf(section) {
+  if (section.kind !== 'paragraph') return null
+  const parts = section.id.split('.')
+  return parts.length > 1 ? parts.slice(0, -1).join('.') : null
+}
+
+/**
+ * Pair old and new sections. Passes run from most to least certain:
+ * identical text, same ID, similar text under a new ID, then any remaining same-ID pair.
+ * @param {Array} oldSections
+ * @param {Array} newSections
+ * @returns {{ pairs: Array<[Object, Object]>, removed: Array, added: Array }}
+ */
+function alignSections(oldSections, newSections) {
+  const pairs = []
+  const oldLeft = new Set(oldSections)
+  const newLeft = new Set(newSections)
+
+  const pair = (a, b) => {
+    pairs.push([a, b])
+    oldLeft.delete(a)
+    newLeft.delete(b)
+  }
+  const newById = () => new Map([...newLeft].map(s => [s.id, s]))
+
+  // 1. Identical text - same ID first so duplicates don't cross over
+  let byId = newById()
+  for (const a of [...oldLeft]) {
+    const b = byId.get(a.id)
+    if (b && b.text === a.text) pair(a, b)
+  }
+  const newByText = new Map()
+  for (const b of newLeft) {
+    const key = stripNumber(b)
+    if (!newByText.has(key)) newByText.set(key, [])
+    newByText.get(key).push(b)
+  }
+  for (const a of [...oldLeft]) {
+    const b = newByText.get(stripNumber(a))?.find(candidate => newLeft.has(candidate) && candidate.kind === a.kind)
+    if (b) pair(a, b)
+  }
+
+  // 2. Same ID, text edited
+  byId = newById()
+  for (const a of [...oldLeft]) {
+    const b = byId.get(a.id)
+    if (b && similarity(a, b) >= SAME_ID_SIMILARITY) pair(a, b)
+  }
+
+  // 3. Similar text under a different ID - best match first
+  const candidates = []
+  for (const a of oldLeft) {
+    for (const b of newLeft) {
+      if (a.kind !== b.kind) continue
+      const score = similarity(a, b)
+      if (score >= MOVED_SIMILARITY) candidates.push({ a, b, score })
+    }
+  }
+  candidates.sort((x, y) => y.score - x.score)
+  for (const { a, b } of candidates) {
+    if (oldLeft.has(a) && newLeft.has(b)) pair(a, b)
+  }
+
+  // 4. Same ID, text rewritten
+  byId = newById()
+  for (const a of [...oldLeft]) {
+    const b = byId.get(a.id)
+    if (b) pair(a, b)
+  }
+
+  return { pairs, removed: [...oldLeft], added: [...newLeft] }
+}
+
+// Section text without its own number, so renumbered paragraphs compare equal
+function stripNumber(section) {
+  if (section.kind === 'preamble' || section.kind === 'signature') return section.text
+  return section.text.replace(/^(?:Table|Figure|Attachment)?\s*(?:A\d+\.)?[\d.]+[.:\s-]*/, '')
+}
+
+function similarity(a, b) {
+  return stringSimilarity.compareTwoStrings(stripNumber(a), stripNumber(b))
+}
+
+// Diff two texts word by word: each distinct word is mapped to one character so
+// fast-diff compares whole words. Codes start past ASCII and stay below the
+// surrogate range for any realistic vocabulary.
+function diffWords(before, after) {
+  const codes = new Map()
+  const words = []
+  const encode = text => text.split(/\s+/).filter(Boolean).map(word => {
+    if (!codes.has(word)) {
+      codes.set(word, String.fromCharCode(0x100 + codes.size))
+      words.push(word)
+    }
+    return codes.get(word)
+  }).join('')
+
+  return fastDiff(encode(before), encode(after))
+    .map(([type, text]) => [type, [...text].map(code => words[code.charCodeAt(0) - 0x100])])
+}
+
+/**
+ * Word-level counts of what an edit added and removed
+ * @param {string} before
+ * @param {string} after
+ * @returns {{ added: number, removed: number }}
+ */
+function wordDelta(before, after) {
+  let added = 0
+  let removed = 0
+  for (const [type, words] of diffWords(before, after)) {
+    if (type === 1) added += words.length
+    if (type === -1) removed += words.length
+  }
+  return { added, removed }
+}
+
+/**
+ * Word-level redline segments for one section
+ * @param {string} before
+ * @param {string} after
+ * @returns {Array<{ op: 'equal' | 'insert' | 'delete', text: string }>}
+ */
+function wordSegments(before, after) {
+  const ops = { 0: 'equal', 1: 'insert', [-1]: 'delete' }
+  return diffWords(before, after).map(([type, words]) => ({ op: ops[type], text: words.join(' ') }))
+}
+
+function describeEdit(before, after) {
+  const { added, removed } = wordDelta(before, after)
+  const parts = []
+  if (added) parts.push(`${added} word${added === 1 ? '' : 's'} added`)
+  if (removed) parts.push(`${removed} word${removed === 1 ? '' : 's'} removed`)
+  return parts.length ? parts.join(', ') : 'punctuation or spacing changed'
+}
+
+/**
+ * Align two document texts and list every section in new-document order.
+ * Removed sections sort right after the new-side position of their nearest surviving predecessor.
+ * @param {string} oldText
+ * @param {string} newText
+ * @returns {Array<{ before: Object | null, after: Object | null }>}
+ */
+function alignDocuments(oldText, newText) {
+  const { pairs, removed, added } = alignSections(parseSections(oldText), parseSections(newText))
+
+  const entries = [
+    ...pairs.map(([a, b]) => ({ before: a, after: b, position: b.index })),
+    ...added.map(b => ({ before: null, after: b, position: b.index }))
+  ]
+
+  const newIndexOf = new Map(pairs.map(([a, b]) => [a.index, b.index]))
+  for (const a of removed) {
+    let anchor = -1
+    for (let i = a.index - 1; i >= 0; i--) {
+      if (newIndexOf.has(i)) {
+        anchor = newIndexOf.get(i)
+        break
+      }
+    }
+    entries.push({ before: a, after: null, position: anchor + 0.5 + a.index / 1e6 })
+  }
+
+  return entries
+    .sort((x, y) => x.position - y.position)
+    .map(({ before, after }) => ({ before, after }))
+}
+
+// How an aligned entry changed: 'unchanged', 'added', 'removed', 'modified' or 'moved'
+function entryType({ before, after }) {
+  if (!before) return 'added'
+  if (!after) return 'removed'
+  if (before.id !== after.id) return 'moved'
+  return stripNumber(before) === stripNumber(after) ? 'unchanged' : 'modified'
+}
+
+/**
+ * Structural diff of two document texts. Every changed section is reported - nothing is truncated.
+ * @param {string} oldText
+ * @param {string} newText
+ * @returns {Array<{ section: string, type: 'added' | 'removed' | 'modified' | 'moved',
+ *   summary: string, previous_section?: string, before?: string, after?: string }>}
+ */
+function computeSectionDiff(oldText, newText) {
+  const changes = []
+
+  for (const entry of alignDocuments(oldText, newText)) {
+    const { before: a, after: b } = entry
+    const type = entryType(entry)
+
+    if (type === 'moved') {
+      const verb = parentOf(a) === parentOf(b) ? 'Renumbered' : 'Moved'
+      const edited = stripNumber(a) !== stripNumber(b)
+      changes.push({
+        section: b.id,
+        type,
+        previous_section: a.id,
+        summary: `${verb} from ${a.id}${edited ? ` and edited (${describeEdit(stripNumber(a), stripNumber(b))})` : ''}`,
+        before: a.text,
+        after: b.text
+      })
+    } else if (type === 'modified') {
+      changes.push({
+        section: b.id,
+        type,
+        summary: `${KIND_LABELS[b.kind]} edited (${describeEdit(a.text, b.text)})`,
+        before: a.text,
+        after: b.text
+      })
+    } else if (type === 'added') {
+      changes.push({
+        section: b.id,
+        type,
+        summary: `New ${KIND_LABELS[b.kind].toLowerCase()} (~${wordCount(b.text)} words)`,
+        after: b.text
+      })
+    } else if (type === 'removed') {
+      changes.push({
+        section: a.id,
+        type,
+        summary: `${KIND_LABELS[a.kind]} removed (~${wordCount(a.text)} words)`,
+        before: a.text
+      })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Full-document redline: every section in new-document order with word-level segments.
+ * Unchanged sections are included so viewers can show changes in context.
+ * @param {string} oldText
+ * @param {string} newText
+ * @returns {{ blocks: Array<{ section: string, type: string, previous_section?: string,
+ *   segments: Array<{ op: 'equal' | 'insert' | 'delete', text: string }> }>,
+ *   stats: { words_added: number, words_removed: number, changed_sections: number } }}
+ */
+function computeRedline(oldText, newText) {
+  const blocks = alignDocuments(oldText, newText).map(entry => {
+    const { before: a, after: b } = entry
+    const type = entryType(entry)
+    const block = { section: (b || a).id, type }
+    if (type === 'moved') block.previous_section = a.id
+
+    if (type === 'added') block.segments = [{ op: 'insert', text: b.text }]
+    else if (type === 'removed') block.segments = [{ op: 'delete', text: a.text }]
+    else if (type === 'unchanged') block.segments = [{ op: 'equal', text: b.text }]
+    else block.segments = wordSegments(a.text, b.text)
+    return block
+  })
+
+  const count = op => blocks.reduce((sum, block) =>
+    sum + block.segments.filter(seg => seg.op === op).reduce((n, seg) => n + wordCount(seg.text), 0), 0)
+
+  return {
+    blocks,
+    stats: {
+      words_added: count('insert'),
+      words_removed: count('delete'),
+      changed_sections: blocks.filter(block => block.type !== 'unchanged').length
+    }
+  }
+}
+
+export {
+  parseHeading,
+  parseSections,
+  alignSections,
+  wordDelta,
+  wordSegments,
+  computeSectionDiff,
+  computeRedline
+}
@@ -0,0 +1,160 @@
+/**
+ * Tests for the section-aware structural diff
+ * Run with: node --test server/sections.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  parseHeading,
+  parseSections,
+  wordDelta,
+  wordSegments,
+  computeSectionDiff,
+  computeRedline
+} from './sections.js'
+
+const OLD = `JOINT BASE SAN ANTONIO
+Instruction 36-1201
+1. PURPOSE
+This instruction establishes travel procedures.
+2. TRAVEL AUTHORIZATION
+2.1. All official travel must be authorized in DTS prior to departure.
+2.2. Travel authorizations must be submitted a minimum of 14 duty days prior to the travel start date.
+2.3. Local travel under 50 miles does not require an authorization.
+Table 2.1. Approval Authorities
+Group commander for TDY over 30 days.
+Attachment 1
+GLOSSARY OF REFERENCES AND SUPPORTING INFORMATION
+A1.1. References
+Joint Travel Regulations.
+
+DAVID M. TORRES, Col, USAF
+Comptroller Squadron Commander`
+
+describe('parseHeading', () => {
+  test('recognises AFI numbering', () => {
+    assert.deepStrictEqual(parseHeading('1.2.3. Text'), { kind: 'paragraph', id: '1.2.3' })
+    assert.deepStrictEqual(parseHeading('A1.2. Text'), { kind: 'paragraph', id: 'A1.2' })
+    assert.deepStrictEqual(parseHeading('Table 2.1. Approval Authorities'), { kind: 'table', id: 'Table 2.1' })
+    assert.deepStrictEqual(parseHeading('Figure 3.2 Organization'), { kind: 'figure', id: 'Figure 3.2' })
+    assert.deepStrictEqual(parseHeading('Attachment 1'), { kind: 'attachment', id: 'Attachment 1' })
+  })
+
+  test('ignores dates and running text', () => {
+    assert.strictEqual(parseHeading('1 August 2024'), null)
+    assert.strictEqual(parseHeading('2024. The year in review'), null)
+    assert.strictEqual(parseHeading('collection action against the GTCC.'), null)
+  })
+})
+
+describe('parseSections', () => {
+  test('splits into front matter, numbered sections and signature block', () => {
+    const ids = parseSections(OLD).map(s => s.id)
+    assert.deepStrictEqual(ids, [
+      'Front matter', '1', '2', '2.1', '2.2', '2.3', 'Table 2.1', 'Attachment 1', 'A1.1', 'Signature block'
+    ])
+  })
+
+  test('keeps repeated IDs addressable', () => {
+    const ids = parseSections('1. First\n1. Again').map(s => s.id)
+    assert.deepStrictEqual(ids, ['1', '1 (2)'])
+  })
+})
+
+describe('wordDelta', () => {
+  test('counts whole words', () => {
+    assert.deepStrictEqual(wordDelta('minimum of 14 duty days', 'minimum of 10 duty days'), { added: 1, removed: 1 })
+  })
+})
+
+describe('wordSegments', () => {
+  test('splits an edit into equal, delete and insert runs of whole words', () => {
+    assert.deepStrictEqual(wordSegments('a minimum of 14 duty days', 'a minimum of 10 duty days'), [
+      { op: 'equal', text: 'a minimum of' },
+      { op: 'delete', text: '14' },
+      { op: 'insert', text: '10' },
+      { op: 'equal', text: 'duty days' }
+    ])
+  })
+})
+
+describe('computeSectionDiff', () => {
+  test('reports no changes for identical text', () => {
+    assert.deepStrictEqual(computeSectionDiff(OLD, OLD), [])
+  })
+
+  test('reports edits against the real paragraph ID', () => {
+    const changes = computeSectionDiff(OLD, OLD.replace('minimum of 14 duty days', 'minimum of 10 duty days'))
+    assert.strictEqual(changes.length, 1)
+    assert.strictEqual(changes[0].section, '2.2')
+    assert.strictEqual(changes[0].type, 'modified')
+    assert.match(changes[0].summary, /1 word added, 1 word removed/)
+  })
+
+  test('detects paragraphs renumbered by an insertion', () => {
+    const inserted = OLD.replace(
+      '2.2. Travel authorizations',
+      '2.2. Conference travel requires general officer approval regardless of cost.\n2.3. Travel authorizations'
+    ).replace('2.3. Local travel', '2.4. Local travel')
+
+    const changes = computeSectionDiff(OLD, inserted)
+    assert.deepStrictEqual(
+      changes.map(c => [c.type, c.section, c.previous_section]),
+      [['added', '2.2', undefined], ['moved', '2.3', '2.2'], ['moved', '2.4', '2.3']]
+    )
+    assert.match(changes[1].summary, /^Renumbered from 2.2$/)
+  })
+
+  test('distinguishes a move to another parent from a renumber', () => {
+    const moved = OLD
+      .replace('2.3. Local travel under 50 miles does not require an authorization.\n', '')
+      .replace('Table 2.1.', '2.3. Reserved.\nTable 2.1.')
+      .replace('A1.1. References', 'A1.1. Local travel under 50 miles does not require an authorization.\nA1.2. References')
+
+    const change = computeSectionDiff(OLD, moved).find(c => c.previous_section === '2.3')
+    assert.strictEqual(change?.section, 'A1.1')
+    assert.match(change?.summary ?? '', /^Moved from 2.3/)
+  })
+
+  test('reports added and removed tables and attachments in document order', () => {
+    const changed = OLD
+      .replace('Table 2.1. Approval Authorities\nGroup commander for TDY over 30 days.\n', '')
+      .replace('Attachment 1', 'Table 2.2. Per Diem Exceptions\nRates above locality require a waiver.\nAttachment 1')
+
+    const changes = computeSectionDiff(OLD, changed)
+    assert.deepStrictEqual(changes.map(c => [c.type, c.section]), [
+      ['removed', 'Table 2.1'],
+      ['added', 'Table 2.2']
+    ])
+  })
+
+  test('does not truncate long documents or long sections', () => {
+    const paragraphs = n => Array.from({ length: n }, (_, i) => `1.${i + 1}. Requirement ${i + 1} ${'applies to all assigned personnel '.repeat(30)}`)
+    const before = paragraphs(5).join('\n')
+    const after = paragraphs(40).join('\n')
+
+    const changes = computeSectionDiff(before, after)
+    assert.strictEqual(changes.length, 35)
+    assert.ok(changes.every(c => c.after && c.after.length > 500))
+  })
+})
+
+describe('computeRedline', () => {
+  test('covers the whole document in order, unchanged sections included', () => {
+    const edited = OLD.replace('minimum of 14 duty days', 'minimum of 10 duty days')
+    const { blocks, stats } = computeRedline(OLD, edited)
+
+    assert.deepStrictEqual(blocks.map(b => b.section), parseSections(edited).map(s => s.id))
+    assert.deepStrictEqual(blocks.filter(b => b.type !== 'unchanged').map(b => b.section), ['2.2'])
+    assert.deepStrictEqual(stats, { words_added: 1, words_removed: 1, changed_sections: 1 })
+  })
+
+  test('keeps removed sections next to their old neighbours', () => {
+    const { blocks } = computeRedline(OLD, OLD.replace('2.3. Local travel under 50 miles does not require an authorization.\n', ''))
+    const index = blocks.findIndex(b => b.type === 'removed')
+    assert.strictEqual(blocks[index].section, '2.3')
+    assert.strictEqual(blocks[index - 1].section, '2.2')
+    assert.deepStrictEqual(blocks[index].segments.map(s => s.op), ['delete'])
+  })
+})
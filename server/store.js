@@ -0,0 +1,313 @@
+/**
+ * Persistent storage for RegSync server state
+ * Append-only JSON journal with snapshot compaction, and the document
+ * repository the API routes read and write through
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+// Rewrite the snapshot once the journal grows past this many entries
+const COMPACT_THRESHOLD = 500
+
+const clone = value => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)))
+
+/**
+ * Create a record store made of workspaces holding named collections of records.
+ * With a `dir` every write is appended to `journal.jsonl` and replayed on startup;
+ * without one the store lives in memory only (demo session mode).
+ * @param {{ dir?: string | null, compactThreshold?: number }} options
+ */
+function createRecordStore({ dir = null, compactThreshold = COMPACT_THRESHOLD } = {}) {
+  // Map<workspaceId, Map<collection, Map<recordId, record>>>
+  const workspaces = new Map()
+  const journalFile = dir ? path.join(dir, 'journal.jsonl') : null
+  const snapshotFile = dir ? path.join(dir, 'snapshot.json') : null
+  let journalEntries = 0
+
+  function collectionMap(ws, collection, create = false) {
+    let collections = workspaces.get(ws)
+    if (!collections) {
+      if (!create) return null
+      collections = new Map()
+      workspaces.set(ws, collections)
+    }
+    let records = collections.get(collection)
+    if (!records && create) {
+      records = new Map()
+      collections.set(collection, records)
+    }
+    return records || null
+  }
+
+  function apply(entry) {
+    switch (entry.op) {
+      case 'put':
+        collectionMap(entry.ws, entry.collection, true).set(entry.id, entry.value)
+        break
+      case 'remove':
+        collectionMap(entry.ws, entry.collection)?.delete(entry.id)
+        break
+      case 'clear':
+        collectionMap(entry.ws, entry.collection)?.clear()
+        break
+      case 'drop':
+        workspaces.delete(entry.ws)
+        break
+    }
+  }
+
+  function serialize() {
+    const data = {}
+    for (const [ws, collections] of workspaces) {
+      data[ws] = {}
+      for (const [collection, records] of collections) {
+        data[ws][collection] = [...records.entries()]
+      }
+    }
+    return { written_at: new Date().toISOString(), workspaces: data }
+  }
+
+  function load() {
+    if (!dir) return
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true })
+
+    if (fs.existsSync(snapshotFile)) {
+      const snapshot = JSON.parse(fs.readFileSync(snapshotFile, 'utf-8'))
+      for (const [ws, collections] of Object.entries(snapshot.workspaces || {})) {
+        for (const [collection, entries] of Object.entries(collections)) {
+          const records = collectionMap(ws, collection, true)
+          for (const [id, value] of entries) records.set(id, value)
+        }
+      }
+    }
+
+    if (fs.existsSync(journalFile)) {
+      const lines = fs.readFileSync(journalFile, 'utf-8').split('\n')
+      for (const line of lines) {
+        if (!line.trim()) continue
+        try {
+          apply(JSON.parse(line))
+          journalEntries++
+        } catch {
+          // A torn final line from a crash mid-write is skipped; everything before it is intact
+          console.error('Skipping unreadable journal entry')
+        }
+      }
+    }
+  }
+
+  function compact() {
+    if (!dir) return
+    const tmpFile = `${snapshotFile}.tmp`
+    fs.writeFileSync(tmpFile, JSON.stringify(serialize()))
+    fs.renameSync(tmpFile, snapshotFile)
+    fs.writeFileSync(journalFile, '')
+    journalEntries = 0
+  }
+
+  function write(entry) {
+    apply(entry)
+    if (!journalFile) return
+    fs.appendFileSync(journalFile, JSON.stringify({ ...entry, ts: new Date().toISOString() }) + '\n')
+    if (++journalEntries >= compactThreshold) compact()
+  }
+
+  load()
+  if (journalEntries > 0) compact()
+
+  return {
+    durable: Boolean(dir),
+
+    hasWorkspace(ws) {
+      return workspaces.has(ws)
+    },
+
+    workspaceCount() {
+      return workspaces.size
+    },
+
+    list(ws, collection) {
+      const records = collectionMap(ws, collection)
+      return records ? [...records.values()].map(clone) : []
+    },
+
+    get(ws, collection, id) {
+      return clone(collectionMap(ws, collection)?.get(id))
+    },
+
+    put(ws, collection, id, value) {
+      write({ op: 'put', ws, collection, id, value: clone(value) })
+    },
+
+    remove(ws, collection, id) {
+      write({ op: 'remove', ws, collection, id })
+    },
+
+    clear(ws, collection) {
+      write({ op: 'clear', ws, collection })
+    },
+
+    dropWorkspace(ws) {
+      write({ op: 'drop', ws })
+    },
+
+    compact
+  }
+}
+
+/**
+ * Give every version of a document a version_number. Numbers are assigned once, in upload
+ * order, and never reused: the document keeps last_version_number so removing a rejected
+ * upload does not hand its number to the next one. Versions stored before numbering existed
+ * are numbered by created_at after any that already have a number.
+ * @param {Object} doc
+ * @returns {{ doc: Object, changed: boolean }}
+ */
+function numberVersions(doc) {
+  const versions = doc.versions || []
+  let last = Math.max(doc.last_version_number || 0, ...versions.map(v => v.version_number || 0))
+  const unnumbered = versions
+    .filter(v => !Number.isInteger(v.version_number))
+    .sort((a, b) => new Date(a.created_at || 0) - new Date(b.created_at || 0))
+  if (unnumbered.length === 0 && doc.last_version_number === last) return { doc, changed: false }
+
+  const numbers = new Map(unnumbered.map(v => [v.id, ++last]))
+  return {
+    doc: {
+      ...doc,
+      last_version_number: last,
+      versions: versions.map(v => (numbers.has(v.id) ? { ...v, version_number: numbers.get(v.id) } : v))
+    },
+    changed: true
+  }
+}
+
+/**
+ * Create the document repository used by every document, version, digest and sample route.
+ * Workspaces start from the seed documents the first time they are touched.
+ * @param {{ records: ReturnType<typeof createRecordStore>, seedDocuments: Array }} options
+ */
+function createDocumentRepository({ records, seedDocuments }) {
+  function ensureWorkspace(ws) {
+    if (records.get(ws, 'meta', 'workspace')) return
+    for (const doc of seedDocuments) {
+      records.put(ws, 'documents', doc.id, numberVersions(doc).doc)
+    }
+    records.put(ws, 'meta', 'workspace', { created_at: new Date().toISOString(), uploaded_files: [] })
+  }
+
+  // Number versions of documents stored before version numbers existed, and keep the result
+  function withVersionNumbers(ws, stored) {
+    const { doc, changed } = numberVersions(stored)
+    if (changed) records.put(ws, 'documents', doc.id, doc)
+    return doc
+  }
+
+  function requireDocument(ws, documentId) {
+    const doc = records.get(ws, 'documents', documentId)
+    if (!doc) throw new Error(`Document not found: ${documentId}`)
+    return withVersionNumbers(ws, doc)
+  }
+
+  return {
+    listDocuments(ws) {
+      ensureWorkspace(ws)
+      return records.list(ws, 'documents').map(doc => withVersionNumbers(ws, doc))
+    },
+
+    getDocument(ws, documentId) {
+      ensureWorkspace(ws)
+      const doc = records.get(ws, 'documents', documentId)
+      return doc ? withVersionNumbers(ws, doc) : null
+    },
+
+    saveDocument(ws, document) {
+      ensureWorkspace(ws)
+      const { doc } = numberVersions(document)
+      records.put(ws, 'documents', doc.id, doc)
+      return doc
+    },
+
+    updateDocument(ws, documentId, patch) {
+      ensureWorkspace(ws)
+      const doc = { ...requireDocument(ws, documentId), ...patch }
+      records.put(ws, 'documents', documentId, doc)
+      return doc
+    },
+
+    deleteDocument(ws, documentId) {
+      ensureWorkspace(ws)
+      records.remove(ws, 'documents', documentId)
+    },
+
+    // Assigns the next version_number; returns the stored version
+    addVersion(ws, documentId, version) {
+      ensureWorkspace(ws)
+      const doc = requireDocument(ws, documentId)
+      doc.last_version_number += 1
+      const stored = { ...version, version_number: doc.last_version_number }
+      doc.versions.push(stored)
+      records.put(ws, 'documents', documentId, doc)
+      return stored
+    },
+
+    updateVersion(ws, documentId, versionId, patch) {
+      ensureWorkspace(ws)
+      const doc = requireDocument(ws, documentId)
+      const index = doc.versions.findIndex(v => v.id === versionId)
+      if (index === -1) throw new Error(`Version not found: ${versionId}`)
+      doc.versions[index] = { ...doc.versions[index], ...patch }
+      records.put(ws, 'documents', documentId, doc)
+      return doc.versions[index]
+    },
+
+    removeVersion(ws, documentId, versionId) {
+      ensureWorkspace(ws)
+      const doc = requireDocument(ws, documentId)
+      doc.versions = doc.versions.filter(v => v.id !== versionId)
+      records.put(ws, 'documents', documentId, doc)
+    },
+
+    // Remember files written to data/uploads so reset and session eviction can remove them
+    trackUpload(ws, filename) {
+      this.trackUploads(ws, [filename])
+    },
+
+    // Record several uploads with one meta write; files already tracked are skipped
+    trackUploads(ws, filenames) {
+      ensureWorkspace(ws)
+      const meta = records.get(ws, 'meta', 'workspace')
+      const tracked = new Set(meta.uploaded_files)
+      const added = [...new Set(filenames)].filter(filename => !tracked.has(filename))
+      if (added.length === 0) return
+      meta.uploaded_files.push(...added)
+      records.put(ws, 'meta', 'workspace', meta)
+    },
+
+    uploadedFiles(ws) {
+      return records.get(ws, 'meta', 'workspace')?.uploaded_files || []
+    },
+
+    // Restore the workspace to the seed documents; returns the uploads the caller should delete
+    reset(ws) {
+      const uploadedFiles = this.uploadedFiles(ws)
+      records.clear(ws, 'documents')
+      records.remove(ws, 'meta', 'workspace')
+      ensureWorkspace(ws)
+      return { uploadedFiles, documentsRestored: seedDocuments.length }
+    },
+
+    // Forget a workspace entirely (session eviction); returns its uploads for cleanup
+    dropWorkspace(ws) {
+      const uploadedFiles = this.uploadedFiles(ws)
+      records.dropWorkspace(ws)
+      return uploadedFiles
+    }
+  }
+}
+
+export {
+  createRecordStore,
+  createDocumentRepository
+}
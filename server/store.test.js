@@ -0,0 +1,170 @@
+/**
+ * Tests for the journal-backed record store and document repository
+ * Run with: node --test server/store.test.js
+ */
+
+import { test, describe, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createRecordStore, createDocumentRepository } from './store.js'
+
+const seedDocuments = [
+  {
+    id: 'doc1',
+    name: 'Policy A',
+    short_title: '36-2903',
+    current_version_id: 'v1',
+    created_at: '2024-01-15T10:00:00Z',
+    updated_at: '2024-01-15T10:00:00Z',
+    versions: [{ id: 'v1', filename: 'a-v1.pdf', created_at: '2024-01-15T10:00:00Z', status: 'published' }]
+  }
+]
+
+let dir
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'regsync-store-'))
+})
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+describe('createRecordStore', () => {
+  test('replays journal entries after a restart', () => {
+    const first = createRecordStore({ dir })
+    first.put('default', 'documents', 'doc1', { id: 'doc1', name: 'A' })
+    first.put('default', 'documents', 'doc2', { id: 'doc2', name: 'B' })
+    first.remove('default', 'documents', 'doc1')
+
+    const second = createRecordStore({ dir })
+    assert.deepStrictEqual(second.list('default', 'documents'), [{ id: 'doc2', name: 'B' }])
+  })
+
+  test('compacts the journal into a snapshot', () => {
+    const store = createRecordStore({ dir, compactThreshold: 3 })
+    for (let i = 0; i < 5; i++) {
+      store.put('default', 'items', `item${i}`, { i })
+    }
+
+    assert.ok(fs.existsSync(path.join(dir, 'snapshot.json')))
+    const journalLines = fs.readFileSync(path.join(dir, 'journal.jsonl'), 'utf-8').split('\n').filter(Boolean)
+    assert.strictEqual(journalLines.length, 2)
+
+    const reopened = createRecordStore({ dir })
+    assert.strictEqual(reopened.list('default', 'items').length, 5)
+  })
+
+  test('skips a torn final journal line', () => {
+    const store = createRecordStore({ dir })
+    store.put('default', 'items', 'a', { ok: true })
+    fs.appendFileSync(path.join(dir, 'journal.jsonl'), '{"op":"put","ws":"def')
+
+    const reopened = createRecordStore({ dir })
+    assert.deepStrictEqual(reopened.get('default', 'items', 'a'), { ok: true })
+  })
+
+  test('returns copies so callers cannot mutate stored records', () => {
+    const store = createRecordStore()
+    store.put('default', 'items', 'a', { tags: ['x'] })
+    store.get('default', 'items', 'a').tags.push('y')
+    assert.deepStrictEqual(store.get('default', 'items', 'a'), { tags: ['x'] })
+  })
+
+  test('memory-only store writes nothing to disk', () => {
+    const store = createRecordStore()
+    store.put('session-1', 'items', 'a', { ok: true })
+    assert.strictEqual(store.durable, false)
+    assert.deepStrictEqual(fs.readdirSync(dir), [])
+  })
+})
+
+describe('createDocumentRepository', () => {
+  test('seeds a workspace on first access', () => {
+    const repo = createDocumentRepository({ records: createRecordStore(), seedDocuments })
+    const documents = repo.listDocuments('default')
+    assert.strictEqual(documents.length, 1)
+    assert.strictEqual(documents[0].name, 'Policy A')
+  })
+
+  test('persists versions and approvals across restarts', () => {
+    const repo = createDocumentRepository({ records: createRecordStore({ dir }), seedDocuments })
+    repo.addVersion('default', 'doc1', { id: 'v2', filename: 'a-v2.pdf', status: 'pending' })
+    repo.updateVersion('default', 'doc1', 'v2', { status: 'published' })
+    repo.updateDocument('default', 'doc1', { current_version_id: 'v2' })
+
+    const reopened = createDocumentRepository({ records: createRecordStore({ dir }), seedDocuments })
+    const doc = reopened.getDocument('default', 'doc1')
+    assert.strictEqual(doc.current_version_id, 'v2')
+    assert.strictEqual(doc.versions.length, 2)
+    assert.strictEqual(doc.versions[1].status, 'published')
+  })
+
+  test('numbers versions in upload order without reusing removed numbers', () => {
+    const repo = createDocumentRepository({ records: createRecordStore(), seedDocuments })
+    assert.strictEqual(repo.getDocument('default', 'doc1').versions[0].version_number, 1)
+
+    assert.strictEqual(repo.addVersion('default', 'doc1', { id: 'v2', status: 'pending' }).version_number, 2)
+    repo.removeVersion('default', 'doc1', 'v2')
+    repo.addVersion('default', 'doc1', { id: 'v3', status: 'pending' })
+
+    const doc = repo.getDocument('default', 'doc1')
+    assert.deepStrictEqual(doc.versions.map(v => v.version_number), [1, 3])
+    assert.strictEqual(doc.last_version_number, 3)
+  })
+
+  test('numbers versions stored before numbering by upload date', () => {
+    const records = createRecordStore()
+    const repo = createDocumentRepository({ records, seedDocuments })
+    repo.listDocuments('default')
+    records.put('default', 'documents', 'doc2', {
+      id: 'doc2',
+      versions: [
+        { id: 'b', created_at: '2024-03-01T00:00:00Z' },
+        { id: 'a', created_at: '2024-01-01T00:00:00Z' }
+      ]
+    })
+
+    const doc = repo.getDocument('default', 'doc2')
+    assert.deepStrictEqual(doc.versions.map(v => [v.id, v.version_number]), [['b', 2], ['a', 1]])
+    assert.strictEqual(records.get('default', 'documents', 'doc2').last_version_number, 2)
+  })
+
+  test('isolates session workspaces from each other', () => {
+    const repo = createDocumentRepository({ records: createRecordStore(), seedDocuments })
+    repo.deleteDocument('session-a', 'doc1')
+    assert.strictEqual(repo.listDocuments('session-a').length, 0)
+    assert.strictEqual(repo.listDocuments('session-b').length, 1)
+  })
+
+  test('reset restores seed documents and reports uploads to clean up', () => {
+    const repo = createDocumentRepository({ records: createRecordStore(), seedDocuments })
+    repo.saveDocument('default', { id: 'doc2', name: 'Policy B', versions: [] })
+    repo.trackUpload('default', '123-b.pdf')
+
+    const { uploadedFiles, documentsRestored } = repo.reset('default')
+    assert.deepStrictEqual(uploadedFiles, ['123-b.pdf'])
+    assert.strictEqual(documentsRestored, 1)
+    assert.strictEqual(repo.listDocuments('default').length, 1)
+    assert.deepStrictEqual(repo.uploadedFiles('default'), [])
+  })
+
+  test('tracks each upload once, in one write per batch', () => {
+    const records = createRecordStore()
+    const repo = createDocumentRepository({ records, seedDocuments })
+    repo.trackUploads('default', ['a.pdf', 'b.pdf', 'a.pdf'])
+    repo.trackUpload('default', 'b.pdf')
+    assert.deepStrictEqual(repo.uploadedFiles('default'), ['a.pdf', 'b.pdf'])
+  })
+
+  test('dropWorkspace forgets the workspace', () => {
+    const records = createRecordStore()
+    const repo = createDocumentRepository({ records, seedDocuments })
+    repo.trackUpload('session-a', 'x.pdf')
+
+    assert.deepStrictEqual(repo.dropWorkspace('session-a'), ['x.pdf'])
+    assert.strictEqual(records.hasWorkspace('session-a'), false)
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Version review workflows
+ * A workflow is an ordered list of stages, each optionally limited to named reviewers.
+ * Uploaded versions carry a snapshot of their workflow and advance one stage per approval.
+ */
+
+const MAX_STAGES = 10
+
+// Used when a workspace has no workflows configured - one stage any admin can sign off
+const DEFAULT_WORKFLOW = {
+  id: 'default',
+  name: 'Admin review',
+  is_default: true,
+  stages: [{ id: 'admin-review', name: 'Admin review', reviewers: [] }]
+}
+
+const REVIEW_DECISIONS = ['approved', 'rejected']
+
+function slugify(text) {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+/**
+ * Validate the body of a create/update workflow request
+ * @param {{ name?: string, stages?: Array<{ name?: string, reviewers?: string[] }> }} input
+ * @param {Array} users - every user record (reviewers must be admins)
+ * @returns {string | null} error message
+ */
+function validateWorkflow(input, users) {
+  if (typeof input?.name !== 'string' || !input.name.trim()) return 'name is required'
+  if (!Array.isArray(input.stages) || input.stages.length === 0) return 'At least one stage is required'
+  if (input.stages.length > MAX_STAGES) return `A workflow can have at most ${MAX_STAGES} stages`
+
+  const reviewerIds = new Set(users.filter(u => u.role === 'admin' || u.role === 'superadmin').map(u => u.id))
+  for (const [index, stage] of input.stages.entries()) {
+    if (typeof stage?.name !== 'string' || !stage.name.trim()) return `stages[${index}].name is required`
+    if (stage.reviewers !== undefined && !Array.isArray(stage.reviewers)) return `stages[${index}].reviewers must be an array`
+    const unknown = (stage.reviewers || []).find(id => !reviewerIds.has(id))
+    if (unknown) return `stages[${index}] reviewer is not an administrator: ${unknown}`
+  }
+  return null
+}
+
+/**
+ * Build a stored workflow from validated input, resolving reviewer IDs to names
+ * @param {string} id
+ * @param {{ name: string, is_default?: boolean, stages: Array<{ name: string, reviewers?: string[] }> }} input
+ * @param {Array} users
+ * @returns {Object}
+ */
+function buildWorkflow(id, input, users) {
+  const usedIds = new Set()
+  return {
+    id,
+    name: input.name.trim(),
+    is_default: Boolean(input.is_default),
+    stages: input.stages.map((stage, index) => {
+      let stageId = slugify(stage.name) || `stage-${index + 1}`
+      if (usedIds.has(stageId)) stageId = `${stageId}-${index + 1}`
+      usedIds.add(stageId)
+      return {
+        id: stageId,
+        name: stage.name.trim(),
+        reviewers: [...new Set(stage.reviewers || [])].map(reviewerId => {
+          const user = users.find(u => u.id === reviewerId)
+          return { id: reviewerId, name: user?.name || reviewerId }
+        })
+      }
+    })
+  }
+}
+
+/**
+ * Pick the workflow for a document: its assigned workflow, else the workspace default
+ * @param {Array} workflows - configured workflows (may be empty)
+ * @param {string | null | undefined} workflowId
+ * @returns {Object}
+ */
+function resolveWorkflow(workflows, workflowId) {
+  return workflows.find(w => w.id === workflowId)
+    || workflows.find(w => w.is_default)
+    || DEFAULT_WORKFLOW
+}
+
+/**
+ * Snapshot a workflow onto a newly uploaded version
+ * @param {Object} workflow
+ * @param {string} now - ISO timestamp
+ * @returns {Object} review state
+ */
+function startReview(workflow, now) {
+  return {
+    workflow_id: workflow.id,
+    workflow_name: workflow.name,
+    stages: workflow.stages,
+    stage_index: 0,
+    decisions: [],
+    submitted_at: now
+  }
+}
+
+/**
+ * Review state of a version; versions uploaded before workflows existed use the default
+ * @param {Object} version
+ * @returns {Object}
+ */
+function reviewOf(version) {
+  return version.review || startReview(DEFAULT_WORKFLOW, version.created_at)
+}
+
+/**
+ * Stage awaiting a decision, or null once the review is finished
+ * @param {Object} review
+ * @returns {Object | null}
+ */
+function currentStage(review) {
+  return review.stages[review.stage_index] || null
+}
+
+/**
+ * Check whether a user may decide the given stage (no named reviewers = any admin)
+ * @param {{ id: string }} user
+ * @param {Object | null} stage
+ * @returns {boolean}
+ */
+function canReviewStage(user, stage) {
+  if (!stage || !user) return false
+  return stage.reviewers.length === 0 || stage.reviewers.some(r => r.id === user.id)
+}
+
+/**
+ * Record an approve/reject decision on the current stage
+ * @param {Object} review
+ * @param {{ decision: 'approved' | 'rejected', reviewer: { id: string, name: string }, comment?: string, at: string }} input
+ * @returns {{ ok: true, review: Object, status: 'pending' | 'published' | 'rejected' } | { ok: false, error: string }}
+ */
+function applyDecision(review, { decision, reviewer, comment, at }) {
+  if (!REVIEW_DECISIONS.includes(decision)) {
+    return { ok: false, error: 'decision must be "approved" or "rejected"' }
+  }
+  const stage = currentStage(review)
+  if (!stage) {
+    return { ok: false, error: 'This version has already completed review' }
+  }
+  const trimmed = typeof comment === 'string' ? comment.trim() : ''
+  if (decision === 'rejected' && !trimmed) {
+    return { ok: false, error: 'A comment is required when rejecting a version' }
+  }
+
+  const next = {
+    ...review,
+    decisions: [...review.decisions, {
+      stage_id: stage.id,
+      stage_name: stage.name,
+      decision,
+      reviewer: { id: reviewer.id, name: reviewer.name },
+      comment: trimmed || null,
+      at
+    }]
+  }
+
+  if (decision === 'rejected') {
+    return { ok: true, review: next, status: 'rejected' }
+  }
+
+  next.stage_index = review.stage_index + 1
+  return { ok: true, review: next, status: next.stage_index >= review.stages.length ? 'published' : 'pending' }
+}
+
+export {
+  DEFAULT_WORKFLOW,
+  REVIEW_DECISIONS,
+  validateWorkflow,
+  buildWorkflow,
+  resolveWorkflow,
+  startReview,
+  reviewOf,
+  currentStage,
+  canReviewStage,
+  applyDecision
+}
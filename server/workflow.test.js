@@ -0,0 +1,121 @@
+/**
+ * Tests for multi-stage review workflows
+ * Run with: node --test server/workflow.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import {
+  DEFAULT_WORKFLOW,
+  validateWorkflow,
+  buildWorkflow,
+  resolveWorkflow,
+  startReview,
+  reviewOf,
+  currentStage,
+  canReviewStage,
+  applyDecision
+} from './workflow.js'
+
+const sarah = { id: 'u1', name: 'Sarah Mitchell', role: 'superadmin' }
+const john = { id: 'u2', name: 'John Smith', role: 'admin' }
+const alex = { id: 'u3', name: 'Alex Kim', role: 'user' }
+const users = [sarah, john, alex]
+
+const NOW = '2024-03-01T12:00:00.000Z'
+
+const legalThenCommander = buildWorkflow('wf-1', {
+  name: 'Legal + Commander',
+  stages: [
+    { name: 'Legal review', reviewers: ['u2'] },
+    { name: 'Commander sign-off', reviewers: ['u1'] }
+  ]
+}, users)
+
+describe('validateWorkflow', () => {
+  test('accepts named admin reviewers', () => {
+    assert.strictEqual(validateWorkflow({ name: 'Legal', stages: [{ name: 'Legal', reviewers: ['u2'] }] }, users), null)
+  })
+
+  test('requires at least one stage', () => {
+    assert.strictEqual(validateWorkflow({ name: 'Empty', stages: [] }, users), 'At least one stage is required')
+  })
+
+  test('requires stage names', () => {
+    assert.strictEqual(validateWorkflow({ name: 'X', stages: [{ name: ' ' }] }, users), 'stages[0].name is required')
+  })
+
+  test('rejects reviewers who are not administrators', () => {
+    assert.ok(validateWorkflow({ name: 'X', stages: [{ name: 'A', reviewers: ['u3'] }] }, users)?.includes('not an administrator'))
+  })
+})
+
+describe('buildWorkflow', () => {
+  test('resolves reviewer names and gives stages unique ids', () => {
+    const workflow = buildWorkflow('wf', { name: 'Twice', stages: [{ name: 'Review', reviewers: ['u2', 'u2'] }, { name: 'Review' }] }, users)
+    assert.deepStrictEqual(workflow.stages[0].reviewers, [{ id: 'u2', name: 'John Smith' }])
+    assert.notStrictEqual(workflow.stages[0].id, workflow.stages[1].id)
+  })
+})
+
+describe('resolveWorkflow', () => {
+  test('prefers the assigned workflow, then the default, then the built-in', () => {
+    const other = { ...legalThenCommander, id: 'wf-2', is_default: true }
+    assert.strictEqual(resolveWorkflow([legalThenCommander, other], 'wf-1').id, 'wf-1')
+    assert.strictEqual(resolveWorkflow([legalThenCommander, other], null).id, 'wf-2')
+    assert.strictEqual(resolveWorkflow([], null), DEFAULT_WORKFLOW)
+  })
+})
+
+describe('applyDecision', () => {
+  test('advances one stage per approval and publishes after the last', () => {
+    let review = startReview(legalThenCommander, NOW)
+
+    const first = applyDecision(review, { decision: 'approved', reviewer: john, at: NOW })
+    assert.strictEqual(first.ok && first.status, 'pending')
+    review = first.ok ? first.review : review
+    assert.strictEqual(currentStage(review)?.name, 'Commander sign-off')
+
+    const second = applyDecision(review, { decision: 'approved', reviewer: sarah, comment: 'Signed', at: NOW })
+    assert.strictEqual(second.ok && second.status, 'published')
+    assert.strictEqual(second.ok && currentStage(second.review), null)
+    assert.strictEqual(second.ok && second.review.decisions.length, 2)
+  })
+
+  test('requires a comment to reject', () => {
+    const result = applyDecision(startReview(legalThenCommander, NOW), { decision: 'rejected', reviewer: john, comment: '  ', at: NOW })
+    assert.deepStrictEqual(result, { ok: false, error: 'A comment is required when rejecting a version' })
+  })
+
+  test('rejection keeps the stage and records the comment', () => {
+    const result = applyDecision(startReview(legalThenCommander, NOW), { decision: 'rejected', reviewer: john, comment: 'Cites rescinded AFI', at: NOW })
+    assert.strictEqual(result.ok && result.status, 'rejected')
+    assert.strictEqual(result.ok && result.review.stage_index, 0)
+    assert.strictEqual(result.ok && result.review.decisions[0].comment, 'Cites rescinded AFI')
+  })
+
+  test('refuses decisions after review completes', () => {
+    const done = { ...startReview(DEFAULT_WORKFLOW, NOW), stage_index: 1 }
+    assert.strictEqual(applyDecision(done, { decision: 'approved', reviewer: john, at: NOW }).ok, false)
+  })
+})
+
+describe('canReviewStage', () => {
+  test('named reviewers only', () => {
+    const stage = legalThenCommander.stages[0]
+    assert.strictEqual(canReviewStage(john, stage), true)
+    assert.strictEqual(canReviewStage(sarah, stage), false)
+  })
+
+  test('stages without reviewers are open to any admin', () => {
+    assert.strictEqual(canReviewStage(sarah, DEFAULT_WORKFLOW.stages[0]), true)
+  })
+})
+
+describe('reviewOf', () => {
+  test('versions uploaded before workflows use the built-in review', () => {
+    const review = reviewOf({ id: 'v1', status: 'pending', created_at: NOW })
+    assert.strictEqual(review.workflow_id, 'default')
+    assert.strictEqual(currentStage(review)?.name, 'Admin review')
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Minimal ZIP archive reader for bulk imports
+ * Reads the central directory and inflates stored or deflated entries with node:zlib off the event loop.
+ * Encrypted and ZIP64 archives are rejected; nothing is written to disk here.
+ */
+
+import zlib from 'zlib'
+import { promisify } from 'util'
+
+const inflateRaw = promisify(zlib.inflateRaw)
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_FILE_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+// The end record is 22 bytes plus a comment of up to 64KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff
+
+const STORED = 0
+const DEFLATED = 8
+
+const FLAG_ENCRYPTED = 0x1
+const FLAG_UTF8 = 0x800
+
+function findEndRecord(buffer) {
+  const stop = Math.max(0, buffer.length - MAX_END_RECORD_SEARCH)
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  return -1
+}
+
+/**
+ * List the entries of a ZIP archive. Each file entry's contents are inflated on `read()`,
+ * never past the entry's declared size.
+ * @param {Buffer} buffer - the whole archive
+ * @param {{ maxEntryBytes?: number, maxEntries?: number }} [options] - largest uncompressed entry `read()`
+ *   accepts, and most entries (files and folders) the archive may list
+ * @returns {{ value: Array<{ name: string, size: number, directory: boolean, read: () => Promise<Buffer> }> } | { error: string }}
+ */
+function readZip(buffer, { maxEntryBytes = Infinity, maxEntries = Infinity } = {}) {
+  const end = buffer.length >= 22 ? findEndRecord(buffer) : -1
+  if (end === -1) return { error: 'Not a ZIP archive' }
+
+  const count = buffer.readUInt16LE(end + 10)
+  const directoryOffset = buffer.readUInt32LE(end + 16)
+  if (count === 0xffff || directoryOffset === 0xffffffff) return { error: 'ZIP64 archives are not supported' }
+  if (count > maxEntries) return { error: `The ZIP archive has ${count} entries; at most ${maxEntries} are allowed` }
+
+  const entries = []
+  let offset = directoryOffset
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_FILE_HEADER) {
+      return { error: 'The ZIP archive is damaged' }
+    }
+    const flags = buffer.readUInt16LE(offset + 8)
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const size = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString(flags & FLAG_UTF8 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (flags & FLAG_ENCRYPTED) return { error: `Encrypted ZIP entries are not supported (${name})` }
+
+    const read = async () => {
+      if (method !== STORED && method !== DEFLATED) throw new Error(`Unsupported compression method in ${name}`)
+      if (size > maxEntryBytes) throw new Error(`${name} is larger than ${maxEntryBytes} bytes`)
+      if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) throw new Error(`The ZIP archive is damaged at ${name}`)
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+      const data = buffer.subarray(dataStart, dataStart + compressedSize)
+      if (method === STORED) {
+        if (compressedSize !== size) throw new Error(`The ZIP archive is damaged at ${name}`)
+        return Buffer.from(data)
+      }
+      return inflateRaw(data, { maxOutputLength: Math.max(size, 1) })
+    }
+    entries.push({ name, size, directory: name.endsWith('/'), read })
+  }
+  return { value: entries }
+}
+
+export { readZip }
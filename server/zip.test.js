@@ -0,0 +1,80 @@
+/**
+ * Tests for the ZIP reader
+ * Run with: node --test server/zip.test.js
+ */
+
+import { test, describe } from 'node:test'
+import assert from 'node:assert'
+import zlib from 'zlib'
+import { readZip } from './zip.js'
+
+// Build an archive with stored and deflated entries (CRCs are not checked by the reader)
+function buildZip(files) {
+  const locals = []
+  const centrals = []
+  let offset = 0
+  for (const { name, content, deflate = false, flags = 0x800 } of files) {
+    const data = Buffer.from(content)
+    const stored = deflate ? zlib.deflateRawSync(data) : data
+    const nameBuffer = Buffer.from(name)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(flags, 6)
+    local.writeUInt16LE(deflate ? 8 : 0, 8)
+    local.writeUInt32LE(stored.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(nameBuffer.length, 26)
+    locals.push(local, nameBuffer, stored)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(flags, 8)
+    central.writeUInt16LE(deflate ? 8 : 0, 10)
+    central.writeUInt32LE(stored.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(nameBuffer.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBuffer)
+
+    offset += 30 + nameBuffer.length + stored.length
+  }
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+describe('readZip', () => {
+  test('lists entries and reads stored and deflated files', async () => {
+    const { value } = readZip(buildZip([
+      { name: 'policies/', content: '' },
+      { name: 'policies/Leave.pdf', content: '%PDF-1.4 leave' },
+      { name: 'policies/Fitness.pdf', content: '%PDF-1.4 fitness '.repeat(20), deflate: true }
+    ]))
+
+    assert.deepStrictEqual(value.map(e => [e.name, e.directory]), [
+      ['policies/', true], ['policies/Leave.pdf', false], ['policies/Fitness.pdf', false]
+    ])
+    assert.strictEqual((await value[1].read()).toString(), '%PDF-1.4 leave')
+    assert.strictEqual((await value[2].read()).toString(), '%PDF-1.4 fitness '.repeat(20))
+  })
+
+  test('rejects other files, encrypted entries and oversized entries', async () => {
+    assert.match(readZip(Buffer.from('%PDF-1.4 not a zip')).error, /Not a ZIP/)
+    assert.match(readZip(buildZip([{ name: 'secret.pdf', content: 'x', flags: 0x801 }])).error, /Encrypted/)
+
+    const { value } = readZip(buildZip([{ name: 'big.pdf', content: 'x'.repeat(100), deflate: true }]), { maxEntryBytes: 10 })
+    await assert.rejects(value[0].read(), /larger than/)
+  })
+
+  test('rejects archives listing more entries than allowed', () => {
+    const files = Array.from({ length: 4 }, (_, i) => ({ name: `policy-${i}.pdf`, content: '%PDF-1.4' }))
+    assert.match(readZip(buildZip(files), { maxEntries: 3 }).error, /4 entries; at most 3/)
+    assert.strictEqual(readZip(buildZip(files), { maxEntries: 4 }).value.length, 4)
+  })
+})
@@ -4,18 +4,39 @@ import { Toaster } from 'sonner'
 import { AppShell } from './components/layout/AppShell'
 import { AdminDashboard } from './components/admin/AdminDashboard'
 import { AdminManagement } from './components/admin/AdminManagement'
+import { AuditLog } from './components/admin/AuditLog'
+import { FeedbackReview } from './components/admin/FeedbackReview'
+import { CrossReferenceReport } from './components/admin/CrossReferenceReport'
+import { BulkImport } from './components/admin/BulkImport'
 import { DocumentUpload } from './components/admin/DocumentUpload'
 import { VersionHistory } from './components/admin/VersionHistory'
+import { ChangeReview } from './components/admin/ChangeReview'
+import { WorkflowSettings } from './components/admin/WorkflowSettings'
 import { PolicyAssistant } from './components/user/PolicyAssistant'
+import { SharedConversationView } from './components/user/SharedConversationView'
 import { DocumentsList } from './components/shared/DocumentsList'
+import { PolicyLineage } from './components/shared/PolicyLineage'
 import { DigestPage } from './components/digest/DigestPage'
-import { useAuth } from './contexts/AuthContext'
+import { SearchPage } from './components/search/SearchPage'
+import { useAuth, type Permission } from './contexts/AuthContext'
 
 // Protected route wrapper for admin-only routes
-function AdminRoute({ children }: { children: React.ReactNode }) {
-  const { isAdmin } = useAuth()
+// Access is decided by the permissions the server returned for the signed-in user
+function AdminRoute({
+  children,
+  permission = 'upload_policies',
+}: {
+  children: React.ReactNode
+  permission?: Permission
+}) {
+  const { isLoading, hasPermission } = useAuth()
 
-  if (!isAdmin) {
+  // Wait for the session check before deciding, so a refresh doesn't bounce admins to "/"
+  if (isLoading) {
+    return null
+  }
+
+  if (!hasPermission(permission)) {
     return <Navigate to="/" replace />
   }
 
@@ -24,21 +45,28 @@ function AdminRoute({ children }: { children: React.ReactNode }) {
 
 // Main app with routing
 function AppRoutes() {
-  const { isAuthenticated } = useAuth()
+  const { isLoading, isAuthenticated, isAdmin } = useAuth()
   const navigate = useNavigate()
-  const wasAuthenticatedRef = useRef(isAuthenticated)
+  // null until the server answers the initial session check
+  const wasAuthenticatedRef = useRef<boolean | null>(null)
 
   // Navigate to admin dashboard when admin signs in
   useEffect(() => {
+    if (isLoading) return
+    // A session restored on page load is not a fresh sign-in
+    if (wasAuthenticatedRef.current === null) {
+      wasAuthenticatedRef.current = isAuthenticated
+      return
+    }
     if (isAuthenticated && !wasAuthenticatedRef.current) {
-      // Just signed in as admin - go to admin dashboard
-      navigate('/admin', { replace: true })
+      // Just signed in - admins go to the admin dashboard
+      if (isAdmin) navigate('/admin', { replace: true })
     } else if (!isAuthenticated && wasAuthenticatedRef.current) {
       // Just logged out - go to assistant
       navigate('/', { replace: true })
     }
     wasAuthenticatedRef.current = isAuthenticated
-  }, [isAuthenticated, navigate])
+  }, [isLoading, isAuthenticated, isAdmin, navigate])
 
   return (
     <AppShell>
@@ -46,15 +74,24 @@ function AppRoutes() {
         {/* Default route - Policy Assistant for everyone */}
         <Route path="/" element={<PolicyAssistant />} />
         <Route path="/assistant" element={<PolicyAssistant />} />
+        <Route path="/shared/:token" element={<SharedConversationView />} />
 
         {/* Admin routes - protected */}
         <Route path="/admin" element={<AdminRoute><AdminDashboard /></AdminRoute>} />
-        <Route path="/admin/management" element={<AdminRoute><AdminManagement /></AdminRoute>} />
+        <Route path="/admin/management" element={<AdminRoute permission="manage_admins"><AdminManagement /></AdminRoute>} />
+        <Route path="/admin/workflows" element={<AdminRoute permission="manage_admins"><WorkflowSettings /></AdminRoute>} />
+        <Route path="/admin/audit" element={<AdminRoute permission="manage_versions"><AuditLog /></AdminRoute>} />
+        <Route path="/admin/feedback" element={<AdminRoute permission="manage_versions"><FeedbackReview /></AdminRoute>} />
+        <Route path="/admin/references" element={<AdminRoute><CrossReferenceReport /></AdminRoute>} />
         <Route path="/upload" element={<AdminRoute><DocumentUpload /></AdminRoute>} />
+        <Route path="/upload/bulk" element={<AdminRoute><BulkImport /></AdminRoute>} />
         <Route path="/history/:documentId" element={<AdminRoute><VersionHistory /></AdminRoute>} />
+        <Route path="/review/:documentId/:versionId" element={<AdminRoute permission="manage_versions"><ChangeReview /></AdminRoute>} />
 
         {/* Shared routes */}
         <Route path="/documents" element={<DocumentsList />} />
+        <Route path="/lineage/:documentId" element={<PolicyLineage />} />
+        <Route path="/search" element={<SearchPage />} />
         <Route path="/updates" element={<DigestPage />} />
 
         {/* Fallback */}
@@ -0,0 +1,37 @@
+import { apiClient, projectUrl } from './client'
+import type { AdminMember, CreateAdminRequest, UpdateAdminRequest } from '@/types/admin'
+
+interface ListAdminsResponse {
+  total: number
+  admins: AdminMember[]
+}
+
+interface AdminResponse {
+  admin: AdminMember
+}
+
+export const adminsApi = {
+  // List administrators (superadmin only)
+  async listAdmins(): Promise<AdminMember[]> {
+    const { data } = await apiClient.get<ListAdminsResponse>(projectUrl('/admins'))
+    return data.admins
+  },
+
+  // Add an administrator with a new account (409 if the email already has one)
+  async addAdmin(request: CreateAdminRequest): Promise<AdminMember> {
+    const { data } = await apiClient.post<AdminResponse>(projectUrl('/admins'), request)
+    return data.admin
+  },
+
+  // Change an administrator's role, location or display fields, or reset their password
+  async updateAdmin(adminId: string, request: UpdateAdminRequest): Promise<AdminMember> {
+    const { data } = await apiClient.patch<AdminResponse>(projectUrl(`/admins/${adminId}`), request)
+    return data.admin
+  },
+
+  // Remove admin access
+  async removeAdmin(adminId: string): Promise<{ message: string }> {
+    const { data } = await apiClient.delete(projectUrl(`/admins/${adminId}`))
+    return data
+  },
+}
@@ -0,0 +1,28 @@
+import { apiClient, projectUrl } from './client'
+import type { AuditFilters, AuditQueryResponse } from '@/types/audit'
+
+// Drop empty filter values so they aren't sent as blank query params
+function toParams(filters: AuditFilters): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value)
+  ) as Record<string, string>
+}
+
+export const auditApi = {
+  // Query the audit trail, newest first
+  async query(filters: AuditFilters = {}, limit = 50, offset = 0): Promise<AuditQueryResponse> {
+    const { data } = await apiClient.get<AuditQueryResponse>(projectUrl('/audit'), {
+      params: { ...toParams(filters), limit, offset },
+    })
+    return data
+  },
+
+  // Download every entry matching the filters as CSV
+  async exportCsv(filters: AuditFilters = {}): Promise<Blob> {
+    const { data } = await apiClient.get<Blob>(projectUrl('/audit'), {
+      params: { ...toParams(filters), format: 'csv' },
+      responseType: 'blob',
+    })
+    return data
+  },
+}
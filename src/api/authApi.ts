@@ -0,0 +1,38 @@
+import { apiClient, projectUrl } from './client'
+import type { AuthUser } from '@/contexts/AuthContext'
+
+interface LoginResponse {
+  user: AuthUser
+  token: string
+  expires_in: number
+}
+
+interface MeResponse {
+  user: AuthUser
+}
+
+export const authApi = {
+  // Sign in - the server sets an HttpOnly session cookie
+  async login(username: string, password: string): Promise<AuthUser> {
+    const { data } = await apiClient.post<LoginResponse>(
+      projectUrl('/auth/login'),
+      { username, password }
+    )
+    return data.user
+  },
+
+  // Sign out and clear the session cookie
+  async logout(): Promise<void> {
+    await apiClient.post(projectUrl('/auth/logout'))
+  },
+
+  // Get the signed-in user, or null when there is no valid session
+  async me(): Promise<AuthUser | null> {
+    try {
+      const { data } = await apiClient.get<MeResponse>(projectUrl('/auth/me'))
+      return data.user
+    } catch {
+      return null
+    }
+  },
+}
@@ -1,13 +1,14 @@
-import { apiClient, projectUrl, DATASET } from './client'
-import type { CitedSource } from '@/types/chat'
+import { apiClient, projectUrl, API_BASE_URL } from './client'
+import type { CitedSource, ChatResponse, GroundingReport, SupersedingDocument } from '@/types/chat'
+import type { SearchResult } from '@/types/search'
 
 // Default embedding strategy for the nomic-ai model configured in llamafarm.yaml
 const EMBEDDING_STRATEGY = 'default_embeddings'
 
 interface RAGQueryRequest {
   query: string
-  database?: string
   top_k?: number
+  version_id?: string  // Pin retrieval to one past version instead of current versions
   retrieval_strategy?: 'semantic' | 'bm25' | 'hybrid'
   embedding_strategy?: string
   score_threshold?: number
@@ -23,12 +24,16 @@ interface RAGQueryResult {
   section?: string
   updated_at?: string
   updated_by?: string
+  is_current?: boolean
+  superseded_by?: SupersedingDocument
 }
 
 interface RAGQueryResponse {
   query: string
   results: RAGQueryResult[]
   total_results: number
+  // Results dropped because they fall outside the caller's scope
+  withheld: number
   processing_time_ms?: number
   retrieval_strategy_used: string
   database_used: string
@@ -47,10 +52,10 @@ OUTPUT FORMAT - YOU MUST FOLLOW THIS EXACTLY:
 2. Then use bullet points (start each line with "- ") for ALL details
 
 CORRECT OUTPUT EXAMPLE:
-The leave policy was updated effective **15 January 2026**.
-- Leave balance threshold changed from **50 days** to **45 days**
-- Administrative references were corrected
-- Minor clarifications added throughout
+The leave policy was updated effective **15 January 2026** [1].
+- Leave balance threshold changed from **50 days** to **45 days** [1]
+- Administrative references were corrected [2]
+- Minor clarifications added throughout [2]
 
 WRONG (no bullets):
 The policy changed the threshold from 50 to 45 days and updated references.
@@ -69,6 +74,34 @@ Military terms:
 
 When a user asks about a "rater PCS'ing" or "supervisor leaving", they are asking about Change of Reporting Official (CRO) procedures.`
 
+// Citation rules for the model; the UI links [n] to the nth source and flags anything it cannot match
+const CITATION_INSTRUCTIONS = 'Cite every statement with the number of the excerpt it comes from in square brackets, e.g. [1] or [2][3], placed at the end of the bullet or sentence. Use only the excerpt numbers below, and never cite a document by name or a section that is not in an excerpt.'
+
+// Retrieved passages handed to the model; the only policy text it sees
+function buildContextMessage(results: RAGQueryResult[], pinned: boolean): ChatMessage {
+  const excerpts = results.map((result, index) => {
+    const source = (result.metadata?.filename || result.metadata?.source || 'Policy document') as string
+    const section = result.section ? `, para ${result.section}` : ''
+    const page = result.metadata?.page_number ? `, page ${result.metadata.page_number}` : ''
+    const replacement = result.superseded_by
+      ? ` (superseded by ${result.superseded_by.short_title || result.superseded_by.name})`
+      : ''
+    return `[${index + 1}] ${source}${section}${page}${replacement}\n${result.content}`
+  })
+  const supersededNote = results.some(result => result.superseded_by)
+    ? ' Where an excerpt is marked superseded, warn that its policy has been superseded and name the policy that replaced it.'
+    : ''
+  const pastVersionNote = pinned
+    ? ' They come from a past version that has been superseded; say so in the answer.'
+    : ''
+  return {
+    role: 'system',
+    content: results.length > 0
+      ? `Answer using only these policy excerpts. If they do not cover the question, say you don't have information on it.${pastVersionNote}${supersededNote} ${CITATION_INSTRUCTIONS}\n\n${excerpts.join('\n\n')}`
+      : 'No policy excerpts matched this question. Say you don\'t have information on it.',
+  }
+}
+
 interface ChatCompletionResponse {
   id: string
   object: string
@@ -90,181 +123,131 @@ interface ChatCompletionResponse {
   rag_context?: RAGQueryResult[]
 }
 
-// Import documentsApi for version comparisons
-import { documentsApi } from './documentsApi'
+// One chunk of a streamed chat completion (OpenAI-compatible SSE "data:" payload)
+interface ChatCompletionChunk {
+  choices: Array<{
+    index: number
+    delta?: { role?: string; content?: string }
+    finish_reason: string | null
+  }>
+}
 
-export const chatApi = {
-  // Enrich sources with document metadata from local documents API
-  async enrichSourcesWithDocumentInfo(sources: CitedSource[]): Promise<CitedSource[]> {
-    if (sources.length === 0) return sources
+interface ChatOptions {
+  ragEnabled?: boolean
+  versionId?: string  // Ask about this past version instead of the current policies
+  maxTokens?: number
+  temperature?: number
+  signal?: AbortSignal  // Cancels retrieval and the completion request
+}
 
-    try {
-      // Get all documents to build a lookup map
-      const { documents } = await documentsApi.listDocuments()
-
-      // Build filename -> document info map with version status
-      interface DocInfo {
-        updated_at: string
-        updated_by: string
-        current_filename: string | null
-        document_id: string
-      }
-      const docInfoMap = new Map<string, DocInfo>()
-      for (const doc of documents) {
-        // Find the current version's filename (server returns versions but type doesn't include it)
-        const versions = (doc as unknown as { versions?: Array<{ id: string; filename?: string }> }).versions
-        const currentVersion = versions?.find(v => v.id === doc.current_version_id)
-        docInfoMap.set(doc.name, {
-          updated_at: doc.updated_at,
-          updated_by: 'Policy Administrator',
-          current_filename: currentVersion?.filename || null,
-          document_id: doc.id,
-        })
-      }
+// Events of a streamed answer; sources arrive before the first token
+export interface ChatStreamHandlers {
+  onSources?: (sources: CitedSource[]) => void
+  onToken?: (token: string) => void
+}
 
-      // Helper to normalize filename for comparison (remove timestamp prefix and extension)
-      const normalizeFilename = (f: string) => f.replace(/^\d{13}-/, '').replace(/\.pdf$/i, '').toLowerCase()
-
-      // Enrich each source with document info and version status
-      return sources.map(source => {
-        const filename = source.filename || source.source || ''
-        const cleanName = normalizeFilename(filename)
-
-        // Find matching document
-        for (const [docName, info] of docInfoMap) {
-          if (docName.toLowerCase().includes(cleanName) || cleanName.includes(normalizeFilename(docName))) {
-            // Check if this source is from the current version (compare normalized filenames)
-            const currentNormalized = info.current_filename ? normalizeFilename(info.current_filename) : null
-            const isCurrent = currentNormalized === cleanName
-            return {
-              ...source,
-              updated_at: source.updated_at || info.updated_at,
-              updated_by: source.updated_by || info.updated_by,
-              document_id: source.document_id || info.document_id,
-              is_current: isCurrent,
-            }
-          }
-        }
-        return source
-      })
-    } catch (err) {
-      console.warn('Failed to enrich sources with document info:', err)
-      return sources
+// Messages for the completion request, or a finished answer when retrieval fell back to local search
+type PreparedChat =
+  | { messages: ChatMessage[]; sources: CitedSource[]; userQuery: string }
+  | { response: ChatResponse }
+
+// Read an SSE body and call onData with each event's data payload until [DONE]
+async function readEventStream(body: ReadableStream<Uint8Array>, onData: (data: string) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    // At the end of the body, flush a last event that had no closing blank line
+    buffer += done ? '\n\n' : decoder.decode(value, { stream: true })
+
+    // Events are separated by a blank line; keep the trailing partial event for the next read
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = events.pop() || ''
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+      if (!data) continue
+      if (data === '[DONE]') return
+      onData(data)
     }
-  },
-
-  // Query about changes in a specific document
-  // Uses version comparison instead of general RAG search
-  async queryDocumentChanges(
-    documentId: string,
-    documentName: string
-  ): Promise<{
-    answer: string
-    sources: CitedSource[]
-  }> {
-    try {
-      // Get document with versions
-      const doc = await documentsApi.getDocument(documentId)
-      const versions = doc.versions || []
-
-      // Sort by created_at to get chronological order
-      const sortedVersions = [...versions].sort(
-        (a, b) => new Date(a.created_at || a.uploaded_at).getTime() - new Date(b.created_at || b.uploaded_at).getTime()
-      )
+    if (done) return
+  }
+}
 
-      // If only one version, no changes to report
-      if (sortedVersions.length <= 1) {
-        return {
-          answer: `This is the first version of "${documentName}". There are no previous versions to compare against, so no changes can be reported.\n\nTo see the document contents, click "View" on the source document below.`,
-          sources: [{
-            content: `First version uploaded`,
-            score: 1.0,
-            metadata: { filename: doc.name },
-            document_id: documentId,
-            version_id: doc.current_version_id,
-            filename: sortedVersions[0]?.filename || doc.name,
-          }],
-        }
-      }
+// Error message from a failed fetch, matching the axios client's interceptor
+async function responseError(response: Response): Promise<Error> {
+  const text = await response.text().catch(() => '')
+  try {
+    const data = JSON.parse(text)
+    return new Error(data.detail || data.error || text)
+  } catch {
+    return new Error(text || `Request failed with status ${response.status}`)
+  }
+}
 
-      // Get the current version and try to detect changes
-      const currentVersion = sortedVersions[sortedVersions.length - 1]
-      // Previous version available if needed: sortedVersions[sortedVersions.length - 2]
-
-      try {
-        // Try to get changes using the detect-changes API
-        const changes = await documentsApi.detectChanges(documentId, currentVersion.id, true)
-
-        if (changes && changes.changes && changes.changes.length > 0) {
-          // Format the changes into a readable response
-          const changesList = changes.changes.map(c => {
-            const prefix = c.type === 'added' ? '**Added:**' : c.type === 'removed' ? '**Removed:**' : '**Modified:**'
-            return `- ${prefix} ${c.section}: ${c.summary}`
-          }).join('\n')
-
-          return {
-            answer: `## Changes in ${documentName}\n\n${changes.summary || 'The following changes were detected:'}\n\n${changesList}\n\n*Compared Version ${sortedVersions.length} (current) with Version ${sortedVersions.length - 1}*`,
-            sources: [{
-              content: `Version ${sortedVersions.length}: ${changes.summary || 'Latest version'}`,
-              score: 1.0,
-              metadata: { filename: doc.name },
-              document_id: documentId,
-              version_id: currentVersion.id,
-              filename: currentVersion.filename || doc.name,
-            }],
-          }
-        }
-      } catch (err) {
-        console.warn('Failed to detect changes via API, using fallback:', err)
-      }
+import { searchApi, searchResultToSource } from './searchApi'
+
+// Map a retrieval result to a source; the server has already resolved its document and version
+function toCitedSource(result: RAGQueryResult): CitedSource {
+  return {
+    content: result.content,
+    score: result.score,
+    metadata: result.metadata,
+    chunk_id: result.chunk_id,
+    document_id: result.document_id,
+    version_id: result.version_id,
+    section: result.section || (result.metadata?.page_number ? `Page ${result.metadata.page_number}` : undefined),
+    updated_at: result.updated_at,
+    updated_by: result.updated_by,
+    // Extract additional fields from LlamaFarm metadata
+    filename: (result.metadata?.filename || result.metadata?.source) as string | undefined,
+    page_number: result.metadata?.page_number as number | undefined,
+    source: result.metadata?.source as string | undefined,
+    is_current: result.is_current,
+    superseded_by: result.superseded_by,
+  }
+}
 
-      // Fallback: Return version info without detailed changes
-      return {
-        answer: `## ${documentName}\n\nThis document has ${sortedVersions.length} versions. The current version was uploaded on ${new Date(currentVersion.uploaded_at).toLocaleDateString()}.\n\nTo see detailed changes between versions, an administrator can use the "Compare with current" feature in the version history.\n\n**Note:** Automatic change detection is not available for this document. Please review the document directly.`,
-        sources: [{
-          content: `Current version (v${sortedVersions.length})`,
-          score: 1.0,
-          metadata: { filename: doc.name },
-          document_id: documentId,
-          version_id: currentVersion.id,
-          filename: currentVersion.filename || doc.name,
-        }],
-      }
-    } catch (err) {
-      console.error('Failed to query document changes:', err)
-      throw err
-    }
-  },
+// Degraded-mode answer: the best-matching sentences, each cited to its policy, paragraph and page
+function extractiveAnswer(results: SearchResult[]): string {
+  if (results.length === 0) {
+    return 'The AI assistant is unavailable right now and no policy passages matched your question. Try different keywords, or ask again later.'
+  }
+  // Numbered like the sources list, so each bullet's [n] opens its passage
+  const bullets = results.slice(0, 3).map((result, index) => {
+    const title = result.short_title || result.document_name
+    const paragraph = result.section === 'Front matter' ? '' : `, para ${result.section}`
+    return `- "${result.snippet}" *(${title}${paragraph}, page ${result.page_number})* [${index + 1}]`
+  })
+  return `The AI assistant is unavailable right now, so here are the most relevant policy passages:\n\n${bullets.join('\n')}`
+}
 
-  // Perform RAG query (retrieval only)
-  async ragQuery(request: RAGQueryRequest): Promise<RAGQueryResponse> {
+export const chatApi = {
+  // Perform RAG query (retrieval only) - the server drops passages outside the caller's scope
+  async ragQuery(request: RAGQueryRequest, signal?: AbortSignal): Promise<RAGQueryResponse> {
     const { data } = await apiClient.post<RAGQueryResponse>(
-      projectUrl('/rag/query'),
+      projectUrl('/retrieve'),
       {
         query: request.query,
-        database: request.database || DATASET,
         top_k: request.top_k || 5,
+        version_id: request.version_id,
         retrieval_strategy: request.retrieval_strategy || 'semantic',
         embedding_strategy: request.embedding_strategy || EMBEDDING_STRATEGY,
         score_threshold: request.score_threshold,
-      }
+      },
+      { signal }
     )
     return data
   },
 
-  // Chat completion with optional RAG
-  async chat(
-    messages: ChatMessage[],
-    options?: {
-      ragEnabled?: boolean
-      database?: string
-      maxTokens?: number
-      temperature?: number
-    }
-  ): Promise<{
-    answer: string
-    sources: CitedSource[]
-  }> {
+  // Build the completion messages: system prompt, then (with RAG) the scope-filtered passages.
+  // LlamaFarm's built-in RAG is not used because it cannot filter by scope. If retrieval is
+  // unavailable, the answer comes from the server's local keyword index instead.
+  async prepareChat(messages: ChatMessage[], options?: ChatOptions): Promise<PreparedChat> {
     const ragEnabled = options?.ragEnabled ?? true
     const userQuery = messages.filter(m => m.role === 'user').pop()?.content || ''
 
@@ -274,89 +257,151 @@ export const chatApi = {
       ? messages
       : [{ role: 'system' as const, content: POLICY_SYSTEM_PROMPT }, ...messages]
 
-    // Run RAG query in parallel with chat to get sources
-    // LlamaFarm chat API uses RAG internally but doesn't return source metadata
-    const ragPromise = ragEnabled
-      ? this.ragQuery({
-          query: userQuery,
-          database: options?.database || DATASET,
-          top_k: 5,
-          retrieval_strategy: 'hybrid',
-          embedding_strategy: EMBEDDING_STRATEGY,
-        }).catch(() => null)
-      : Promise.resolve(null)
-
-    const chatPromise = apiClient.post<ChatCompletionResponse>(
-      projectUrl('/chat/completions'),
-      {
-        messages: messagesWithSystem,
-        max_tokens: options?.maxTokens || 600,  // Balanced for good answers
-        temperature: options?.temperature || 0.7,
-        // LlamaFarm expects flat RAG parameters (not nested rag object)
-        // hybrid retrieval combines semantic (embeddings) with BM25 (keyword) search
-        // for better coverage of military acronyms and terminology
-        ...(ragEnabled && {
-          rag_enabled: true,
-          database: options?.database || DATASET,
-          rag_top_k: 4,  // Reduced from 8 for speed
-          rag_retrieval_strategy: 'hybrid',
-        }),
-      }
-    )
+    if (!ragEnabled) {
+      return { messages: messagesWithSystem, sources: [], userQuery }
+    }
+
+    let ragResult: RAGQueryResponse
+    try {
+      ragResult = await this.ragQuery({
+        query: userQuery,
+        top_k: 5,
+        version_id: options?.versionId,
+        // hybrid combines semantic search with BM25 for military acronyms and terminology
+        retrieval_strategy: 'hybrid',
+        embedding_strategy: EMBEDDING_STRATEGY,
+      }, options?.signal)
+    } catch (err) {
+      if (options?.signal?.aborted) throw err
+      console.warn('RAG retrieval unavailable, answering from local search:', err)
+      return { response: await this.searchAnswer(userQuery, options?.versionId) }
+    }
+
+    return {
+      messages: [
+        ...messagesWithSystem.filter(m => m.role === 'system'),
+        buildContextMessage(ragResult.results, Boolean(options?.versionId)),
+        ...messagesWithSystem.filter(m => m.role !== 'system'),
+      ],
+      sources: ragResult.results.map(toCitedSource),
+      userQuery,
+    }
+  },
 
-    // Wait for both to complete
-    const [ragResult, chatResult] = await Promise.all([ragPromise, chatPromise])
+  // Chat completion with optional RAG
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    const prepared = await this.prepareChat(messages, options)
+    if ('response' in prepared) return prepared.response
+
+    let chatResult
+    try {
+      chatResult = await apiClient.post<ChatCompletionResponse>(
+        projectUrl('/chat/completions'),
+        {
+          messages: prepared.messages,
+          max_tokens: options?.maxTokens || 600,  // Balanced for good answers
+          temperature: options?.temperature || 0.7,
+          rag_enabled: false,
+        },
+        { signal: options?.signal }
+      )
+    } catch (err) {
+      if (!(options?.ragEnabled ?? true) || options?.signal?.aborted) throw err
+      console.warn('Chat completion unavailable, answering from local search:', err)
+      return this.searchAnswer(prepared.userQuery, options?.versionId)
+    }
 
     const answer = chatResult.data.choices[0]?.message?.content || ''
+    return { answer, sources: prepared.sources }
+  },
+
+  // Streamed chat completion: sources are reported as soon as retrieval finishes, then the
+  // answer token by token. Aborting the signal cancels the HTTP request and rejects with an
+  // AbortError; the tokens already delivered stand.
+  async chatStream(
+    messages: ChatMessage[],
+    options: ChatOptions,
+    handlers: ChatStreamHandlers
+  ): Promise<ChatResponse> {
+    const prepared = await this.prepareChat(messages, options)
+    if ('response' in prepared) {
+      handlers.onSources?.(prepared.response.sources)
+      handlers.onToken?.(prepared.response.answer)
+      return prepared.response
+    }
+    handlers.onSources?.(prepared.sources)
 
-    // Map RAG results to sources
-    const sources: CitedSource[] = (ragResult?.results || []).map((result) => ({
-      content: result.content,
-      score: result.score,
-      metadata: result.metadata,
-      chunk_id: result.chunk_id,
-      document_id: result.document_id,
-      version_id: result.version_id,
-      section: result.section || (result.metadata?.page_number ? `Page ${result.metadata.page_number}` : undefined),
-      updated_at: result.updated_at,
-      updated_by: result.updated_by,
-      // Extract additional fields from LlamaFarm metadata
-      filename: (result.metadata?.filename || result.metadata?.source) as string | undefined,
-      page_number: result.metadata?.page_number as number | undefined,
-      source: result.metadata?.source as string | undefined,
-    }))
-
-    // Enrich sources with document metadata (updated_at, updated_by) from documents API
-    const enrichedSources = await this.enrichSourcesWithDocumentInfo(sources)
-
-    return { answer, sources: enrichedSources }
+    let response: Response
+    try {
+      response = await fetch(`${API_BASE_URL}${projectUrl('/chat/completions')}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        credentials: 'include',
+        signal: options.signal,
+        body: JSON.stringify({
+          messages: prepared.messages,
+          max_tokens: options.maxTokens || 600,  // Balanced for good answers
+          temperature: options.temperature || 0.7,
+          rag_enabled: false,
+          stream: true,
+        }),
+      })
+      if (!response.ok || !response.body) throw await responseError(response)
+    } catch (err) {
+      if (!(options.ragEnabled ?? true) || options.signal?.aborted) throw err
+      // Nothing has streamed yet, so the local-search answer can still replace it
+      console.warn('Chat completion unavailable, answering from local search:', err)
+      const fallback = await this.searchAnswer(prepared.userQuery, options.versionId)
+      handlers.onSources?.(fallback.sources)
+      handlers.onToken?.(fallback.answer)
+      return fallback
+    }
+
+    let answer = ''
+    await readEventStream(response.body, data => {
+      const chunk = JSON.parse(data) as ChatCompletionChunk
+      const token = chunk.choices[0]?.delta?.content
+      if (token) {
+        answer += token
+        handlers.onToken?.(token)
+      }
+    })
+    return { answer, sources: prepared.sources }
   },
 
-  // Search documents (RAG query wrapper for simple searches)
-  // Uses hybrid retrieval for better keyword + semantic matching
-  async search(query: string, topK = 8): Promise<CitedSource[]> {
-    const response = await this.ragQuery({
-      query,
-      database: DATASET,
-      top_k: topK,
-      retrieval_strategy: 'hybrid',
-      embedding_strategy: EMBEDDING_STRATEGY,
+  // Check each sentence of an answer against the sources it was generated from
+  async verifyAnswer(answer: string, sources: CitedSource[]): Promise<GroundingReport> {
+    const { data } = await apiClient.post<GroundingReport>(projectUrl('/verify'), {
+      answer,
+      sources: sources.map(source => ({ content: source.content })),
     })
+    return data
+  },
+
+  // Extractive answer from the server's keyword index, used while LlamaFarm is down
+  async searchAnswer(query: string, versionId?: string): Promise<ChatResponse> {
+    const { results } = await searchApi.search(query, { limit: 5, versionId })
+    return {
+      answer: extractiveAnswer(results),
+      sources: results.map(searchResultToSource),
+      degraded: true,
+    }
+  },
 
-    return response.results.map((result) => ({
-      content: result.content,
-      score: result.score,
-      metadata: result.metadata,
-      chunk_id: result.chunk_id,
-      document_id: result.document_id,
-      version_id: result.version_id,
-      section: result.section || (result.metadata?.page_number ? `Page ${result.metadata.page_number}` : undefined),
-      updated_at: result.updated_at,
-      updated_by: result.updated_by,
-      // Extract additional fields from LlamaFarm metadata
-      filename: (result.metadata?.filename || result.metadata?.source) as string | undefined,
-      page_number: result.metadata?.page_number as number | undefined,
-      source: result.metadata?.source as string | undefined,
-    }))
+  // Search documents (RAG query wrapper for simple searches)
+  // Uses hybrid retrieval for better keyword + semantic matching, or local keyword search when LlamaFarm is down
+  async search(query: string, topK = 8): Promise<CitedSource[]> {
+    try {
+      const response = await this.ragQuery({
+        query,
+        top_k: topK,
+        retrieval_strategy: 'hybrid',
+        embedding_strategy: EMBEDDING_STRATEGY,
+      })
+      return response.results.map(toCitedSource)
+    } catch {
+      const { results } = await searchApi.search(query, { limit: topK })
+      return results.map(searchResultToSource)
+    }
   },
 }
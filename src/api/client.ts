@@ -21,10 +21,13 @@ export const apiClient = axios.create({
 apiClient.interceptors.response.use(
   (response) => response,
   (error: AxiosError) => {
-    const message = error.response?.data
-      ? typeof error.response.data === 'object' && 'detail' in error.response.data
-        ? (error.response.data as { detail: string }).detail
-        : JSON.stringify(error.response.data)
+    const data = error.response?.data
+    const message = data
+      ? typeof data === 'object' && 'detail' in data
+        ? (data as { detail: string }).detail
+        : typeof data === 'object' && 'error' in data
+          ? (data as { error: string }).error
+          : JSON.stringify(data)
       : error.message
 
     console.error('API Error:', message)
@@ -37,4 +40,4 @@ export function projectUrl(path: string): string {
   return `/projects/${NAMESPACE}/${PROJECT}${path}`
 }
 
-export { NAMESPACE, PROJECT, DATASET }
+export { API_BASE_URL, NAMESPACE, PROJECT, DATASET }
@@ -0,0 +1,67 @@
+import { apiClient, projectUrl } from './client'
+import type { Conversation, ConversationSummary, SaveConversationRequest, SharedConversation } from '@/types/conversation'
+
+interface ListConversationsResponse {
+  conversations: ConversationSummary[]
+}
+
+interface ConversationResponse {
+  conversation: Conversation
+}
+
+interface ShareResponse {
+  share_token: string
+  shared_at: string
+}
+
+export const conversationsApi = {
+  // The signed-in user's conversations, most recent first; query searches titles and messages
+  async listConversations(query?: string): Promise<ConversationSummary[]> {
+    const { data } = await apiClient.get<ListConversationsResponse>(projectUrl('/conversations'), {
+      params: query ? { q: query } : undefined,
+    })
+    return data.conversations
+  },
+
+  async getConversation(conversationId: string): Promise<Conversation> {
+    const { data } = await apiClient.get<ConversationResponse>(projectUrl(`/conversations/${conversationId}`))
+    return data.conversation
+  },
+
+  // Save a new conversation; the title defaults to its first question
+  async createConversation(request: SaveConversationRequest): Promise<Conversation> {
+    const { data } = await apiClient.post<ConversationResponse>(projectUrl('/conversations'), request)
+    return data.conversation
+  },
+
+  // Rename a conversation and/or replace its messages
+  async updateConversation(conversationId: string, request: SaveConversationRequest): Promise<Conversation> {
+    const { data } = await apiClient.put<ConversationResponse>(projectUrl(`/conversations/${conversationId}`), request)
+    return data.conversation
+  },
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    await apiClient.delete(projectUrl(`/conversations/${conversationId}`))
+  },
+
+  // Turn on the read-only share link and return its token
+  async shareConversation(conversationId: string): Promise<ShareResponse> {
+    const { data } = await apiClient.post<ShareResponse>(projectUrl(`/conversations/${conversationId}/share`))
+    return data
+  },
+
+  async unshareConversation(conversationId: string): Promise<void> {
+    await apiClient.delete(projectUrl(`/conversations/${conversationId}/share`))
+  },
+
+  // Read-only conversation behind a share link
+  async getSharedConversation(token: string): Promise<SharedConversation> {
+    const { data } = await apiClient.get<{ conversation: SharedConversation }>(projectUrl(`/shared/${token}`))
+    return data.conversation
+  },
+}
+
+// Address of the read-only page for a share token
+export function shareLink(token: string): string {
+  return `${window.location.origin}/shared/${token}`
+}
@@ -1,5 +1,5 @@
 import { apiClient, projectUrl } from './client'
-import type { DigestResponse } from '@/types/digest'
+import type { DigestEvent, DigestResponse } from '@/types/digest'
 
 export const digestApi = {
   /**
@@ -7,11 +7,13 @@ export const digestApi = {
    * @param period - 'week' or 'month'
    * @param year - 4-digit year
    * @param periodNum - week number (1-53) or month number (1-12)
+   * @param events - event kinds to include (both by default)
    */
   async getDigest(
     period: 'week' | 'month',
     year?: number,
-    periodNum?: number
+    periodNum?: number,
+    events?: DigestEvent[]
   ): Promise<DigestResponse> {
     const params = new URLSearchParams({ period })
 
@@ -23,6 +25,10 @@ export const digestApi = {
       params.set(period === 'week' ? 'week' : 'month', periodNum.toString())
     }
 
+    if (events?.length) {
+      params.set('events', events.join(','))
+    }
+
     const { data } = await apiClient.get<DigestResponse>(
       projectUrl(`/digest?${params.toString()}`)
     )
@@ -8,15 +8,18 @@ import type {
 } from '@/types/document'
 import type { PolicyScope } from '@/types/location'
 import type { MatchDetectionResult } from '@/types/match'
+import type { Job, RagStatus } from '@/types/job'
 
 interface ListDocumentsResponse {
   total: number
-  documents: PolicyDocument[]
+  documents: DocumentWithVersions[]
 }
 
 interface CreateDocumentResponse {
   document: PolicyDocument
   version: VersionMetadata
+  rag_status: RagStatus
+  jobs: Job[]
 }
 
 interface GetDocumentResponse {
@@ -32,6 +35,7 @@ interface ListVersionsResponse {
 interface UploadVersionResponse {
   version: VersionMetadata
   message: string
+  job: Job | null  // Diff and summary run in the background when there is a version to compare against
 }
 
 interface CompareVersionsResponse {
@@ -55,22 +59,22 @@ export const documentsApi = {
     return data.document
   },
 
-  // Create a new document with first version
+  // Create a new document with first version (the server records the signed-in admin as uploader)
   async createDocument(
     file: File,
     name: string,
-    uploadedBy: string,
     shortTitle?: string,
     notes?: string,
-    scope?: PolicyScope | null
+    scope?: PolicyScope | null,
+    effectiveAt?: string
   ): Promise<CreateDocumentResponse> {
     const formData = new FormData()
     formData.append('file', file)
     formData.append('name', name)
-    formData.append('uploaded_by', uploadedBy)
     if (shortTitle) formData.append('short_title', shortTitle)
     if (notes) formData.append('notes', notes)
     if (scope) formData.append('scope', JSON.stringify(scope))
+    if (effectiveAt) formData.append('effective_at', effectiveAt)
 
     const { data } = await apiClient.post<CreateDocumentResponse>(
       projectUrl('/documents/'),
@@ -93,17 +97,17 @@ export const documentsApi = {
     return data
   },
 
-  // Upload a new version
+  // Upload a new version (the server records the signed-in admin as uploader)
   async uploadVersion(
     documentId: string,
     file: File,
-    uploadedBy: string,
-    notes?: string
+    notes?: string,
+    effectiveAt?: string
   ): Promise<UploadVersionResponse> {
     const formData = new FormData()
     formData.append('file', file)
-    formData.append('uploaded_by', uploadedBy)
     if (notes) formData.append('notes', notes)
+    if (effectiveAt) formData.append('effective_at', effectiveAt)
 
     const { data } = await apiClient.post<UploadVersionResponse>(
       projectUrl(`/documents/${documentId}/versions`),
@@ -113,6 +117,19 @@ export const documentsApi = {
     return data
   },
 
+  // Revert to an earlier version: its file is submitted as a new pending version
+  async revertVersion(
+    documentId: string,
+    versionId: string,
+    note: string
+  ): Promise<UploadVersionResponse> {
+    const { data } = await apiClient.post<UploadVersionResponse>(
+      projectUrl(`/documents/${documentId}/versions/${versionId}/revert`),
+      { note }
+    )
+    return data
+  },
+
   // Get a specific version with changes
   async getVersion(
     documentId: string,
@@ -160,24 +177,30 @@ export const documentsApi = {
     return data
   },
 
-  // Approve a pending version
+  // Approve the current review stage of a pending version (publishes after the final stage,
+  // or schedules it when the effective date is still ahead)
   async approveVersion(
     documentId: string,
-    versionId: string
-  ): Promise<{ message: string; version: VersionMetadata }> {
+    versionId: string,
+    comment?: string,
+    effectiveAt?: string
+  ): Promise<{ message: string; version: VersionMetadata; rag_status?: RagStatus; jobs?: Job[] }> {
     const { data } = await apiClient.post(
-      projectUrl(`/documents/${documentId}/versions/${versionId}/approve`)
+      projectUrl(`/documents/${documentId}/versions/${versionId}/approve`),
+      { comment, ...(effectiveAt !== undefined && { effective_at: effectiveAt }) }
     )
     return data
   },
 
-  // Reject a pending version
+  // Reject a pending version - the version is kept with status 'rejected'
   async rejectVersion(
     documentId: string,
-    versionId: string
-  ): Promise<{ message: string }> {
-    const { data } = await apiClient.delete(
-      projectUrl(`/documents/${documentId}/versions/${versionId}`)
+    versionId: string,
+    comment: string
+  ): Promise<{ message: string; version: VersionMetadata }> {
+    const { data } = await apiClient.post(
+      projectUrl(`/documents/${documentId}/versions/${versionId}/reject`),
+      { comment }
     )
     return data
   },
@@ -231,9 +254,11 @@ export const documentsApi = {
 }
 
 // Demo types
+// Limits are null when the server runs in durable storage mode
 export interface DemoLimits {
-  documents: { current: number; max: number }
-  storage: { current_bytes: number; max_bytes: number }
+  mode: 'durable' | 'session'
+  documents: { current: number; max: number | null }
+  storage: { current_bytes: number; max_bytes: number | null }
   can_upload: boolean
 }
 
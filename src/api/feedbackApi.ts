@@ -0,0 +1,39 @@
+import { apiClient, projectUrl } from './client'
+import type {
+  AnswerFeedback,
+  FeedbackReviewResponse,
+  FeedbackReviewStatus,
+  SubmitFeedbackRequest,
+  TriageCategory,
+} from '@/types/feedback'
+
+interface FeedbackResponse {
+  feedback: AnswerFeedback
+}
+
+export const feedbackApi = {
+  // Rate an answer; rating the same answer again replaces the rating
+  async submitFeedback(request: SubmitFeedbackRequest): Promise<AnswerFeedback> {
+    const { data } = await apiClient.post<FeedbackResponse>(projectUrl('/feedback'), request)
+    return data.feedback
+  },
+
+  // Withdraw the caller's rating of an answer
+  async removeFeedback(messageId: string): Promise<void> {
+    await apiClient.delete(projectUrl(`/feedback/${messageId}`))
+  },
+
+  // Downvoted answers grouped by the policy they cited (admins)
+  async listDownvotes(status: FeedbackReviewStatus = 'open', category?: TriageCategory): Promise<FeedbackReviewResponse> {
+    const { data } = await apiClient.get<FeedbackReviewResponse>(projectUrl('/feedback'), {
+      params: { status, ...(category ? { category } : {}) },
+    })
+    return data
+  },
+
+  // Mark a downvoted answer; null reopens it
+  async triage(feedbackId: string, category: TriageCategory | null, note?: string): Promise<AnswerFeedback> {
+    const { data } = await apiClient.put<FeedbackResponse>(projectUrl(`/feedback/${feedbackId}/triage`), { category, note })
+    return data.feedback
+  },
+}
@@ -0,0 +1,42 @@
+import { apiClient, projectUrl } from './client'
+import type { CreateImportResponse, LibraryImport } from '@/types/import'
+
+export const importsApi = {
+  // Stage a ZIP, or a folder under the server's import root, and start the dry run
+  async createImport(
+    source: { file: File } | { directory: string },
+    manifest?: File
+  ): Promise<CreateImportResponse> {
+    const formData = new FormData()
+    if ('file' in source) formData.append('file', source.file)
+    else formData.append('directory', source.directory)
+    if (manifest) formData.append('manifest', manifest)
+
+    const { data } = await apiClient.post<CreateImportResponse>(
+      projectUrl('/imports'),
+      formData,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    )
+    return data
+  },
+
+  // An import with its dry-run report once analyzed
+  async getImport(importId: string): Promise<LibraryImport> {
+    const { data } = await apiClient.get<{ import: LibraryImport }>(projectUrl(`/imports/${importId}`))
+    return data.import
+  },
+
+  // Create the planned documents and versions, leaving out the planned documents in `exclude`
+  async commitImport(importId: string, exclude: string[] = []): Promise<LibraryImport> {
+    const { data } = await apiClient.post<{ import: LibraryImport }>(
+      projectUrl(`/imports/${importId}/commit`),
+      { exclude }
+    )
+    return data.import
+  },
+
+  // Drop an import and its staged files
+  async discardImport(importId: string): Promise<void> {
+    await apiClient.delete(projectUrl(`/imports/${importId}`))
+  },
+}
@@ -0,0 +1,25 @@
+import { apiClient, projectUrl } from './client'
+import type { Job } from '@/types/job'
+
+const POLL_INTERVAL_MS = 1000
+const POLL_TIMEOUT_MS = 2 * 60 * 1000
+
+export const jobsApi = {
+  // Current state of a background job
+  async getJob(jobId: string): Promise<Job> {
+    const { data } = await apiClient.get<{ job: Job }>(projectUrl(`/jobs/${jobId}`))
+    return data.job
+  },
+
+  // Poll a job until it succeeds or fails, reporting every update; gives up after two minutes
+  async waitForJob(jobId: string, onUpdate?: (job: Job) => void): Promise<Job> {
+    const deadline = Date.now() + POLL_TIMEOUT_MS
+    for (;;) {
+      const job = await this.getJob(jobId)
+      onUpdate?.(job)
+      if (job.status === 'succeeded' || job.status === 'failed') return job
+      if (Date.now() > deadline) throw new Error('Timed out waiting for document processing')
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+    }
+  },
+}
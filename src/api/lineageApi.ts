@@ -0,0 +1,59 @@
+import { apiClient, projectUrl } from './client'
+import type {
+  DocumentRelationship,
+  DocumentRelationshipsResponse,
+  LineageGraph,
+  RelationshipRole,
+  ScanResponse,
+} from '@/types/lineage'
+import type { Job } from '@/types/job'
+
+interface RelationshipResponse {
+  relationship: DocumentRelationship
+}
+
+export const lineageApi = {
+  // A document's confirmed relationships, plus suggestions for admins
+  async getRelationships(documentId: string): Promise<DocumentRelationshipsResponse> {
+    const { data } = await apiClient.get<DocumentRelationshipsResponse>(
+      projectUrl(`/documents/${documentId}/relationships`)
+    )
+    return data
+  },
+
+  // Relate a document to another; confirms a matching suggestion if there is one
+  async addRelationship(documentId: string, type: RelationshipRole, targetDocumentId: string): Promise<DocumentRelationship> {
+    const { data } = await apiClient.post<RelationshipResponse>(
+      projectUrl(`/documents/${documentId}/relationships`),
+      { type, target_document_id: targetDocumentId }
+    )
+    return data.relationship
+  },
+
+  // Scan the current version's text for related policies again
+  async scan(documentId: string): Promise<Job> {
+    const { data } = await apiClient.post<ScanResponse>(
+      projectUrl(`/documents/${documentId}/relationships/scan`)
+    )
+    return data.job
+  },
+
+  // Confirm or dismiss a suggestion
+  async decide(relationshipId: string, status: 'confirmed' | 'dismissed'): Promise<DocumentRelationship> {
+    const { data } = await apiClient.put<RelationshipResponse>(
+      projectUrl(`/relationships/${relationshipId}`),
+      { status }
+    )
+    return data.relationship
+  },
+
+  async removeRelationship(relationshipId: string): Promise<void> {
+    await apiClient.delete(projectUrl(`/relationships/${relationshipId}`))
+  },
+
+  // Confirmed relationships reachable from a document
+  async getLineage(documentId: string): Promise<LineageGraph> {
+    const { data } = await apiClient.get<LineageGraph>(projectUrl(`/documents/${documentId}/lineage`))
+    return data
+  },
+}
@@ -0,0 +1,22 @@
+import { apiClient, projectUrl } from './client'
+import type { ReferenceReport, ReferenceScanResponse } from '@/types/references'
+import type { Job } from '@/types/job'
+
+export const referencesApi = {
+  // Policies whose citations are missing, superseded, point at a removed paragraph or cite an updated policy
+  async getReport(): Promise<ReferenceReport> {
+    const { data } = await apiClient.get<ReferenceReport>(projectUrl('/references/report'))
+    return data
+  },
+
+  // Extract the citations of every current version again
+  async scanLibrary(): Promise<Job[]> {
+    const { data } = await apiClient.post<ReferenceScanResponse>(projectUrl('/references/scan'))
+    return data.jobs
+  },
+
+  // Clear the "cited policy updated" flags once the citations have been checked
+  async markReviewed(documentId: string): Promise<void> {
+    await apiClient.post(projectUrl(`/documents/${documentId}/references/review`))
+  },
+}
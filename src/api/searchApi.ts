@@ -0,0 +1,43 @@
+import { apiClient, projectUrl } from './client'
+import type { CitedSource } from '@/types/chat'
+import type { SearchFilters, SearchResponse, SearchResult } from '@/types/search'
+
+// Map a keyword-search passage to a source for SourcesDisplay and DocumentViewer
+export function searchResultToSource(result: SearchResult): CitedSource {
+  return {
+    content: result.content,
+    score: result.score,
+    metadata: result.metadata,
+    document_id: result.document_id,
+    version_id: result.version_id,
+    section: result.section,
+    updated_at: result.updated_at,
+    updated_by: result.updated_by,
+    filename: result.metadata.filename,
+    page_number: result.page_number,
+    is_current: result.is_current,
+  }
+}
+
+export const searchApi = {
+  // Keyword search over policy text (current versions unless filtered); works while LlamaFarm is down
+  async search(
+    query: string,
+    options?: { limit?: number; versionId?: string; filters?: SearchFilters }
+  ): Promise<SearchResponse> {
+    const filters = options?.filters
+    const { data } = await apiClient.get<SearchResponse>(projectUrl('/search'), {
+      params: {
+        q: query,
+        limit: options?.limit,
+        version_id: options?.versionId,
+        status: filters?.status,
+        scope_level: filters?.scopeLevel,
+        series: filters?.series,
+        from: filters?.from,
+        to: filters?.to,
+      },
+    })
+    return data
+  },
+}
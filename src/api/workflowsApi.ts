@@ -0,0 +1,53 @@
+import { apiClient, projectUrl } from './client'
+import type { PendingReview, SaveWorkflowRequest, Workflow } from '@/types/workflow'
+
+interface ListWorkflowsResponse {
+  workflows: Workflow[]
+  default_workflow: Workflow
+}
+
+interface WorkflowResponse {
+  workflow: Workflow
+}
+
+interface ListReviewsResponse {
+  total: number
+  reviews: PendingReview[]
+}
+
+export const workflowsApi = {
+  // List configured workflows and the one that applies by default
+  async listWorkflows(): Promise<ListWorkflowsResponse> {
+    const { data } = await apiClient.get<ListWorkflowsResponse>(projectUrl('/workflows'))
+    return data
+  },
+
+  // Create a workflow (superadmin only)
+  async createWorkflow(request: SaveWorkflowRequest): Promise<Workflow> {
+    const { data } = await apiClient.post<WorkflowResponse>(projectUrl('/workflows'), request)
+    return data.workflow
+  },
+
+  // Replace a workflow's name, stages and reviewers (superadmin only)
+  async updateWorkflow(workflowId: string, request: SaveWorkflowRequest): Promise<Workflow> {
+    const { data } = await apiClient.put<WorkflowResponse>(projectUrl(`/workflows/${workflowId}`), request)
+    return data.workflow
+  },
+
+  // Delete a workflow (superadmin only)
+  async deleteWorkflow(workflowId: string): Promise<{ message: string }> {
+    const { data } = await apiClient.delete(projectUrl(`/workflows/${workflowId}`))
+    return data
+  },
+
+  // Choose the workflow for a document's future versions (null = default)
+  async assignWorkflow(documentId: string, workflowId: string | null): Promise<void> {
+    await apiClient.put(projectUrl(`/documents/${documentId}/workflow`), { workflow_id: workflowId })
+  },
+
+  // Pending versions awaiting a review decision
+  async listPendingReviews(): Promise<PendingReview[]> {
+    const { data } = await apiClient.get<ListReviewsResponse>(projectUrl('/reviews'))
+    return data.reviews
+  },
+}
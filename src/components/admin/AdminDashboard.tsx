@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { FileText, History, Upload, Eye, RefreshCw, Loader2, AlertCircle, Trash2, BookOpen } from 'lucide-react'
+import { FileText, History, Upload, Eye, RefreshCw, Loader2, AlertCircle, Trash2, BookOpen, ClipboardCheck, FileArchive } from 'lucide-react'
 import { toast } from 'sonner'
 import type { PolicyDocument } from '@/types/document'
+import type { PendingReview } from '@/types/workflow'
 import { documentsApi, type DemoLimits } from '@/api/documentsApi'
+import { workflowsApi } from '@/api/workflowsApi'
 import { FullPageDropZone } from '@/components/ui/FullPageDropZone'
 import { DemoBanner } from './DemoBanner'
 import { SampleLibraryModal } from './SampleLibrary'
@@ -81,14 +83,16 @@ export function AdminDashboard() {
   const [error, setError] = useState<string | null>(null)
   const [limits, setLimits] = useState<DemoLimits | null>(null)
   const [showSamples, setShowSamples] = useState(false)
+  const [reviews, setReviews] = useState<PendingReview[]>([])
 
   const loadDocuments = async () => {
     try {
       setLoading(true)
       setError(null)
-      const [response, limitsResponse] = await Promise.all([
+      const [response, limitsResponse, reviewsResponse] = await Promise.all([
         documentsApi.listDocuments(),
         documentsApi.getLimits().catch(() => null),
+        workflowsApi.listPendingReviews().catch(() => []),
       ])
       // Handle case where API returns unexpected format
       if (response?.documents && Array.isArray(response.documents)) {
@@ -101,6 +105,7 @@ export function AdminDashboard() {
         throw new Error('Invalid API response format')
       }
       if (limitsResponse) setLimits(limitsResponse)
+      setReviews(reviewsResponse)
     } catch (err) {
       console.error('Failed to load documents:', err)
       setError('Failed to load documents. Make sure the server is running.')
@@ -166,6 +171,15 @@ export function AdminDashboard() {
             <BookOpen className="w-4 h-4" />
             Sample Docs
           </button>
+          <button
+            onClick={() => navigate('/upload/bulk')}
+            disabled={limits ? !limits.can_upload : false}
+            className="flex items-center gap-2 px-4 py-2 border border-border text-foreground rounded-md hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={limits && !limits.can_upload ? 'Upload limit reached' : 'Import a ZIP or folder of policies'}
+          >
+            <FileArchive className="w-4 h-4" />
+            Bulk Import
+          </button>
           <button
             onClick={() => navigate('/upload')}
             disabled={limits ? !limits.can_upload : false}
@@ -199,20 +213,53 @@ export function AdminDashboard() {
           <div className="grid grid-cols-3 gap-4 mb-6">
             <div className="bg-card border border-border rounded-lg p-4">
               <div className="text-2xl font-semibold font-display">
-                {limits ? `${limits.documents.current} / ${limits.documents.max}` : policies.length}
+                {limits?.documents.max ? `${limits.documents.current} / ${limits.documents.max}` : policies.length}
               </div>
               <div className="text-sm text-muted-foreground">Total Policies</div>
             </div>
             <div className="bg-card border border-border rounded-lg p-4">
-              <div className="text-2xl font-semibold text-green-500 font-display">{policies.length}</div>
+              <div className="text-2xl font-semibold text-green-500 font-display">
+                {policies.length - new Set(reviews.map(r => r.document_id)).size}
+              </div>
               <div className="text-sm text-muted-foreground">Up to Date</div>
             </div>
             <div className="bg-card border border-border rounded-lg p-4">
-              <div className="text-2xl font-semibold text-amber-500 font-display">0</div>
+              <div className="text-2xl font-semibold text-amber-500 font-display">{reviews.length}</div>
               <div className="text-sm text-muted-foreground">Pending Review</div>
             </div>
           </div>
 
+          {/* Review queue */}
+          {reviews.length > 0 && (
+            <div className="bg-card border border-border rounded-lg overflow-hidden mb-6">
+              <div className="px-4 py-3 border-b border-border bg-muted/30 flex items-center gap-2">
+                <ClipboardCheck className="w-4 h-4 text-amber-500" />
+                <h2 className="font-semibold text-foreground">Awaiting Review</h2>
+              </div>
+              <div className="divide-y divide-border">
+                {reviews.map(review => (
+                  <div key={review.version_id} className="px-4 py-3 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{review.document_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {review.stage?.name} (stage {review.stage_index + 1} of {review.stage_count}) · uploaded by {review.uploaded_by}
+                        {!review.can_review && review.stage && (
+                          <> · waiting on {review.stage.reviewers.map(r => r.name).join(', ')}</>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => navigate(`/review/${review.document_id}/${review.current_version_id}`)}
+                      className="px-3 py-1.5 text-sm bg-primary/10 text-primary hover:bg-primary/20 rounded-md transition-colors"
+                    >
+                      {review.can_review ? 'Review' : 'View'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Policy grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {policies.map((policy) => (
@@ -1,47 +1,11 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useAuth, type UserRole } from '@/contexts/AuthContext'
 import { toast } from 'sonner'
-import { UserCircle, Shield, ShieldAlert, Trash2, Plus } from 'lucide-react'
-
-interface AdminMember {
-  id: string
-  name: string
-  email: string
-  role: UserRole
-  canRemove: boolean
-}
-
-// Mock admin list
-const INITIAL_ADMINS: AdminMember[] = [
-  {
-    id: '1',
-    name: 'Capt. Sarah Mitchell',
-    email: 'sarah.mitchell@us.af.mil',
-    role: 'superadmin',
-    canRemove: false, // Superadmins can't be removed
-  },
-  {
-    id: '2',
-    name: 'TSgt John Smith',
-    email: 'john.smith@us.af.mil',
-    role: 'admin',
-    canRemove: true,
-  },
-  {
-    id: '3',
-    name: 'MSgt Maria Johnson',
-    email: 'maria.johnson@us.af.mil',
-    role: 'admin',
-    canRemove: true,
-  },
-  {
-    id: '4',
-    name: 'Col. David Williams',
-    email: 'david.williams@us.af.mil',
-    role: 'superadmin',
-    canRemove: false, // Superadmins can't be removed
-  },
-]
+import { UserCircle, Shield, ShieldAlert, Trash2, Plus, Loader2, AlertCircle, MapPin } from 'lucide-react'
+import { adminsApi } from '@/api/adminsApi'
+import type { AdminMember, AdminRole } from '@/types/admin'
+import type { UserLocation } from '@/types/location'
+import { installations, wings } from '@/types/location'
 
 function getRoleIcon(role: UserRole) {
   switch (role) {
@@ -66,23 +30,74 @@ function getRoleBadge(role: UserRole) {
   }
 }
 
+// Build a UserLocation from an installation + wing selection
+function buildLocation(installation: string, wing: string): UserLocation | null {
+  const match = installations.find(i => i.value === installation)
+  if (!match || !wing) return null
+  return { majcom: match.majcom, installation: match.value, wing }
+}
+
 export function AdminManagement() {
-  const { isSuperAdmin } = useAuth()
-  const [admins, setAdmins] = useState<AdminMember[]>(INITIAL_ADMINS)
+  const { isSuperAdmin, adminUser } = useAuth()
+  const [admins, setAdmins] = useState<AdminMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
   const [newEmail, setNewEmail] = useState('')
-  const [newRole, setNewRole] = useState<'admin' | 'superadmin'>('admin')
+  const [newRole, setNewRole] = useState<AdminRole>('admin')
+  const [newInstallation, setNewInstallation] = useState(adminUser?.location.installation ?? 'JBSA')
+  const [newWing, setNewWing] = useState(adminUser?.location.wing ?? '')
+  const [newPassword, setNewPassword] = useState('')
+
+  const wingOptions = wings.filter(w => w.installation === newInstallation)
 
-  const handleRemoveAdmin = (admin: AdminMember) => {
-    if (!admin.canRemove) {
+  const loadAdmins = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setAdmins(await adminsApi.listAdmins())
+    } catch (err) {
+      console.error('Failed to load admins:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load administrators')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (isSuperAdmin) loadAdmins()
+  }, [isSuperAdmin])
+
+  const handleRemoveAdmin = async (admin: AdminMember) => {
+    if (!admin.can_remove) {
       toast.error('Cannot remove superadmins')
       return
     }
 
-    setAdmins(prev => prev.filter(a => a.id !== admin.id))
-    toast.success(`Removed ${admin.name} from admin list`)
+    try {
+      await adminsApi.removeAdmin(admin.id)
+      setAdmins(prev => prev.filter(a => a.id !== admin.id))
+      toast.success(`Removed ${admin.name} from admin list`)
+    } catch (err) {
+      toast.error('Failed to remove admin', {
+        description: err instanceof Error ? err.message : 'An error occurred',
+      })
+    }
   }
 
-  const handleAddAdmin = (e: React.FormEvent) => {
+  const handleRoleChange = async (admin: AdminMember, role: AdminRole) => {
+    try {
+      const updated = await adminsApi.updateAdmin(admin.id, { role })
+      setAdmins(prev => prev.map(a => (a.id === updated.id ? updated : a)))
+      toast.success(`${updated.name} is now ${role}`)
+    } catch (err) {
+      toast.error('Failed to change role', {
+        description: err instanceof Error ? err.message : 'An error occurred',
+      })
+    }
+  }
+
+  const handleAddAdmin = async (e: React.FormEvent) => {
     e.preventDefault()
 
     if (!newEmail.trim()) {
@@ -95,24 +110,31 @@ export function AdminManagement() {
       return
     }
 
-    // Check if already exists
-    if (admins.some(a => a.email.toLowerCase() === newEmail.toLowerCase())) {
-      toast.error('This user is already an admin')
+    const location = buildLocation(newInstallation, newWing)
+    if (!location) {
+      toast.error('Please select an installation and wing')
       return
     }
 
-    // Mock adding a new admin
-    const newAdmin: AdminMember = {
-      id: Date.now().toString(),
-      name: newEmail.split('@')[0].replace('.', ' ').replace(/\b\w/g, l => l.toUpperCase()),
-      email: newEmail,
-      role: newRole,
-      canRemove: newRole === 'admin', // Only regular admins can be removed
+    setSaving(true)
+    try {
+      const added = await adminsApi.addAdmin({
+        email: newEmail.trim(),
+        role: newRole,
+        location,
+        ...(newPassword && { password: newPassword }),
+      })
+      setAdmins(prev => [...prev.filter(a => a.id !== added.id), added])
+      setNewEmail('')
+      setNewPassword('')
+      toast.success(`Added ${added.name} as ${added.role}`)
+    } catch (err) {
+      toast.error('Failed to add admin', {
+        description: err instanceof Error ? err.message : 'An error occurred',
+      })
+    } finally {
+      setSaving(false)
     }
-
-    setAdmins(prev => [...prev, newAdmin])
-    setNewEmail('')
-    toast.success(`Added ${newAdmin.name} as ${newRole}`)
   }
 
   if (!isSuperAdmin) {
@@ -143,6 +165,17 @@ export function AdminManagement() {
         <div className="px-4 py-3 border-b border-border bg-muted/30">
           <h2 className="font-semibold text-foreground">Current Administrators</h2>
         </div>
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        )}
+        {error && (
+          <div className="m-4 flex items-center gap-2 text-sm text-red-500 bg-red-500/10 px-3 py-2 rounded-md">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
         <div className="divide-y divide-border">
           {admins.map(admin => (
             <div
@@ -154,11 +187,28 @@ export function AdminManagement() {
                 <div className="min-w-0">
                   <div className="font-medium text-foreground truncate">{admin.name}</div>
                   <div className="text-sm text-muted-foreground truncate">{admin.email}</div>
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground mt-0.5">
+                    <MapPin className="w-3 h-3" />
+                    {admin.location.wing} · {admin.location.installation} · {admin.location.majcom}
+                    {!admin.can_sign_in && <span className="ml-2 text-amber-500">No password set</span>}
+                  </div>
                 </div>
               </div>
               <div className="flex items-center gap-3">
-                {getRoleBadge(admin.role)}
-                {admin.canRemove ? (
+                {admin.id === adminUser?.id ? (
+                  getRoleBadge(admin.role)
+                ) : (
+                  <select
+                    value={admin.role}
+                    onChange={e => handleRoleChange(admin, e.target.value as AdminRole)}
+                    className="px-2 py-1 rounded-md border border-input bg-background text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    title="Change role"
+                  >
+                    <option value="admin">Admin</option>
+                    <option value="superadmin">Superadmin</option>
+                  </select>
+                )}
+                {admin.can_remove ? (
                   <button
                     onClick={() => handleRemoveAdmin(admin)}
                     className="p-2 text-destructive hover:bg-destructive/10 rounded-md transition-colors"
@@ -204,20 +254,69 @@ export function AdminManagement() {
               <select
                 id="role"
                 value={newRole}
-                onChange={e => setNewRole(e.target.value as 'admin' | 'superadmin')}
+                onChange={e => setNewRole(e.target.value as AdminRole)}
                 className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
               >
                 <option value="admin">Admin</option>
                 <option value="superadmin">Superadmin</option>
               </select>
             </div>
+            <div>
+              <label htmlFor="installation" className="block text-sm font-medium text-foreground mb-1.5">
+                Installation
+              </label>
+              <select
+                id="installation"
+                value={newInstallation}
+                onChange={e => {
+                  setNewInstallation(e.target.value)
+                  setNewWing('')
+                }}
+                className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {installations.map(i => (
+                  <option key={i.value} value={i.value}>{i.label} ({i.majcom})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="wing" className="block text-sm font-medium text-foreground mb-1.5">
+                Wing
+              </label>
+              <select
+                id="wing"
+                value={newWing}
+                onChange={e => setNewWing(e.target.value)}
+                className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">Select a wing...</option>
+                {wingOptions.map(w => (
+                  <option key={w.value} value={w.value}>{w.value} - {w.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="password" className="block text-sm font-medium text-foreground mb-1.5">
+                Temporary Password <span className="text-muted-foreground font-normal">(optional, min 8 characters)</span>
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={newPassword}
+                onChange={e => setNewPassword(e.target.value)}
+                autoComplete="new-password"
+                placeholder="Leave blank to promote an existing account"
+                className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
           </div>
           <div className="flex justify-end">
             <button
               type="submit"
-              className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+              disabled={saving}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
             >
-              <Plus className="w-4 h-4" />
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
               Add Administrator
             </button>
           </div>
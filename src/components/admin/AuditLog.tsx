@@ -0,0 +1,357 @@
+import { useState, useEffect } from 'react'
+import { toast } from 'sonner'
+import {
+  Loader2,
+  AlertCircle,
+  Download,
+  ShieldCheck,
+  ShieldX,
+  ChevronLeft,
+  ChevronRight,
+  ChevronDown,
+} from 'lucide-react'
+import { auditApi } from '@/api/auditApi'
+import { documentsApi } from '@/api/documentsApi'
+import type { AuditAction, AuditEntry, AuditFilters, AuditQueryResponse } from '@/types/audit'
+
+const PAGE_SIZE = 50
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'document.create': 'Document created',
+  'version.upload': 'Version uploaded',
+  'version.revert': 'Reverted to earlier version',
+  'version.approve': 'Version approved',
+  'version.reject': 'Version rejected',
+  'version.effective': 'Version took effect',
+  'version.superseded': 'Scheduled version superseded',
+  'document.delete': 'Document deleted',
+  'workspace.reset': 'Library reset',
+  'sample.add': 'Sample added',
+  'workflow.save': 'Workflow saved',
+  'workflow.delete': 'Workflow deleted',
+  'workflow.assign': 'Workflow assigned',
+  'relationship.create': 'Policy relationship added',
+  'relationship.confirm': 'Policy relationship confirmed',
+  'relationship.dismiss': 'Policy relationship dismissed',
+  'relationship.delete': 'Policy relationship removed',
+  'references.review': 'Cross-references reviewed',
+  'library.import': 'Library imported',
+}
+
+function getActionBadge(action: AuditAction) {
+  const baseClasses = 'px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap'
+  switch (action) {
+    case 'version.approve':
+    case 'version.effective':
+    case 'document.create':
+      return <span className={`${baseClasses} bg-green-500/20 text-green-600`}>{ACTION_LABELS[action]}</span>
+    case 'version.reject':
+    case 'document.delete':
+    case 'workspace.reset':
+    case 'workflow.delete':
+      return <span className={`${baseClasses} bg-red-500/20 text-red-600`}>{ACTION_LABELS[action]}</span>
+    default:
+      return <span className={`${baseClasses} bg-primary/20 text-primary`}>{ACTION_LABELS[action]}</span>
+  }
+}
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+// Date inputs give YYYY-MM-DD; widen "to" to the end of that day
+function toFilterRange(from: string, to: string): Pick<AuditFilters, 'from' | 'to'> {
+  return {
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+  }
+}
+
+function StateBlock({ label, value }: { label: string; value: unknown }) {
+  if (value === null || value === undefined) return null
+  return (
+    <div className="min-w-0">
+      <div className="text-xs font-medium text-muted-foreground mb-1">{label}</div>
+      <pre className="text-xs bg-muted/40 rounded p-2 overflow-x-auto font-mono">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  )
+}
+
+export function AuditLog() {
+  const [result, setResult] = useState<AuditQueryResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [offset, setOffset] = useState(0)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [documentNames, setDocumentNames] = useState<Record<string, string>>({})
+
+  const [action, setAction] = useState<AuditAction | ''>('')
+  const [actor, setActor] = useState('')
+  const [documentId, setDocumentId] = useState('')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+
+  const filters: AuditFilters = {
+    action: action || undefined,
+    actor: actor.trim() || undefined,
+    document_id: documentId || undefined,
+    ...toFilterRange(fromDate, toDate),
+  }
+
+  const loadEntries = async (nextOffset: number) => {
+    try {
+      setLoading(true)
+      setError(null)
+      setResult(await auditApi.query(filters, PAGE_SIZE, nextOffset))
+      setOffset(nextOffset)
+    } catch (err) {
+      console.error('Failed to load audit log:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load audit log')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    documentsApi.listDocuments()
+      .then(({ documents }) => setDocumentNames(Object.fromEntries(documents.map(d => [d.id, d.short_title || d.name]))))
+      .catch(err => console.error('Failed to load documents:', err))
+  }, [])
+
+  // Re-query from the first page whenever a filter changes
+  useEffect(() => {
+    loadEntries(0)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [action, actor, documentId, fromDate, toDate])
+
+  const handleExport = async () => {
+    try {
+      setExporting(true)
+      const blob = await auditApi.exportCsv(filters)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `regsync-audit-${new Date().toISOString().slice(0, 10)}.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      toast.error('Export failed', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  // Deleted documents no longer appear in the list, so fall back to the name captured in the entry
+  const documentLabel = (entry: AuditEntry) => {
+    if (!entry.document_id) return '—'
+    const captured = (entry.before ?? entry.after) as { name?: string; document?: { name?: string } } | null
+    return documentNames[entry.document_id] || captured?.name || captured?.document?.name || entry.document_id.slice(0, 8)
+  }
+
+  const total = result?.total ?? 0
+  const pageEnd = Math.min(offset + PAGE_SIZE, total)
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Audit Log</h1>
+          <p className="text-muted-foreground mt-1">
+            Append-only record of every document and version action
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={exporting || total === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-input bg-background text-foreground hover:bg-accent transition-colors disabled:opacity-50"
+        >
+          {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export CSV
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-card border border-border rounded-lg p-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <div>
+          <label htmlFor="audit-action" className="block text-sm font-medium text-foreground mb-1.5">Action</label>
+          <select
+            id="audit-action"
+            value={action}
+            onChange={e => setAction(e.target.value as AuditAction | '')}
+            className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map(a => (
+              <option key={a} value={a}>{ACTION_LABELS[a]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-actor" className="block text-sm font-medium text-foreground mb-1.5">Actor</label>
+          <input
+            id="audit-actor"
+            value={actor}
+            onChange={e => setActor(e.target.value)}
+            placeholder="Name"
+            className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-document" className="block text-sm font-medium text-foreground mb-1.5">Document</label>
+          <select
+            id="audit-document"
+            value={documentId}
+            onChange={e => setDocumentId(e.target.value)}
+            className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">All documents</option>
+            {Object.entries(documentNames).map(([id, label]) => (
+              <option key={id} value={id}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-from" className="block text-sm font-medium text-foreground mb-1.5">From</label>
+          <input
+            id="audit-from"
+            type="date"
+            value={fromDate}
+            onChange={e => setFromDate(e.target.value)}
+            className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-to" className="block text-sm font-medium text-foreground mb-1.5">To</label>
+          <input
+            id="audit-to"
+            type="date"
+            value={toDate}
+            onChange={e => setToDate(e.target.value)}
+            className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-card border border-border rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-border bg-muted/30 flex items-center justify-between">
+          <h2 className="font-semibold text-foreground">
+            Events {total > 0 && <span className="text-muted-foreground font-normal">({total})</span>}
+          </h2>
+          {result && (
+            result.integrity.valid ? (
+              <span className="flex items-center gap-1 text-xs text-green-600" title="Every entry's hash chain link is intact">
+                <ShieldCheck className="w-4 h-4" />
+                Chain verified
+              </span>
+            ) : (
+              <span className="flex items-center gap-1 text-xs text-red-500">
+                <ShieldX className="w-4 h-4" />
+                Tampering detected at entry #{result.integrity.broken_at}
+              </span>
+            )
+          )}
+        </div>
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        )}
+        {error && (
+          <div className="m-4 flex items-center gap-2 text-sm text-red-500 bg-red-500/10 px-3 py-2 rounded-md">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+        {!loading && !error && result?.entries.length === 0 && (
+          <div className="py-8 text-center text-sm text-muted-foreground">No events match these filters</div>
+        )}
+        {!loading && result && result.entries.length > 0 && (
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-muted-foreground border-b border-border">
+              <tr>
+                <th className="px-4 py-2 font-medium w-8"></th>
+                <th className="px-4 py-2 font-medium">When</th>
+                <th className="px-4 py-2 font-medium">Action</th>
+                <th className="px-4 py-2 font-medium">Actor</th>
+                <th className="px-4 py-2 font-medium">Document</th>
+                <th className="px-4 py-2 font-medium">IP</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {result.entries.map(entry => {
+                const expanded = expandedId === entry.id
+                return [
+                  <tr
+                    key={entry.id}
+                    onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    className="hover:bg-muted/20 transition-colors cursor-pointer"
+                  >
+                    <td className="px-4 py-2 text-muted-foreground">
+                      {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-muted-foreground">{formatTimestamp(entry.at)}</td>
+                    <td className="px-4 py-2">{getActionBadge(entry.action)}</td>
+                    <td className="px-4 py-2 text-foreground">{entry.actor?.name ?? 'Unknown'}</td>
+                    <td className="px-4 py-2 text-foreground truncate max-w-xs">{documentLabel(entry)}</td>
+                    <td className="px-4 py-2 font-mono text-xs text-muted-foreground">{entry.ip ?? '—'}</td>
+                  </tr>,
+                  expanded && (
+                    <tr key={`${entry.id}-detail`} className="bg-muted/10">
+                      <td></td>
+                      <td colSpan={5} className="px-4 py-3">
+                        <div className="grid gap-3 md:grid-cols-3">
+                          <StateBlock label="Before" value={entry.before} />
+                          <StateBlock label="After" value={entry.after} />
+                          <StateBlock label="Details" value={entry.details} />
+                        </div>
+                        <div className="mt-2 text-xs text-muted-foreground font-mono break-all">
+                          #{entry.seq} · {entry.actor?.role ?? 'anonymous'} · version {entry.version_id ?? '—'} · hash {entry.hash.slice(0, 16)}…
+                        </div>
+                      </td>
+                    </tr>
+                  ),
+                ]
+              })}
+            </tbody>
+          </table>
+        )}
+        {total > PAGE_SIZE && (
+          <div className="px-4 py-3 border-t border-border flex items-center justify-between text-sm text-muted-foreground">
+            <span>{offset + 1}–{pageEnd} of {total}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => loadEntries(Math.max(0, offset - PAGE_SIZE))}
+                disabled={loading || offset === 0}
+                className="p-1.5 rounded-md hover:bg-accent disabled:opacity-50"
+                title="Newer"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => loadEntries(offset + PAGE_SIZE)}
+                disabled={loading || pageEnd >= total}
+                className="p-1.5 rounded-md hover:bg-accent disabled:opacity-50"
+                title="Older"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
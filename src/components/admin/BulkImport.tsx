@@ -0,0 +1,347 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  ArrowLeft, ArrowRight, AlertCircle, AlertTriangle, Check, FileArchive, FileText, FolderOpen, Loader2, Table2, X,
+} from 'lucide-react'
+import { importsApi } from '@/api/importsApi'
+import { jobsApi } from '@/api/jobsApi'
+import { importSkipReasonLabels, type LibraryImport, type PlannedDocument } from '@/types/import'
+import { getSignalDescription } from '@/types/match'
+import { scopeLevelLabels } from '@/types/location'
+import { cn, formatEffectiveDate } from '@/lib/utils'
+
+type SourceType = 'zip' | 'directory'
+
+const ACTION_STYLES: Record<PlannedDocument['action'], string> = {
+  create: 'bg-green-500/20 text-green-600',
+  update: 'bg-blue-500/20 text-blue-600',
+}
+
+const ACTION_LABELS: Record<PlannedDocument['action'], string> = {
+  create: 'New document',
+  update: 'New versions',
+}
+
+// Load a policy library from a ZIP or a folder on the server, review the dry run, then commit it
+export function BulkImport() {
+  const navigate = useNavigate()
+  const [sourceType, setSourceType] = useState<SourceType>('zip')
+  const [zipFile, setZipFile] = useState<File | null>(null)
+  const [directory, setDirectory] = useState('')
+  const [manifest, setManifest] = useState<File | null>(null)
+  const [batch, setBatch] = useState<LibraryImport | null>(null)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [committing, setCommitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const canAnalyze = sourceType === 'zip' ? zipFile !== null : directory.trim() !== ''
+
+  const handleAnalyze = async () => {
+    setError(null)
+    setProgress('Uploading')
+    try {
+      const source = sourceType === 'zip' && zipFile ? { file: zipFile } : { directory: directory.trim() }
+      const { import: created, job } = await importsApi.createImport(source, manifest || undefined)
+      setProgress(`Staged ${created.file_count} PDFs`)
+      await jobsApi.waitForJob(job.id, update => setProgress(update.progress))
+      const analyzed = await importsApi.getImport(created.id)
+      if (analyzed.status === 'failed') setError(analyzed.error || 'The import could not be analyzed')
+      setBatch(analyzed)
+      setExcluded(new Set())
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Import failed'
+      setError(message)
+      toast.error('Import failed', { description: message })
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!batch) return
+    setCommitting(true)
+    try {
+      const committed = await importsApi.commitImport(batch.id, [...excluded])
+      setBatch(committed)
+      toast.success(`Imported ${committed.result?.new_versions ?? 0} versions`)
+    } catch (err) {
+      toast.error('Failed to commit the import', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setCommitting(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!batch) return
+    try {
+      if (batch.status !== 'failed') await importsApi.discardImport(batch.id)
+    } catch (err) {
+      toast.error('Failed to discard the import', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+      return
+    }
+    setBatch(null)
+    setError(null)
+  }
+
+  const toggleExcluded = (key: string) => {
+    const next = new Set(excluded)
+    if (next.has(key)) next.delete(key)
+    else next.add(key)
+    setExcluded(next)
+  }
+
+  const plan = batch?.plan
+  const included = plan?.documents.filter(doc => !excluded.has(doc.key)) || []
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div>
+        <button
+          onClick={() => navigate('/admin')}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to policies
+        </button>
+        <h1 className="text-2xl font-bold text-foreground">Bulk Import</h1>
+        <p className="text-muted-foreground mt-1">
+          Load a library of policies at once. Files are grouped into documents and versions, and nothing is saved until you review the plan.
+        </p>
+      </div>
+
+      {!batch && (
+        <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+          <div className="flex gap-2">
+            {(['zip', 'directory'] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setSourceType(value)}
+                className={cn(
+                  'flex items-center gap-2 px-3 py-2 text-sm border rounded-md',
+                  sourceType === value ? 'border-primary ring-1 ring-primary' : 'border-border hover:bg-accent'
+                )}
+              >
+                {value === 'zip' ? <FileArchive className="w-4 h-4" /> : <FolderOpen className="w-4 h-4" />}
+                {value === 'zip' ? 'ZIP archive' : 'Server folder'}
+              </button>
+            ))}
+          </div>
+
+          {sourceType === 'zip' ? (
+            <label className="block space-y-1">
+              <span className="text-sm font-medium">ZIP of PDFs</span>
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => setZipFile(e.target.files?.[0] || null)}
+                className="block w-full text-sm"
+              />
+            </label>
+          ) : (
+            <label className="block space-y-1">
+              <span className="text-sm font-medium">Folder</span>
+              <input
+                value={directory}
+                onChange={(e) => setDirectory(e.target.value)}
+                placeholder="e.g. 502-abw/instructions"
+                className="w-full px-3 py-2 text-sm bg-background border border-border rounded-md"
+              />
+              <span className="block text-xs text-muted-foreground">Relative to the server's import folder (REGSYNC_IMPORT_ROOT)</span>
+            </label>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-sm font-medium">Manifest (optional)</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setManifest(e.target.files?.[0] || null)}
+              className="block w-full text-sm"
+            />
+            <span className="block text-xs text-muted-foreground">
+              CSV with columns filename, name, short_title, scope (e.g. installation:JBSA) and effective_date.
+              A manifest.csv inside the ZIP or folder is used when none is chosen here.
+            </span>
+          </label>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleAnalyze}
+            disabled={!canAnalyze || progress !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+          >
+            {progress !== null ? <Loader2 className="w-4 h-4 animate-spin" /> : <Table2 className="w-4 h-4" />}
+            {progress ?? 'Analyze'}
+          </button>
+        </div>
+      )}
+
+      {batch && batch.status === 'failed' && (
+        <div className="flex items-center justify-between gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm">{error || batch.error}</p>
+          </div>
+          <button onClick={handleDiscard} className="text-sm underline shrink-0">Start over</button>
+        </div>
+      )}
+
+      {batch?.status === 'committed' && batch.result && (
+        <div className="bg-card border border-border rounded-lg">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-border">
+            <Check className="w-4 h-4 text-green-600" />
+            <h2 className="font-medium">
+              Created {batch.result.new_documents} documents and added {batch.result.new_versions} versions
+            </h2>
+          </div>
+          <ul className="divide-y divide-border">
+            {batch.result.documents.map((doc) => (
+              <li key={doc.key} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                <span className="truncate">{doc.name}</span>
+                {doc.error ? (
+                  <span className="text-xs text-red-600">{doc.error}</span>
+                ) : (
+                  <Link to={`/history/${doc.document_id}`} className="flex items-center gap-1 text-xs text-primary hover:underline shrink-0">
+                    {doc.action === 'create' ? `${doc.versions} versions` : `${doc.versions} pending`}
+                    <ArrowRight className="w-3 h-3" />
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {batch?.status === 'planned' && plan && (
+        <>
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {plan.stats.files} files from <span className="font-mono">{batch.source.name}</span>
+              {batch.has_manifest && ' with a manifest'}: {plan.stats.new_documents} new documents,{' '}
+              {plan.stats.updated_documents} existing documents with new versions, {plan.stats.skipped} skipped.
+              Versions of existing documents are submitted for review.
+            </p>
+            <div className="flex items-center gap-2 shrink-0">
+              <button
+                onClick={handleDiscard}
+                disabled={committing}
+                className="flex items-center gap-2 px-3 py-2 text-sm border border-border rounded-md hover:bg-accent disabled:opacity-50"
+              >
+                <X className="w-4 h-4" />
+                Discard
+              </button>
+              <button
+                onClick={handleCommit}
+                disabled={committing || included.length === 0}
+                className="flex items-center gap-2 px-3 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+              >
+                {committing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                Import {included.length} {included.length === 1 ? 'document' : 'documents'}
+              </button>
+            </div>
+          </div>
+
+          {plan.warnings.length > 0 && (
+            <ul className="p-3 space-y-1 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-xs text-amber-700 dark:text-amber-400">
+              {plan.warnings.map((warning, i) => (
+                <li key={i} className="flex gap-1.5">
+                  <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+                  {warning.path && <span className="font-mono">{warning.path}:</span>}
+                  {warning.warning}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-3">
+            {plan.documents.map((doc) => (
+              <section
+                key={doc.key}
+                className={cn('bg-card border border-border rounded-lg', excluded.has(doc.key) && 'opacity-50')}
+              >
+                <div className="flex items-center gap-3 px-4 py-3 border-b border-border">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.has(doc.key)}
+                    onChange={() => toggleExcluded(doc.key)}
+                    title="Include in the import"
+                  />
+                  <FileText className="w-4 h-4 text-primary shrink-0" />
+                  <h2 className="font-medium truncate">{doc.name}</h2>
+                  {doc.short_title && (
+                    <span className="text-xs font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded shrink-0">
+                      {doc.short_title}
+                    </span>
+                  )}
+                  <span className={cn('px-2 py-0.5 rounded text-xs font-medium shrink-0', ACTION_STYLES[doc.action])}>
+                    {ACTION_LABELS[doc.action]}
+                  </span>
+                  {doc.scope && (
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {scopeLevelLabels[doc.scope.level]}{doc.scope.value && `: ${doc.scope.value}`}
+                    </span>
+                  )}
+                </div>
+                {doc.match && (
+                  <p className="px-4 pt-2 text-xs text-muted-foreground">
+                    {doc.match.score !== null && `Match ${doc.match.score}% · `}
+                    {doc.match.signals.map(getSignalDescription).join(' · ')}
+                  </p>
+                )}
+                <ul className="px-4 py-2 space-y-1 text-sm">
+                  {doc.versions.map((version) => (
+                    <li key={version.file_id} className="flex items-center gap-2">
+                      <span className="font-mono text-xs truncate">{version.path}</span>
+                      {version.effective_at && (
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          effective {formatEffectiveDate(version.effective_at)}
+                        </span>
+                      )}
+                      {version.current && (
+                        <span className="px-1.5 py-0.5 rounded text-xs bg-primary/10 text-primary shrink-0">Current</span>
+                      )}
+                      {version.scheduled && (
+                        <span className="px-1.5 py-0.5 rounded text-xs bg-blue-500/10 text-blue-600 shrink-0">Scheduled</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+
+          {plan.skipped.length > 0 && (
+            <div className="bg-card border border-border rounded-lg">
+              <h2 className="px-4 py-3 border-b border-border font-medium text-sm">
+                Skipped ({plan.skipped.length})
+              </h2>
+              <ul className="divide-y divide-border">
+                {plan.skipped.map((file) => (
+                  <li key={file.path} className="flex items-center gap-2 px-4 py-2 text-sm">
+                    <span className="font-mono text-xs truncate">{file.path}</span>
+                    <span className="px-2 py-0.5 rounded text-xs bg-muted text-muted-foreground shrink-0">
+                      {importSkipReasonLabels[file.reason]}
+                    </span>
+                    {file.detail && <span className="text-xs text-muted-foreground truncate">{file.detail}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
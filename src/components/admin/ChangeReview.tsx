@@ -2,10 +2,12 @@ import { useState, useEffect } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { Check, X, ChevronDown, ChevronRight, FileText, Loader2, AlertCircle, ArrowLeft } from 'lucide-react'
 import { toast } from 'sonner'
-import { cn } from '@/lib/utils'
-import type { Change, ChangesSummary } from '@/types/document'
+import { cn, formatEffectiveDate } from '@/lib/utils'
+import type { Change, ChangesSummary, DocumentVersion } from '@/types/document'
 import { documentsApi } from '@/api/documentsApi'
 import { useAuth } from '@/contexts/AuthContext'
+import { ReviewProgress } from './ReviewProgress'
+import { RedlineViewer } from '@/components/shared/RedlineViewer'
 
 interface ChangeItemProps {
   change: Change
@@ -18,6 +20,7 @@ function ChangeItem({ change, isExpanded, onToggle }: ChangeItemProps) {
     added: 'bg-green-500/10 text-green-500 border-green-500/20',
     modified: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
     removed: 'bg-red-500/10 text-red-500 border-red-500/20',
+    moved: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
   }
 
   return (
@@ -40,7 +43,9 @@ function ChangeItem({ change, isExpanded, onToggle }: ChangeItemProps) {
           {change.type.toUpperCase()}
         </span>
         <div className="flex-1 min-w-0">
-          <p className="font-medium truncate">{change.section}</p>
+          <p className="font-medium truncate">
+            {change.previous_section ? `${change.previous_section} → ${change.section}` : change.section}
+          </p>
           <p className="text-sm text-muted-foreground truncate">
             {change.summary}
           </p>
@@ -90,16 +95,30 @@ function ChangeItem({ change, isExpanded, onToggle }: ChangeItemProps) {
 export function ChangeReview() {
   const { documentId, versionId } = useParams()
   const navigate = useNavigate()
-  const { isAdmin } = useAuth()
+  const { isAdmin, adminUser } = useAuth()
   const [expandedChanges, setExpandedChanges] = useState<Set<number>>(new Set([0]))
   const [changes, setChanges] = useState<ChangesSummary | null>(null)
+  const [view, setView] = useState<'redline' | 'changes'>('redline')
   const [documentName, setDocumentName] = useState<string>('')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [pendingVersionId, setPendingVersionId] = useState<string | null>(null)
+  const [pendingVersion, setPendingVersion] = useState<DocumentVersion | null>(null)
+  const [comment, setComment] = useState('')
+  const [effectiveDate, setEffectiveDate] = useState('')
   const [approving, setApproving] = useState(false)
   const [rejecting, setRejecting] = useState(false)
 
+  const pendingVersionId = pendingVersion?.id ?? null
+  const review = pendingVersion?.review
+  const currentStage = review?.stages[review.stage_index]
+  const nextStage = review?.stages[review.stage_index + 1]
+  // Stages without named reviewers are open to any admin
+  const canDecide = isAdmin && (!currentStage || currentStage.reviewers.length === 0 ||
+    currentStage.reviewers.some(r => r.id === adminUser?.id))
+  // The final approval sets when the version takes effect; a future date schedules it
+  const isFinalStage = !nextStage
+  const schedules = isFinalStage && effectiveDate !== '' && new Date(effectiveDate) > new Date()
+
   useEffect(() => {
     const loadData = async () => {
       if (!documentId || !versionId) return
@@ -115,10 +134,9 @@ export function ChangeReview() {
         const versions = doc.versions || []
 
         // Find pending version (if any) - this is what we're reviewing
-        const pendingVersion = versions.find((v: any) => v.status === 'pending')
-        if (pendingVersion) {
-          setPendingVersionId(pendingVersion.id)
-        }
+        const pending = versions.find(v => v.status === 'pending')
+        setPendingVersion(pending ?? null)
+        setEffectiveDate(pending?.effective_at?.slice(0, 10) ?? '')
 
         if (versions.length < 2) {
           setError('Need at least 2 versions to compare')
@@ -127,7 +145,7 @@ export function ChangeReview() {
 
         // Compare the old version (versionId param) with the newest version
         // The newest version is either pending or the current version
-        const newestVersion = pendingVersion || versions[versions.length - 1]
+        const newestVersion = pending || versions[versions.length - 1]
         const comparison = await documentsApi.compareVersions(
           documentId,
           versionId,  // old version (current published)
@@ -167,10 +185,23 @@ export function ChangeReview() {
 
     try {
       setApproving(true)
-      await documentsApi.approveVersion(documentId, pendingVersionId)
-      toast.success('Version published!', {
-        description: `${documentName} has been updated and is now available to users.`,
-      })
+      const result = await documentsApi.approveVersion(
+        documentId,
+        pendingVersionId,
+        comment.trim() || undefined,
+        isFinalStage ? effectiveDate : undefined
+      )
+      if (result.version.status === 'scheduled' && result.version.effective_at) {
+        toast.success('Version scheduled', {
+          description: `${documentName} takes effect ${formatEffectiveDate(result.version.effective_at)}.`,
+        })
+      } else if (result.version.status === 'published') {
+        toast.success('Version published!', {
+          description: `${documentName} has been updated and is now available to users.`,
+        })
+      } else {
+        toast.success('Stage approved', { description: result.message })
+      }
       navigate('/admin')
     } catch (err) {
       console.error('Failed to approve:', err)
@@ -190,11 +221,16 @@ export function ChangeReview() {
       return
     }
 
+    if (!comment.trim()) {
+      toast.error('Add a comment explaining why the version is rejected')
+      return
+    }
+
     try {
       setRejecting(true)
-      await documentsApi.rejectVersion(documentId, pendingVersionId)
+      await documentsApi.rejectVersion(documentId, pendingVersionId, comment.trim())
       toast.info('Version rejected', {
-        description: 'The pending version has been removed.',
+        description: 'The version is kept in history as rejected.',
       })
       navigate(`/history/${documentId}`)
     } catch (err) {
@@ -253,6 +289,13 @@ export function ChangeReview() {
         </div>
       )}
 
+      {/* Workflow progress */}
+      {review && (
+        <div className="mb-6 bg-card border border-border rounded-lg p-4">
+          <ReviewProgress review={review} />
+        </div>
+      )}
+
 
       {/* Header */}
       <div className="flex items-start justify-between mb-6">
@@ -276,8 +319,30 @@ export function ChangeReview() {
         <p className="text-sm text-muted-foreground">{changes.summary}</p>
       </div>
 
-      {/* Changes list */}
-      {changes.changes.length > 0 ? (
+      {/* View toggle */}
+      {changes.redline && changes.changes.length > 0 && (
+        <div className="flex gap-1 mb-3">
+          {(['redline', 'changes'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={cn(
+                'px-3 py-1.5 rounded-md text-sm transition-colors',
+                view === option ? 'bg-accent text-foreground font-medium' : 'text-muted-foreground hover:bg-accent/50'
+              )}
+            >
+              {option === 'redline' ? 'Redline' : 'Change list'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Changes */}
+      {changes.redline && changes.changes.length > 0 && view === 'redline' ? (
+        <div className="mb-6">
+          <RedlineViewer redline={changes.redline} />
+        </div>
+      ) : changes.changes.length > 0 ? (
         <div className="space-y-3 mb-6">
           {changes.changes.map((change, index) => (
             <ChangeItem
@@ -298,46 +363,83 @@ export function ChangeReview() {
         </div>
       )}
 
-      {/* Action buttons - only shown to admins */}
-      {isAdmin ? (
-        <div className="flex gap-3">
-          <button
-            onClick={handleApprove}
-            disabled={approving || rejecting}
-            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
-          >
-            {approving ? (
-              <>
-                <Loader2 className="w-4 h-4 animate-spin" />
-                Approving...
-              </>
-            ) : (
-              <>
-                <Check className="w-4 h-4" />
-                Approve & Publish
-              </>
-            )}
-          </button>
-          <button
-            onClick={handleReject}
-            disabled={approving || rejecting}
-            className="flex items-center justify-center gap-2 px-6 py-3 border border-border rounded-md hover:bg-accent transition-colors disabled:opacity-50"
-          >
-            {rejecting ? (
-              <>
-                <Loader2 className="w-4 h-4 animate-spin" />
-                Rejecting...
-              </>
-            ) : (
-              <>
-                <X className="w-4 h-4" />
-                Reject Changes
-              </>
-            )}
-          </button>
+      {/* Action buttons - only shown to the reviewers of the current stage */}
+      {canDecide && pendingVersionId ? (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="review-comment" className="block text-sm font-medium text-foreground mb-1.5">
+              Comment <span className="text-muted-foreground font-normal">(required to reject)</span>
+            </label>
+            <textarea
+              id="review-comment"
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              rows={3}
+              placeholder="Notes for the record and the next reviewer"
+              className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+          {isFinalStage && (
+            <div>
+              <label htmlFor="review-effective-date" className="block text-sm font-medium text-foreground mb-1.5">
+                Effective date <span className="text-muted-foreground font-normal">(leave empty to publish now)</span>
+              </label>
+              <input
+                id="review-effective-date"
+                type="date"
+                value={effectiveDate}
+                onChange={e => setEffectiveDate(e.target.value)}
+                className="px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={handleApprove}
+              disabled={approving || rejecting}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              {approving ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Approving...
+                </>
+              ) : (
+                <>
+                  <Check className="w-4 h-4" />
+                  {nextStage
+                    ? `Approve & Send to ${nextStage.name}`
+                    : schedules ? `Approve & Schedule for ${formatEffectiveDate(effectiveDate)}` : 'Approve & Publish'}
+                </>
+              )}
+            </button>
+            <button
+              onClick={handleReject}
+              disabled={approving || rejecting || !comment.trim()}
+              title={comment.trim() ? undefined : 'A comment is required to reject'}
+              className="flex items-center justify-center gap-2 px-6 py-3 border border-border rounded-md hover:bg-accent transition-colors disabled:opacity-50"
+            >
+              {rejecting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Rejecting...
+                </>
+              ) : (
+                <>
+                  <X className="w-4 h-4" />
+                  Reject Changes
+                </>
+              )}
+            </button>
+          </div>
         </div>
       ) : (
-        <div className="flex justify-end">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {pendingVersionId && currentStage
+              ? `Awaiting ${currentStage.name} by ${currentStage.reviewers.map(r => r.name).join(', ')}`
+              : null}
+          </p>
           <button
             onClick={() => navigate(`/history/${documentId}`)}
             className="flex items-center justify-center gap-2 px-6 py-3 border border-border rounded-md hover:bg-accent transition-colors"
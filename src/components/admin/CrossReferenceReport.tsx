@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Loader2, AlertCircle, FileText, ArrowRight, ScanText, CheckCheck, Quote } from 'lucide-react'
+import { referencesApi } from '@/api/referencesApi'
+import { jobsApi } from '@/api/jobsApi'
+import {
+  referenceIssueLabels,
+  type PolicyReference,
+  type ReferenceIssue,
+  type ReferenceReport,
+} from '@/types/references'
+import { cn } from '@/lib/utils'
+
+const ISSUES = Object.keys(referenceIssueLabels) as ReferenceIssue[]
+
+const ISSUE_STYLES: Record<ReferenceIssue, string> = {
+  missing: 'bg-red-500/20 text-red-600',
+  superseded: 'bg-amber-500/20 text-amber-600',
+  paragraph_missing: 'bg-orange-500/20 text-orange-600',
+  target_updated: 'bg-blue-500/20 text-blue-600',
+}
+
+// "DAFI 36-3003, para 4.2"
+function citation(reference: PolicyReference) {
+  if (!reference.paragraph) return reference.publication
+  const part = /^\d|^A\d/.test(reference.paragraph) ? `para ${reference.paragraph}` : reference.paragraph
+  return `${reference.publication}, ${part}`
+}
+
+// Admin report of citations between policies that need attention
+export function CrossReferenceReport() {
+  const [report, setReport] = useState<ReferenceReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [issue, setIssue] = useState<ReferenceIssue | null>(null)
+  const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null)
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+
+  const load = async () => {
+    setError(null)
+    try {
+      setReport(await referencesApi.getReport())
+    } catch (err) {
+      console.error('Failed to load cross-reference report:', err)
+      setError('Failed to load the cross-reference report')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  const handleScan = async () => {
+    try {
+      const jobs = await referencesApi.scanLibrary()
+      setScanProgress({ done: 0, total: jobs.length })
+      for (const [i, job] of jobs.entries()) {
+        await jobsApi.waitForJob(job.id)
+        setScanProgress({ done: i + 1, total: jobs.length })
+      }
+      toast.success(`Scanned ${jobs.length} ${jobs.length === 1 ? 'policy' : 'policies'}`)
+      await load()
+    } catch (err) {
+      toast.error('Failed to scan the library', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setScanProgress(null)
+    }
+  }
+
+  const handleReviewed = async (documentId: string) => {
+    setReviewingId(documentId)
+    try {
+      await referencesApi.markReviewed(documentId)
+      await load()
+    } catch (err) {
+      toast.error('Failed to mark cross-references reviewed', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  const documents = (report?.documents || [])
+    .map(doc => ({ ...doc, references: issue ? doc.references.filter(r => r.issues.includes(issue)) : doc.references }))
+    .filter(doc => doc.references.length > 0)
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Cross-References</h1>
+          <p className="text-muted-foreground mt-1">
+            Citations of other policies that are missing, superseded, out of date or point at a removed paragraph
+          </p>
+        </div>
+        <button
+          onClick={handleScan}
+          disabled={scanProgress !== null}
+          className="flex items-center gap-2 px-3 py-2 text-sm border border-border rounded-md hover:bg-accent disabled:opacity-50 shrink-0"
+          title="Extract the citations of every current version again"
+        >
+          {scanProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanText className="w-4 h-4" />}
+          {scanProgress ? `Scanning ${scanProgress.done}/${scanProgress.total}` : 'Scan library'}
+        </button>
+      </div>
+
+      {report && (
+        <>
+          {/* Counts per issue, doubling as filters */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {ISSUES.map((value) => (
+              <button
+                key={value}
+                onClick={() => setIssue(issue === value ? null : value)}
+                className={cn(
+                  'text-left p-3 bg-card border rounded-lg transition-colors',
+                  issue === value ? 'border-primary ring-1 ring-primary' : 'border-border hover:bg-accent'
+                )}
+              >
+                <div className="text-2xl font-semibold">{report.stats[value]}</div>
+                <div className="text-xs text-muted-foreground">{referenceIssueLabels[value]}</div>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {report.stats.references} citations in {report.stats.documents_checked}{' '}
+            {report.stats.documents_checked === 1 ? 'policy' : 'policies'} checked
+            {report.stats.documents_unindexed > 0 && (
+              <span className="text-amber-600">
+                {' '}· {report.stats.documents_unindexed} not scanned yet
+              </span>
+            )}
+          </p>
+        </>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      ) : documents.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {issue ? `No citations marked "${referenceIssueLabels[issue].toLowerCase()}"` : 'No broken references found'}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {documents.map((doc) => (
+            <section key={doc.document_id} className="bg-card border border-border rounded-lg">
+              <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-border">
+                <div className="flex items-center gap-2 min-w-0">
+                  <FileText className="w-4 h-4 text-primary shrink-0" />
+                  <h2 className="font-medium truncate">{doc.name}</h2>
+                  {doc.short_title && (
+                    <span className="text-xs font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded shrink-0">
+                      {doc.short_title}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {doc.references.some(r => r.issues.includes('target_updated')) && (
+                    <button
+                      onClick={() => handleReviewed(doc.document_id)}
+                      disabled={reviewingId === doc.document_id}
+                      className="flex items-center gap-1 px-2 py-1 text-xs border border-border rounded-md hover:bg-accent disabled:opacity-50"
+                      title="The citations still hold for the current versions of the policies they cite"
+                    >
+                      {reviewingId === doc.document_id ? <Loader2 className="w-3 h-3 animate-spin" /> : <CheckCheck className="w-3 h-3" />}
+                      Mark reviewed
+                    </button>
+                  )}
+                  <Link
+                    to={`/history/${doc.document_id}`}
+                    className="flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    Open policy
+                    <ArrowRight className="w-3 h-3" />
+                  </Link>
+                </div>
+              </div>
+
+              <ul className="divide-y divide-border">
+                {doc.references.map((reference) => (
+                  <li key={`${reference.publication}-${reference.paragraph}`} className="px-4 py-3 space-y-1.5 text-sm">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-mono font-medium">{citation(reference)}</span>
+                      <span className="text-xs text-muted-foreground">p. {reference.page}</span>
+                      {reference.issues.map((value) => (
+                        <span key={value} className={cn('px-2 py-0.5 rounded text-xs font-medium', ISSUE_STYLES[value])}>
+                          {referenceIssueLabels[value]}
+                        </span>
+                      ))}
+                    </div>
+                    {(reference.target || reference.superseded_by) && (
+                      <p className="text-xs text-muted-foreground">
+                        {reference.target && (
+                          <>
+                            Cites{' '}
+                            <Link to={`/history/${reference.target.id}`} className="text-foreground hover:underline">
+                              {reference.target.short_title || reference.target.name}
+                            </Link>
+                          </>
+                        )}
+                        {reference.superseded_by && (
+                          <>
+                            {reference.target ? ', superseded by ' : 'Superseded by '}
+                            <Link to={`/history/${reference.superseded_by.document_id}`} className="text-foreground hover:underline">
+                              {reference.superseded_by.short_title || reference.superseded_by.name}
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                    )}
+                    <p className="flex gap-1.5 text-xs text-muted-foreground italic">
+                      <Quote className="w-3 h-3 shrink-0 mt-0.5" />
+                      {reference.text}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
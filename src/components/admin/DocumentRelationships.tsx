@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Loader2, Network, ScanText, Check, X, Plus, Quote } from 'lucide-react'
+import { lineageApi } from '@/api/lineageApi'
+import { jobsApi } from '@/api/jobsApi'
+import { documentsApi } from '@/api/documentsApi'
+import type { PolicyDocument } from '@/types/document'
+import {
+  addableRoles,
+  relationshipRoleLabels,
+  type DocumentRelationship,
+  type DocumentRelationshipsResponse,
+  type RelationshipRole,
+} from '@/types/lineage'
+
+interface DocumentRelationshipsProps {
+  documentId: string
+}
+
+function RelatedTitle({ relationship }: { relationship: DocumentRelationship }) {
+  const related = relationship.related_document
+  return (
+    <span className="min-w-0 truncate">
+      <span className="text-muted-foreground">{relationshipRoleLabels[relationship.role]}</span>{' '}
+      <Link to={`/history/${related.id}`} className="font-medium hover:underline">
+        {related.short_title || related.name}
+      </Link>
+      {related.short_title && <span className="text-muted-foreground"> · {related.name}</span>}
+    </span>
+  )
+}
+
+// Related policies of a document: confirmed relationships, suggestions found in its text, and a form to add one
+export function DocumentRelationships({ documentId }: DocumentRelationshipsProps) {
+  const [data, setData] = useState<DocumentRelationshipsResponse | null>(null)
+  const [documents, setDocuments] = useState<PolicyDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [scanning, setScanning] = useState(false)
+  const [role, setRole] = useState<RelationshipRole>('implements')
+  const [targetId, setTargetId] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  const load = async () => {
+    try {
+      setData(await lineageApi.getRelationships(documentId))
+    } catch (err) {
+      console.error('Failed to load relationships:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    load()
+    documentsApi.listDocuments()
+      .then(({ documents }) => setDocuments(documents.filter(doc => doc.id !== documentId)))
+      .catch(err => console.error('Failed to load documents:', err))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [documentId])
+
+  const handleScan = async () => {
+    setScanning(true)
+    try {
+      const job = await jobsApi.waitForJob((await lineageApi.scan(documentId)).id)
+      if (job.status === 'failed') throw new Error(job.error || 'Scan failed')
+      const found = Number(job.result?.suggested ?? 0)
+      toast.success(found > 0 ? `${found} related ${found === 1 ? 'policy' : 'policies'} found` : 'No new related policies found')
+      await load()
+    } catch (err) {
+      toast.error('Failed to scan for related policies', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const handleDecide = async (relationship: DocumentRelationship, status: 'confirmed' | 'dismissed') => {
+    setBusyId(relationship.id)
+    try {
+      await lineageApi.decide(relationship.id, status)
+      await load()
+    } catch (err) {
+      toast.error('Failed to update relationship', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRemove = async (relationship: DocumentRelationship) => {
+    setBusyId(relationship.id)
+    try {
+      await lineageApi.removeRelationship(relationship.id)
+      await load()
+    } catch (err) {
+      toast.error('Failed to remove relationship', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!targetId) return
+    setAdding(true)
+    try {
+      await lineageApi.addRelationship(documentId, role, targetId)
+      setTargetId('')
+      await load()
+    } catch (err) {
+      toast.error('Failed to add relationship', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-lg mb-6">
+      <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-border">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Network className="w-4 h-4 text-primary" />
+          Related Policies
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleScan}
+            disabled={scanning}
+            className="flex items-center gap-1.5 px-2.5 py-1 text-xs border border-border rounded-md hover:bg-accent disabled:opacity-50"
+            title="Look for policies the current version's text names"
+          >
+            {scanning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ScanText className="w-3.5 h-3.5" />}
+            Scan text
+          </button>
+          <Link
+            to={`/lineage/${documentId}`}
+            className="flex items-center gap-1.5 px-2.5 py-1 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+          >
+            View lineage
+          </Link>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="p-4 space-y-4 text-sm">
+          {/* Suggestions found in the document's text */}
+          {data && data.suggestions.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-amber-600">Suggested from the document text</p>
+              {data.suggestions.map((suggestion) => (
+                <div key={suggestion.id} className="border border-amber-500/30 bg-amber-500/5 rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <RelatedTitle relationship={suggestion} />
+                    <div className="flex items-center gap-1.5 shrink-0">
+                      <button
+                        onClick={() => handleDecide(suggestion, 'confirmed')}
+                        disabled={busyId === suggestion.id}
+                        className="flex items-center gap-1 px-2 py-1 text-xs bg-green-500/10 text-green-600 rounded hover:bg-green-500/20 disabled:opacity-50"
+                      >
+                        <Check className="w-3 h-3" />
+                        Confirm
+                      </button>
+                      <button
+                        onClick={() => handleDecide(suggestion, 'dismissed')}
+                        disabled={busyId === suggestion.id}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground rounded hover:bg-accent disabled:opacity-50"
+                      >
+                        <X className="w-3 h-3" />
+                        Dismiss
+                      </button>
+                    </div>
+                  </div>
+                  {suggestion.evidence && (
+                    <p className="flex gap-1.5 text-xs text-muted-foreground italic">
+                      <Quote className="w-3 h-3 shrink-0 mt-0.5" />
+                      {suggestion.evidence.text}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Confirmed relationships */}
+          {data && data.relationships.length > 0 ? (
+            <ul className="divide-y divide-border">
+              {data.relationships.map((relationship) => (
+                <li key={relationship.id} className="flex items-center justify-between gap-3 py-2">
+                  <RelatedTitle relationship={relationship} />
+                  <button
+                    onClick={() => handleRemove(relationship)}
+                    disabled={busyId === relationship.id}
+                    className="p-1 text-muted-foreground hover:text-red-500 disabled:opacity-50"
+                    title="Remove relationship"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground">No confirmed relationships yet.</p>
+          )}
+
+          {/* Add a relationship */}
+          <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-border">
+            <span className="text-xs text-muted-foreground">This policy</span>
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as RelationshipRole)}
+              className="px-2 py-1 text-xs bg-background border border-input rounded-md"
+            >
+              {addableRoles.map((value) => (
+                <option key={value} value={value}>{relationshipRoleLabels[value].toLowerCase()}</option>
+              ))}
+            </select>
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="flex-1 min-w-[12rem] px-2 py-1 text-xs bg-background border border-input rounded-md"
+            >
+              <option value="">Choose a policy…</option>
+              {documents.map((doc) => (
+                <option key={doc.id} value={doc.id}>
+                  {doc.short_title ? `${doc.short_title} · ${doc.name}` : doc.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={!targetId || adding}
+              className="flex items-center gap-1 px-2.5 py-1 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+            >
+              {adding ? <Loader2 className="w-3 h-3 animate-spin" /> : <Plus className="w-3 h-3" />}
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
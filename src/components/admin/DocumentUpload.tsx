@@ -2,17 +2,20 @@ import { useState, useCallback, useRef, useEffect } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { Upload, FileText, X, Loader2, Calendar, Hash, AlertCircle, Check, ArrowLeft, Eye, BookOpen } from 'lucide-react'
 import { toast } from 'sonner'
-import { cn } from '@/lib/utils'
+import { cn, formatEffectiveDate } from '@/lib/utils'
 import type { PolicyDocument } from '@/types/document'
+import type { VersionReview } from '@/types/workflow'
 import type { PolicyScope } from '@/types/location'
 import type { MatchDetectionResult, DocumentMatch } from '@/types/match'
+import type { Job } from '@/types/job'
 import { documentsApi } from '@/api/documentsApi'
-import { useAuth } from '@/contexts/AuthContext'
+import { jobsApi } from '@/api/jobsApi'
 import { UploadDiffPreview } from './UploadDiffPreview'
 import { ScopeSelector } from './ScopeSelector'
 import { MatchSuggestions } from './MatchSuggestions'
 import { FullPageDropZone } from '@/components/ui/FullPageDropZone'
 import { SampleLibraryModal } from './SampleLibrary'
+import { useAuth } from '@/contexts/AuthContext'
 
 type UploadStatus = 'idle' | 'uploading' | 'detecting' | 'processing' | 'confirm' | 'publishing' | 'error'
 
@@ -25,12 +28,22 @@ interface UploadedDocInfo {
   size: number
   isUpdate: boolean
   previousVersionId?: string
+  review?: VersionReview
+}
+
+// The uploader publishes directly only under a single-stage review they may decide;
+// anything longer is submitted to the workflow instead
+function publishesOnConfirm(review: VersionReview | undefined, userId: string | undefined) {
+  if (!review) return true
+  const [stage] = review.stages
+  return review.stages.length === 1 &&
+    (stage.reviewers.length === 0 || stage.reviewers.some(r => r.id === userId))
 }
 
 export function DocumentUpload() {
   const navigate = useNavigate()
-  const location = useLocation()
   const { adminUser } = useAuth()
+  const location = useLocation()
   // Now receiving full document object instead of just ID
   const existingDocument = location.state?.document as PolicyDocument | undefined
   const droppedFile = location.state?.droppedFile as File | undefined
@@ -42,9 +55,11 @@ export function DocumentUpload() {
   const [name, setName] = useState('')
   const [shortTitle, setShortTitle] = useState('')
   const [scope, setScope] = useState<PolicyScope | null>(existingDocument?.scope ?? null)
+  const [effectiveDate, setEffectiveDate] = useState('')
   const [status, setStatus] = useState<UploadStatus>('idle')
   const [dragActive, setDragActive] = useState(false)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [processingStep, setProcessingStep] = useState<string | null>(null)
   const [uploadedDoc, setUploadedDoc] = useState<UploadedDocInfo | null>(null)
   const [matchResult, setMatchResult] = useState<MatchDetectionResult | null>(null)
   const [showSamples, setShowSamples] = useState(false)
@@ -123,6 +138,28 @@ export function DocumentUpload() {
     }
   }
 
+  // Wait for the background diff so the preview opens on the stored changes.
+  // A failed job is not fatal - the preview then compares the versions on demand.
+  const waitForProcessing = async (job: Job | null) => {
+    setStatus('processing')
+    if (!job) return
+
+    try {
+      const finished = await jobsApi.waitForJob(job.id, update => {
+        setProcessingStep(update.status === 'retrying' ? 'Retrying change detection...' : update.progress)
+      })
+      if (finished.status === 'failed') {
+        toast.warning('Change detection did not finish', {
+          description: finished.error ?? 'Changes will be compared when the preview opens.',
+        })
+      }
+    } catch (err) {
+      console.warn('Stopped waiting for document processing:', err)
+    } finally {
+      setProcessingStep(null)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!file) return
@@ -132,13 +169,10 @@ export function DocumentUpload() {
     setMatchResult(null)
 
     try {
-      const uploadedBy = adminUser?.name || 'Unknown'
-
       if (isUpdate && existingDocument) {
         // Upload new version of existing document
-        const response = await documentsApi.uploadVersion(existingDocument.id, file, uploadedBy)
-        setStatus('processing')
-        await new Promise((resolve) => setTimeout(resolve, 500))
+        const response = await documentsApi.uploadVersion(existingDocument.id, file, undefined, effectiveDate || undefined)
+        await waitForProcessing(response.job)
 
         // Store uploaded doc info and move to confirm step
         setUploadedDoc({
@@ -149,7 +183,8 @@ export function DocumentUpload() {
           filename: response.version.filename || response.version.file_name || file.name,
           size: response.version.size || response.version.file_size || file.size,
           isUpdate: true,
-          previousVersionId: previousVersionId.current || undefined
+          previousVersionId: previousVersionId.current || undefined,
+          review: response.version.review
         })
         setStatus('confirm')
       } else {
@@ -192,15 +227,14 @@ export function DocumentUpload() {
     if (!file) return
 
     setStatus('processing')
-    const uploadedBy = adminUser?.name || 'Unknown'
 
     const response = await documentsApi.createDocument(
       file,
       name,
-      uploadedBy,
       shortTitle || undefined,
       undefined,
-      scope
+      scope,
+      effectiveDate || undefined
     )
 
     // Store uploaded doc info and move to confirm step
@@ -224,12 +258,10 @@ export function DocumentUpload() {
     if (!file) return
 
     setStatus('uploading')
-    const uploadedBy = adminUser?.name || 'Unknown'
 
     try {
-      const response = await documentsApi.uploadVersion(match.document.id, file, uploadedBy)
-      setStatus('processing')
-      await new Promise((resolve) => setTimeout(resolve, 500))
+      const response = await documentsApi.uploadVersion(match.document.id, file, undefined, effectiveDate || undefined)
+      await waitForProcessing(response.job)
 
       setUploadedDoc({
         id: match.document.id,
@@ -239,7 +271,8 @@ export function DocumentUpload() {
         filename: response.version.filename || response.version.file_name || file.name,
         size: response.version.size || response.version.file_size || file.size,
         isUpdate: true,
-        previousVersionId: match.document.current_version_id
+        previousVersionId: match.document.current_version_id,
+        review: response.version.review
       })
       setMatchResult(null)
       setStatus('confirm')
@@ -271,9 +304,25 @@ export function DocumentUpload() {
     if (!uploadedDoc) return
 
     try {
+      if (uploadedDoc.isUpdate && !publishesOnConfirm(uploadedDoc.review, adminUser?.id)) {
+        // Leave the version pending - the workflow's reviewers take it from here
+        toast.success('Submitted for review', {
+          description: `${uploadedDoc.name} is awaiting ${uploadedDoc.review?.stages[0].name}.`,
+        })
+        navigate(`/history/${uploadedDoc.id}`)
+        return
+      }
+
       // For updates, call approve endpoint to publish to LlamaFarm
       if (uploadedDoc.isUpdate) {
-        await documentsApi.approveVersion(uploadedDoc.id, uploadedDoc.versionId)
+        const result = await documentsApi.approveVersion(uploadedDoc.id, uploadedDoc.versionId)
+        if (result.version.status === 'scheduled' && result.version.effective_at) {
+          toast.success('Version scheduled', {
+            description: `${uploadedDoc.name} takes effect ${formatEffectiveDate(result.version.effective_at)}.`,
+          })
+          navigate(`/history/${uploadedDoc.id}`)
+          return
+        }
       }
 
       toast.success(uploadedDoc.isUpdate ? 'Version published!' : 'Document published!', {
@@ -348,6 +397,7 @@ export function DocumentUpload() {
             newVersionId={uploadedDoc.versionId}
             onConfirm={handleConfirm}
             onCancel={handleCancel}
+            confirmLabel={publishesOnConfirm(uploadedDoc.review, adminUser?.id) ? undefined : 'Submit for Review'}
           />
         </div>
       )
@@ -606,6 +656,24 @@ export function DocumentUpload() {
           />
         )}
 
+        {/* Effective date */}
+        <div>
+          <label htmlFor="effective-date" className="block text-sm font-medium mb-1.5">
+            Effective Date (optional)
+          </label>
+          <input
+            id="effective-date"
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+            disabled={status !== 'idle'}
+            className="w-full px-3 py-2 bg-background border border-input rounded-md focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-60 disabled:cursor-not-allowed"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            An approved update stays scheduled and becomes current on this date. A new document takes effect on upload, so its date cannot be in the future.
+          </p>
+        </div>
+
         {/* Submit button */}
         <button
           type="submit"
@@ -637,7 +705,7 @@ export function DocumentUpload() {
           {status === 'processing' && (
             <>
               <Loader2 className="w-4 h-4 animate-spin" />
-              Processing...
+              {processingStep || 'Processing...'}
             </>
           )}
           {status === 'error' && 'Error - Try again'}
@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Loader2, AlertCircle, ThumbsUp, ThumbsDown, FileText, ArrowRight, RotateCcw } from 'lucide-react'
+import { feedbackApi } from '@/api/feedbackApi'
+import { DocumentViewer } from '@/components/user/DocumentViewer'
+import type { CitedSource } from '@/types/chat'
+import {
+  feedbackReasonLabels,
+  triageCategoryLabels,
+  type AnswerFeedback,
+  type FeedbackReviewResponse,
+  type FeedbackReviewStatus,
+  type TriageCategory,
+} from '@/types/feedback'
+import { cn } from '@/lib/utils'
+
+const STATUS_TABS: { label: string; value: FeedbackReviewStatus }[] = [
+  { label: 'Open', value: 'open' },
+  { label: 'Triaged', value: 'triaged' },
+  { label: 'All', value: 'all' },
+]
+
+const CATEGORY_STYLES: Record<TriageCategory, string> = {
+  policy_gap: 'bg-amber-500/20 text-amber-600',
+  retrieval_miss: 'bg-blue-500/20 text-blue-600',
+  model_error: 'bg-red-500/20 text-red-600',
+}
+
+function formatTimestamp(iso: string) {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// Admin queue of downvoted answers, grouped by the policy they cited
+export function FeedbackReview() {
+  const [result, setResult] = useState<FeedbackReviewResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState<FeedbackReviewStatus>('open')
+  const [category, setCategory] = useState<TriageCategory | ''>('')
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [selectedSource, setSelectedSource] = useState<CitedSource | null>(null)
+
+  const load = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setResult(await feedbackApi.listDownvotes(status, category || undefined))
+    } catch (err) {
+      console.error('Failed to load feedback:', err)
+      setError('Failed to load feedback')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, category])
+
+  const handleTriage = async (entry: AnswerFeedback, next: TriageCategory | null) => {
+    setSavingId(entry.id)
+    try {
+      await feedbackApi.triage(entry.id, next)
+      toast.success(next ? `Marked as ${triageCategoryLabels[next].toLowerCase()}` : 'Reopened')
+      await load()
+    } catch (err) {
+      console.error('Failed to triage feedback:', err)
+      toast.error('Failed to update feedback')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Answer Feedback</h1>
+          <p className="text-muted-foreground mt-1">
+            Downvoted assistant answers, grouped by the policy they cited
+          </p>
+        </div>
+        {result && (
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1.5"><ThumbsUp className="w-4 h-4 text-green-500" />{result.summary.up}</span>
+            <span className="flex items-center gap-1.5"><ThumbsDown className="w-4 h-4 text-red-500" />{result.summary.down}</span>
+            <span>{result.summary.open} open</span>
+          </div>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex gap-1 p-1 bg-muted rounded-lg w-fit">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setStatus(tab.value)}
+              className={cn(
+                'px-3 py-1 text-xs font-medium rounded-md transition-colors',
+                status === tab.value ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        {status !== 'open' && (
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as TriageCategory | '')}
+            className="px-2 py-1.5 text-xs bg-card border border-border rounded-md"
+          >
+            <option value="">Any category</option>
+            {(Object.keys(triageCategoryLabels) as TriageCategory[]).map((value) => (
+              <option key={value} value={value}>{triageCategoryLabels[value]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      ) : !result || result.groups.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {status === 'open' ? 'No downvoted answers waiting for review' : 'No feedback matches these filters'}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {result.groups.map((group) => (
+            <section key={group.document_id} className="bg-card border border-border rounded-lg">
+              <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-border">
+                <div className="flex items-center gap-2 min-w-0">
+                  <FileText className="w-4 h-4 text-primary shrink-0" />
+                  <h2 className="font-medium truncate">{group.document_name}</h2>
+                  {group.short_title && (
+                    <span className="text-xs font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded shrink-0">
+                      {group.short_title}
+                    </span>
+                  )}
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {group.entries.length} {group.entries.length === 1 ? 'answer' : 'answers'}
+                  </span>
+                </div>
+                {group.document_exists && (
+                  <Link
+                    to={`/history/${group.document_id}`}
+                    className="flex items-center gap-1 text-xs text-primary hover:underline shrink-0"
+                  >
+                    Open policy
+                    <ArrowRight className="w-3 h-3" />
+                  </Link>
+                )}
+              </div>
+
+              <div className="divide-y divide-border">
+                {group.entries.map((entry) => (
+                  <div key={entry.id} className="px-4 py-3 space-y-2">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
+                      <span>{formatTimestamp(entry.updated_at)}</span>
+                      <span>•</span>
+                      <span>{entry.user?.name || 'Signed-out user'}</span>
+                      {entry.reason && (
+                        <span className="px-2 py-0.5 rounded bg-muted text-foreground">{feedbackReasonLabels[entry.reason]}</span>
+                      )}
+                      {entry.triage && (
+                        <span className={cn('px-2 py-0.5 rounded font-medium', CATEGORY_STYLES[entry.triage.category])}>
+                          {triageCategoryLabels[entry.triage.category]} · {entry.triage.by.name}
+                        </span>
+                      )}
+                    </div>
+
+                    <p className="text-sm font-medium">{entry.question || 'No question recorded'}</p>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">{entry.answer}</p>
+                    {entry.comment && (
+                      <p className="text-sm border-l-2 border-primary/40 pl-3 italic">"{entry.comment}"</p>
+                    )}
+
+                    {entry.sources.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {entry.sources.map((source, i) => (
+                          <button
+                            key={i}
+                            onClick={() => setSelectedSource(source)}
+                            className="text-xs px-2 py-0.5 rounded border border-border hover:bg-accent"
+                            title="View the cited passage"
+                          >
+                            [{i + 1}] {source.section ? `Para ${source.section}` : source.filename || 'Passage'}
+                            {source.page_number ? `, p. ${source.page_number}` : ''}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Triage */}
+                    <div className="flex items-center gap-2 pt-1">
+                      {(Object.keys(triageCategoryLabels) as TriageCategory[]).map((value) => (
+                        <button
+                          key={value}
+                          disabled={savingId === entry.id || entry.triage?.category === value}
+                          onClick={() => handleTriage(entry, value)}
+                          className={cn(
+                            'px-2.5 py-1 text-xs rounded-md border transition-colors disabled:opacity-60',
+                            entry.triage?.category === value
+                              ? cn('border-transparent', CATEGORY_STYLES[value])
+                              : 'border-border hover:bg-accent'
+                          )}
+                        >
+                          {triageCategoryLabels[value]}
+                        </button>
+                      ))}
+                      {entry.triage && (
+                        <button
+                          disabled={savingId === entry.id}
+                          onClick={() => handleTriage(entry, null)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-foreground"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Reopen
+                        </button>
+                      )}
+                      {savingId === entry.id && <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+
+      {selectedSource && (
+        <DocumentViewer
+          source={selectedSource}
+          onClose={() => setSelectedSource(null)}
+          note="This passage was cited by the downvoted answer."
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { Check, X, Circle, MessageSquare } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { VersionReview } from '@/types/workflow'
+
+interface ReviewProgressProps {
+  review: VersionReview
+  rejected?: boolean
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// Stage-by-stage view of a version's review: who signed off, who rejected, and what's next
+export function ReviewProgress({ review, rejected = false }: ReviewProgressProps) {
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-muted-foreground">
+        Workflow: <span className="font-medium text-foreground">{review.workflow_name}</span>
+      </div>
+      <ol className="space-y-3">
+        {review.stages.map((stage, index) => {
+          const decision = [...review.decisions].reverse().find(d => d.stage_id === stage.id)
+          const isCurrent = index === review.stage_index && !rejected
+          const state = decision?.decision ?? (isCurrent ? 'current' : 'upcoming')
+
+          return (
+            <li key={stage.id} className="flex gap-3">
+              <div
+                className={cn(
+                  'mt-0.5 w-5 h-5 rounded-full flex items-center justify-center flex-shrink-0',
+                  state === 'approved' && 'bg-green-500/20 text-green-600',
+                  state === 'rejected' && 'bg-red-500/20 text-red-600',
+                  state === 'current' && 'bg-amber-500/20 text-amber-600',
+                  state === 'upcoming' && 'bg-muted text-muted-foreground'
+                )}
+              >
+                {state === 'approved' ? (
+                  <Check className="w-3 h-3" />
+                ) : state === 'rejected' ? (
+                  <X className="w-3 h-3" />
+                ) : (
+                  <Circle className="w-2 h-2 fill-current" />
+                )}
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium">
+                  {stage.name}
+                  {isCurrent && <span className="ml-2 text-xs font-normal text-amber-600">Awaiting decision</span>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {decision
+                    ? `${decision.decision === 'approved' ? 'Approved' : 'Rejected'} by ${decision.reviewer.name} · ${formatDate(decision.at)}`
+                    : stage.reviewers.length > 0
+                      ? `Reviewers: ${stage.reviewers.map(r => r.name).join(', ')}`
+                      : 'Any administrator'}
+                </div>
+                {decision?.comment && (
+                  <div className="mt-1 flex items-start gap-1.5 text-sm text-foreground bg-muted/40 rounded px-2 py-1">
+                    <MessageSquare className="w-3.5 h-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />
+                    <span className="whitespace-pre-wrap">{decision.comment}</span>
+                  </div>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
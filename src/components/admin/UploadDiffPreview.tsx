@@ -3,6 +3,7 @@ import { Loader2, AlertCircle, Plus, Minus, ChevronDown, ChevronUp, Check, X, Ey
 import { cn } from '@/lib/utils'
 import { compareDocumentVersions, LlamaFarmConnectionError } from '@/services/diffService'
 import type { DocumentChanges, DiffLine } from '@/types/diff'
+import { RedlineViewer } from '@/components/shared/RedlineViewer'
 
 interface UploadDiffPreviewProps {
   documentId: string
@@ -11,6 +12,7 @@ interface UploadDiffPreviewProps {
   newVersionId: string
   onConfirm: () => void
   onCancel: () => void
+  confirmLabel?: string
 }
 
 export function UploadDiffPreview({
@@ -19,7 +21,8 @@ export function UploadDiffPreview({
   oldVersionId,
   newVersionId,
   onConfirm,
-  onCancel
+  onCancel,
+  confirmLabel = 'Confirm & Publish'
 }: UploadDiffPreviewProps) {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -128,8 +131,8 @@ export function UploadDiffPreview({
                 </span>
               </div>
 
-              {/* Detailed diff */}
-              {changes.diff.lines.length > 0 && (
+              {/* Detailed diff - line view only when the server sent no redline */}
+              {!changes.redline && changes.diff.lines.length > 0 && (
                 <div className="bg-card border border-border rounded-lg overflow-hidden">
                   <button
                     onClick={() => setShowDetails(!showDetails)}
@@ -172,6 +175,24 @@ export function UploadDiffPreview({
             </div>
           </div>
 
+          {/* Word-level redline */}
+          {changes.redline && changes.redline.stats.changed_sections > 0 && (
+            <div className="space-y-2">
+              <button
+                onClick={() => setShowDetails(!showDetails)}
+                className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors"
+              >
+                Detailed Changes
+                {showDetails ? (
+                  <ChevronUp className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                )}
+              </button>
+              {showDetails && <RedlineViewer redline={changes.redline} heightClassName="h-[420px]" />}
+            </div>
+          )}
+
           {/* Action buttons */}
           <div className="flex gap-3 pt-2">
             <button
@@ -179,7 +200,7 @@ export function UploadDiffPreview({
               className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors font-medium"
             >
               <Check className="w-4 h-4" />
-              Confirm & Publish
+              {confirmLabel}
             </button>
             <button
               onClick={onCancel}
@@ -8,25 +8,41 @@ import {
   RotateCcw,
   User,
   Calendar,
+  CalendarClock,
   Loader2,
   AlertCircle,
   X,
   ExternalLink,
+  ClipboardCheck,
+  GitBranch,
 } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import { cn, formatEffectiveDate } from '@/lib/utils'
 import { documentsApi } from '@/api/documentsApi'
+import { workflowsApi } from '@/api/workflowsApi'
 import { useAuth } from '@/contexts/AuthContext'
 import type { DocumentVersion, PolicyDocument } from '@/types/document'
+import type { Workflow } from '@/types/workflow'
+import { ReviewProgress } from './ReviewProgress'
+import { DocumentRelationships } from './DocumentRelationships'
 
 export function VersionHistory() {
   const { documentId } = useParams()
   const navigate = useNavigate()
-  const { isAdmin } = useAuth()
+  const { isAdmin, isSuperAdmin } = useAuth()
   const [document, setDocument] = useState<PolicyDocument | null>(null)
   const [versions, setVersions] = useState<DocumentVersion[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [viewingVersion, setViewingVersion] = useState<DocumentVersion | null>(null)
+  const [workflows, setWorkflows] = useState<Workflow[]>([])
+  const [defaultWorkflow, setDefaultWorkflow] = useState<Workflow | null>(null)
+  // Version being reverted to, while the justification dialog is open
+  const [revertTarget, setRevertTarget] = useState<DocumentVersion | null>(null)
+  const [revertNote, setRevertNote] = useState('')
+  const [reverting, setReverting] = useState(false)
+  // Bumped to reload the document after a revert
+  const [reloadKey, setReloadKey] = useState(0)
 
   useEffect(() => {
     const loadData = async () => {
@@ -40,28 +56,16 @@ export function VersionHistory() {
         const doc = await documentsApi.getDocument(documentId)
         setDocument(doc)
 
-        // Sort by date ascending (oldest first) to assign version numbers correctly
-        // Version 1 = oldest, Version N = newest (current)
-        const sortedVersions = [...(doc.versions || [])].sort((a: any, b: any) => {
-          const dateA = new Date(a.created_at || a.uploaded_at || 0).getTime()
-          const dateB = new Date(b.created_at || b.uploaded_at || 0).getTime()
-          return dateA - dateB
-        })
-
-        const totalVersions = sortedVersions.length
-
-        // Map API fields and assign version numbers
-        // The LAST item in sorted array (idx === totalVersions - 1) is the newest/current
-        const mappedVersions = sortedVersions.map((v: any, idx: number) => ({
-          ...v,
-          uploaded_at: v.created_at || v.uploaded_at,
-          file_size: v.size || v.file_size || 0,
-          version_number: idx + 1, // Version 1 = oldest, Version N = newest
-          is_current: idx === totalVersions - 1, // Newest version is current
-        }))
-
-        // Reverse so newest (current) is shown first at top
-        setVersions(mappedVersions.reverse())
+        // Version numbers and the current flag come from the server; newest first
+        const mappedVersions = [...(doc.versions || [])]
+          .sort((a, b) => (b.version_number ?? 0) - (a.version_number ?? 0))
+          .map((v) => ({
+            ...v,
+            uploaded_at: v.created_at || v.uploaded_at,
+            file_size: v.size || v.file_size || 0,
+          }))
+
+        setVersions(mappedVersions)
       } catch (err) {
         console.error('Failed to load document:', err)
         setError('Failed to load document. Make sure the server is running.')
@@ -71,7 +75,32 @@ export function VersionHistory() {
     }
 
     loadData()
-  }, [documentId])
+  }, [documentId, reloadKey])
+
+  useEffect(() => {
+    if (!isSuperAdmin) return
+    workflowsApi.listWorkflows()
+      .then(({ workflows, default_workflow }) => {
+        setWorkflows(workflows)
+        setDefaultWorkflow(default_workflow)
+      })
+      .catch(err => console.error('Failed to load workflows:', err))
+  }, [isSuperAdmin])
+
+  const handleWorkflowChange = async (workflowId: string) => {
+    if (!document) return
+    try {
+      await workflowsApi.assignWorkflow(document.id, workflowId || null)
+      setDocument({ ...document, workflow_id: workflowId || null })
+      toast.success('Review workflow updated', {
+        description: 'Applies to versions uploaded from now on.',
+      })
+    } catch (err) {
+      toast.error('Failed to update workflow', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    }
+  }
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -87,12 +116,34 @@ export function VersionHistory() {
     return (bytes / 1024 / 1024).toFixed(2) + ' MB'
   }
 
-  const handleRevert = (versionId: string) => {
-    // TODO: Implement revert functionality
-    console.log('Revert to version:', versionId)
-    alert(`This would create a new version based on ${versionId}. Feature coming soon.`)
+  const handleRevert = (version: DocumentVersion) => {
+    setRevertTarget(version)
+    setRevertNote('')
   }
 
+  // Submit the earlier version's file as a new version; it goes through review like an upload
+  const confirmRevert = async () => {
+    if (!documentId || !revertTarget || !revertNote.trim()) return
+    setReverting(true)
+    try {
+      await documentsApi.revertVersion(documentId, revertTarget.id, revertNote.trim())
+      toast.success(`Revert to Version ${revertTarget.version_number} submitted`, {
+        description: 'It becomes current once approved.',
+      })
+      setRevertTarget(null)
+      setReloadKey((key) => key + 1)
+    } catch (err) {
+      toast.error('Failed to revert', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setReverting(false)
+    }
+  }
+
+  // Version number by ID, to label what a revert restored
+  const versionNumbers = new Map(versions.map((v) => [v.id, v.version_number]))
+
   const handleView = (version: DocumentVersion) => {
     setViewingVersion(version)
   }
@@ -157,9 +208,27 @@ export function VersionHistory() {
               </span>
             </div>
           </div>
+          {isSuperAdmin && defaultWorkflow && (
+            <div className="ml-auto flex items-center gap-2">
+              <GitBranch className="w-4 h-4 text-muted-foreground" />
+              <select
+                value={document?.workflow_id ?? ''}
+                onChange={e => handleWorkflowChange(e.target.value)}
+                className="px-2 py-1 rounded-md border border-input bg-background text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                title="Review workflow for new versions"
+              >
+                <option value="">Default ({defaultWorkflow.name})</option>
+                {workflows.map(w => (
+                  <option key={w.id} value={w.id}>{w.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
       </div>
 
+      {documentId && <DocumentRelationships documentId={documentId} />}
+
       {/* Version timeline */}
       <div className="space-y-4">
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -174,7 +243,7 @@ export function VersionHistory() {
           {/* Versions */}
           <div className="space-y-4">
             {versions.map((version) => {
-              const isCurrent = (version as any).is_current
+              const isCurrent = version.is_current
               return (
               <div
                 key={version.id}
@@ -202,15 +271,37 @@ export function VersionHistory() {
                       <span className="font-semibold">
                         Version {version.version_number}
                       </span>
-                      {(version as any).is_current ? (
+                      {version.is_current ? (
                         <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded">
                           Current
                         </span>
+                      ) : version.status === 'pending' ? (
+                        <span className="text-xs bg-amber-500/10 text-amber-600 px-2 py-0.5 rounded">
+                          Pending Review
+                        </span>
+                      ) : version.status === 'scheduled' ? (
+                        <span className="text-xs bg-blue-500/10 text-blue-600 px-2 py-0.5 rounded">
+                          Scheduled
+                        </span>
+                      ) : version.status === 'rejected' ? (
+                        <span className="text-xs bg-red-500/10 text-red-600 px-2 py-0.5 rounded">
+                          Rejected
+                        </span>
+                      ) : version.superseded_by ? (
+                        <span className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded">
+                          Superseded before taking effect
+                        </span>
                       ) : (
                         <span className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded">
                           Previous
                         </span>
                       )}
+                      {version.reverted_from && (
+                        <span className="flex items-center gap-1 text-xs bg-purple-500/10 text-purple-600 px-2 py-0.5 rounded">
+                          <RotateCcw className="w-3 h-3" />
+                          Reverted from Version {versionNumbers.get(version.reverted_from) ?? '?'}
+                        </span>
+                      )}
                     </div>
                   </div>
                   <span className="text-sm text-muted-foreground">
@@ -232,8 +323,21 @@ export function VersionHistory() {
                     <User className="w-3.5 h-3.5" />
                     {version.uploaded_by}
                   </span>
+                  {version.effective_at && (
+                    <span className="flex items-center gap-1.5">
+                      <CalendarClock className="w-3.5 h-3.5" />
+                      {version.status === 'scheduled' ? 'Takes effect' : 'Effective'} {formatEffectiveDate(version.effective_at)}
+                    </span>
+                  )}
                 </div>
 
+                {/* Review workflow */}
+                {version.review && version.status !== 'published' && (
+                  <div className="mb-4 p-3 bg-muted/30 rounded-md">
+                    <ReviewProgress review={version.review} rejected={version.status === 'rejected'} />
+                  </div>
+                )}
+
                 {/* Actions */}
                 <div className="flex items-center gap-2">
                   <button
@@ -243,9 +347,18 @@ export function VersionHistory() {
                     <Eye className="w-3.5 h-3.5" />
                     View
                   </button>
-                  {!isCurrent && isAdmin && (
+                  {version.status === 'pending' && isAdmin && document && (
                     <button
-                      onClick={() => handleRevert(version.id)}
+                      onClick={() => navigate(`/review/${document.id}/${document.current_version_id}`)}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-amber-600 bg-amber-500/10 hover:bg-amber-500/20 rounded-md transition-colors"
+                    >
+                      <ClipboardCheck className="w-3.5 h-3.5" />
+                      Review
+                    </button>
+                  )}
+                  {!isCurrent && isAdmin && version.status !== 'pending' && version.status !== 'rejected' && version.status !== 'scheduled' && (
+                    <button
+                      onClick={() => handleRevert(version)}
                       className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-primary bg-primary/10 hover:bg-primary/20 rounded-md transition-colors"
                     >
                       <RotateCcw className="w-3.5 h-3.5" />
@@ -259,6 +372,52 @@ export function VersionHistory() {
         </div>
       </div>
 
+      {/* Revert justification dialog */}
+      {revertTarget && (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="w-full max-w-md bg-background border border-border rounded-lg shadow-xl p-5 space-y-4">
+            <div>
+              <h2 className="font-semibold">Revert to Version {revertTarget.version_number}</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Its file is submitted as a new version and goes through review before it becomes current.
+              </p>
+            </div>
+            <div>
+              <label htmlFor="revert-note" className="block text-sm font-medium mb-1.5">
+                Justification <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                id="revert-note"
+                autoFocus
+                rows={3}
+                maxLength={2000}
+                value={revertNote}
+                onChange={(e) => setRevertNote(e.target.value)}
+                placeholder="Why is this version being restored?"
+                className="w-full px-3 py-2 text-sm rounded-md border border-input bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setRevertTarget(null)}
+                disabled={reverting}
+                className="px-4 py-2 text-sm rounded-md hover:bg-accent transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmRevert}
+                disabled={reverting || !revertNote.trim()}
+                className="flex items-center gap-1.5 px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {reverting ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                Submit revert
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Document Viewer Modal */}
       {viewingVersion && documentId && (
         <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm">
@@ -0,0 +1,307 @@
+import { useState, useEffect } from 'react'
+import { toast } from 'sonner'
+import { GitBranch, Plus, Trash2, Pencil, Loader2, AlertCircle, X, ArrowRight } from 'lucide-react'
+import { workflowsApi } from '@/api/workflowsApi'
+import { adminsApi } from '@/api/adminsApi'
+import type { AdminMember } from '@/types/admin'
+import type { SaveWorkflowRequest, Workflow } from '@/types/workflow'
+
+interface StageDraft {
+  name: string
+  reviewers: string[]
+}
+
+interface WorkflowDraft {
+  id: string | null
+  name: string
+  is_default: boolean
+  stages: StageDraft[]
+}
+
+const EMPTY_DRAFT: WorkflowDraft = {
+  id: null,
+  name: '',
+  is_default: false,
+  stages: [{ name: 'Legal review', reviewers: [] }, { name: 'Commander sign-off', reviewers: [] }],
+}
+
+function toDraft(workflow: Workflow): WorkflowDraft {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    is_default: workflow.is_default,
+    stages: workflow.stages.map(s => ({ name: s.name, reviewers: s.reviewers.map(r => r.id) })),
+  }
+}
+
+export function WorkflowSettings() {
+  const [workflows, setWorkflows] = useState<Workflow[]>([])
+  const [defaultWorkflow, setDefaultWorkflow] = useState<Workflow | null>(null)
+  const [admins, setAdmins] = useState<AdminMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState<WorkflowDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadWorkflows = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const [response, adminList] = await Promise.all([
+        workflowsApi.listWorkflows(),
+        adminsApi.listAdmins(),
+      ])
+      setWorkflows(response.workflows)
+      setDefaultWorkflow(response.default_workflow)
+      setAdmins(adminList)
+    } catch (err) {
+      console.error('Failed to load workflows:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load workflows')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadWorkflows()
+  }, [])
+
+  const updateStage = (index: number, patch: Partial<StageDraft>) => {
+    if (!draft) return
+    setDraft({
+      ...draft,
+      stages: draft.stages.map((stage, i) => (i === index ? { ...stage, ...patch } : stage)),
+    })
+  }
+
+  const toggleReviewer = (index: number, adminId: string) => {
+    if (!draft) return
+    const reviewers = draft.stages[index].reviewers
+    updateStage(index, {
+      reviewers: reviewers.includes(adminId) ? reviewers.filter(id => id !== adminId) : [...reviewers, adminId],
+    })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    const request: SaveWorkflowRequest = {
+      name: draft.name,
+      is_default: draft.is_default,
+      stages: draft.stages,
+    }
+
+    try {
+      setSaving(true)
+      if (draft.id) {
+        await workflowsApi.updateWorkflow(draft.id, request)
+      } else {
+        await workflowsApi.createWorkflow(request)
+      }
+      toast.success(`Saved workflow ${draft.name}`)
+      setDraft(null)
+      await loadWorkflows()
+    } catch (err) {
+      toast.error('Failed to save workflow', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (workflow: Workflow) => {
+    const confirmed = window.confirm(
+      `Delete "${workflow.name}"?\n\nDocuments using it switch to the default workflow. Versions already in review keep their stages.`
+    )
+    if (!confirmed) return
+
+    try {
+      await workflowsApi.deleteWorkflow(workflow.id)
+      toast.success(`Deleted workflow ${workflow.name}`)
+      await loadWorkflows()
+    } catch (err) {
+      toast.error('Failed to delete workflow', {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Review Workflows</h1>
+          <p className="text-muted-foreground mt-1">
+            Stages a new version must pass before it is published
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(EMPTY_DRAFT)}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Workflow
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-500 bg-red-500/10 px-3 py-2 rounded-md">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {/* Editor */}
+      {draft && (
+        <form onSubmit={handleSave} className="bg-card border border-border rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b border-border bg-muted/30 flex items-center justify-between">
+            <h2 className="font-semibold text-foreground">{draft.id ? 'Edit Workflow' : 'New Workflow'}</h2>
+            <button type="button" onClick={() => setDraft(null)} className="p-1 hover:bg-accent rounded-md" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="p-4 space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="workflow-name" className="block text-sm font-medium text-foreground mb-1.5">Name</label>
+                <input
+                  id="workflow-name"
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Legal + Commander"
+                  className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-foreground sm:mt-7">
+                <input
+                  type="checkbox"
+                  checked={draft.is_default}
+                  onChange={e => setDraft({ ...draft, is_default: e.target.checked })}
+                />
+                Use for documents without an assigned workflow
+              </label>
+            </div>
+
+            <div className="space-y-3">
+              {draft.stages.map((stage, index) => (
+                <div key={index} className="border border-border rounded-md p-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="text-xs font-mono text-muted-foreground w-6">{index + 1}.</span>
+                    <input
+                      value={stage.name}
+                      onChange={e => updateStage(index, { name: e.target.value })}
+                      placeholder="Stage name"
+                      className="flex-1 px-3 py-1.5 rounded-md border border-input bg-background text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, stages: draft.stages.filter((_, i) => i !== index) })}
+                      disabled={draft.stages.length === 1}
+                      className="p-1.5 text-destructive hover:bg-destructive/10 rounded-md disabled:opacity-30"
+                      title="Remove stage"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="ml-8 flex flex-wrap gap-x-4 gap-y-1">
+                    {admins.map(admin => (
+                      <label key={admin.id} className="flex items-center gap-1.5 text-xs text-foreground">
+                        <input
+                          type="checkbox"
+                          checked={stage.reviewers.includes(admin.id)}
+                          onChange={() => toggleReviewer(index, admin.id)}
+                        />
+                        {admin.name}
+                      </label>
+                    ))}
+                  </div>
+                  {stage.reviewers.length === 0 && (
+                    <p className="ml-8 mt-1 text-xs text-muted-foreground">No reviewers selected - any administrator can decide this stage</p>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, stages: [...draft.stages, { name: '', reviewers: [] }] })}
+                className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add stage
+              </button>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                Save Workflow
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {/* Workflows */}
+      <div className="bg-card border border-border rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-border bg-muted/30">
+          <h2 className="font-semibold text-foreground">Workflows</h2>
+        </div>
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        )}
+        {!loading && workflows.length === 0 && defaultWorkflow && (
+          <div className="px-4 py-3 text-sm text-muted-foreground">
+            No workflows configured. New versions go through a single <strong>{defaultWorkflow.name}</strong> stage that any administrator can approve.
+          </div>
+        )}
+        <div className="divide-y divide-border">
+          {workflows.map(workflow => (
+            <div key={workflow.id} className="px-4 py-3 flex items-center gap-4">
+              <GitBranch className="w-4 h-4 text-primary flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-foreground">
+                  {workflow.name}
+                  {workflow.is_default && (
+                    <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-primary/20 text-primary">Default</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground mt-0.5">
+                  {workflow.stages.map((stage, index) => (
+                    <span key={stage.id} className="flex items-center gap-1">
+                      {index > 0 && <ArrowRight className="w-3 h-3" />}
+                      {stage.name}
+                      {stage.reviewers.length > 0 && ` (${stage.reviewers.map(r => r.name).join(', ')})`}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={() => setDraft(toDraft(workflow))}
+                className="p-2 text-muted-foreground hover:bg-accent rounded-md transition-colors"
+                title="Edit workflow"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(workflow)}
+                className="p-2 text-destructive hover:bg-destructive/10 rounded-md transition-colors"
+                title="Delete workflow"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,31 +1,36 @@
 import { useState } from 'react'
-import { Shield, Loader2, CreditCard, X } from 'lucide-react'
+import { Shield, Loader2, CreditCard, X, AlertCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 interface AdminSignInModalProps {
   isOpen: boolean
   onClose: () => void
-  onSignIn: () => void
+  onSignIn: (email: string, password: string) => Promise<void>
 }
 
-// Demo admin credentials
-const ADMIN_USER = {
-  email: 'sarah.mitchell@us.af.mil',
-  name: 'Capt. Sarah Mitchell',
-}
+// Local test fixture account (seed/users.json) pre-filled for the demo
+const DEMO_EMAIL = 'sarah.mitchell@us.af.mil'
 
 export function AdminSignInModal({ isOpen, onClose, onSignIn }: AdminSignInModalProps) {
   const [isLoading, setIsLoading] = useState(false)
-  const [password, setPassword] = useState('••••••••••••')
+  const [email, setEmail] = useState(DEMO_EMAIL)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
 
   if (!isOpen) return null
 
-  const handleSignIn = async () => {
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault()
     setIsLoading(true)
-    // Simulate authentication delay
-    await new Promise((resolve) => setTimeout(resolve, 800))
-    onSignIn()
-    setIsLoading(false)
+    setError(null)
+    try {
+      await onSignIn(email, password)
+      setPassword('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed')
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   const handleCACClick = () => {
@@ -55,7 +60,7 @@ export function AdminSignInModal({ isOpen, onClose, onSignIn }: AdminSignInModal
         </div>
 
         {/* Form */}
-        <div className="px-6 pb-6">
+        <form onSubmit={handleSignIn} className="px-6 pb-6">
           {/* Email field */}
           <div className="mb-4">
             <label className="block text-sm font-medium mb-1.5 text-muted-foreground">
@@ -63,8 +68,9 @@ export function AdminSignInModal({ isOpen, onClose, onSignIn }: AdminSignInModal
             </label>
             <input
               type="email"
-              value={ADMIN_USER.email}
-              readOnly
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="username"
               className="w-full px-3 py-2.5 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
             />
           </div>
@@ -78,18 +84,27 @@ export function AdminSignInModal({ isOpen, onClose, onSignIn }: AdminSignInModal
               type="password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              autoFocus
               className="w-full px-3 py-2.5 bg-muted/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/20"
             />
           </div>
 
+          {error && (
+            <div className="mb-4 flex items-center gap-2 text-sm text-red-500 bg-red-500/10 px-3 py-2 rounded-md">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
           {/* Sign in button */}
           <button
-            onClick={handleSignIn}
-            disabled={isLoading}
+            type="submit"
+            disabled={isLoading || !email || !password}
             className={cn(
               'w-full flex items-center justify-center gap-2 py-2.5 rounded-lg font-medium transition-colors text-sm',
               'bg-primary hover:bg-primary/90 text-primary-foreground',
-              isLoading && 'opacity-70 cursor-not-allowed'
+              'disabled:opacity-70 disabled:cursor-not-allowed'
             )}
           >
             {isLoading ? (
@@ -114,18 +129,19 @@ export function AdminSignInModal({ isOpen, onClose, onSignIn }: AdminSignInModal
 
           {/* CAC button */}
           <button
+            type="button"
             onClick={handleCACClick}
             className="w-full flex items-center justify-center gap-2 py-2.5 rounded-lg font-medium transition-colors text-sm border border-border hover:bg-muted/50"
           >
             <CreditCard className="w-4 h-4" />
             Continue with CAC
           </button>
-        </div>
+        </form>
 
         {/* Footer */}
         <div className="px-6 pb-4">
           <p className="text-center text-xs text-muted-foreground">
-            Demo mode - Click Sign In to access admin features
+            Demo accounts use the password <code className="font-mono">regsync-demo</code>
           </p>
         </div>
       </div>
@@ -1,6 +1,6 @@
 import { useState } from 'react'
-import { FileText, Calendar, User, ExternalLink, Sparkles, History } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { FileText, Calendar, CalendarClock, CalendarCheck, User, ExternalLink, Sparkles, History, RotateCcw } from 'lucide-react'
+import { cn, formatEffectiveDate } from '@/lib/utils'
 import type { DigestDocument } from '@/types/digest'
 import { DocumentChangesModal } from '@/components/shared/DocumentChanges'
 
@@ -20,6 +20,8 @@ export function DigestCard({ document }: DigestCardProps) {
 
   // Get the most recent change
   const latestChange = document.changes[0]
+  const tookEffect = document.changes.find(c => c.event === 'takes_effect')
+  const revert = document.changes.find(c => c.reverted_from)
 
   return (
     <div
@@ -61,6 +63,24 @@ export function DigestCard({ document }: DigestCardProps) {
                   Updated
                 </span>
               )}
+              {revert && (
+                <span className="inline-flex items-center gap-1 text-xs font-medium text-purple-600 bg-purple-500/10 px-2 py-0.5 rounded-full">
+                  <RotateCcw className="w-3 h-3" />
+                  Reverted
+                </span>
+              )}
+              {tookEffect && (
+                <span className="inline-flex items-center gap-1 text-xs font-medium text-green-600 bg-green-500/10 px-2 py-0.5 rounded-full">
+                  <CalendarCheck className="w-3 h-3" />
+                  Took effect {formatEffectiveDate(tookEffect.event_at)}
+                </span>
+              )}
+              {document.upcoming && (
+                <span className="inline-flex items-center gap-1 text-xs font-medium text-amber-600 bg-amber-500/10 px-2 py-0.5 rounded-full">
+                  <CalendarClock className="w-3 h-3" />
+                  Takes effect {formatEffectiveDate(document.upcoming.effective_at)}
+                </span>
+              )}
             </div>
             <h3 className="font-semibold text-foreground mt-1 line-clamp-2">
               {document.name}
@@ -73,6 +93,11 @@ export function DigestCard({ document }: DigestCardProps) {
       {latestChange && (
         <div className="mb-4">
           <p className="text-sm text-muted-foreground leading-relaxed">
+            {latestChange.reverted_from && (
+              <span className="font-medium text-foreground">
+                Reverted to the version of {latestChange.reverted_from.created_at ? formatDate(latestChange.reverted_from.created_at) : 'an earlier date'}:{' '}
+              </span>
+            )}
             {latestChange.notes || latestChange.summary || 'Policy document updated'}
           </p>
         </div>
@@ -92,7 +117,9 @@ export function DigestCard({ document }: DigestCardProps) {
             <>
               <span className="flex items-center gap-1.5">
                 <Calendar className="w-3.5 h-3.5" />
-                {formatDate(latestChange.uploaded_at)}
+                {latestChange.event === 'takes_effect'
+                  ? `Effective ${formatEffectiveDate(latestChange.event_at)}`
+                  : formatDate(latestChange.event_at)}
               </span>
               <span className="flex items-center gap-1.5">
                 <User className="w-3.5 h-3.5" />
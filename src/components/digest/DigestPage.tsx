@@ -3,7 +3,14 @@ import { Bell, Loader2, AlertCircle, Inbox, Mail, X, Check } from 'lucide-react'
 import { digestApi } from '@/api/digestApi'
 import { PeriodSelector } from './PeriodSelector'
 import { DigestCard } from './DigestCard'
-import type { DigestResponse } from '@/types/digest'
+import { cn } from '@/lib/utils'
+import type { DigestEvent, DigestResponse } from '@/types/digest'
+
+const EVENT_FILTERS: { label: string; events: DigestEvent[] }[] = [
+  { label: 'All events', events: ['published', 'takes_effect'] },
+  { label: 'Published', events: ['published'] },
+  { label: 'Took effect', events: ['takes_effect'] },
+]
 
 // Get ISO week number from date
 function getISOWeek(date: Date): number {
@@ -46,6 +53,7 @@ export function DigestPage() {
   const [year, setYear] = useState<number>(() => getCurrentMonth().year)
   const [periodNum, setPeriodNum] = useState<number>(() => getCurrentMonth().month)
 
+  const [eventFilter, setEventFilter] = useState(0)
   const [digest, setDigest] = useState<DigestResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -169,7 +177,7 @@ export function DigestPage() {
       try {
         setLoading(true)
         setError(null)
-        const data = await digestApi.getDigest(periodType, year, periodNum)
+        const data = await digestApi.getDigest(periodType, year, periodNum, EVENT_FILTERS[eventFilter].events)
         setDigest(data)
       } catch (err) {
         console.error('Failed to fetch digest:', err)
@@ -180,7 +188,7 @@ export function DigestPage() {
     }
 
     fetchDigest()
-  }, [periodType, year, periodNum])
+  }, [periodType, year, periodNum, eventFilter])
 
   // Keyboard navigation
   useEffect(() => {
@@ -236,9 +244,25 @@ export function DigestPage() {
         canGoPrevious={canGoPrevious()}
       />
 
+      {/* Event filter - publication vs. effective date */}
+      <div className="flex gap-1 mb-6 p-1 bg-muted rounded-lg w-fit">
+        {EVENT_FILTERS.map((filter, index) => (
+          <button
+            key={filter.label}
+            onClick={() => setEventFilter(index)}
+            className={cn(
+              'px-3 py-1 text-xs font-medium rounded-md transition-colors',
+              eventFilter === index ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
       {/* Stats Summary */}
       {digest && !loading && digest.stats.total_changes > 0 && (
-        <div className="grid grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-4 gap-4 mb-6">
           <div className="bg-card border border-border rounded-lg p-4 text-center">
             <div className="text-2xl font-bold text-primary">
               {digest.stats.new_policies}
@@ -251,6 +275,12 @@ export function DigestPage() {
             </div>
             <div className="text-xs text-muted-foreground mt-1">Updated</div>
           </div>
+          <div className="bg-card border border-border rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+              {digest.stats.effective_changes}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">Took Effect</div>
+          </div>
           <div className="bg-card border border-border rounded-lg p-4 text-center">
             <div className="text-2xl font-bold text-foreground">
               {digest.stats.total_changes}
@@ -15,8 +15,8 @@ export function Header() {
     document.documentElement.classList.toggle('dark')
   }
 
-  const handleSignIn = () => {
-    login()
+  const handleSignIn = async (email: string, password: string) => {
+    await login(email, password)
     setShowSignInModal(false)
   }
 
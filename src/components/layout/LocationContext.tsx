@@ -21,17 +21,13 @@ export function LocationContext() {
     return () => document.removeEventListener('mousedown', handleClickOutside)
   }, [])
 
-  // Default location for non-authenticated users
-  const location = adminUser?.location ?? {
-    majcom: 'AETC',
-    installation: 'JBSA',
-    wing: '73 MDW',
-  }
+  // Signed-out users have no location; the server shows them DoD and DAF-wide policies only
+  const location = adminUser?.location ?? null
 
   const accessibleScopes = getAccessibleScopes(location)
 
   // Compact display: show wing name
-  const displayName = location.wing
+  const displayName = location?.wing ?? 'DAF-wide'
 
   return (
     <div className="relative" ref={dropdownRef}>
@@ -90,7 +86,9 @@ export function LocationContext() {
           {/* Footer */}
           <div className="px-3 py-2 border-t border-border bg-muted/30 rounded-b-lg">
             <p className="text-xs text-muted-foreground">
-              Change location in settings to see different policies
+              {location
+                ? 'Change location in settings to see different policies'
+                : 'Sign in to see policies for your location'}
             </p>
           </div>
         </div>
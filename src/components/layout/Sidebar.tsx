@@ -6,6 +6,11 @@ import {
   MessageSquare,
   Users,
   Bell,
+  ScrollText,
+  GitBranch,
+  Search,
+  ThumbsDown,
+  Link2,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -81,6 +86,13 @@ export function Sidebar() {
           label="Documents"
         />
 
+        {/* Shared: Full-text policy search */}
+        <NavItem
+          to="/search"
+          icon={<Search className="w-4 h-4" />}
+          label="Search"
+        />
+
         {/* Shared: Policy Updates digest */}
         <NavItem
           to="/updates"
@@ -88,6 +100,38 @@ export function Sidebar() {
           label="Updates"
         />
 
+        {/* Admin: Audit Log */}
+        <NavItem
+          to="/admin/audit"
+          icon={<ScrollText className="w-4 h-4" />}
+          label="Audit Log"
+          adminOnly
+        />
+
+        {/* Admin: Downvoted answer review queue */}
+        <NavItem
+          to="/admin/feedback"
+          icon={<ThumbsDown className="w-4 h-4" />}
+          label="Answer Feedback"
+          adminOnly
+        />
+
+        {/* Admin: Broken cross-references between policies */}
+        <NavItem
+          to="/admin/references"
+          icon={<Link2 className="w-4 h-4" />}
+          label="Cross-References"
+          adminOnly
+        />
+
+        {/* Review Workflows - superadmin only */}
+        <NavItem
+          to="/admin/workflows"
+          icon={<GitBranch className="w-4 h-4" />}
+          label="Review Workflows"
+          superAdminOnly
+        />
+
         {/* Admin Management - superadmin only */}
         <NavItem
           to="/admin/management"
@@ -0,0 +1,336 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { Search, FileText, Loader2, AlertCircle, MapPin, Calendar, X } from 'lucide-react'
+import { searchApi, searchResultToSource } from '@/api/searchApi'
+import { documentsApi } from '@/api/documentsApi'
+import { DocumentViewer } from '@/components/user/DocumentViewer'
+import { useAuth } from '@/contexts/AuthContext'
+import { getAccessibleScopes, scopeLevelLabels, type ScopeLevel } from '@/types/location'
+import type { SearchFilters, SearchResponse, SearchResult, SearchVersionStatus } from '@/types/search'
+import { cn } from '@/lib/utils'
+
+const RESULT_LIMIT = 20
+
+const STATUS_FILTERS: { label: string; value: SearchFilters['status'] }[] = [
+  { label: 'Current', value: 'current' },
+  { label: 'Past versions', value: 'past' },
+  { label: 'Scheduled', value: 'scheduled' },
+  { label: 'All versions', value: 'all' },
+]
+
+const statusLabels: Record<SearchVersionStatus, string> = {
+  current: 'Current',
+  past: 'Past version',
+  scheduled: 'Scheduled',
+}
+
+// Policy series from a short title or name ("JBSA 36-1201" -> "36"), same rule as the server
+function policySeries(title: string): string | null {
+  const match = title.match(/(\d{1,3})-\d{1,5}/)
+  return match ? match[1] : null
+}
+
+// Normalize a word the way the server tokenizes query terms (lowercase, light plural strip)
+function normalizeTerm(word: string): string {
+  const lower = word.toLowerCase()
+  return lower.length > 3 && lower.endsWith('s') && !lower.endsWith('ss') ? lower.slice(0, -1) : lower
+}
+
+// Wrap the words of a snippet that match a search term in <mark>
+function highlight(text: string, terms: string[]): ReactNode[] {
+  const termSet = new Set(terms)
+  return text.split(/([A-Za-z0-9]+)/).map((part, i) =>
+    termSet.has(normalizeTerm(part)) ? (
+      <mark key={i} className="bg-yellow-500/30 text-foreground rounded px-0.5">{part}</mark>
+    ) : (
+      part
+    )
+  )
+}
+
+function formatDate(dateString?: string) {
+  if (!dateString) return null
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+
+export function SearchPage() {
+  const { adminUser, isAdmin } = useAuth()
+  // Admins search the whole library; everyone else only the scope levels their location reaches
+  const scopeLevels = isAdmin
+    ? (Object.keys(scopeLevelLabels) as ScopeLevel[])
+    : getAccessibleScopes(adminUser?.location ?? null).map((scope) => scope.level)
+  const [params, setParams] = useSearchParams()
+  const query = params.get('q') || ''
+  // Filters live in the URL so a search can be bookmarked or shared. They are memoised on
+  // their own params so opening a result (?open=) does not re-run the search.
+  const status = (params.get('status') as SearchFilters['status']) || 'current'
+  const scopeLevel = (params.get('scope_level') as ScopeLevel) || undefined
+  const series = params.get('series') || undefined
+  const from = params.get('from') || undefined
+  const to = params.get('to') || undefined
+  const filters = useMemo<SearchFilters>(
+    () => ({ status, scopeLevel, series, from, to }),
+    [status, scopeLevel, series, from, to]
+  )
+  // Result opened in the viewer, as "<version id>:<page>" so the link reopens it
+  const openKey = params.get('open')
+
+  const [input, setInput] = useState(query)
+  const [response, setResponse] = useState<SearchResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [seriesOptions, setSeriesOptions] = useState<string[]>([])
+
+  // Offer the series of the documents the caller can see
+  useEffect(() => {
+    documentsApi.listDocuments()
+      .then(({ documents }) => {
+        const series = documents
+          .map(doc => policySeries(doc.short_title || doc.name))
+          .filter((s): s is string => s !== null)
+        setSeriesOptions([...new Set(series)].sort((a, b) => Number(a) - Number(b)))
+      })
+      .catch(() => setSeriesOptions([]))
+  }, [])
+
+  useEffect(() => {
+    setInput(query)
+    if (!query) {
+      setResponse(null)
+      return
+    }
+
+    let cancelled = false
+    const runSearch = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const data = await searchApi.search(query, { limit: RESULT_LIMIT, filters })
+        if (!cancelled) setResponse(data)
+      } catch (err) {
+        console.error('Search failed:', err)
+        if (!cancelled) {
+          setResponse(null)
+          setError('Search failed. Please check the filters and try again.')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    runSearch()
+    return () => {
+      cancelled = true
+    }
+  }, [query, filters])
+
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(params)
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value)
+      else next.delete(key)
+    }
+    setParams(next)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateParams({ q: input.trim() || undefined, open: undefined })
+  }
+
+  const resultKey = (result: SearchResult) => `${result.version_id}:${result.page_number}`
+  const openResult = response?.results.find(result => resultKey(result) === openKey) || null
+  const hasFilters = filters.status !== 'current' || filters.scopeLevel || filters.series || filters.from || filters.to
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold font-display">Search</h1>
+        <p className="text-muted-foreground">
+          Find the policies that mention a phrase, across current and past versions
+        </p>
+      </div>
+
+      {/* Query */}
+      <form onSubmit={handleSubmit} className="relative mb-4">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder='Search policy text, e.g. "48 hours" or "CAC reader"'
+          className="w-full pl-10 pr-24 py-2.5 bg-card border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring font-body"
+        />
+        <button
+          type="submit"
+          className="absolute right-1.5 top-1/2 -translate-y-1/2 px-3 py-1.5 text-xs bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+        >
+          Search
+        </button>
+      </form>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="flex gap-1 p-1 bg-muted rounded-lg w-fit">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.label}
+              onClick={() => updateParams({ status: filter.value === 'current' ? undefined : filter.value, open: undefined })}
+              className={cn(
+                'px-3 py-1 text-xs font-medium rounded-md transition-colors',
+                filters.status === filter.value ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={filters.scopeLevel || ''}
+          onChange={(e) => updateParams({ scope_level: e.target.value || undefined, open: undefined })}
+          className="px-2 py-1.5 text-xs bg-card border border-border rounded-md"
+        >
+          <option value="">Any scope</option>
+          {scopeLevels.map((level) => (
+            <option key={level} value={level}>{scopeLevelLabels[level]}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.series || ''}
+          onChange={(e) => updateParams({ series: e.target.value || undefined, open: undefined })}
+          className="px-2 py-1.5 text-xs bg-card border border-border rounded-md"
+        >
+          <option value="">Any series</option>
+          {seriesOptions.map((series) => (
+            <option key={series} value={series}>{series}- series</option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          From
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateParams({ from: e.target.value || undefined, open: undefined })}
+            className="px-2 py-1 bg-card border border-border rounded-md text-foreground"
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          To
+          <input
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateParams({ to: e.target.value || undefined, open: undefined })}
+            className="px-2 py-1 bg-card border border-border rounded-md text-foreground"
+          />
+        </label>
+
+        {hasFilters && (
+          <button
+            onClick={() => updateParams({ status: undefined, scope_level: undefined, series: undefined, from: undefined, to: undefined, open: undefined })}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <X className="w-3 h-3" />
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Loading state */}
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {/* Error state */}
+      {error && !loading && (
+        <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Results */}
+      {!loading && !error && response && (
+        response.results.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No policy text matches "{response.query}"{hasFilters ? ' with these filters' : ''}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {response.results.map((result) => (
+              <button
+                key={`${result.version_id}:${result.page_number}:${result.section}:${result.content.slice(0, 24)}`}
+                onClick={() => updateParams({ open: resultKey(result) })}
+                className="w-full text-left bg-card border border-border rounded-lg p-4 hover:border-primary/50 transition-colors"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="p-2 bg-primary/10 rounded-lg">
+                    <FileText className="w-5 h-5 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1 flex-wrap">
+                      <h3 className="font-medium truncate">{result.document_name}</h3>
+                      {result.short_title && (
+                        <span className="text-xs font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded shrink-0">
+                          {result.short_title}
+                        </span>
+                      )}
+                      {result.scope && (
+                        <span className="flex items-center gap-1 text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded shrink-0">
+                          <MapPin className="w-3 h-3" />
+                          {scopeLevelLabels[result.scope.level]}
+                        </span>
+                      )}
+                      {result.version_status !== 'current' && (
+                        <span className="text-xs bg-amber-500/10 text-amber-600 px-1.5 py-0.5 rounded shrink-0">
+                          {statusLabels[result.version_status]}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm leading-relaxed">
+                      {highlight(result.snippet, response.terms)}
+                    </p>
+                    <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                      <span>
+                        {result.section === 'Front matter' ? 'Front matter' : `Para ${result.section}`} • Page {result.page_number}
+                      </span>
+                      {formatDate(result.updated_at) && (
+                        <span className="flex items-center gap-1.5">
+                          <Calendar className="w-3 h-3" />
+                          {formatDate(result.updated_at)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )
+      )}
+
+      {!loading && !error && response && response.results.length > 0 && (
+        <div className="mt-4 text-sm text-muted-foreground text-center">
+          Showing the top {response.results.length} matching passages
+        </div>
+      )}
+
+      {/* Document viewer, opened at the matching page */}
+      {openResult && (
+        <DocumentViewer
+          source={searchResultToSource(openResult)}
+          onClose={() => updateParams({ open: undefined })}
+          note="The highlighted passage matched your keyword search."
+        />
+      )}
+    </div>
+  )
+}
@@ -11,10 +11,13 @@ import {
   Plus,
   Minus,
   Sparkles,
+  GitCompare,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { documentsApi } from '@/api/documentsApi'
 import type { DocumentVersion, PolicyDocument } from '@/types/document'
+import type { Redline } from '@/types/diff'
+import { RedlineViewer } from './RedlineViewer'
 
 interface DocumentChangesModalProps {
   isOpen: boolean
@@ -40,6 +43,11 @@ export function DocumentChangesModal({
   const [versions, setVersions] = useState<VersionWithNumber[]>([])
   const [viewingVersion, setViewingVersion] = useState<VersionWithNumber | null>(null)
   const [loadingChanges, setLoadingChanges] = useState<Set<string>>(new Set())
+  const [redlineVersion, setRedlineVersion] = useState<VersionWithNumber | null>(null)
+  const [redlineBase, setRedlineBase] = useState<VersionWithNumber | null>(null)
+  const [redline, setRedline] = useState<Redline | null>(null)
+  const [redlineLoading, setRedlineLoading] = useState(false)
+  const [redlineError, setRedlineError] = useState<string | null>(null)
 
   useEffect(() => {
     if (isOpen && documentId) {
@@ -55,26 +63,18 @@ export function DocumentChangesModal({
       const doc = await documentsApi.getDocument(documentId)
       setDocument(doc)
 
-      // Sort by date ascending (oldest first) to assign version numbers correctly
-      const sortedVersions = [...(doc.versions || [])].sort((a, b) => {
-        const dateA = new Date(a.created_at || a.uploaded_at || 0).getTime()
-        const dateB = new Date(b.created_at || b.uploaded_at || 0).getTime()
-        return dateA - dateB
-      })
-
-      const totalVersions = sortedVersions.length
-
-      // Map versions with version numbers
-      const mappedVersions: VersionWithNumber[] = sortedVersions.map((v, idx) => ({
-        ...v,
-        uploaded_at: v.created_at || v.uploaded_at,
-        file_size: v.size || v.file_size || 0,
-        version_number: idx + 1,
-        is_current: idx === totalVersions - 1,
-      }))
-
-      // Reverse so newest is first
-      setVersions(mappedVersions.reverse())
+      // Version numbers and the current flag come from the server; newest first
+      const mappedVersions: VersionWithNumber[] = [...(doc.versions || [])]
+        .sort((a, b) => (b.version_number ?? 0) - (a.version_number ?? 0))
+        .map((v) => ({
+          ...v,
+          uploaded_at: v.created_at || v.uploaded_at,
+          file_size: v.size || v.file_size || 0,
+          version_number: v.version_number ?? 0,
+          is_current: v.is_current ?? v.id === doc.current_version_id,
+        }))
+
+      setVersions(mappedVersions)
     } catch (err) {
       console.error('Failed to load versions:', err)
       setError('Failed to load document versions. Make sure the server is running.')
@@ -126,6 +126,29 @@ export function DocumentChangesModal({
     }
   }
 
+  // Open the word-level redline of a version against the one before it
+  const openRedline = async (version: VersionWithNumber, previousVersion: VersionWithNumber) => {
+    setRedlineVersion(version)
+    setRedlineBase(previousVersion)
+    setRedline(null)
+    setRedlineError(null)
+    setRedlineLoading(true)
+
+    try {
+      const changes = await documentsApi.compareVersions(documentId, previousVersion.id, version.id)
+      if (changes.redline) {
+        setRedline(changes.redline)
+      } else {
+        setRedlineError('The files for these versions are not available to compare.')
+      }
+    } catch (err) {
+      console.error('Failed to load redline:', err)
+      setRedlineError('Failed to load redline. Make sure the server is running.')
+    } finally {
+      setRedlineLoading(false)
+    }
+  }
+
   if (!isOpen) return null
 
   const formatDate = (dateString: string) => {
@@ -326,14 +349,29 @@ export function DocumentChangesModal({
                         </span>
                       </div>
 
-                      {/* View button */}
-                      <button
-                        onClick={() => setViewingVersion(version)}
-                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-accent hover:bg-accent/80 rounded-md transition-colors"
-                      >
-                        <Eye className="w-3.5 h-3.5" />
-                        View
-                      </button>
+                      {/* View and redline buttons */}
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => setViewingVersion(version)}
+                          className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-accent hover:bg-accent/80 rounded-md transition-colors"
+                        >
+                          <Eye className="w-3.5 h-3.5" />
+                          View
+                        </button>
+                        {version.version_number > 1 && (() => {
+                          const previousVersion = versions[versions.findIndex(v => v.id === version.id) + 1]
+                          if (!previousVersion) return null
+                          return (
+                            <button
+                              onClick={() => openRedline(version, previousVersion)}
+                              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-accent hover:bg-accent/80 rounded-md transition-colors"
+                            >
+                              <GitCompare className="w-3.5 h-3.5" />
+                              Redline
+                            </button>
+                          )
+                        })()}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -353,6 +391,51 @@ export function DocumentChangesModal({
         </div>
       </div>
 
+      {/* Redline Modal */}
+      {redlineVersion && (
+        <div className="fixed inset-0 z-[60] bg-background/80 backdrop-blur-sm">
+          <div className="fixed inset-4 z-[60] bg-background border border-border rounded-lg shadow-xl flex flex-col overflow-hidden">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-muted/30">
+              <div className="flex items-center gap-3 min-w-0">
+                <GitCompare className="w-5 h-5 text-primary flex-shrink-0" />
+                <div className="min-w-0">
+                  <h2 className="font-semibold truncate">{document?.name || documentName}</h2>
+                  <div className="text-xs text-muted-foreground">
+                    Version {redlineBase?.version_number} → Version {redlineVersion.version_number}
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => setRedlineVersion(null)}
+                className="p-2 hover:bg-accent rounded-md transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Redline */}
+            <div className="flex-1 overflow-hidden p-4">
+              {redlineLoading && (
+                <div className="flex flex-col items-center justify-center h-full">
+                  <Loader2 className="w-8 h-8 animate-spin text-primary mb-3" />
+                  <p className="text-sm text-muted-foreground">Comparing versions...</p>
+                </div>
+              )}
+              {!redlineLoading && redlineError && (
+                <div className="flex flex-col items-center justify-center h-full">
+                  <AlertCircle className="w-6 h-6 text-destructive mb-3" />
+                  <p className="text-sm text-destructive text-center">{redlineError}</p>
+                </div>
+              )}
+              {!redlineLoading && redline && (
+                <RedlineViewer redline={redline} heightClassName="h-[calc(100vh-12rem)]" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Document Viewer Modal */}
       {viewingVersion && documentId && (
         <div className="fixed inset-0 z-[60] bg-background/80 backdrop-blur-sm">
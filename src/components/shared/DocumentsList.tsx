@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react'
-import { Search, FileText, Loader2, Calendar, User, History, MapPin } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { Search, FileText, Loader2, Calendar, CalendarClock, User, History, MapPin, Network } from 'lucide-react'
 import type { PolicyDocument } from '@/types/document'
 import { documentsApi } from '@/api/documentsApi'
 import { DocumentChangesModal } from './DocumentChanges'
 import { usePolicyFilter } from '@/hooks/usePolicyFilter'
 import { scopeLevelLabels } from '@/types/location'
+import { formatEffectiveDate } from '@/lib/utils'
 
 // Build document file URL for direct access
 const getDocumentUrl = (documentId: string): string => {
@@ -87,6 +89,13 @@ export function DocumentsList() {
           {filteredDocuments.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               No documents found matching "{searchQuery}"
+              {searchQuery.trim() && (
+                <div className="mt-2 text-sm">
+                  <Link to={`/search?q=${encodeURIComponent(searchQuery.trim())}`} className="text-primary hover:underline">
+                    Search policy text instead
+                  </Link>
+                </div>
+              )}
             </div>
           ) : (
             filteredDocuments.map((doc) => {
@@ -113,6 +122,12 @@ export function DocumentsList() {
                             {scopeLevelLabels[doc.scope.level]}
                           </span>
                         )}
+                        {doc.upcoming_change && (
+                          <span className="flex items-center gap-1 text-xs bg-amber-500/10 text-amber-600 px-1.5 py-0.5 rounded shrink-0">
+                            <CalendarClock className="w-3 h-3" />
+                            New version takes effect {formatEffectiveDate(doc.upcoming_change.effective_at)}
+                          </span>
+                        )}
                       </div>
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <span className="flex items-center gap-1.5">
@@ -138,6 +153,15 @@ export function DocumentsList() {
                           Changes
                         </span>
                       </button>
+                      <Link
+                        to={`/lineage/${doc.id}`}
+                        className="px-3 py-1.5 text-xs border border-border rounded-md hover:bg-accent transition-colors"
+                      >
+                        <span className="flex items-center gap-1.5">
+                          <Network className="w-3.5 h-3.5" />
+                          Lineage
+                        </span>
+                      </Link>
                       <a
                         href={getDocumentUrl(doc.id)}
                         target="_blank"
@@ -158,7 +182,7 @@ export function DocumentsList() {
       {/* Document count with location context */}
       {!loading && filteredDocuments.length > 0 && (
         <div className="mt-4 text-sm text-muted-foreground text-center">
-          Showing {filteredDocuments.length} documents visible at {location.wing}
+          Showing {filteredDocuments.length} documents visible {location ? `at ${location.wing}` : 'DAF-wide (sign in to see local policies)'}
         </div>
       )}
 
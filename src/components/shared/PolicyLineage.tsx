@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, Loader2, AlertCircle, Network } from 'lucide-react'
+import { lineageApi } from '@/api/lineageApi'
+import {
+  relationshipRoleLabels,
+  type LineageEdge,
+  type LineageGraph,
+  type LineageNode,
+} from '@/types/lineage'
+
+const NODE_WIDTH = 220
+const NODE_HEIGHT = 60
+const GAP_X = 56
+const GAP_Y = 88
+const PADDING = 24
+
+interface PlacedNode extends LineageNode {
+  x: number
+  y: number
+}
+
+// Implementing and supplementing documents sit one row below the document they build on;
+// superseding and referencing documents share a row
+function rowOffset(edge: LineageEdge, fromSource: boolean) {
+  if (edge.type !== 'implements' && edge.type !== 'supplements') return 0
+  return fromSource ? -1 : 1
+}
+
+// Rows by walking relationships out from the requested document, then columns in the order found
+function layout(graph: LineageGraph): { nodes: PlacedNode[]; width: number; height: number } {
+  const rows = new Map<string, number>([[graph.document_id, 0]])
+  const queue = [graph.document_id]
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    for (const edge of graph.edges) {
+      const fromSource = edge.source_document_id === id
+      if (!fromSource && edge.target_document_id !== id) continue
+      const other = fromSource ? edge.target_document_id : edge.source_document_id
+      if (rows.has(other)) continue
+      rows.set(other, rows.get(id)! + rowOffset(edge, fromSource))
+      queue.push(other)
+    }
+  }
+
+  const ranks = [...new Set(rows.values())].sort((a, b) => a - b)
+  const columns = new Map<number, string[]>()
+  for (const [id, row] of rows) {
+    columns.set(row, [...(columns.get(row) || []), id])
+  }
+  const widest = Math.max(...[...columns.values()].map(ids => ids.length))
+  const width = widest * NODE_WIDTH + (widest - 1) * GAP_X + PADDING * 2
+
+  const byId = new Map(graph.nodes.map(node => [node.id, node]))
+  const nodes: PlacedNode[] = []
+  ranks.forEach((row, rowIndex) => {
+    const ids = columns.get(row)!
+    // Center each row
+    const rowWidth = ids.length * NODE_WIDTH + (ids.length - 1) * GAP_X
+    const left = (width - rowWidth) / 2
+    ids.forEach((id, column) => {
+      const node = byId.get(id)
+      if (!node) return
+      nodes.push({ ...node, x: left + column * (NODE_WIDTH + GAP_X), y: PADDING + rowIndex * (NODE_HEIGHT + GAP_Y) })
+    })
+  })
+  return { nodes, width, height: PADDING * 2 + ranks.length * NODE_HEIGHT + (ranks.length - 1) * GAP_Y }
+}
+
+function truncate(text: string, length: number) {
+  return text.length > length ? text.slice(0, length - 1) + '…' : text
+}
+
+// Line from one node to another with its label; same-row edges arc above the row
+function EdgePath({ edge, from, to }: { edge: LineageEdge; from: PlacedNode; to: PlacedNode }) {
+  const label = relationshipRoleLabels[edge.type].toLowerCase()
+  if (from.y === to.y) {
+    const [x1, x2] = [from.x + NODE_WIDTH / 2, to.x + NODE_WIDTH / 2]
+    const lift = Math.min(GAP_Y - 16, 24 + Math.abs(x2 - x1) / 8)
+    const midX = (x1 + x2) / 2
+    return (
+      <g>
+        <path
+          d={`M ${x1} ${from.y} Q ${midX} ${from.y - lift * 2} ${x2} ${to.y}`}
+          fill="none"
+          className="stroke-muted-foreground"
+          strokeWidth={1.5}
+          markerEnd="url(#lineage-arrow)"
+        />
+        <text x={midX} y={from.y - lift - 4} textAnchor="middle" className="fill-muted-foreground text-[11px]">
+          {label}
+        </text>
+      </g>
+    )
+  }
+
+  const down = to.y > from.y
+  const x1 = from.x + NODE_WIDTH / 2
+  const y1 = down ? from.y + NODE_HEIGHT : from.y
+  const x2 = to.x + NODE_WIDTH / 2
+  const y2 = down ? to.y : to.y + NODE_HEIGHT
+  return (
+    <g>
+      <line x1={x1} y1={y1} x2={x2} y2={y2} className="stroke-muted-foreground" strokeWidth={1.5} markerEnd="url(#lineage-arrow)" />
+      <text x={(x1 + x2) / 2 + 6} y={(y1 + y2) / 2} className="fill-muted-foreground text-[11px]">
+        {label}
+      </text>
+    </g>
+  )
+}
+
+// Lineage of a policy: what it supersedes, implements, supplements and references, and what builds on it
+export function PolicyLineage() {
+  const { documentId } = useParams<{ documentId: string }>()
+  const navigate = useNavigate()
+  const [graph, setGraph] = useState<LineageGraph | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!documentId) return
+    setLoading(true)
+    setError(null)
+    lineageApi.getLineage(documentId)
+      .then(setGraph)
+      .catch((err) => {
+        console.error('Failed to load lineage:', err)
+        setError('Failed to load policy lineage. Make sure the server is running.')
+      })
+      .finally(() => setLoading(false))
+  }, [documentId])
+
+  const root = graph?.nodes.find(node => node.id === graph.document_id)
+  const placed = graph ? layout(graph) : null
+  const positions = new Map(placed?.nodes.map(node => [node.id, node]))
+  const names = new Map(graph?.nodes.map(node => [node.id, node.short_title || node.name]))
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <button
+        onClick={() => navigate(-1)}
+        className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back
+      </button>
+
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-primary/10 rounded-lg">
+          <Network className="w-6 h-6 text-primary" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-semibold font-display">Policy Lineage</h1>
+          <p className="text-muted-foreground mt-1">
+            {root ? `${root.short_title ? `${root.short_title} · ` : ''}${root.name}` : 'Confirmed relationships between policies'}
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-2 text-sm text-red-500 bg-red-500/10 px-3 py-2 rounded-md">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      ) : graph && placed && graph.edges.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          No confirmed relationships to other policies yet.
+        </div>
+      ) : graph && placed && (
+        <>
+          <div className="bg-card border border-border rounded-lg overflow-x-auto">
+            <svg width={placed.width} height={placed.height} className="mx-auto block">
+              <defs>
+                <marker id="lineage-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+                </marker>
+              </defs>
+
+              {graph.edges.map((edge) => {
+                const from = positions.get(edge.source_document_id)
+                const to = positions.get(edge.target_document_id)
+                return from && to ? <EdgePath key={edge.id} edge={edge} from={from} to={to} /> : null
+              })}
+
+              {placed.nodes.map((node) => (
+                <g
+                  key={node.id}
+                  onClick={() => node.id !== graph.document_id && navigate(`/lineage/${node.id}`)}
+                  className={node.id !== graph.document_id ? 'cursor-pointer' : undefined}
+                >
+                  <title>{node.name}</title>
+                  <rect
+                    x={node.x}
+                    y={node.y}
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={8}
+                    className={node.id === graph.document_id ? 'fill-primary/10 stroke-primary' : 'fill-card stroke-border'}
+                    strokeWidth={node.id === graph.document_id ? 2 : 1}
+                    strokeDasharray={node.superseded ? '5 4' : undefined}
+                  />
+                  <text x={node.x + 12} y={node.y + 24} className="fill-foreground text-xs font-mono font-semibold">
+                    {node.short_title || 'Policy'}
+                    {node.superseded && <tspan className="fill-amber-600 font-sans font-medium"> · Superseded</tspan>}
+                  </text>
+                  <text x={node.x + 12} y={node.y + 44} className="fill-muted-foreground text-xs">
+                    {truncate(node.name, 30)}
+                  </text>
+                </g>
+              ))}
+            </svg>
+          </div>
+
+          {/* The same relationships as text */}
+          <ul className="space-y-1 text-sm">
+            {graph.edges.map((edge) => (
+              <li key={edge.id}>
+                <span className="font-medium">{names.get(edge.source_document_id)}</span>{' '}
+                <span className="text-muted-foreground">{relationshipRoleLabels[edge.type].toLowerCase()}</span>{' '}
+                <span className="font-medium">{names.get(edge.target_document_id)}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
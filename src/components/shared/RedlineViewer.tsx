@@ -0,0 +1,253 @@
+import { useState, useRef, useMemo, useCallback, useEffect } from 'react'
+import { ChevronUp, ChevronDown, Columns2, AlignLeft, Plus, Minus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Redline, RedlineBlock, RedlineSegment } from '@/types/diff'
+
+type ViewMode = 'side-by-side' | 'inline'
+
+interface RedlineViewerProps {
+  redline: Redline
+  heightClassName?: string
+}
+
+const TYPE_BADGES: Record<RedlineBlock['type'], string> = {
+  unchanged: '',
+  added: 'bg-green-500/10 text-green-600',
+  removed: 'bg-red-500/10 text-red-600',
+  modified: 'bg-amber-500/10 text-amber-600',
+  moved: 'bg-blue-500/10 text-blue-600',
+}
+
+function Segments({ segments, show }: { segments: RedlineSegment[]; show: RedlineSegment['op'][] }) {
+  return (
+    <>
+      {segments.filter(seg => show.includes(seg.op)).map((seg, index) => (
+        <span key={index}>
+          {index > 0 && ' '}
+          <span
+            className={cn(
+              seg.op === 'insert' && 'bg-green-500/20 text-green-800 dark:text-green-300 underline decoration-green-500/50',
+              seg.op === 'delete' && 'bg-red-500/20 text-red-800 dark:text-red-300 line-through decoration-red-500/60'
+            )}
+          >
+            {seg.text}
+          </span>
+        </span>
+      ))}
+    </>
+  )
+}
+
+function BlockHeader({ block }: { block: RedlineBlock }) {
+  if (block.type === 'unchanged') return null
+  return (
+    <div className="flex items-center gap-2 mb-1 text-xs">
+      <span className="font-mono font-medium text-foreground">
+        {block.previous_section ? `${block.previous_section} → ${block.section}` : block.section}
+      </span>
+      <span className={cn('px-1.5 py-0.5 rounded font-medium uppercase', TYPE_BADGES[block.type])}>{block.type}</span>
+    </div>
+  )
+}
+
+// Word-level redline of a whole document: side-by-side with synchronized scrolling, or inline.
+// Unchanged sections are kept for context and can be hidden.
+export function RedlineViewer({ redline, heightClassName = 'h-[480px]' }: RedlineViewerProps) {
+  const [mode, setMode] = useState<ViewMode>('side-by-side')
+  const [changesOnly, setChangesOnly] = useState(false)
+  const [active, setActive] = useState(0)
+  const leftRef = useRef<HTMLDivElement>(null)
+  const rightRef = useRef<HTMLDivElement>(null)
+  const inlineRef = useRef<HTMLDivElement>(null)
+  // Pane whose next scroll event we caused ourselves and should not echo back
+  const ignoreScroll = useRef<HTMLDivElement | null>(null)
+
+  const changed = useMemo(
+    () => redline.blocks.flatMap((block, index) => (block.type === 'unchanged' ? [] : [index])),
+    [redline]
+  )
+
+  const scrollToBlock = useCallback((blockIndex: number) => {
+    const panes = mode === 'inline' ? [inlineRef.current] : [leftRef.current, rightRef.current]
+    for (const pane of panes) {
+      const el = pane?.querySelector<HTMLElement>(`[data-block="${blockIndex}"]`)
+      if (pane && el) {
+        ignoreScroll.current = mode === 'inline' ? null : pane
+        pane.scrollTop = Math.max(0, el.offsetTop - 12)
+      }
+    }
+  }, [mode])
+
+  const goTo = useCallback((next: number) => {
+    if (changed.length === 0) return
+    const wrapped = (next + changed.length) % changed.length
+    setActive(wrapped)
+    scrollToBlock(changed[wrapped])
+  }, [changed, scrollToBlock])
+
+  // Start from the first change when a new diff arrives
+  useEffect(() => {
+    setActive(0)
+  }, [redline])
+
+  // Scroll to the active change when it moves, and re-anchor on it when switching views
+  // (changesOnly moves every block) or when a new diff arrives
+  useEffect(() => {
+    if (active < changed.length) scrollToBlock(changed[active])
+  }, [active, changed, changesOnly, scrollToBlock])
+
+  // Keep the other pane on the same block, at the same relative offset within it
+  const syncScroll = (source: HTMLDivElement | null, target: HTMLDivElement | null) => {
+    if (!source || !target) return
+    if (ignoreScroll.current === source) {
+      ignoreScroll.current = null
+      return
+    }
+
+    const blocks = Array.from(source.querySelectorAll<HTMLElement>('[data-block]'))
+    const anchor = blocks.find(el => el.offsetTop + el.offsetHeight > source.scrollTop)
+    if (!anchor) return
+    const counterpart = target.querySelector<HTMLElement>(`[data-block="${anchor.dataset.block}"]`)
+    if (!counterpart) return
+
+    const ratio = anchor.offsetHeight > 0 ? (source.scrollTop - anchor.offsetTop) / anchor.offsetHeight : 0
+    const top = Math.min(
+      counterpart.offsetTop + ratio * counterpart.offsetHeight,
+      target.scrollHeight - target.clientHeight
+    )
+    if (Math.abs(target.scrollTop - top) < 1) return
+    ignoreScroll.current = target
+    target.scrollTop = top
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'n' || e.key === 'j') {
+      e.preventDefault()
+      goTo(active + 1)
+    } else if (e.key === 'p' || e.key === 'k') {
+      e.preventDefault()
+      goTo(active - 1)
+    }
+  }
+
+  const visible = redline.blocks
+    .map((block, index) => ({ block, index }))
+    .filter(({ block }) => !changesOnly || block.type !== 'unchanged')
+  const activeBlock = changed[active]
+
+  const blockClass = (block: RedlineBlock, index: number) => cn(
+    'px-3 py-2 rounded-md whitespace-pre-wrap break-words',
+    block.type === 'unchanged' ? 'text-muted-foreground' : 'text-foreground',
+    index === activeBlock && 'ring-2 ring-primary/60 bg-primary/5'
+  )
+
+  return (
+    <div className="bg-card border border-border rounded-lg overflow-hidden focus:outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2 border-b border-border bg-muted/30">
+        <div className="flex items-center gap-4 text-xs">
+          <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
+            <Plus className="w-3.5 h-3.5" />
+            {redline.stats.words_added} words
+          </span>
+          <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+            <Minus className="w-3.5 h-3.5" />
+            {redline.stats.words_removed} words
+          </span>
+          <span className="text-muted-foreground">
+            {redline.stats.changed_sections} changed section{redline.stats.changed_sections === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <input type="checkbox" checked={changesOnly} onChange={e => setChangesOnly(e.target.checked)} />
+            Changes only
+          </label>
+          <div className="flex rounded-md border border-border overflow-hidden">
+            <button
+              onClick={() => setMode('side-by-side')}
+              className={cn('p-1.5', mode === 'side-by-side' ? 'bg-accent text-foreground' : 'text-muted-foreground hover:bg-accent/50')}
+              title="Side by side"
+            >
+              <Columns2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setMode('inline')}
+              className={cn('p-1.5', mode === 'inline' ? 'bg-accent text-foreground' : 'text-muted-foreground hover:bg-accent/50')}
+              title="Inline"
+            >
+              <AlignLeft className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => goTo(active - 1)}
+              disabled={changed.length === 0}
+              className="p-1.5 rounded-md hover:bg-accent disabled:opacity-40"
+              title="Previous change (p)"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <span className="text-xs text-muted-foreground tabular-nums min-w-[4.5rem] text-center">
+              {changed.length > 0 ? `${active + 1} of ${changed.length}` : 'No changes'}
+            </span>
+            <button
+              onClick={() => goTo(active + 1)}
+              disabled={changed.length === 0}
+              className="p-1.5 rounded-md hover:bg-accent disabled:opacity-40"
+              title="Next change (n)"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Panes */}
+      {mode === 'side-by-side' ? (
+        <div className="grid grid-cols-2 divide-x divide-border">
+          <div className="px-3 py-1.5 text-xs font-medium text-muted-foreground border-b border-border">Previous version</div>
+          <div className="px-3 py-1.5 text-xs font-medium text-muted-foreground border-b border-border">New version</div>
+          <div
+            ref={leftRef}
+            onScroll={() => syncScroll(leftRef.current, rightRef.current)}
+            className={cn('relative overflow-y-auto p-2 space-y-1 text-sm', heightClassName)}
+          >
+            {visible.map(({ block, index }) => (
+              <div key={index} data-block={index} className={blockClass(block, index)}>
+                <BlockHeader block={block} />
+                {block.type === 'added'
+                  ? <span className="text-xs italic text-muted-foreground">Not in previous version</span>
+                  : <Segments segments={block.segments} show={['equal', 'delete']} />}
+              </div>
+            ))}
+          </div>
+          <div
+            ref={rightRef}
+            onScroll={() => syncScroll(rightRef.current, leftRef.current)}
+            className={cn('relative overflow-y-auto p-2 space-y-1 text-sm', heightClassName)}
+          >
+            {visible.map(({ block, index }) => (
+              <div key={index} data-block={index} className={blockClass(block, index)}>
+                <BlockHeader block={block} />
+                {block.type === 'removed'
+                  ? <span className="text-xs italic text-muted-foreground">Removed in new version</span>
+                  : <Segments segments={block.segments} show={['equal', 'insert']} />}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div ref={inlineRef} className={cn('relative overflow-y-auto p-2 space-y-1 text-sm', heightClassName)}>
+          {visible.map(({ block, index }) => (
+            <div key={index} data-block={index} className={blockClass(block, index)}>
+              <BlockHeader block={block} />
+              <Segments segments={block.segments} show={['equal', 'delete', 'insert']} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { useMemo } from 'react'
+import ReactMarkdown from 'react-markdown'
+import { AlertTriangle } from 'lucide-react'
+import type { CitedSource } from '@/types/chat'
+import { linkCitations, markUnsupported, parseCitationHref } from '@/lib/citations'
+
+interface CitedAnswerProps {
+  content: string
+  sources: CitedSource[]
+  onOpenSource: (source: CitedSource) => void
+  unsupported?: string[]  // Sentences the grounding check could not support
+}
+
+const NO_SENTENCES: string[] = []
+
+// Markdown answer whose [n] markers are footnotes that open the cited passage
+export function CitedAnswer({ content, sources, onOpenSource, unsupported = NO_SENTENCES }: CitedAnswerProps) {
+  const { content: linked, unverified } = useMemo(
+    () => linkCitations(markUnsupported(content, unsupported), sources),
+    [content, sources, unsupported]
+  )
+
+  return (
+    <>
+      <ReactMarkdown
+        components={{
+          a: ({ href, children }) => {
+            const citation = parseCitationHref(href)
+            if (!citation) {
+              return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+            }
+
+            if (citation.kind === 'unverified') {
+              return (
+                <span
+                  className="text-amber-600 dark:text-amber-400 underline decoration-dotted cursor-help"
+                  title="Unverified: no retrieved policy passage matches this citation"
+                >
+                  {children}
+                  <sup>?</sup>
+                </span>
+              )
+            }
+
+            if (citation.kind === 'unsupported') {
+              return (
+                <span
+                  className="text-[0.7em] font-medium align-middle bg-red-500/10 text-red-600 dark:text-red-400 px-1 py-0.5 rounded cursor-help"
+                  title="Not supported by the retrieved policy passages - check the source before relying on it"
+                >
+                  Unsupported
+                </span>
+              )
+            }
+
+            const source = sources[citation.number - 1]
+            return (
+              <button
+                type="button"
+                onClick={() => onOpenSource(source)}
+                className="align-super text-[0.7em] font-semibold text-primary hover:underline px-0.5"
+                title={`${source.filename || 'Policy document'}${source.page_number ? `, page ${source.page_number}` : ''}`}
+              >
+                [{citation.number}]
+              </button>
+            )
+          },
+        }}
+      >
+        {linked}
+      </ReactMarkdown>
+
+      {unverified.length > 0 && (
+        <p className="not-prose mt-2 flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-3 h-3" />
+          {unverified.length === 1 ? '1 citation' : `${unverified.length} citations`} could not be matched to a retrieved passage: {unverified.join(', ')}
+        </p>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react'
+import { toast } from 'sonner'
+import { Search, Plus, Pencil, Trash2, Link2, Link2Off, Check, X, Loader2, MessageSquare } from 'lucide-react'
+import { conversationsApi, shareLink } from '@/api/conversationsApi'
+import type { ConversationSummary } from '@/types/conversation'
+import { cn } from '@/lib/utils'
+
+interface ConversationHistoryProps {
+  activeId: string | null
+  refreshKey: number  // Bumped by the assistant after it saves, to reload the list
+  disabled?: boolean  // While an answer is in flight
+  onSelect: (conversationId: string) => void
+  onNew: () => void
+  onDeleted: (conversationId: string) => void
+}
+
+// Wait this long after typing before searching
+const SEARCH_DELAY_MS = 250
+
+function formatDate(dateString: string) {
+  const date = new Date(dateString)
+  const sameDay = date.toDateString() === new Date().toDateString()
+  return sameDay
+    ? date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+// Sidebar of the signed-in user's saved conversations: search, resume, rename, share and delete
+export function ConversationHistory({ activeId, refreshKey, disabled, onSelect, onNew, onDeleted }: ConversationHistoryProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [query, setQuery] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const list = await conversationsApi.listConversations(query.trim() || undefined)
+        if (!cancelled) setConversations(list)
+      } catch (err) {
+        console.error('Failed to load conversations:', err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, query ? SEARCH_DELAY_MS : 0)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, refreshKey])
+
+  const replace = (updated: Partial<ConversationSummary> & { id: string }) => {
+    setConversations((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated } : c)))
+  }
+
+  const startRename = (conversation: ConversationSummary) => {
+    setRenamingId(conversation.id)
+    setRenameValue(conversation.title)
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const id = renamingId
+    const title = renameValue.trim()
+    setRenamingId(null)
+    if (!id || !title) return
+    try {
+      const conversation = await conversationsApi.updateConversation(id, { title })
+      replace({ id, title: conversation.title })
+    } catch (err) {
+      console.error('Failed to rename conversation:', err)
+      toast.error('Failed to rename conversation')
+    }
+  }
+
+  const handleDelete = async (conversation: ConversationSummary) => {
+    if (!confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return
+    try {
+      await conversationsApi.deleteConversation(conversation.id)
+      setConversations((prev) => prev.filter((c) => c.id !== conversation.id))
+      onDeleted(conversation.id)
+    } catch (err) {
+      console.error('Failed to delete conversation:', err)
+      toast.error('Failed to delete conversation')
+    }
+  }
+
+  const handleShare = async (conversation: ConversationSummary) => {
+    try {
+      const { share_token, shared_at } = await conversationsApi.shareConversation(conversation.id)
+      replace({ id: conversation.id, share_token, shared_at })
+      const link = shareLink(share_token)
+      try {
+        await navigator.clipboard.writeText(link)
+        toast.success('Share link copied', { description: 'Anyone signed in with the link can read this conversation.' })
+      } catch {
+        toast.success('Share link created', { description: link })
+      }
+    } catch (err) {
+      console.error('Failed to share conversation:', err)
+      toast.error('Failed to create share link')
+    }
+  }
+
+  const handleUnshare = async (conversation: ConversationSummary) => {
+    try {
+      await conversationsApi.unshareConversation(conversation.id)
+      replace({ id: conversation.id, share_token: null, shared_at: null })
+      toast.success('Share link turned off')
+    } catch (err) {
+      console.error('Failed to turn off share link:', err)
+      toast.error('Failed to turn off share link')
+    }
+  }
+
+  return (
+    <aside className="hidden md:flex w-64 shrink-0 flex-col border-r border-border bg-background">
+      <div className="p-3 space-y-2 border-b border-border">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          New chat
+        </button>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations"
+            className="w-full pl-8 pr-2 py-1.5 text-sm bg-card border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-2 space-y-0.5">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="px-2 py-6 text-xs text-center text-muted-foreground">
+            {query ? 'No conversations match your search' : 'Your conversations will appear here'}
+          </p>
+        ) : (
+          conversations.map((conversation) =>
+            renamingId === conversation.id ? (
+              <form key={conversation.id} onSubmit={handleRename} className="flex items-center gap-1 px-1 py-1">
+                <input
+                  autoFocus
+                  type="text"
+                  value={renameValue}
+                  maxLength={120}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Escape' && setRenamingId(null)}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm bg-card border border-border rounded focus:outline-none focus:ring-2 focus:ring-ring"
+                />
+                <button type="submit" className="p-1 text-muted-foreground hover:text-foreground" title="Save">
+                  <Check className="w-3.5 h-3.5" />
+                </button>
+                <button type="button" onClick={() => setRenamingId(null)} className="p-1 text-muted-foreground hover:text-foreground" title="Cancel">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </form>
+            ) : (
+              <div
+                key={conversation.id}
+                className={cn(
+                  'group flex items-start gap-2 px-2 py-2 rounded-md cursor-pointer transition-colors',
+                  conversation.id === activeId ? 'bg-accent' : 'hover:bg-accent/60',
+                  disabled && 'pointer-events-none opacity-60'
+                )}
+                onClick={() => onSelect(conversation.id)}
+              >
+                <MessageSquare className="w-3.5 h-3.5 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm truncate">{conversation.title}</div>
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    {formatDate(conversation.updated_at)}
+                    {conversation.share_token && (
+                      <span className="flex items-center gap-0.5 text-primary">
+                        <Link2 className="w-3 h-3" />
+                        Shared
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {/* Actions - shown on hover */}
+                <div className="hidden group-hover:flex items-center" onClick={(e) => e.stopPropagation()}>
+                  <button onClick={() => startRename(conversation)} className="p-1 text-muted-foreground hover:text-foreground" title="Rename">
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => handleShare(conversation)} className="p-1 text-muted-foreground hover:text-foreground" title="Copy read-only share link">
+                    <Link2 className="w-3.5 h-3.5" />
+                  </button>
+                  {conversation.share_token && (
+                    <button onClick={() => handleUnshare(conversation)} className="p-1 text-muted-foreground hover:text-foreground" title="Turn off share link">
+                      <Link2Off className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button onClick={() => handleDelete(conversation)} className="p-1 text-muted-foreground hover:text-red-500" title="Delete">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            )
+          )
+        )}
+      </div>
+    </aside>
+  )
+}
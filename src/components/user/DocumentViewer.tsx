@@ -22,6 +22,7 @@ function formatDate(dateString?: string): string | null {
 interface DocumentViewerProps {
   source: CitedSource
   onClose: () => void
+  note?: string  // Footer note on where the highlighted content came from
 }
 
 // Clean up the filename to be more readable
@@ -38,7 +39,11 @@ function cleanFilename(filename?: string): string {
 
 type LeftPanelTab = 'content' | 'history'
 
-export function DocumentViewer({ source, onClose }: DocumentViewerProps) {
+export function DocumentViewer({
+  source,
+  onClose,
+  note = 'The highlighted content was retrieved using LlamaFarm RAG semantic search.',
+}: DocumentViewerProps) {
   const documentName = cleanFilename(source.filename || source.source)
   const confidencePercent = source.score ? Math.round(source.score * 100) : null
 
@@ -67,17 +72,8 @@ export function DocumentViewer({ source, onClose }: DocumentViewerProps) {
     setLoadingVersions(true)
     try {
       const response = await documentsApi.listVersions(source.document_id)
-      // Sort by created_at ascending so oldest is first
-      const sortedVersions = [...response.versions].sort(
-        (a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
-      )
-      // Add version numbers
-      const numberedVersions = sortedVersions.map((v, idx) => ({
-        ...v,
-        version_number: idx + 1
-      }))
-      // Reverse for display (newest first)
-      setVersions(numberedVersions.reverse())
+      // Newest first, by the version number the server assigned at upload
+      setVersions([...response.versions].sort((a, b) => (b.version_number ?? 0) - (a.version_number ?? 0)))
     } catch (err) {
       console.error('Failed to load versions:', err)
     } finally {
@@ -236,7 +232,7 @@ export function DocumentViewer({ source, onClose }: DocumentViewerProps) {
                       </p>
                       {versions.map((version) => {
                         const isSelected = selectedVersionId === version.id
-                        const isCurrent = source.version_id === version.id && !selectedVersionId
+                        const isCited = source.version_id === version.id && !selectedVersionId
 
                         return (
                           <button
@@ -244,7 +240,7 @@ export function DocumentViewer({ source, onClose }: DocumentViewerProps) {
                             onClick={() => handleVersionClick(version)}
                             className={cn(
                               "w-full text-left p-3 rounded-lg border transition-colors",
-                              isSelected || isCurrent
+                              isSelected || isCited
                                 ? "border-primary bg-primary/5"
                                 : "border-border hover:border-primary/50 hover:bg-accent/50"
                             )}
@@ -254,7 +250,7 @@ export function DocumentViewer({ source, onClose }: DocumentViewerProps) {
                                 <span className="font-medium text-sm">
                                   Version {version.version_number}
                                 </span>
-                                {isCurrent && !selectedVersionId && (
+                                {version.is_current && (
                                   <span className="text-xs bg-primary/10 text-primary px-1.5 py-0.5 rounded">
                                     Current
                                   </span>
@@ -323,7 +319,7 @@ export function DocumentViewer({ source, onClose }: DocumentViewerProps) {
         {/* Footer with actions */}
         <div className="px-4 py-3 border-t border-border bg-muted/30 flex items-center justify-between">
           <p className="text-xs text-muted-foreground">
-            The highlighted content was retrieved using LlamaFarm RAG semantic search.
+            {note}
           </p>
           <button
             onClick={onClose}
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { History, X, Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { documentsApi } from '@/api/documentsApi'
+import type { DocumentWithVersions, DocumentVersion } from '@/types/document'
+import type { PinnedVersion } from '@/types/chat'
+
+interface PastVersionPickerProps {
+  value: PinnedVersion | null
+  onChange: (version: PinnedVersion | null) => void
+  disabled?: boolean
+  className?: string
+}
+
+interface PastVersionOption {
+  id: string
+  label: string
+}
+
+const formatDate = (dateString?: string) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : 'Unknown date'
+
+// Superseded versions that can be asked about - pending and rejected versions are never retrievable
+function pastVersions(doc: DocumentWithVersions): PastVersionOption[] {
+  return [...doc.versions]
+    .filter((version: DocumentVersion) => !version.is_current && (version.status ?? 'published') === 'published')
+    .sort((a, b) => (b.version_number ?? 0) - (a.version_number ?? 0))
+    .map((version) => ({
+      id: version.id,
+      label: `Version ${version.version_number} · ${formatDate(version.created_at || version.uploaded_at)}`,
+    }))
+}
+
+// "Ask about a past version" toggle: pins the assistant's retrieval to one superseded version
+export function PastVersionPicker({ value, onChange, disabled, className }: PastVersionPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [documents, setDocuments] = useState<DocumentWithVersions[]>([])
+  const [documentId, setDocumentId] = useState('')
+  const [versionId, setVersionId] = useState('')
+
+  const handleOpen = async () => {
+    setOpen(true)
+    if (documents.length > 0) return
+    setLoading(true)
+    try {
+      const response = await documentsApi.listDocuments()
+      setDocuments(response.documents.filter(doc => pastVersions(doc).length > 0))
+    } catch (err) {
+      console.error('Failed to load documents for past versions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectedDoc = documents.find(doc => doc.id === documentId)
+  const options = selectedDoc ? pastVersions(selectedDoc) : []
+
+  const handlePin = () => {
+    const option = options.find(o => o.id === versionId)
+    if (!selectedDoc || !option) return
+    onChange({
+      document_id: selectedDoc.id,
+      document_name: selectedDoc.short_title || selectedDoc.name,
+      version_id: option.id,
+      label: option.label,
+    })
+    setOpen(false)
+  }
+
+  if (value) {
+    return (
+      <div className={cn('flex items-center gap-2 text-xs', className)}>
+        <span className="flex items-center gap-1.5 px-2 py-1 rounded bg-amber-500/10 text-amber-600 font-medium">
+          <History className="w-3.5 h-3.5" />
+          Asking about {value.document_name}, {value.label} (superseded)
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="p-1 rounded text-muted-foreground hover:bg-accent disabled:opacity-50"
+          title="Back to current policies"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    )
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={handleOpen}
+        disabled={disabled}
+        className={cn('flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50', className)}
+      >
+        <History className="w-3.5 h-3.5" />
+        Ask about a past version
+      </button>
+    )
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2 text-xs', className)}>
+      {loading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      ) : documents.length === 0 ? (
+        <span className="text-muted-foreground">No policies have past versions yet.</span>
+      ) : (
+        <>
+          <select
+            value={documentId}
+            onChange={(e) => {
+              setDocumentId(e.target.value)
+              setVersionId('')
+            }}
+            className="px-2 py-1.5 bg-card border border-border rounded-md"
+          >
+            <option value="">Select a policy...</option>
+            {documents.map(doc => (
+              <option key={doc.id} value={doc.id}>
+                {doc.short_title ? `${doc.short_title} - ${doc.name}` : doc.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={versionId}
+            onChange={(e) => setVersionId(e.target.value)}
+            disabled={!selectedDoc}
+            className="px-2 py-1.5 bg-card border border-border rounded-md disabled:opacity-50"
+          >
+            <option value="">Select a version...</option>
+            {options.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handlePin}
+            disabled={!versionId}
+            className="px-3 py-1.5 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+          >
+            Ask about this version
+          </button>
+        </>
+      )}
+      <button
+        type="button"
+        onClick={() => setOpen(false)}
+        className="px-2 py-1.5 text-muted-foreground hover:text-foreground"
+      >
+        Cancel
+      </button>
+    </div>
+  )
+}
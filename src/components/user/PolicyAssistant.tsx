@@ -1,17 +1,26 @@
 import { useState, useRef, useEffect } from 'react'
+import { toast } from 'sonner'
 import { Send, Square, Loader2, FileText, Clock, ArrowRight, Search, ThumbsUp, ThumbsDown, MessageSquare, Printer, AlertCircle, HelpCircle, Plus } from 'lucide-react'
-import ReactMarkdown from 'react-markdown'
 import { cn } from '@/lib/utils'
-import type { ChatMessage, CitedSource } from '@/types/chat'
+import type { ChatMessage, CitedSource, PinnedVersion } from '@/types/chat'
 import { SourcesDisplay } from './SourcesDisplay'
+import { CitedAnswer } from './CitedAnswer'
 import { DocumentViewer } from './DocumentViewer'
+import { PastVersionPicker } from './PastVersionPicker'
+import { ConversationHistory } from './ConversationHistory'
 import { chatApi } from '@/api/chatApi'
+import { conversationsApi } from '@/api/conversationsApi'
+import { feedbackApi } from '@/api/feedbackApi'
+import { feedbackReasonLabels, type FeedbackReason } from '@/types/feedback'
 import { documentsApi } from '@/api/documentsApi'
 import { useAuth } from '@/contexts/AuthContext'
 
-// Storage key for chat history (per role)
+// Storage key for chat history while signed out; signed-in users' conversations are saved on the server
 const CHAT_STORAGE_KEY = 'regsync_chat_history'
 
+// Shown instead of a generated answer that its sources do not support
+const NO_INFORMATION_ANSWER = "I don't have information on that in the policy documents. The retrieved passages did not support the generated answer, so it has been withheld."
+
 interface RecentUpdate {
   id: string
   documentName: string
@@ -61,22 +70,58 @@ const getRelatedQuestions = (query: string): string[] => {
 }
 
 export function PolicyAssistant() {
-  const { isAuthenticated } = useAuth()
+  const { isLoading: authLoading, isAuthenticated, hasPermission } = useAuth()
+  // Signed-in users get named conversations saved on the server and can rate answers;
+  // signed-out chat stays in this browser
+  const serverHistory = hasPermission('ask_questions')
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
-  const [isTyping, setIsTyping] = useState(false)
+  // True while an answer is streaming in
+  const [isStreaming, setIsStreaming] = useState(false)
   const [feedback, setFeedback] = useState<Record<string, 'up' | 'down' | null>>({})
+  // Answer whose downvote form (reason and comment) is open
+  const [feedbackFormId, setFeedbackFormId] = useState<string | null>(null)
+  const [feedbackReason, setFeedbackReason] = useState<FeedbackReason | ''>('')
+  const [feedbackComment, setFeedbackComment] = useState('')
   const [recentUpdates, setRecentUpdates] = useState<RecentUpdate[]>([])
   const [selectedSource, setSelectedSource] = useState<CitedSource | null>(null)
+  // Past version the user is asking about; null means current policies only
+  const [pinnedVersion, setPinnedVersion] = useState<PinnedVersion | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
-  const typingIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
-  const pendingMessageRef = useRef<{ message: ChatMessage; fullContent: string } | null>(null)
   const prevAuthRef = useRef<boolean | null>(null)
+  // Saved conversation the chat belongs to; null until the first answer is saved
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const conversationIdRef = useRef<string | null>(null)
+  // Messages as last loaded from or saved to the server, so resuming a conversation does not re-save it
+  const savedMessagesRef = useRef<ChatMessage[] | null>(null)
+  // Saves run one at a time so the first answer's create finishes before the next update
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  // Bumped after each save so the history sidebar reloads
+  const [historyVersion, setHistoryVersion] = useState(0)
+
+  const selectConversation = (id: string | null) => {
+    conversationIdRef.current = id
+    setConversationId(id)
+  }
 
-  // Load chat history from localStorage on mount
+  // Once the session check finishes: signed-out users resume the chat kept in this browser.
+  // Signing in or out afterwards starts a fresh chat.
   useEffect(() => {
+    if (authLoading || prevAuthRef.current === isAuthenticated) return
+    const firstCheck = prevAuthRef.current === null
+    prevAuthRef.current = isAuthenticated
+
+    if (!firstCheck) {
+      setMessages([])
+      setFeedback({})
+      selectConversation(null)
+      savedMessagesRef.current = null
+      localStorage.removeItem(CHAT_STORAGE_KEY)
+      return
+    }
+    if (isAuthenticated) return
     try {
       const saved = localStorage.getItem(CHAT_STORAGE_KEY)
       if (saved) {
@@ -88,40 +133,44 @@ export function PolicyAssistant() {
     } catch (err) {
       console.error('Failed to load chat history:', err)
     }
-  }, [])
+  }, [authLoading, isAuthenticated])
 
-  // Clear chat when admin signs in or out
+  // Save the chat when messages change (once per answer, not per token): to the server when
+  // signed in, otherwise to localStorage
   useEffect(() => {
-    // Skip initial render
-    if (prevAuthRef.current === null) {
-      prevAuthRef.current = isAuthenticated
+    if (messages.length === 0 || isLoading || isStreaming) return
+
+    if (!serverHistory) {
+      try {
+        localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(messages))
+      } catch (err) {
+        console.error('Failed to save chat history:', err)
+      }
       return
     }
-    // Auth state changed - clear the chat
-    if (prevAuthRef.current !== isAuthenticated) {
-      setMessages([])
-      setFeedback({})
-      localStorage.removeItem(CHAT_STORAGE_KEY)
-      prevAuthRef.current = isAuthenticated
-    }
-  }, [isAuthenticated])
 
-  // Save chat history to localStorage when messages change
-  useEffect(() => {
-    if (messages.length === 0) return
-    try {
-      localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(messages))
-    } catch (err) {
-      console.error('Failed to save chat history:', err)
-    }
-  }, [messages])
+    if (savedMessagesRef.current === messages) return
+    savedMessagesRef.current = messages
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      try {
+        const id = conversationIdRef.current
+        if (id) {
+          await conversationsApi.updateConversation(id, { messages })
+        } else {
+          const conversation = await conversationsApi.createConversation({ messages })
+          selectConversation(conversation.id)
+        }
+        setHistoryVersion((v) => v + 1)
+      } catch (err) {
+        console.error('Failed to save conversation:', err)
+      }
+    })
+  }, [messages, isLoading, isStreaming, serverHistory])
 
-  // Cleanup typing interval on unmount
+  // Cancel an in-flight answer on unmount
   useEffect(() => {
     return () => {
-      if (typingIntervalRef.current) {
-        clearInterval(typingIntervalRef.current)
-      }
+      abortControllerRef.current?.abort()
     }
   }, [])
 
@@ -141,16 +190,16 @@ export function PolicyAssistant() {
           if (docsWithUpdates.length >= 3) break
           try {
             const versionsResponse = await documentsApi.listVersions(doc.id)
-            if (versionsResponse.versions.length >= 2) {
-              // This doc has actual updates (multiple versions)
-              const latestVersion = versionsResponse.versions[0]
+            const currentVersion = versionsResponse.versions.find(v => v.is_current)
+            if (currentVersion && (currentVersion.version_number ?? 1) > 1) {
+              // This doc has actual updates (a version after the first is current)
               docsWithUpdates.push({
                 id: doc.id,
                 documentName: doc.name,
                 shortTitle: doc.short_title || 'Policy Document',
-                summary: `Updated to version ${versionsResponse.versions.length}`,
+                summary: `Updated to version ${currentVersion.version_number}`,
                 updatedAt: doc.updated_at,
-                updatedBy: latestVersion?.uploaded_by || 'Policy Administrator',
+                updatedBy: currentVersion.uploaded_by || 'Policy Administrator',
               })
             }
           } catch {
@@ -166,17 +215,21 @@ export function PolicyAssistant() {
     loadRecentUpdates()
   }, [])
 
-  // Calculate confidence score from sources (max score)
-  const getConfidenceScore = (sources: ChatMessage['sources']): number | null => {
-    if (!sources || sources.length === 0) return null
-    const maxScore = Math.max(...sources.map((s) => s.score || 0))
+  // Confidence is the share of the answer's claims its sources support; answers saved
+  // before grounding checks existed fall back to the best retrieval score
+  const getConfidenceScore = (message: ChatMessage): number | null => {
+    if (message.grounding) return message.grounding.confidence
+    if (!message.sources || message.sources.length === 0) return null
+    const maxScore = Math.max(...message.sources.map((s) => s.score || 0))
     return Math.round(maxScore * 100)
   }
 
-  // Check if message is a "no answer" response (no sources or low confidence)
+  // Check if message is a "no answer" response (no sources, an answer the sources did not
+  // support, or a refusal with no claims)
   const isNoAnswer = (message: ChatMessage): boolean => {
     if (!message.sources || message.sources.length === 0) return true
-    const confidence = getConfidenceScore(message.sources)
+    if (message.ungroundedDraft || message.grounding?.claims === 0) return true
+    const confidence = getConfidenceScore(message)
     return confidence !== null && confidence < 50
   }
 
@@ -185,14 +238,46 @@ export function PolicyAssistant() {
     handleSend(`What are the latest updates in ${documentName}?`)
   }
 
-  // Handle feedback click
-  const handleFeedback = (messageId: string, type: 'up' | 'down') => {
-    setFeedback((prev) => ({
-      ...prev,
-      [messageId]: prev[messageId] === type ? null : type,
-    }))
-    // In production, this would send to analytics
-    console.log(`Feedback for message ${messageId}: ${type}`)
+  // Send a rating with the question, answer and sources it was given with
+  const submitFeedback = async (message: ChatMessage, query: string, type: 'up' | 'down', reason?: FeedbackReason, comment?: string) => {
+    await feedbackApi.submitFeedback({
+      message_id: message.id,
+      conversation_id: conversationIdRef.current,
+      rating: type,
+      reason: reason || null,
+      comment,
+      question: query,
+      answer: message.content,
+      sources: message.sources || [],
+    })
+  }
+
+  // Thumbs up is sent right away. Thumbs down is sent too, then a form asks for an optional
+  // reason and comment. Clicking the selected thumb again withdraws the rating.
+  const handleFeedback = (message: ChatMessage, query: string, type: 'up' | 'down') => {
+    const withdraw = feedback[message.id] === type
+    setFeedback((prev) => ({ ...prev, [message.id]: withdraw ? null : type }))
+    setFeedbackFormId(!withdraw && type === 'down' ? message.id : null)
+    setFeedbackReason('')
+    setFeedbackComment('')
+
+    const request = withdraw ? feedbackApi.removeFeedback(message.id) : submitFeedback(message, query, type)
+    request.catch((err) => {
+      console.error('Failed to send feedback:', err)
+      toast.error('Failed to send feedback')
+    })
+  }
+
+  const handleFeedbackDetails = async (e: React.FormEvent, message: ChatMessage, query: string) => {
+    e.preventDefault()
+    setFeedbackFormId(null)
+    try {
+      await submitFeedback(message, query, 'down', feedbackReason || undefined, feedbackComment.trim() || undefined)
+      toast.success('Thanks - your feedback was sent to the policy team')
+    } catch (err) {
+      console.error('Failed to send feedback:', err)
+      toast.error('Failed to send feedback')
+    }
   }
 
   // Print summary for counseling sessions
@@ -200,11 +285,12 @@ export function PolicyAssistant() {
     const printWindow = window.open('', '_blank')
     if (!printWindow) return
 
+    // Numbered to match the [n] markers in the answer
     const sources = message.sources?.map((s, i) =>
-      `[${i + 1}] ${s.section || 'Document Section'}${s.updated_by ? ` (${s.updated_by})` : ''}`
+      `[${i + 1}] ${s.filename || s.section || 'Document Section'}${s.page_number ? `, page ${s.page_number}` : ''}${s.updated_by ? ` (${s.updated_by})` : ''}`
     ).join('\n') || 'No sources cited'
 
-    const confidence = getConfidenceScore(message.sources)
+    const confidence = getConfidenceScore(message)
     const now = new Date().toLocaleString()
 
     printWindow.document.write(`
@@ -269,7 +355,7 @@ export function PolicyAssistant() {
 
   const handleSend = async (queryOverride?: string) => {
     const query = queryOverride || input
-    if (!query.trim() || isLoading || isTyping) return
+    if (!query.trim() || isLoading || isStreaming) return
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
@@ -282,6 +368,27 @@ export function PolicyAssistant() {
     setInput('')
     setIsLoading(true)
 
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    // The assistant message is added on the first stream event and filled in as events arrive
+    const assistantId = (Date.now() + 1).toString()
+    let started = false
+    let content = ''
+    const updateAssistant = (changes: Partial<ChatMessage>) => {
+      if (!started) {
+        started = true
+        setIsLoading(false)
+        setIsStreaming(true)
+        setMessages((prev) => [
+          ...prev,
+          { id: assistantId, role: 'assistant', content: '', timestamp: new Date().toISOString(), ...changes },
+        ])
+        return
+      }
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, ...changes } : m)))
+    }
+
     try {
       // Build conversation history for context
       const conversationHistory = messages.map((m) => ({
@@ -289,131 +396,99 @@ export function PolicyAssistant() {
         content: m.content,
       }))
 
-      // Call LlamaFarm RAG-augmented chat API
-      const response = await chatApi.chat(
+      // Stream the RAG-augmented answer (retrieval is filtered to the user's scope)
+      const response = await chatApi.chatStream(
         [
           ...conversationHistory,
           { role: 'user' as const, content: query },
         ],
         {
           ragEnabled: true,
-          database: 'policies',
+          versionId: pinnedVersion?.version_id,
+          signal: controller.signal,
+        },
+        {
+          onSources: (sources) => updateAssistant({ sources }),
+          onToken: (token) => {
+            content += token
+            updateAssistant({ content })
+          },
         }
       )
 
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response.answer,
-        sources: response.sources,
-        timestamp: new Date().toISOString(),
+      updateAssistant({ content: response.answer, sources: response.sources, degraded: response.degraded })
+
+      // Check the finished answer against its sources; extractive answers quote them already
+      if (!response.degraded && response.answer) {
+        try {
+          const grounding = await chatApi.verifyAnswer(response.answer, response.sources)
+          updateAssistant(
+            grounding.grounded
+              ? { grounding }
+              : { grounding, content: NO_INFORMATION_ANSWER, ungroundedDraft: response.answer }
+          )
+        } catch (err) {
+          // Without a check, the answer stands with its retrieval-score confidence
+          console.warn('Grounding check failed:', err)
+        }
       }
-
-      // Start typing effect
-      startTypingEffect(assistantMessage, response.answer)
     } catch (err) {
-      console.error('Chat API error:', err)
-
-      // Add error message to chat
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'Sorry, I encountered an error while searching the policy documents. Please make sure LlamaFarm is running and try again.',
-        timestamp: new Date().toISOString(),
+      if (controller.signal.aborted) {
+        // Keep whatever streamed before the user stopped it
+        if (started) updateAssistant({ stopped: true })
+      } else {
+        console.error('Chat API error:', err)
+        const errorContent = 'Sorry, I encountered an error while searching the policy documents. Please make sure LlamaFarm is running and try again.'
+        // An answer cut off mid-stream keeps its partial text
+        updateAssistant({ content: content ? `${content}\n\n*${errorContent}*` : errorContent })
       }
-      setMessages((prev) => [...prev, errorMessage])
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null
       setIsLoading(false)
+      setIsStreaming(false)
     }
   }
 
-  // Typing effect: gradually reveal message content
-  const startTypingEffect = (message: ChatMessage, fullContent: string) => {
-    setIsLoading(false)
-    setIsTyping(true)
-    pendingMessageRef.current = { message, fullContent }
-
-    // Add message with empty content initially
-    setMessages((prev) => [...prev, { ...message, content: '' }])
-
-    let charIndex = 0
-    const charsPerTick = 3 // Characters to add per interval
-    const interval = 15 // Milliseconds between updates
-
-    typingIntervalRef.current = setInterval(() => {
-      charIndex += charsPerTick
-      const currentContent = fullContent.slice(0, charIndex)
-
-      // Update the last message with current content
-      setMessages((prev) => {
-        const updated = [...prev]
-        if (updated.length > 0) {
-          updated[updated.length - 1] = {
-            ...updated[updated.length - 1],
-            content: currentContent,
-          }
-        }
-        return updated
-      })
-
-      // Check if done
-      if (charIndex >= fullContent.length) {
-        finishTypingEffect()
-      }
-    }, interval)
-  }
-
-  // Complete the typing effect
-  const finishTypingEffect = () => {
-    if (typingIntervalRef.current) {
-      clearInterval(typingIntervalRef.current)
-      typingIntervalRef.current = null
-    }
-
-    // Ensure full content is shown
-    if (pendingMessageRef.current) {
-      const { message, fullContent } = pendingMessageRef.current
-      setMessages((prev) => {
-        const updated = [...prev]
-        if (updated.length > 0) {
-          updated[updated.length - 1] = {
-            ...message,
-            content: fullContent,
-          }
-        }
-        return updated
-      })
-      pendingMessageRef.current = null
-    }
-
-    setIsTyping(false)
-  }
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     handleSend()
   }
 
+  // Cancel retrieval or the streaming completion; handleSend keeps the partial answer
   const handleStop = () => {
-    // Stop API request if in progress
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort()
-      abortControllerRef.current = null
-    }
-    setIsLoading(false)
-
-    // Stop typing effect and show full content
-    if (isTyping) {
-      finishTypingEffect()
-    }
+    abortControllerRef.current?.abort()
   }
 
+  // Start a new chat; a signed-in user's previous conversation stays in the history sidebar
   const handleClear = () => {
     setMessages([])
     setFeedback({})
+    setPinnedVersion(null)
+    selectConversation(null)
+    savedMessagesRef.current = null
     // Clear from localStorage
     localStorage.removeItem(CHAT_STORAGE_KEY)
   }
 
+  // Resume a saved conversation with the sources each answer cited
+  const handleSelectConversation = async (id: string) => {
+    if (id === conversationIdRef.current || isLoading || isStreaming) return
+    try {
+      const conversation = await conversationsApi.getConversation(id)
+      savedMessagesRef.current = conversation.messages
+      setMessages(conversation.messages)
+      setFeedback({})
+      setPinnedVersion(null)
+      selectConversation(conversation.id)
+    } catch (err) {
+      console.error('Failed to load conversation:', err)
+    }
+  }
+
+  const handleConversationDeleted = (id: string) => {
+    if (id === conversationIdRef.current) handleClear()
+  }
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     return date.toLocaleDateString('en-US', {
@@ -426,302 +501,410 @@ export function PolicyAssistant() {
   const hasMessages = messages.length > 0
 
   return (
-    <div className="flex flex-col h-full">
-      {/* Compact header - Policy Assistant title + New chat button */}
-      {hasMessages && (
-        <div className="border-b border-border bg-background px-4 py-0.5">
-          <div className="max-w-3xl mx-auto flex items-center justify-between h-8">
-            <span className="text-sm font-medium">Policy Assistant</span>
-            <button
-              onClick={handleClear}
-              disabled={isLoading}
-              className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent rounded transition-colors disabled:opacity-50"
-            >
-              <Plus className="w-3.5 h-3.5" />
-              New chat
-            </button>
-          </div>
-        </div>
+    <div className="flex h-full">
+      {serverHistory && (
+        <ConversationHistory
+          activeId={conversationId}
+          refreshKey={historyVersion}
+          disabled={isLoading || isStreaming}
+          onSelect={handleSelectConversation}
+          onNew={handleClear}
+          onDeleted={handleConversationDeleted}
+        />
       )}
-
-      {/* Main content area */}
-      <div className="flex-1 overflow-auto">
-        {!hasMessages ? (
-          /* Welcome state with search and recent updates */
-          <div className="max-w-3xl mx-auto px-4 py-8">
-            {/* Hero section with search */}
-            <div className="text-center mb-10">
-              <h1 className="text-2xl font-semibold mb-2 font-display">
-                Policy Assistant
-              </h1>
-              <p className="text-muted-foreground mb-6">
-                Search policy documents or ask questions about regulations
-              </p>
-
-              <form onSubmit={handleSubmit} className="max-w-2xl mx-auto">
-                <div className="relative">
-                  <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-                  <input
-                    type="text"
-                    value={input}
-                    onChange={(e) => setInput(e.target.value)}
-                    placeholder="e.g., What are the requirements for remote work?"
-                    className="w-full pl-12 pr-4 py-4 bg-card border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent font-body"
-                  />
-                  <button
-                    type="submit"
-                    disabled={!input.trim()}
-                    className="absolute right-2 top-1/2 -translate-y-1/2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
-                  >
-                    Ask
-                  </button>
-                </div>
-              </form>
+    <div className="flex-1 min-w-0 flex flex-col h-full">
+        {/* Compact header - Policy Assistant title + New chat button */}
+        {hasMessages && (
+          <div className="border-b border-border bg-background px-4 py-0.5">
+            <div className="max-w-3xl mx-auto flex items-center justify-between h-8">
+              <span className="text-sm font-medium">Policy Assistant</span>
+              <button
+                onClick={handleClear}
+                disabled={isLoading}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent rounded transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                New chat
+              </button>
             </div>
+          </div>
+        )}
 
-            {/* Recent updates - only shown if there are docs with multiple versions */}
-            {recentUpdates.length > 0 && (
-              <div>
-                <div className="flex items-center gap-2 mb-4">
-                  <Clock className="w-4 h-4 text-muted-foreground" />
-                  <h2 className="font-medium font-display">Recent Policy Updates</h2>
-                </div>
-
-                <div className="space-y-3">
-                  {recentUpdates.map((update) => (
+        {/* Main content area */}
+        <div className="flex-1 overflow-auto">
+          {!hasMessages ? (
+            /* Welcome state with search and recent updates */
+            <div className="max-w-3xl mx-auto px-4 py-8">
+              {/* Hero section with search */}
+              <div className="text-center mb-10">
+                <h1 className="text-2xl font-semibold mb-2 font-display">
+                  Policy Assistant
+                </h1>
+                <p className="text-muted-foreground mb-6">
+                  Search policy documents or ask questions about regulations
+                </p>
+
+                <form onSubmit={handleSubmit} className="max-w-2xl mx-auto">
+                  <div className="relative">
+                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                    <input
+                      type="text"
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      placeholder="e.g., What are the requirements for remote work?"
+                      className="w-full pl-12 pr-4 py-4 bg-card border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent font-body"
+                    />
                     <button
-                      key={update.id}
-                      className="w-full bg-card border border-border rounded-lg p-4 hover:border-primary/50 transition-colors text-left group"
-                      onClick={() => handleDocumentClick(update.id, update.documentName)}
+                      type="submit"
+                      disabled={!input.trim()}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
                     >
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-start gap-3">
-                          <FileText className="w-5 h-5 text-primary mt-0.5" />
-                          <div>
-                            <div className="flex items-center gap-2 mb-1">
-                              <span className="font-medium">{update.documentName}</span>
-                              <span className="text-xs font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded">
-                                {update.shortTitle}
-                              </span>
+                      Ask
+                    </button>
+                  </div>
+                  <PastVersionPicker
+                    value={pinnedVersion}
+                    onChange={setPinnedVersion}
+                    className="mt-3 justify-center"
+                  />
+                </form>
+              </div>
+
+              {/* Recent updates - only shown if there are docs with multiple versions */}
+              {recentUpdates.length > 0 && (
+                <div>
+                  <div className="flex items-center gap-2 mb-4">
+                    <Clock className="w-4 h-4 text-muted-foreground" />
+                    <h2 className="font-medium font-display">Recent Policy Updates</h2>
+                  </div>
+
+                  <div className="space-y-3">
+                    {recentUpdates.map((update) => (
+                      <button
+                        key={update.id}
+                        className="w-full bg-card border border-border rounded-lg p-4 hover:border-primary/50 transition-colors text-left group"
+                        onClick={() => handleDocumentClick(update.id, update.documentName)}
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-start gap-3">
+                            <FileText className="w-5 h-5 text-primary mt-0.5" />
+                            <div>
+                              <div className="flex items-center gap-2 mb-1">
+                                <span className="font-medium">{update.documentName}</span>
+                                <span className="text-xs font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded">
+                                  {update.shortTitle}
+                                </span>
+                              </div>
+                              <p className="text-sm text-muted-foreground mb-2">
+                                {update.summary}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                Updated {formatDate(update.updatedAt)} by {update.updatedBy}
+                              </p>
                             </div>
-                            <p className="text-sm text-muted-foreground mb-2">
-                              {update.summary}
-                            </p>
-                            <p className="text-xs text-muted-foreground">
-                              Updated {formatDate(update.updatedAt)} by {update.updatedBy}
-                            </p>
                           </div>
+                          <ArrowRight className="w-4 h-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
                         </div>
-                        <ArrowRight className="w-4 h-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
-                      </div>
-                    </button>
-                  ))}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-        ) : (
-          /* Chat messages */
-          <div className="max-w-3xl mx-auto px-4 py-2">
-            <div className="space-y-6">
-              {messages.map((message, msgIndex) => (
-                <div key={message.id}>
-                  {/* Message */}
-                  <div
-                    className={cn(
-                      'flex gap-3',
-                      message.role === 'user' && 'justify-end'
-                    )}
-                  >
+              )}
+            </div>
+          ) : (
+            /* Chat messages */
+            <div className="max-w-3xl mx-auto px-4 py-2">
+              <div className="space-y-6">
+                {messages.map((message, msgIndex) => (
+                  <div key={message.id}>
+                    {/* Message */}
                     <div
                       className={cn(
-                        'max-w-[85%] rounded-lg px-4 py-3',
-                        message.role === 'user'
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-card border border-border'
+                        'flex gap-3',
+                        message.role === 'user' && 'justify-end'
                       )}
                     >
-                      {message.role === 'assistant' ? (
-                        <>
-                          {/* Confidence score badge or no-answer warning */}
-                          {message.sources && message.sources.length > 0 ? (
-                            <div className="flex items-center gap-2 mb-2">
-                              <span className={cn(
-                                "text-xs px-2 py-0.5 rounded font-medium",
-                                (getConfidenceScore(message.sources) || 0) >= 50
-                                  ? "bg-green-500/10 text-green-500"
-                                  : "bg-amber-500/10 text-amber-500"
-                              )}>
-                                Confidence: {getConfidenceScore(message.sources)}%
-                              </span>
-                            </div>
-                          ) : (
-                            <div className="flex items-center gap-2 mb-2">
-                              <span className="text-xs bg-amber-500/10 text-amber-500 px-2 py-0.5 rounded font-medium flex items-center gap-1">
-                                <AlertCircle className="w-3 h-3" />
-                                Limited information found
-                              </span>
+                      <div
+                        className={cn(
+                          'max-w-[85%] rounded-lg px-4 py-3',
+                          message.role === 'user'
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-card border border-border'
+                        )}
+                      >
+                        {message.role === 'assistant' ? (
+                          <>
+                            {/* Degraded-mode notice, confidence score badge or no-answer warning */}
+                            {message.degraded ? (
+                              <div className="flex items-center gap-2 mb-2">
+                                <span className="text-xs bg-amber-500/10 text-amber-500 px-2 py-0.5 rounded font-medium flex items-center gap-1">
+                                  <AlertCircle className="w-3 h-3" />
+                                  AI unavailable - showing matching passages
+                                </span>
+                              </div>
+                            ) : message.sources && message.sources.length > 0 && !message.ungroundedDraft && getConfidenceScore(message) !== null ? (
+                              <div className="flex items-center gap-2 mb-2">
+                                <span
+                                  title={message.grounding ? "Share of the answer's claims found in its sources" : undefined}
+                                  className={cn(
+                                  "text-xs px-2 py-0.5 rounded font-medium",
+                                  (getConfidenceScore(message) || 0) >= 50
+                                    ? "bg-green-500/10 text-green-500"
+                                    : "bg-amber-500/10 text-amber-500"
+                                )}
+                                >
+                                  Confidence: {getConfidenceScore(message)}%
+                                </span>
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-2 mb-2">
+                                <span className="text-xs bg-amber-500/10 text-amber-500 px-2 py-0.5 rounded font-medium flex items-center gap-1">
+                                  <AlertCircle className="w-3 h-3" />
+                                  Limited information found
+                                </span>
+                              </div>
+                            )}
+                            <div className="prose prose-sm dark:prose-invert max-w-none font-body prose-p:my-5 prose-headings:mt-6 prose-headings:mb-2 prose-ul:my-3 prose-li:my-0.5 prose-strong:font-semibold [&>p:first-child]:mt-0">
+                              <CitedAnswer
+                                content={message.content}
+                                sources={message.sources || []}
+                                onOpenSource={setSelectedSource}
+                                unsupported={message.grounding?.sentences.filter((s) => s.claim && !s.supported).map((s) => s.text)}
+                              />
                             </div>
-                          )}
-                          <div className="prose prose-sm dark:prose-invert max-w-none font-body prose-p:my-5 prose-headings:mt-6 prose-headings:mb-2 prose-ul:my-3 prose-li:my-0.5 prose-strong:font-semibold [&>p:first-child]:mt-0">
-                            <ReactMarkdown>{message.content}</ReactMarkdown>
-                          </div>
 
-                          {/* No-answer suggestions */}
-                          {isNoAnswer(message) && (
-                            <div className="mt-3 p-3 bg-amber-500/5 border border-amber-500/20 rounded-md">
-                              <div className="flex items-center gap-2 text-sm font-medium text-amber-600 dark:text-amber-400 mb-2">
-                                <HelpCircle className="w-4 h-4" />
-                                Suggested next steps
+                            {/* Generated answer withheld by the grounding check */}
+                            {message.ungroundedDraft && (
+                              <details className="mt-3 text-xs text-muted-foreground">
+                                <summary className="cursor-pointer hover:text-foreground">
+                                  Show the generated answer its sources did not support
+                                </summary>
+                                <div className="mt-2 p-3 border border-dashed border-border rounded-md whitespace-pre-wrap">
+                                  {message.ungroundedDraft}
+                                </div>
+                              </details>
+                            )}
+
+                            {/* No-answer suggestions */}
+                            {isNoAnswer(message) && !(isStreaming && msgIndex === messages.length - 1) && (
+                              <div className="mt-3 p-3 bg-amber-500/5 border border-amber-500/20 rounded-md">
+                                <div className="flex items-center gap-2 text-sm font-medium text-amber-600 dark:text-amber-400 mb-2">
+                                  <HelpCircle className="w-4 h-4" />
+                                  Suggested next steps
+                                </div>
+                                <ul className="text-sm text-muted-foreground space-y-1.5">
+                                  <li>• Contact your supervisor or First Sergeant for local guidance</li>
+                                  <li>• Check the Wing SharePoint for recent policy updates</li>
+                                  <li>• Submit a question to Wing Staff (73 MDW/CCE)</li>
+                                </ul>
+                                <button
+                                  className="mt-3 text-xs text-primary hover:underline"
+                                  onClick={() => alert('Feature coming soon: Submit a request to add this topic to the knowledge base.')}
+                                >
+                                  Should this topic be in our knowledge base? Let us know →
+                                </button>
                               </div>
-                              <ul className="text-sm text-muted-foreground space-y-1.5">
-                                <li>• Contact your supervisor or First Sergeant for local guidance</li>
-                                <li>• Check the Wing SharePoint for recent policy updates</li>
-                                <li>• Submit a question to Wing Staff (73 MDW/CCE)</li>
-                              </ul>
+                            )}
+
+                            {message.stopped && (
+                              <p className="mt-2 text-xs text-muted-foreground italic">Response stopped</p>
+                            )}
+
+                            {/* Feedback and print buttons - hidden while streaming */}
+                            {!(isStreaming && msgIndex === messages.length - 1) && (
+                            <div className="flex items-center justify-between mt-3 pt-3 border-t border-border">
+                              {serverHistory ? (
+                              <div className="flex items-center gap-3">
+                                <span className="text-xs text-muted-foreground">Was this helpful?</span>
+                                <button
+                                  onClick={() => handleFeedback(message, messages[msgIndex - 1]?.content || '', 'up')}
+                                  className={cn(
+                                    'p-1.5 rounded transition-colors',
+                                    feedback[message.id] === 'up'
+                                      ? 'bg-green-500/20 text-green-500'
+                                      : 'hover:bg-accent text-muted-foreground'
+                                  )}
+                                >
+                                  <ThumbsUp className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleFeedback(message, messages[msgIndex - 1]?.content || '', 'down')}
+                                  className={cn(
+                                    'p-1.5 rounded transition-colors',
+                                    feedback[message.id] === 'down'
+                                      ? 'bg-red-500/20 text-red-500'
+                                      : 'hover:bg-accent text-muted-foreground'
+                                  )}
+                                >
+                                  <ThumbsDown className="w-4 h-4" />
+                                </button>
+                              </div>
+                              ) : (
+                                <span className="text-xs text-muted-foreground">Sign in to rate answers</span>
+                              )}
+                              {/* Print button for counseling sessions */}
                               <button
-                                className="mt-3 text-xs text-primary hover:underline"
-                                onClick={() => alert('Feature coming soon: Submit a request to add this topic to the knowledge base.')}
+                                onClick={() => handlePrint(message, messages[msgIndex - 1]?.content || '')}
+                                className="flex items-center gap-1.5 px-2 py-1 text-xs text-muted-foreground hover:bg-accent rounded transition-colors"
+                                title="Print summary for counseling"
                               >
-                                Should this topic be in our knowledge base? Let us know →
+                                <Printer className="w-3.5 h-3.5" />
+                                Print Summary
                               </button>
                             </div>
-                          )}
+                            )}
 
-                          {/* Feedback and print buttons - hidden during typing */}
-                          {!(isTyping && msgIndex === messages.length - 1) && (
-                          <div className="flex items-center justify-between mt-3 pt-3 border-t border-border">
-                            <div className="flex items-center gap-3">
-                              <span className="text-xs text-muted-foreground">Was this helpful?</span>
-                              <button
-                                onClick={() => handleFeedback(message.id, 'up')}
-                                className={cn(
-                                  'p-1.5 rounded transition-colors',
-                                  feedback[message.id] === 'up'
-                                    ? 'bg-green-500/20 text-green-500'
-                                    : 'hover:bg-accent text-muted-foreground'
-                                )}
-                              >
-                                <ThumbsUp className="w-4 h-4" />
-                              </button>
-                              <button
-                                onClick={() => handleFeedback(message.id, 'down')}
-                                className={cn(
-                                  'p-1.5 rounded transition-colors',
-                                  feedback[message.id] === 'down'
-                                    ? 'bg-red-500/20 text-red-500'
-                                    : 'hover:bg-accent text-muted-foreground'
-                                )}
+                            {/* Optional details for a downvote */}
+                            {feedbackFormId === message.id && (
+                              <form
+                                onSubmit={(e) => handleFeedbackDetails(e, message, messages[msgIndex - 1]?.content || '')}
+                                className="mt-3 p-3 bg-muted/50 rounded-md space-y-2"
                               >
-                                <ThumbsDown className="w-4 h-4" />
-                              </button>
-                            </div>
-                            {/* Print button for counseling sessions */}
+                                <div className="text-xs font-medium">What was wrong with this answer?</div>
+                                <div className="flex flex-wrap gap-1.5">
+                                  {(Object.keys(feedbackReasonLabels) as FeedbackReason[]).map((reason) => (
+                                    <button
+                                      key={reason}
+                                      type="button"
+                                      onClick={() => setFeedbackReason(feedbackReason === reason ? '' : reason)}
+                                      className={cn(
+                                        'text-xs px-2.5 py-1 rounded-full border transition-colors',
+                                        feedbackReason === reason
+                                          ? 'bg-primary text-primary-foreground border-primary'
+                                          : 'border-border hover:bg-accent'
+                                      )}
+                                    >
+                                      {feedbackReasonLabels[reason]}
+                                    </button>
+                                  ))}
+                                </div>
+                                <textarea
+                                  value={feedbackComment}
+                                  onChange={(e) => setFeedbackComment(e.target.value)}
+                                  maxLength={2000}
+                                  rows={2}
+                                  placeholder="Optional: tell us what the right answer or policy is"
+                                  className="w-full px-2 py-1.5 text-sm bg-card border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring"
+                                />
+                                <div className="flex justify-end gap-2">
+                                  <button
+                                    type="button"
+                                    onClick={() => setFeedbackFormId(null)}
+                                    className="px-2.5 py-1 text-xs text-muted-foreground hover:bg-accent rounded"
+                                  >
+                                    Skip
+                                  </button>
+                                  <button
+                                    type="submit"
+                                    className="px-2.5 py-1 text-xs bg-primary text-primary-foreground rounded hover:bg-primary/90"
+                                  >
+                                    Send feedback
+                                  </button>
+                                </div>
+                              </form>
+                            )}
+                          </>
+                        ) : (
+                          <p className="font-body">{message.content}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Sources - grouped by document with expandable chunks */}
+                    {message.sources && message.sources.length > 0 && (
+                      <SourcesDisplay
+                        sources={message.sources}
+                        onViewDocument={(source) => setSelectedSource(source)}
+                      />
+                    )}
+
+                    {/* Related questions - show after last assistant message when not loading/typing */}
+                    {message.role === 'assistant' && msgIndex === messages.length - 1 && !isLoading && !isStreaming && (
+                      <div className="mt-4">
+                        <div className="flex items-center gap-2 mb-2">
+                          <MessageSquare className="w-3.5 h-3.5 text-muted-foreground" />
+                          <span className="text-xs font-medium text-muted-foreground">Related Questions</span>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {getRelatedQuestions(messages[msgIndex - 1]?.content || '').map((question, i) => (
                             <button
-                              onClick={() => handlePrint(message, messages[msgIndex - 1]?.content || '')}
-                              className="flex items-center gap-1.5 px-2 py-1 text-xs text-muted-foreground hover:bg-accent rounded transition-colors"
-                              title="Print summary for counseling"
+                              key={i}
+                              onClick={() => handleSend(question)}
+                              className="text-xs px-3 py-1.5 bg-accent hover:bg-accent/80 rounded-full transition-colors"
                             >
-                              <Printer className="w-3.5 h-3.5" />
-                              Print Summary
+                              {question}
                             </button>
-                          </div>
-                          )}
-                        </>
-                      ) : (
-                        <p className="font-body">{message.content}</p>
-                      )}
-                    </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
+                ))}
 
-                  {/* Sources - grouped by document with expandable chunks */}
-                  {message.sources && message.sources.length > 0 && (
-                    <SourcesDisplay
-                      sources={message.sources}
-                      onViewDocument={(source) => setSelectedSource(source)}
-                    />
-                  )}
-
-                  {/* Related questions - show after last assistant message when not loading/typing */}
-                  {message.role === 'assistant' && msgIndex === messages.length - 1 && !isLoading && !isTyping && (
-                    <div className="mt-4">
-                      <div className="flex items-center gap-2 mb-2">
-                        <MessageSquare className="w-3.5 h-3.5 text-muted-foreground" />
-                        <span className="text-xs font-medium text-muted-foreground">Related Questions</span>
-                      </div>
-                      <div className="flex flex-wrap gap-2">
-                        {getRelatedQuestions(messages[msgIndex - 1]?.content || '').map((question, i) => (
-                          <button
-                            key={i}
-                            onClick={() => handleSend(question)}
-                            className="text-xs px-3 py-1.5 bg-accent hover:bg-accent/80 rounded-full transition-colors"
-                          >
-                            {question}
-                          </button>
-                        ))}
-                      </div>
+                {isLoading && (
+                  <div className="flex gap-3">
+                    <div className="bg-card border border-border rounded-lg px-4 py-3">
+                      <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
                     </div>
-                  )}
-                </div>
-              ))}
-
-              {isLoading && (
-                <div className="flex gap-3">
-                  <div className="bg-card border border-border rounded-lg px-4 py-3">
-                    <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
                   </div>
-                </div>
-              )}
+                )}
 
-              <div ref={messagesEndRef} />
+                <div ref={messagesEndRef} />
+              </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
 
-      {/* Input area - always visible when there are messages */}
-      {hasMessages && (
-        <div className="border-t border-border bg-background">
-          <form onSubmit={handleSubmit} className="max-w-3xl mx-auto px-4 py-4">
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Ask a follow-up question..."
-                className="flex-1 px-4 py-3 bg-card border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring font-body"
-                disabled={isLoading || isTyping}
+        {/* Input area - always visible when there are messages */}
+        {hasMessages && (
+          <div className="border-t border-border bg-background">
+            <form onSubmit={handleSubmit} className="max-w-3xl mx-auto px-4 py-4">
+              <PastVersionPicker
+                value={pinnedVersion}
+                onChange={setPinnedVersion}
+                disabled={isLoading || isStreaming}
+                className="mb-2"
               />
-              {isLoading || isTyping ? (
-                <button
-                  type="button"
-                  onClick={handleStop}
-                  className="px-4 py-3 bg-muted text-muted-foreground rounded-lg hover:bg-accent transition-colors"
-                  title={isTyping ? "Skip to full answer" : "Stop generating"}
-                >
-                  <Square className="w-5 h-5" />
-                </button>
-              ) : (
-                <button
-                  type="submit"
-                  disabled={!input.trim()}
-                  className="px-4 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  <Send className="w-5 h-5" />
-                </button>
-              )}
-            </div>
-          </form>
-        </div>
-      )}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  placeholder="Ask a follow-up question..."
+                  className="flex-1 px-4 py-3 bg-card border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-ring font-body"
+                  disabled={isLoading || isStreaming}
+                />
+                {isLoading || isStreaming ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="px-4 py-3 bg-muted text-muted-foreground rounded-lg hover:bg-accent transition-colors"
+                    title="Stop generating"
+                  >
+                    <Square className="w-5 h-5" />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim()}
+                    className="px-4 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Send className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+            </form>
+          </div>
+        )}
 
-      {/* Document viewer modal */}
-      {selectedSource && (
-        <DocumentViewer
-          source={selectedSource}
-          onClose={() => setSelectedSource(null)}
-        />
-      )}
+        {/* Document viewer modal */}
+        {selectedSource && (
+          <DocumentViewer
+            source={selectedSource}
+            onClose={() => setSelectedSource(null)}
+          />
+        )}
+      </div>
     </div>
   )
 }
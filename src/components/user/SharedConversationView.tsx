@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { Loader2, AlertCircle, Link2, AlertTriangle } from 'lucide-react'
+import { conversationsApi } from '@/api/conversationsApi'
+import { useAuth } from '@/contexts/AuthContext'
+import type { CitedSource } from '@/types/chat'
+import type { SharedConversation } from '@/types/conversation'
+import { CitedAnswer } from './CitedAnswer'
+import { SourcesDisplay } from './SourcesDisplay'
+import { DocumentViewer } from './DocumentViewer'
+import { cn } from '@/lib/utils'
+
+function formatDate(dateString?: string | null) {
+  if (!dateString) return null
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+// Read-only view of a conversation someone shared, with the sources as they were cited
+export function SharedConversationView() {
+  const { token } = useParams<{ token: string }>()
+  const { isLoading: authLoading, isAuthenticated } = useAuth()
+  const [conversation, setConversation] = useState<SharedConversation | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedSource, setSelectedSource] = useState<CitedSource | null>(null)
+
+  useEffect(() => {
+    if (authLoading || !token) return
+    if (!isAuthenticated) {
+      setLoading(false)
+      setError('Sign in to view this shared conversation.')
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    conversationsApi.getSharedConversation(token)
+      .then((data) => {
+        if (!cancelled) setConversation(data)
+      })
+      .catch((err) => {
+        console.error('Failed to load shared conversation:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'This share link is invalid or has been turned off.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [token, authLoading, isAuthenticated])
+
+  if (loading || authLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (error || !conversation) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error || 'Shared conversation not found.'}</p>
+        </div>
+        <Link to="/" className="inline-block mt-4 text-sm text-primary hover:underline">
+          Go to the Policy Assistant
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-6">
+      <div className="mb-6">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+          <Link2 className="w-3.5 h-3.5" />
+          Shared by {conversation.owner_name}
+          {formatDate(conversation.shared_at) && <> on {formatDate(conversation.shared_at)}</>}
+        </div>
+        <h1 className="text-xl font-semibold font-display">{conversation.title}</h1>
+        <p className="text-sm text-muted-foreground">
+          Read-only. Sources are shown as they were when each answer was given; the policies may have changed since.
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {conversation.messages.map((message) => (
+          <div key={message.id}>
+            <div className={cn('flex gap-3', message.role === 'user' && 'justify-end')}>
+              <div
+                className={cn(
+                  'max-w-[85%] rounded-lg px-4 py-3',
+                  message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-card border border-border'
+                )}
+              >
+                {message.role === 'assistant' ? (
+                  <>
+                    {message.degraded && (
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="text-xs bg-amber-500/10 text-amber-500 px-2 py-0.5 rounded font-medium flex items-center gap-1">
+                          <AlertCircle className="w-3 h-3" />
+                          AI unavailable - showing matching passages
+                        </span>
+                      </div>
+                    )}
+                    <div className="prose prose-sm dark:prose-invert max-w-none font-body prose-p:my-5 prose-headings:mt-6 prose-headings:mb-2 prose-ul:my-3 prose-li:my-0.5 prose-strong:font-semibold [&>p:first-child]:mt-0">
+                      <CitedAnswer
+                        content={message.content}
+                        sources={message.sources || []}
+                        onOpenSource={setSelectedSource}
+                        unsupported={message.grounding?.sentences.filter((s) => s.claim && !s.supported).map((s) => s.text)}
+                      />
+                    </div>
+                    {message.ungroundedDraft && (
+                      <p className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+                        <AlertTriangle className="w-3 h-3" />
+                        A generated answer was withheld because its sources did not support it.
+                      </p>
+                    )}
+                    {message.stopped && (
+                      <p className="mt-2 text-xs text-muted-foreground italic">Response stopped</p>
+                    )}
+                  </>
+                ) : (
+                  <p className="font-body">{message.content}</p>
+                )}
+              </div>
+            </div>
+
+            {message.sources && message.sources.length > 0 && (
+              <SourcesDisplay sources={message.sources} onViewDocument={setSelectedSource} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {selectedSource && (
+        <DocumentViewer
+          source={selectedSource}
+          onClose={() => setSelectedSource(null)}
+          note="This passage is the one the answer cited when it was given."
+        />
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react'
-import { FileText, ChevronDown, ChevronRight, Eye, Hash, Calendar, User } from 'lucide-react'
+import { FileText, ChevronDown, ChevronRight, Eye, Hash, Calendar, User, AlertTriangle } from 'lucide-react'
 import type { CitedSource } from '@/types/chat'
 import { cn } from '@/lib/utils'
 
@@ -51,11 +51,11 @@ function groupByDocument(sources: CitedSource[]): Map<string, CitedSource[]> {
 export function SourcesDisplay({ sources, onViewDocument }: SourcesDisplayProps) {
   const [expandedDocs, setExpandedDocs] = useState<Set<string>>(new Set())
 
-  // Filter out outdated sources - users can view old versions in the document viewer
-  const currentSources = sources.filter(s => s.is_current !== false)
-
-  const groupedSources = groupByDocument(currentSources)
-  // Sort documents: Current first, then Outdated, then unknown
+  // Retrieval only returns past versions when the user asked about one, so show every source
+  const groupedSources = groupByDocument(sources)
+  // Footnote number of each passage, matching the [n] markers in the answer
+  const numbers = new Map(sources.map((source, index) => [source, index + 1]))
+  // Sort documents: Current first, then past versions, then unknown
   const documents = Array.from(groupedSources.entries()).sort((a, b) => {
     const aIsCurrent = a[1][0]?.is_current
     const bIsCurrent = b[1][0]?.is_current
@@ -107,7 +107,12 @@ export function SourcesDisplay({ sources, onViewDocument }: SourcesDisplayProps)
                   <div className="flex items-center gap-2 min-w-0 flex-1">
                     <FileText className="w-4 h-4 text-primary flex-shrink-0" />
                     <div className="min-w-0">
-                      <span className="font-medium text-sm truncate block">{docName}</span>
+                      <span className="font-medium text-sm truncate block">
+                        <span className="font-mono text-xs text-primary mr-1.5">
+                          {chunks.map(chunk => `[${numbers.get(chunk)}]`).join('')}
+                        </span>
+                        {docName}
+                      </span>
                       {(chunks[0].updated_at || chunks[0].updated_by) && (
                         <div className="flex items-center gap-3 text-xs text-muted-foreground mt-0.5">
                           {formatDate(chunks[0].updated_at) && (
@@ -135,9 +140,18 @@ export function SourcesDisplay({ sources, onViewDocument }: SourcesDisplayProps)
                       </span>
                     ) : chunks[0].is_current === false ? (
                       <span className="text-xs font-medium px-2 py-0.5 rounded bg-amber-500/10 text-amber-600">
-                        Outdated
+                        Past version
                       </span>
                     ) : null}
+                    {chunks[0].superseded_by && (
+                      <span
+                        className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded bg-red-500/10 text-red-600"
+                        title={`This policy has been superseded by ${chunks[0].superseded_by.name}`}
+                      >
+                        <AlertTriangle className="w-3 h-3" />
+                        Superseded by {chunks[0].superseded_by.short_title || chunks[0].superseded_by.name}
+                      </span>
+                    )}
 
                     <span className={cn(
                       "text-xs font-medium px-2 py-0.5 rounded",
@@ -176,6 +190,7 @@ export function SourcesDisplay({ sources, onViewDocument }: SourcesDisplayProps)
                   {chunks.map((chunk, idx) => (
                     <div key={idx} className="p-3 bg-background">
                       <div className="flex items-center gap-2 mb-2">
+                        <span className="font-mono text-xs text-primary">[{numbers.get(chunk)}]</span>
                         {chunk.page_number && (
                           <span className="flex items-center gap-1 text-xs text-muted-foreground">
                             <Hash className="w-3 h-3" />
@@ -1,69 +1,84 @@
-import { createContext, useContext, useState, ReactNode } from 'react'
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
 import type { UserLocation } from '@/types/location'
+import { authApi } from '@/api/authApi'
 
 export type UserRole = 'user' | 'admin' | 'superadmin'
 
-export interface AdminUser {
+export type Permission =
+  | 'view_policies'
+  | 'ask_questions'
+  | 'upload_policies'
+  | 'manage_versions'
+  | 'manage_admins'
+
+// Signed-in user as returned by the server (permissions are resolved server-side)
+export interface AuthUser {
   id: string
+  username: string
   name: string
   title: string
   role: UserRole
   location: UserLocation
+  permissions: Permission[]
 }
 
 interface AuthContextType {
+  isLoading: boolean
   isAuthenticated: boolean
   isAdmin: boolean
   isSuperAdmin: boolean
-  adminUser: AdminUser | null
-  login: () => void
-  logout: () => void
-}
-
-// Permissions by role
-export const permissions = {
-  user: ['view_policies', 'ask_questions'],
-  admin: ['view_policies', 'ask_questions', 'upload_policies', 'manage_versions'],
-  superadmin: ['view_policies', 'ask_questions', 'upload_policies', 'manage_versions', 'manage_admins']
-} as const
-
-// Mock admin user for demo - Sarah is a superadmin at 73 MDW
-const ADMIN_USER: AdminUser = {
-  id: '1',
-  name: 'Capt. Sarah Mitchell',
-  title: 'Policy Administrator',
-  role: 'superadmin',
-  location: {
-    majcom: 'AETC',
-    installation: 'JBSA',
-    wing: '73 MDW',
-  },
+  adminUser: AuthUser | null
+  hasPermission: (permission: Permission) => boolean
+  login: (username: string, password: string) => Promise<void>
+  logout: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [isAuthenticated, setIsAuthenticated] = useState(() => {
-    return sessionStorage.getItem('regsync_admin') === 'true'
-  })
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
 
-  const login = () => {
-    sessionStorage.setItem('regsync_admin', 'true')
-    setIsAuthenticated(true)
-  }
+  // Restore the session from the server's auth cookie
+  useEffect(() => {
+    let cancelled = false
+    authApi.me().then((current) => {
+      if (!cancelled) {
+        setUser(current)
+        setIsLoading(false)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
 
-  const logout = () => {
-    sessionStorage.removeItem('regsync_admin')
-    setIsAuthenticated(false)
-  }
+  const login = useCallback(async (username: string, password: string) => {
+    const signedIn = await authApi.login(username, password)
+    setUser(signedIn)
+  }, [])
+
+  const logout = useCallback(async () => {
+    try {
+      await authApi.logout()
+    } finally {
+      setUser(null)
+    }
+  }, [])
+
+  const hasPermission = useCallback(
+    (permission: Permission) => user?.permissions.includes(permission) ?? false,
+    [user]
+  )
 
-  // Only authenticated users are admins (no regular user login anymore)
-  const isAdmin = isAuthenticated
-  const isSuperAdmin = isAuthenticated && ADMIN_USER.role === 'superadmin'
-  const adminUser = isAuthenticated ? ADMIN_USER : null
+  const isAuthenticated = user !== null
+  const isAdmin = hasPermission('upload_policies')
+  const isSuperAdmin = hasPermission('manage_admins')
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, isAdmin, isSuperAdmin, adminUser, login, logout }}>
+    <AuthContext.Provider
+      value={{ isLoading, isAuthenticated, isAdmin, isSuperAdmin, adminUser: user, hasPermission, login, logout }}
+    >
       {children}
     </AuthContext.Provider>
   )
@@ -4,13 +4,6 @@ import type { PolicyDocument } from '@/types/document'
 import type { UserLocation } from '@/types/location'
 import { canAccessPolicy } from '@/types/location'
 
-// Default location for non-authenticated users
-const DEFAULT_LOCATION: UserLocation = {
-  majcom: 'AETC',
-  installation: 'JBSA',
-  wing: '73 MDW',
-}
-
 /**
  * Hook to filter policies based on the current user's location.
  * Returns a filter function that can be used with Array.filter().
@@ -18,7 +11,8 @@ const DEFAULT_LOCATION: UserLocation = {
 export function usePolicyFilter() {
   const { adminUser, isAdmin } = useAuth()
 
-  const location = adminUser?.location ?? DEFAULT_LOCATION
+  // Signed-out users have no location, so only DoD and DAF-wide policies pass
+  const location = adminUser?.location ?? null
 
   const filterPolicy = useMemo(() => {
     return (policy: PolicyDocument): boolean => {
@@ -45,7 +39,7 @@ export function usePolicyFilter() {
  */
 export function filterPolicies(
   policies: PolicyDocument[],
-  location: UserLocation,
+  location: UserLocation | null,
   isAdmin: boolean = false
 ): PolicyDocument[] {
   if (isAdmin) {
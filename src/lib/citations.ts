@@ -0,0 +1,90 @@
+import type { CitedSource } from '@/types/chat'
+
+// Footnote links produced by linkCitations() and read back by parseCitationHref()
+const CITATION_HREF_PREFIX = '#cite-'
+const UNVERIFIED_HREF = '#cite-unverified'
+const UNSUPPORTED_HREF = '#cite-unsupported'
+
+// [1], [2][3] or [1, 3] - not link text, which is followed by "("
+const MARKER_PATTERN = /\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\](?!\()/g
+
+// "Section 4.2", "para 4.2.1", "paragraph 3.1"
+const SECTION_PATTERN = /\b(?:section|sect?\.|para(?:graph)?\.?)\s+(\d+(?:\.\d+)+|\d+)\b/gi
+
+export type Citation =
+  | { kind: 'source'; number: number }      // Marker pointing at sources[number - 1]
+  | { kind: 'unverified' }                  // Marker or section reference with no retrieved passage
+  | { kind: 'unsupported' }                 // Flag after a sentence the grounding check could not support
+
+export interface CitationCheck {
+  content: string           // Markdown with citations turned into footnote links
+  unverified: string[]      // Citations that match no retrieved passage
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Whether a retrieved passage covers a paragraph: same or enclosing section, or the ID appears in its text
+function sourceCoversSection(source: CitedSource, id: string): boolean {
+  const section = source.section
+  if (section && (section === id || section.startsWith(`${id}.`) || id.startsWith(`${section}.`))) {
+    return true
+  }
+  return new RegExp(`(^|[^\\d.])${escapeRegExp(id)}(?![.]?\\d)`).test(source.content)
+}
+
+/**
+ * Turn an answer's citations into footnote links. Markers like [2] become links to source 2;
+ * markers past the end of the sources list and section references that no retrieved passage
+ * covers become links flagged as unverified.
+ */
+export function linkCitations(content: string, sources: CitedSource[]): CitationCheck {
+  const unverified: string[] = []
+
+  // Leave code spans untouched
+  const linked = content.split(/(`[^`]*`)/).map((part, i) => {
+    if (i % 2 === 1) return part
+
+    return part
+      .replace(MARKER_PATTERN, (_, numbers: string) =>
+        numbers
+          .split(',')
+          .map(n => Number(n.trim()))
+          .map(n => {
+            if (n >= 1 && n <= sources.length) return `[${n}](${CITATION_HREF_PREFIX}${n})`
+            unverified.push(`[${n}]`)
+            return `[${n}](${UNVERIFIED_HREF})`
+          })
+          .join('')
+      )
+      .replace(SECTION_PATTERN, (match: string, id: string) => {
+        if (sources.some(source => sourceCoversSection(source, id))) return match
+        unverified.push(match)
+        return `[${match}](${UNVERIFIED_HREF})`
+      })
+  })
+
+  return { content: linked.join(''), unverified }
+}
+
+// Flag each unsupported sentence with a link after it; sentences are matched as written in the answer
+export function markUnsupported(content: string, sentences: string[]): string {
+  let marked = content
+  for (const sentence of sentences) {
+    const index = marked.indexOf(sentence)
+    if (index === -1) continue
+    const end = index + sentence.length
+    marked = `${marked.slice(0, end)} [unsupported](${UNSUPPORTED_HREF})${marked.slice(end)}`
+  }
+  return marked
+}
+
+// Read a footnote link back; null for ordinary links
+export function parseCitationHref(href?: string): Citation | null {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null
+  if (href === UNVERIFIED_HREF) return { kind: 'unverified' }
+  if (href === UNSUPPORTED_HREF) return { kind: 'unsupported' }
+  const number = Number(href.slice(CITATION_HREF_PREFIX.length))
+  return Number.isInteger(number) && number > 0 ? { kind: 'source', number } : null
+}
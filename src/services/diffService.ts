@@ -3,13 +3,14 @@
  * Calls the RegSync backend API which handles PDF extraction and LlamaFarm AI summaries
  */
 
-import type { DiffResult, DiffLine, DiffStats, AISummary, DocumentChanges } from '@/types/diff'
+import type { DiffResult, DiffLine, DiffStats, AISummary, DocumentChanges, Redline } from '@/types/diff'
 
 const API_BASE = 'http://localhost:3001'
 
 interface BackendChange {
   section: string
-  type: 'added' | 'removed' | 'modified'
+  type: 'added' | 'removed' | 'modified' | 'moved'
+  previous_section?: string
   summary: string
   before?: string
   after?: string
@@ -33,6 +34,7 @@ interface CompareResponse {
   total_changes: number
   summary: string
   changes: BackendChange[]
+  redline: Redline | null
   compared_at: string
 }
 
@@ -55,7 +57,8 @@ function convertToDiffLines(changes: BackendChange[]): DiffLine[] {
         content: change.after.trim()
       })
     }
-    if (change.type === 'modified') {
+    // A pure renumber has identical before/after text and adds no diff lines
+    if (change.type === 'modified' || (change.type === 'moved' && change.before !== change.after)) {
       if (change.before) {
         lines.push({
           type: 'removed',
@@ -143,45 +146,13 @@ export async function compareDocumentVersions(
     oldVersionId: data.old_version_id,
     newVersionId: data.new_version_id,
     diff,
+    redline: data.redline ?? null,
     aiSummary: parseAISummary(data.summary),
     updatedAt: data.new_version.created_at,
     updatedBy: data.new_version.uploaded_by
   }
 }
 
-/**
- * Get changes for a document (comparing current version to previous)
- */
-export async function getDocumentChanges(
-  documentId: string
-): Promise<DocumentChanges | null> {
-  // First, get the document versions
-  const versionsUrl = `${API_BASE}/v1/projects/default/regsync/documents/${documentId}/versions`
-  const versionsResponse = await fetch(versionsUrl)
-
-  if (!versionsResponse.ok) {
-    throw new Error('Failed to fetch document versions')
-  }
-
-  const versionsData = await versionsResponse.json()
-  const versions = versionsData.versions || []
-
-  // Need at least 2 versions to compare
-  if (versions.length < 2) {
-    return null
-  }
-
-  // Sort by created_at to get oldest and newest
-  const sortedVersions = [...versions].sort(
-    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-  )
-
-  const oldVersion = sortedVersions[sortedVersions.length - 2]
-  const newVersion = sortedVersions[sortedVersions.length - 1]
-
-  return compareDocumentVersions(documentId, oldVersion.id, newVersion.id)
-}
-
 /**
  * Check if LlamaFarm is available
  */
@@ -0,0 +1,35 @@
+import type { UserRole } from '@/contexts/AuthContext'
+import type { UserLocation } from './location'
+
+export type AdminRole = Exclude<UserRole, 'user'>
+
+// Admin roster entry as returned by the /admins API
+export interface AdminMember {
+  id: string
+  name: string
+  email: string
+  title: string | null
+  role: AdminRole
+  location: UserLocation
+  can_sign_in: boolean
+  can_remove: boolean
+  created_at: string | null
+  updated_at: string | null
+}
+
+export interface CreateAdminRequest {
+  email: string
+  role: AdminRole
+  location: UserLocation
+  name?: string
+  title?: string
+  password?: string
+}
+
+export interface UpdateAdminRequest {
+  role?: AdminRole
+  location?: UserLocation
+  name?: string
+  title?: string
+  password?: string  // Resets the admin's password
+}
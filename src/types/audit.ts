@@ -0,0 +1,63 @@
+import type { UserRole } from '@/contexts/AuthContext'
+
+export type AuditAction =
+  | 'document.create'
+  | 'version.upload'
+  | 'version.revert'
+  | 'version.approve'
+  | 'version.reject'
+  | 'version.effective'
+  | 'version.superseded'
+  | 'document.delete'
+  | 'workspace.reset'
+  | 'sample.add'
+  | 'workflow.save'
+  | 'workflow.delete'
+  | 'workflow.assign'
+  | 'relationship.create'
+  | 'relationship.confirm'
+  | 'relationship.dismiss'
+  | 'relationship.delete'
+  | 'references.review'
+  | 'library.import'
+
+export interface AuditActor {
+  id: string
+  name: string
+  role: UserRole | 'system'  // 'system' for server-initiated events such as the effective-date scheduler
+}
+
+// One append-only audit entry; hash/prev_hash chain entries together
+export interface AuditEntry {
+  id: string
+  seq: number
+  at: string
+  workspace: string
+  action: AuditAction
+  actor: AuditActor | null
+  ip: string | null
+  document_id: string | null
+  version_id: string | null
+  before: unknown
+  after: unknown
+  details: Record<string, unknown> | null
+  prev_hash: string
+  hash: string
+}
+
+export interface AuditFilters {
+  action?: AuditAction
+  actor?: string
+  document_id?: string
+  from?: string
+  to?: string
+}
+
+export interface AuditQueryResponse {
+  total: number
+  limit: number
+  offset: number
+  actions: AuditAction[]
+  integrity: { valid: boolean; broken_at?: number }
+  entries: AuditEntry[]
+}
@@ -14,6 +14,32 @@ export interface CitedSource {
   source?: string
   // Version status for UI display
   is_current?: boolean
+  // Set when a confirmed lineage relationship says another policy supersedes this document
+  superseded_by?: SupersedingDocument
+}
+
+export interface SupersedingDocument {
+  document_id: string
+  name: string
+  short_title: string | null
+}
+
+// One sentence of an answer, checked against the retrieved passages (POST /verify)
+export interface GroundedSentence {
+  text: string               // Sentence as it appears in the answer
+  claim: boolean             // False for lead-ins and "I don't have information" sentences
+  supported: boolean
+  overlap: number            // Share of the sentence's terms found in the best passage
+  source: number | null      // 1-based passage that best supports it
+  missing_numbers: string[]  // Numbers and dates not found in that passage
+}
+
+export interface GroundingReport {
+  grounded: boolean          // Enough claims are supported for the answer to stand
+  support: number | null     // Share of supported claims; null when the answer makes none
+  confidence: number | null  // support as a percentage
+  claims: number
+  sentences: GroundedSentence[]
 }
 
 export interface ChatMessage {
@@ -21,10 +47,23 @@ export interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
   sources?: CitedSource[]
+  degraded?: boolean  // Answered from local keyword search while the AI service was unavailable
+  stopped?: boolean  // The user stopped the answer before it finished streaming
+  grounding?: GroundingReport  // Sentence-level check of the answer against its sources
+  ungroundedDraft?: string  // Generated answer withheld because its sources did not support it
   timestamp: string
 }
 
+// Past version the assistant is pinned to ("ask about a past version" mode)
+export interface PinnedVersion {
+  document_id: string
+  document_name: string
+  version_id: string
+  label: string  // e.g. "Version 1 · Dec 2, 2025"
+}
+
 export interface ChatResponse {
   answer: string
   sources: CitedSource[]
+  degraded?: boolean
 }
@@ -0,0 +1,33 @@
+import type { ChatMessage } from './chat'
+
+// Saved assistant conversation as listed in the history sidebar
+export interface ConversationSummary {
+  id: string
+  title: string
+  owner_name: string
+  message_count: number
+  preview: string             // Start of the most recent question
+  share_token: string | null  // Set while a read-only share link is on
+  shared_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface Conversation extends Omit<ConversationSummary, 'message_count' | 'preview'> {
+  messages: ChatMessage[]     // Each answer keeps the sources it cited at the time
+}
+
+// Read-only view behind a share link
+export interface SharedConversation {
+  title: string
+  owner_name: string
+  messages: ChatMessage[]
+  created_at: string
+  updated_at: string
+  shared_at: string | null
+}
+
+export interface SaveConversationRequest {
+  title?: string
+  messages?: ChatMessage[]
+}
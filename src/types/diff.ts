@@ -6,6 +6,28 @@ export interface DiffLine {
   lineNumber?: number
 }
 
+// Word-level redline from the /compare route: every section in new-document order
+export interface RedlineSegment {
+  op: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+export interface RedlineBlock {
+  section: string
+  type: 'unchanged' | 'added' | 'removed' | 'modified' | 'moved'
+  previous_section?: string
+  segments: RedlineSegment[]
+}
+
+export interface Redline {
+  blocks: RedlineBlock[]
+  stats: {
+    words_added: number
+    words_removed: number
+    changed_sections: number
+  }
+}
+
 export interface DiffStats {
   addedLines: number
   removedLines: number
@@ -32,6 +54,7 @@ export interface DocumentChanges {
   oldVersionId: string
   newVersionId: string
   diff: DiffResult
+  redline: Redline | null
   aiSummary: AISummary | null
   updatedAt: string
   updatedBy: string
@@ -1,10 +1,18 @@
+import type { UpcomingChange } from './document'
+
+export type DigestEvent = 'published' | 'takes_effect'
+
 export interface DigestChange {
   version_id: string
   uploaded_by: string
   uploaded_at: string
   notes: string | null
   summary: string | null
-  status?: 'draft' | 'published' | 'pending'
+  status?: 'draft' | 'published' | 'pending' | 'rejected' | 'scheduled'
+  event: DigestEvent
+  event_at: string
+  effective_at: string | null
+  reverted_from: { version_id: string; created_at: string | null } | null  // Set when the change reverted to an earlier version
 }
 
 export interface DigestDocument {
@@ -13,6 +21,7 @@ export interface DigestDocument {
   short_title: string | null
   is_new: boolean
   changes: DigestChange[]
+  upcoming: UpcomingChange | null
 }
 
 export interface DigestPeriod {
@@ -29,6 +38,7 @@ export interface DigestStats {
   new_policies: number
   updated_policies: number
   total_changes: number
+  effective_changes: number
 }
 
 export interface DigestResponse {
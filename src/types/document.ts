@@ -1,4 +1,7 @@
 import type { PolicyScope } from './location'
+import type { VersionReview } from './workflow'
+import type { Redline } from './diff'
+import type { RagStatus } from './job'
 
 export interface PolicyDocument {
   id: string
@@ -9,12 +12,20 @@ export interface PolicyDocument {
   updated_at: string
   created_by?: string
   scope?: PolicyScope  // Policy visibility scope (defaults to DAF-wide if not set)
+  workflow_id?: string | null  // Review workflow for new versions (workspace default if not set)
+  upcoming_change?: UpcomingChange | null  // Next approved version waiting for its effective date
+}
+
+export interface UpcomingChange {
+  version_id: string
+  effective_at: string
 }
 
 export interface DocumentVersion {
   id: string
   document_id?: string
-  version_number?: number
+  version_number?: number  // Assigned by the server at upload; never reused
+  is_current?: boolean  // Set by the server from the document's current_version_id
   uploaded_at: string
   uploaded_by: string
   file_hash?: string
@@ -26,19 +37,28 @@ export interface DocumentVersion {
   size?: number
   mime_type?: string
   notes?: string
-  status?: 'draft' | 'published' | 'pending'
+  status?: 'draft' | 'published' | 'pending' | 'rejected' | 'scheduled'
+  review?: VersionReview  // Present on versions uploaded for review
   created_at?: string
-  // Pre-computed diff and summary (computed at upload time for non-first versions)
+  effective_at?: string | null  // When the version takes effect; 'scheduled' until then
+  approved_at?: string  // When the final review stage approved it
+  promoted_at?: string  // When the scheduler made it current
+  superseded_by?: string  // Newer version that was current when this scheduled one came due
+  superseded_at?: string
+  rag_status?: RagStatus  // Ingestion into the RAG dataset once the version is current
+  // Diff and summary, computed by background jobs after upload for non-first versions
   diff?: {
     changes: Change[]
-    stats: { added: number; removed: number }
+    stats: { added: number; removed: number; modified?: number; moved?: number }
   }
   summary?: string
+  reverted_from?: string  // Earlier version this one restores (revert); notes hold the justification
 }
 
 export interface Change {
-  section: string
-  type: 'added' | 'modified' | 'removed'
+  section: string  // Paragraph ID from the document's numbering, e.g. "2.3", "Table 2.1", "Attachment 1"
+  type: 'added' | 'modified' | 'removed' | 'moved'
+  previous_section?: string  // Old ID of a moved or renumbered section
   summary: string
   before?: string
   after?: string
@@ -48,6 +68,7 @@ export interface ChangesSummary {
   total_changes: number
   summary: string
   changes: Change[]
+  redline?: Redline | null  // Word-level redline of the whole document
   old_version_id: string
   new_version_id: string
   compared_at: string
@@ -0,0 +1,73 @@
+import type { CitedSource } from './chat'
+
+export type FeedbackRating = 'up' | 'down'
+
+// Reason a user gives for a downvote
+export type FeedbackReason = 'incorrect' | 'incomplete' | 'outdated' | 'wrong_policy' | 'other'
+
+// What an admin decides went wrong with a downvoted answer
+export type TriageCategory = 'policy_gap' | 'retrieval_miss' | 'model_error'
+
+export type FeedbackReviewStatus = 'open' | 'triaged' | 'all'
+
+export const feedbackReasonLabels: Record<FeedbackReason, string> = {
+  incorrect: 'Incorrect',
+  incomplete: 'Incomplete',
+  outdated: 'Outdated',
+  wrong_policy: 'Wrong policy',
+  other: 'Other',
+}
+
+export const triageCategoryLabels: Record<TriageCategory, string> = {
+  policy_gap: 'Policy gap',
+  retrieval_miss: 'Retrieval miss',
+  model_error: 'Model error',
+}
+
+export interface FeedbackTriage {
+  category: TriageCategory
+  note: string | null
+  by: { id: string; name: string }
+  at: string
+}
+
+export interface AnswerFeedback {
+  id: string
+  message_id: string
+  conversation_id: string | null
+  rating: FeedbackRating
+  reason: FeedbackReason | null
+  comment: string | null
+  question: string
+  answer: string
+  sources: CitedSource[]
+  user: { id: string; name: string } | null  // null when given while signed out
+  triage: FeedbackTriage | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SubmitFeedbackRequest {
+  message_id: string
+  conversation_id?: string | null
+  rating: FeedbackRating
+  reason?: FeedbackReason | null
+  comment?: string
+  question: string
+  answer: string
+  sources: CitedSource[]
+}
+
+// Downvoted answers that cited one document ("none" when they cited no document)
+export interface FeedbackGroup {
+  document_id: string
+  document_name: string
+  short_title: string | null
+  document_exists: boolean
+  entries: AnswerFeedback[]
+}
+
+export interface FeedbackReviewResponse {
+  summary: { up: number; down: number; open: number }
+  groups: FeedbackGroup[]
+}
@@ -0,0 +1,93 @@
+import type { Job } from './job'
+import type { PolicyScope } from './location'
+import type { MatchSignal } from './match'
+
+export type ImportStatus = 'analyzing' | 'planned' | 'committed' | 'discarded' | 'failed'
+
+export type ImportSkipReason = 'manifest_error' | 'already_in_library' | 'duplicate' | 'unsupported' | 'future_effective'
+
+export const importSkipReasonLabels: Record<ImportSkipReason, string> = {
+  manifest_error: 'Manifest error',
+  already_in_library: 'Already in library',
+  duplicate: 'Duplicate file',
+  unsupported: 'Not a PDF',
+  future_effective: 'New document starts in the future',
+}
+
+// A file the import will add as a version
+export interface PlannedVersion {
+  file_id: string
+  path: string                 // Path inside the ZIP or folder
+  original_name: string
+  size: number
+  effective_at: string | null  // From the manifest
+  current: boolean             // Becomes the current version of a new document
+  scheduled: boolean           // Dated after the current version; held until its effective date
+}
+
+// A new document, or a library document that gains pending versions
+export interface PlannedDocument {
+  key: string                  // Library document ID, or "new-N"; pass to `exclude` to leave it out
+  action: 'create' | 'update'
+  document_id: string | null
+  name: string
+  short_title: string | null
+  scope: PolicyScope | null
+  match: { score: number | null; signals: MatchSignal[] } | null  // Why files were grouped together
+  versions: PlannedVersion[]
+}
+
+export interface SkippedImportFile {
+  file_id: string | null
+  path: string
+  reason: ImportSkipReason
+  detail: string | null
+}
+
+// Dry-run report
+export interface ImportPlan {
+  documents: PlannedDocument[]
+  skipped: SkippedImportFile[]
+  warnings: Array<{ path: string | null; warning: string }>
+  stats: {
+    files: number
+    new_documents: number
+    updated_documents: number
+    versions: number
+    skipped: number
+  }
+}
+
+export interface ImportResult {
+  documents: Array<{
+    key: string
+    action: 'create' | 'update'
+    document_id: string | null
+    name: string
+    versions: number
+    error?: string
+  }>
+  new_documents: number
+  new_versions: number
+  excluded: number
+}
+
+export interface LibraryImport {
+  id: string
+  status: ImportStatus
+  source: { type: 'zip' | 'directory'; name: string }
+  has_manifest: boolean
+  file_count: number           // PDFs staged
+  created_by: { id: string; name: string }
+  created_at: string
+  planned_at?: string
+  plan: ImportPlan | null
+  error: string | null
+  committed_at?: string
+  result?: ImportResult
+}
+
+export interface CreateImportResponse {
+  import: LibraryImport
+  job: Job
+}
@@ -0,0 +1,24 @@
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed'
+
+export type JobType = 'version.diff' | 'version.summary' | 'rag.ingest' | 'rag.change_summary' | 'lineage.suggest' | 'references.extract' | 'import.plan'
+
+// Background work queued by an upload or publish; poll /jobs/:id until it finishes
+export interface Job {
+  id: string
+  type: JobType
+  document_id: string | null
+  version_id: string | null
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  progress: string | null  // Latest step reported by the job, e.g. "Comparing with the current version"
+  result: Record<string, unknown> | null
+  error: string | null
+  run_at: string           // Next attempt time while queued or retrying
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  finished_at: string | null
+}
+
+export type RagStatus = 'demo_mode' | 'queued' | 'ingested' | 'failed'
@@ -0,0 +1,80 @@
+import type { Job } from './job'
+
+// Stored direction: the source document <type> the target document
+export type RelationshipType = 'supersedes' | 'implements' | 'supplements' | 'references'
+
+// A relationship as seen from one of its documents; the inverse types are seen from the target
+export type RelationshipRole =
+  | RelationshipType
+  | 'superseded_by'
+  | 'implemented_by'
+  | 'supplemented_by'
+  | 'referenced_by'
+
+export type RelationshipStatus = 'suggested' | 'confirmed' | 'dismissed'
+
+export const relationshipRoleLabels: Record<RelationshipRole, string> = {
+  supersedes: 'Supersedes',
+  superseded_by: 'Superseded by',
+  implements: 'Implements',
+  implemented_by: 'Implemented by',
+  supplements: 'Supplements',
+  supplemented_by: 'Supplemented by',
+  references: 'References',
+  referenced_by: 'Referenced by',
+}
+
+// Relationships an admin can add from a document's page
+export const addableRoles: RelationshipRole[] = ['supersedes', 'superseded_by', 'implements', 'supplements', 'references']
+
+export interface RelatedDocument {
+  id: string
+  name: string
+  short_title: string | null
+}
+
+export interface DocumentRelationship {
+  id: string
+  source_document_id: string
+  target_document_id: string
+  type: RelationshipType
+  status: RelationshipStatus
+  origin: 'detected' | 'manual'
+  evidence: { version_id: string; text: string } | null  // Passage the suggestion was found in
+  created_by: { id: string; name: string } | null  // null for suggestions found by the text scan
+  created_at: string
+  decided_by: { id: string; name: string } | null
+  decided_at: string | null
+  // From the viewing document's side
+  related_document_id: string
+  role: RelationshipRole
+  related_document: RelatedDocument
+}
+
+export interface DocumentRelationshipsResponse {
+  document_id: string
+  relationships: DocumentRelationship[]
+  suggestions: DocumentRelationship[]  // Admins only
+}
+
+export interface LineageNode extends RelatedDocument {
+  depth: number  // Relationships away from the requested document
+  superseded: boolean
+}
+
+export interface LineageEdge {
+  id: string
+  source_document_id: string
+  target_document_id: string
+  type: RelationshipType
+}
+
+export interface LineageGraph {
+  document_id: string
+  nodes: LineageNode[]
+  edges: LineageEdge[]
+}
+
+export interface ScanResponse {
+  job: Job
+}
@@ -73,15 +73,23 @@ export const wings = [
   { value: '18 WG', label: '18th Wing', installation: 'Kadena' },
 ] as const
 
-// Get the hierarchy of scopes a user can access based on their location
-export function getAccessibleScopes(location: UserLocation): { level: ScopeLevel; value: string; label: string }[] {
+// Get the hierarchy of scopes a user can access based on their location.
+// Signed-out users have no location and, as on the server, only see DoD and DAF-wide policies.
+export function getAccessibleScopes(location: UserLocation | null): { level: ScopeLevel; value: string; label: string }[] {
   const scopes: { level: ScopeLevel; value: string; label: string }[] = [
     { level: 'dod', value: 'DoD', label: 'DoD-wide' },
     { level: 'daf', value: 'DAF', label: 'DAF-wide' },
+  ]
+
+  if (!location) {
+    return scopes
+  }
+
+  scopes.push(
     { level: 'majcom', value: location.majcom, label: `${location.majcom} (MAJCOM)` },
     { level: 'installation', value: location.installation, label: `${location.installation} (Installation)` },
     { level: 'wing', value: location.wing, label: `${location.wing} (Wing)` },
-  ]
+  )
 
   if (location.group) {
     scopes.push({ level: 'group', value: location.group, label: `${location.group} (Group)` })
@@ -95,13 +103,20 @@ export function getAccessibleScopes(location: UserLocation): { level: ScopeLevel
 }
 
 // Check if a user can see a policy based on their location and the policy's scope
-export function canAccessPolicy(userLocation: UserLocation, policyScope: PolicyScope): boolean {
+export function canAccessPolicy(userLocation: UserLocation | null, policyScope: PolicyScope): boolean {
   switch (policyScope.level) {
     case 'dod':
     case 'daf':
       // Everyone sees DoD and DAF-wide policies
       return true
+  }
+
+  // Signed-out users see nothing narrower
+  if (!userLocation) {
+    return false
+  }
 
+  switch (policyScope.level) {
     case 'majcom':
       // Only see MAJCOM policies if user is in that MAJCOM
       return policyScope.value === userLocation.majcom
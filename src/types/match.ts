@@ -1,6 +1,6 @@
 // Match signal types for version detection
 export interface MatchSignal {
-  type: 'supersedes' | 'document_number' | 'filename' | 'title' | 'opr'
+  type: 'supersedes' | 'document_number' | 'filename' | 'title' | 'opr' | 'manifest'
   weight: number
   similarity?: number
   detail?: string
@@ -41,6 +41,8 @@ export function getSignalDescription(signal: MatchSignal): string {
       return `Title ${Math.round((signal.similarity || 0) * 100)}% similar`
     case 'opr':
       return 'Same OPR office'
+    case 'manifest':
+      return signal.detail || 'Named in the import manifest'
     default:
       return 'Unknown signal'
   }
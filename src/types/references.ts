@@ -0,0 +1,51 @@
+import type { Job } from './job'
+import type { SupersedingDocument } from './chat'
+import type { RelatedDocument } from './lineage'
+
+// Problems a citation of another policy can have
+export type ReferenceIssue = 'missing' | 'superseded' | 'paragraph_missing' | 'target_updated'
+
+export const referenceIssueLabels: Record<ReferenceIssue, string> = {
+  missing: 'Not in library',
+  superseded: 'Superseded',
+  paragraph_missing: 'Paragraph not found',
+  target_updated: 'Cited policy updated',
+}
+
+// A publication cited by a policy's current version
+export interface PolicyReference {
+  publication: string        // As written, e.g. "DAFI 36-3003"
+  family: string | null      // Series, with AFI and DAFI (and so on) counted as one
+  number: string
+  paragraph: string | null   // "4.2", "Table 3.1" or "Attachment 2"
+  page: number
+  text: string               // Passage the citation appears in
+  target_document_id: string | null   // Library document cited when last reviewed
+  target_version_id: string | null    // Its current version at that time
+  target: (RelatedDocument & { current_version_id: string }) | null
+  superseded_by: SupersedingDocument | null  // Set when a confirmed relationship says the cited policy was replaced
+  issues: ReferenceIssue[]
+}
+
+export interface ReferenceReportDocument {
+  document_id: string
+  name: string
+  short_title: string | null
+  version_id: string
+  extracted_at: string
+  references: PolicyReference[]  // Only citations with issues
+}
+
+export interface ReferenceReport {
+  documents: ReferenceReportDocument[]
+  stats: Record<ReferenceIssue, number> & {
+    references: number
+    documents_checked: number
+    documents_unindexed: number  // Current versions not scanned yet
+  }
+  generated_at: string
+}
+
+export interface ReferenceScanResponse {
+  jobs: Job[]
+}
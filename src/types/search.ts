@@ -0,0 +1,39 @@
+import type { PolicyScope, ScopeLevel } from './location'
+
+// Where a version stands in its document's history; 'past' is a superseded published version
+export type SearchVersionStatus = 'current' | 'past' | 'scheduled'
+
+// Passage from the server's local keyword index (GET /search)
+export interface SearchResult {
+  content: string          // Full passage text
+  snippet: string          // Sentence that best matches the query
+  score: number            // 0..1, derived from the BM25 score
+  section: string          // Paragraph ID, e.g. "4.2" or "Front matter"
+  page_number: number
+  document_id: string
+  document_name: string
+  short_title: string | null
+  scope: PolicyScope | null
+  version_id: string
+  version_status: SearchVersionStatus
+  is_current: boolean
+  updated_at?: string
+  updated_by?: string
+  metadata: { filename: string; page_number: number }
+}
+
+export interface SearchResponse {
+  query: string
+  terms: string[]          // Query terms after stopword removal, for highlighting
+  results: SearchResult[]
+  total: number
+}
+
+// Narrow a search; versions default to current only
+export interface SearchFilters {
+  status?: SearchVersionStatus | 'all'
+  scopeLevel?: ScopeLevel
+  series?: string          // Policy series, e.g. "36" for 36-xxxx
+  from?: string            // Version date range, YYYY-MM-DD
+  to?: string
+}
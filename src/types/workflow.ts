@@ -0,0 +1,63 @@
+export interface WorkflowReviewer {
+  id: string
+  name: string
+}
+
+// One sign-off step; an empty reviewers list means any admin may decide it
+export interface WorkflowStage {
+  id: string
+  name: string
+  reviewers: WorkflowReviewer[]
+}
+
+export interface Workflow {
+  id: string
+  name: string
+  is_default: boolean
+  stages: WorkflowStage[]
+  created_at?: string
+  updated_at?: string
+}
+
+export interface SaveWorkflowRequest {
+  name: string
+  is_default?: boolean
+  stages: { name: string; reviewers: string[] }[]
+}
+
+export type ReviewDecisionType = 'approved' | 'rejected'
+
+export interface ReviewDecision {
+  stage_id: string
+  stage_name: string
+  decision: ReviewDecisionType
+  reviewer: WorkflowReviewer
+  comment: string | null
+  at: string
+}
+
+// Workflow snapshot carried by an uploaded version while it moves through review
+export interface VersionReview {
+  workflow_id: string
+  workflow_name: string
+  stages: WorkflowStage[]
+  stage_index: number
+  decisions: ReviewDecision[]
+  submitted_at: string
+}
+
+// Entry in the /reviews queue
+export interface PendingReview {
+  document_id: string
+  document_name: string
+  short_title: string | null
+  current_version_id: string
+  version_id: string
+  uploaded_by: string
+  created_at: string
+  workflow_name: string
+  stage_index: number
+  stage_count: number
+  stage: WorkflowStage | null
+  can_review: boolean
+}
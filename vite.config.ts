@@ -52,6 +52,109 @@ export default defineConfig({
         secure: false,
         rewrite: (path) => path.replace(/^\/api/, '/v1'),
       },
+      // Sign-in and session checks go to local server
+      '/api/projects/default/regsync/auth': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Admin roster goes to local server
+      '/api/projects/default/regsync/admins': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Audit log goes to local server
+      '/api/projects/default/regsync/audit': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Review workflows and the pending review queue go to local server
+      '/api/projects/default/regsync/workflows': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      '/api/projects/default/regsync/reviews': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Background job status (upload processing) goes to local server
+      '/api/projects/default/regsync/jobs': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Policy Assistant retrieval is scope-filtered by the local server
+      '/api/projects/default/regsync/retrieve': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Answer grounding checks run on the local server
+      '/api/projects/default/regsync/verify': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Saved assistant conversations and their read-only share links
+      '/api/projects/default/regsync/conversations': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      '/api/projects/default/regsync/shared': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Answer ratings and the admin feedback review queue
+      '/api/projects/default/regsync/feedback': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Confirming and removing policy lineage relationships
+      '/api/projects/default/regsync/relationships': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Cross-reference report and library scan
+      '/api/projects/default/regsync/references': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Bulk import of a policy library
+      '/api/projects/default/regsync/imports': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
+      // Keyword search over policy text (works without LlamaFarm)
+      '/api/projects/default/regsync/search': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+        rewrite: (path) => path.replace(/^\/api/, '/v1'),
+      },
       // Policy PDF files served from local server
       '/api/projects/default/regsync/policies': {
         target: 'http://localhost:3001',